@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Mic, Upload, Play, Pause, Settings, FileAudio, BarChart3, Radar, Volume2, VolumeX } from 'lucide-react';
 import SonarView from './components/SonarView';
 import AudioRecorder from './components/AudioRecorder';
@@ -7,111 +7,211 @@ import DecibelChart from './components/DecibelChart';
 import SettingsPanel from './components/SettingsPanel';
 import AudioAnalyzer from './components/AudioAnalyzer';
 import ReportGenerator from './components/ReportGenerator';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import SpectrogramView from './components/SpectrogramView';
+import WaveformTimeline from './components/WaveformTimeline';
+import SpeakerPanel from './components/SpeakerPanel';
+import EnfView from './components/EnfView';
+import EnhancementPanel from './components/EnhancementPanel';
+import { AudioSource, TimeMarker, TimeRegion } from './types/audio';
+import {
+  DEFAULT_METER_OPTIONS,
+  FrequencyWeighting,
+  MEASURE_LABELS,
+  MeterMeasure,
+  MeterOptions,
+  MeterReading,
+  TimeWeighting,
+  readMeasure
+} from './lib/metering';
+import { CalibrationProfile, levelUnit } from './lib/calibration';
+import { loadOperator, saveOperator } from './lib/custody';
+import { StoredBuffer, bufferStore, mixToMono } from './lib/bufferStore';
+import { MeterSource, audioEngine } from './lib/audioEngine';
+import { chronological, pipelineOptionsFor } from './lib/analysisPipeline';
+import {
+  DEFAULT_VAD_OPTIONS,
+  VAD_AGGRESSIVENESS_LABELS,
+  VadAggressiveness,
+  VadResult,
+  detectSpeech
+} from './lib/vad';
+import { Diarization, isSpeakerSource, speakerSources, speakerTurns } from './lib/diarization';
+import { ImpulseAnalysis, ImpulseEvent } from './lib/impulses';
+import { Enhancement } from './lib/enhancement';
+import { Settings as AppSettings, settingsStore, sourceShown } from './lib/settings';
+import { formatDistance } from './lib/distance';
 
 function App() {
   const [isRecording, setIsRecording] = useState(false);
   const [audioSources, setAudioSources] = useState<AudioSource[]>([]);
-  const [currentDecibel, setCurrentDecibel] = useState(0);
+  const [meterReading, setMeterReading] = useState<MeterReading | null>(null);
+  const [meterMeasure, setMeterMeasure] = useState<MeterMeasure>('weighted');
+  const [meterOptions, setMeterOptions] = useState<MeterOptions>(DEFAULT_METER_OPTIONS);
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showSonar, setShowSonar] = useState(true);
   const [analysisData, setAnalysisData] = useState<any>(null);
   const [datasetSize, setDatasetSize] = useState(0);
   const [activeTab, setActiveTab] = useState<'record' | 'upload' | 'analyze'>('record');
-  const [currentAudioFile, setCurrentAudioFile] = useState<string | null>(null);
-  const [isPlayingAudio, setIsPlayingAudio] = useState(false);
+  const [meterSource, setMeterSource] = useState<MeterSource | null>(null);
+  const [operator, setOperator] = useState(loadOperator);
+  const [buffers, setBuffers] = useState<StoredBuffer[]>(bufferStore.list);
+  const [activeBufferId, setActiveBufferId] = useState<string | null>(null);
+  const [selection, setSelection] = useState<TimeRegion | null>(null);
+  const [loop, setLoop] = useState(false);
+  const [speech, setSpeech] = useState<VadResult | null>(null);
+  const [diarizations, setDiarizations] = useState<Record<string, Diarization>>({});
+  const [marker, setMarker] = useState<TimeMarker | null>(null);
+  const [enhancements, setEnhancements] = useState<Record<string, Enhancement>>({});
+  const [settings, setSettings] = useState<AppSettings>(settingsStore.get);
+  // Settings in effect when the current sources were detected
+  const [detectionSettings, setDetectionSettings] = useState<AppSettings | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    audioEngine.setMeterOptions(meterOptions);
+  }, [meterOptions]);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyzerRef = useRef<AnalyserNode | null>(null);
-  const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  useEffect(() => settingsStore.subscribe(() => setSettings(settingsStore.get())), []);
 
   useEffect(() => {
-    // Initialize Web Audio API
-    if (typeof window !== 'undefined') {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-  }, []);
-
-  const startAudioAnalysis = (audioUrl: string) => {
-    if (!audioContextRef.current) return;
-    
-    // Create audio element for uploaded files
-    const audio = new Audio(audioUrl);
-    audioElementRef.current = audio;
-    
-    // Set up audio analysis
-    const source = audioContextRef.current.createMediaElementSource(audio);
-    analyzerRef.current = audioContextRef.current.createAnalyser();
-    source.connect(analyzerRef.current);
-    analyzerRef.current.connect(audioContextRef.current.destination);
-    
-    analyzerRef.current.fftSize = 2048;
-    
-    // Start real-time analysis
-    startRealtimeAnalysis();
-    
-    // Play audio
-    audio.play();
-    setIsPlayingAudio(true);
-    
-    audio.onended = () => {
-      setIsPlayingAudio(false);
-      setCurrentDecibel(0);
+    audioEngine.setFilterChain(settings.filterChain);
+  }, [settings.filterChain]);
+
+  useEffect(() => audioEngine.subscribeMeter(setMeterReading), []);
+
+  useEffect(() => audioEngine.subscribe(() => setMeterSource(audioEngine.meterSource)), []);
+
+  useEffect(() => bufferStore.subscribe(() => setBuffers(bufferStore.list())), []);
+
+  // Playback uses the enhanced rendering of whatever is loaded, when asked to and one exists
+  useEffect(() => {
+    const transport = audioEngine.transport;
+    const apply = () => {
+      const enhancement = transport.loadedId ? enhancements[transport.loadedId] : undefined;
+      transport
+        .audition(settings.noiseSuppression && enhancement ? enhancement.buffer : null)
+        .catch(error => console.error('Error switching playback:', error));
     };
-  };
+    apply();
+    return transport.subscribe(apply);
+  }, [settings.noiseSuppression, enhancements]);
 
-  const startRealtimeAnalysis = () => {
-    if (!analyzerRef.current) return;
-    
-    const bufferLength = analyzerRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    
-    const analyze = () => {
-      if (!analyzerRef.current) return;
-      
-      analyzerRef.current.getByteFrequencyData(dataArray);
-      
-      // Calculate decibel level
-      const sum = dataArray.reduce((acc, val) => acc + val, 0);
-      const average = sum / bufferLength;
-      const decibel = 20 * Math.log10(average / 255) + 100;
-      
-      setCurrentDecibel(Math.max(0, decibel));
-      
-      if (isRecording || isPlayingAudio) {
-        requestAnimationFrame(analyze);
-      }
+  // The most recently decoded file is shown unless another one was picked
+  const activeBuffer = buffers.find(b => b.id === activeBufferId) ?? buffers[buffers.length - 1] ?? null;
+
+  const activeDiarization = activeBuffer ? diarizations[activeBuffer.id] ?? null : null;
+  const activeEnhancement = activeBuffer ? enhancements[activeBuffer.id] ?? null : null;
+
+  useEffect(() => {
+    setSpeech(null);
+    if (!activeBuffer) return;
+    let cancelled = false;
+    detectSpeech(mixToMono(activeBuffer), activeBuffer.sampleRate, { ...DEFAULT_VAD_OPTIONS, aggressiveness: settings.vadAggressiveness })
+      .then(result => {
+        if (!cancelled) setSpeech(result);
+      })
+      .catch(error => console.error('Error detecting speech:', error));
+    return () => {
+      cancelled = true;
     };
-    
-    analyze();
-  };
+  }, [activeBuffer, settings.vadAggressiveness]);
+
   const handleAudioAnalysis = (sources: AudioSource[]) => {
-    setAudioSources(sources);
+    // Speakers already identified in the analysed files stay in the list
+    const files = new Set(sources.map(s => s.fileId));
+    setAudioSources([
+      ...sources,
+      ...Object.values(diarizations).filter(d => files.has(d.bufferId)).flatMap(speakerSources)
+    ]);
+    setDetectionSettings(settings);
     
     // Calculate dataset size
     const totalSize = sources.reduce((acc, source) => acc + (source.frequency * 0.001), 0);
     setDatasetSize(totalSize);
   };
 
-  const handleAudioFileReady = (audioUrl: string) => {
-    setCurrentAudioFile(audioUrl);
-    startAudioAnalysis(audioUrl);
+  // Classification covers the analysed sources only, which may be a subset
+  const handleSourcesClassified = (classified: AudioSource[]) => {
+    setAudioSources(prev => prev.map(source => {
+      const match = classified.find(c => c.id === source.id);
+      return match ? { ...source, type: match.type, classification: match.classification } : source;
+    }));
   };
-  const handleDecibelUpdate = (db: number) => {
-    setCurrentDecibel(db);
+
+  // Speakers replace the previous speakers of their file, keeping visibility
+  const handleDiarizationChange = (diarization: Diarization) => {
+    setDiarizations(prev => ({ ...prev, [diarization.bufferId]: diarization }));
+    setAudioSources(prev => {
+      const previous = prev.filter(s => s.fileId === diarization.bufferId && isSpeakerSource(s));
+      return [
+        ...prev.filter(s => !previous.includes(s)),
+        ...speakerSources(diarization).map(source => ({
+          ...source,
+          visible: previous.find(s => s.id === source.id)?.visible ?? true
+        }))
+      ];
+    });
+  };
+
+  // A finding picked elsewhere is shown and cued on the timeline
+  const handleFindingSelect = (next: TimeMarker) => {
+    const buffer = bufferStore.get(next.bufferId);
+    if (!buffer) return;
+    setActiveBufferId(buffer.id);
+    setMarker(next);
+    audioEngine.transport.load(buffer);
+    audioEngine.transport.seek(next.time).catch(error => console.error('Error seeking playback:', error));
+    timelineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
+  const handleAnalysisComplete = (data: Record<string, unknown>) => {
+    setAnalysisData(data);
+    if (!settings.autoExport) return;
+    // Detector curves and spectra are left out, as in the report
+    const blob = new Blob(
+      [JSON.stringify({ ...data, tamper: undefined, encoding: undefined, settings }, null, 2)],
+      { type: 'application/json' }
+    );
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `audio-forensic-analysis-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleNoiseSuppressionChange = (enabled: boolean) => {
+    settingsStore.put({ ...settings, noiseSuppression: enabled });
+  };
+
+  const handleEnhancementChange = (enhancement: Enhancement) => {
+    setEnhancements(prev => ({ ...prev, [enhancement.log.bufferId]: enhancement }));
+  };
+
+  const handleOperatorChange = (name: string) => {
+    setOperator(name);
+    saveOperator(name);
+  };
+
+  // The live meter uses the active profile only while it is reading that input
+  const liveLevel = readMeasure(meterReading, meterMeasure, meterSource === 'input' ? calibration?.offsetDb ?? null : null);
+  const levelFraction = liveLevel.value === null
+    ? 0
+    : (liveLevel.value - liveLevel.range[0]) / (liveLevel.range[1] - liveLevel.range[0]);
+
+  // Sources within the operator's level, distance and sound-type limits
+  const shownSources = audioSources.filter(source => sourceShown(source, settings));
+
+  const impulses: ImpulseEvent[] = (analysisData?.impulses ?? []).flatMap((a: ImpulseAnalysis) => a.impulses);
+  const playbackMarkers = meterSource === 'playback'
+    ? impulses
+        .filter(impulse => impulse.bufferId === audioEngine.transport.loadedId)
+        .map(impulse => ({ time: impulse.peakTime, label: impulse.category }))
+    : [];
+
   const toggleSoundVisibility = (soundId: string) => {
     setAudioSources(prev => 
       prev.map(source => 
@@ -138,6 +238,14 @@ function App() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <input
+                type="text"
+                value={operator}
+                onChange={(e) => handleOperatorChange(e.target.value)}
+                placeholder="Operator name"
+                className={`p-2 border rounded-lg text-sm ${operator ? 'border-gray-300' : 'border-amber-400 bg-amber-50'}`}
+                title="Recorded in the chain-of-custody log for every file handled"
+              />
               <div className="bg-purple-100 px-4 py-2 rounded-lg">
                 <span className="text-purple-800 font-semibold">
                   Dataset: {datasetSize.toFixed(2)} MB
@@ -188,7 +296,10 @@ function App() {
                 <AudioRecorder
                   onRecordingChange={setIsRecording}
                   onAudioAnalysis={handleAudioAnalysis}
-                  onDecibelUpdate={handleDecibelUpdate}
+                  calibration={calibration}
+                  onCalibrationChange={setCalibration}
+                  operator={operator}
+                  pipelineOptions={pipelineOptionsFor(settings)}
                 />
               )}
               
@@ -196,41 +307,110 @@ function App() {
                 <AudioUploader
                   onAudioAnalysis={handleAudioAnalysis}
                   onDatasetSizeChange={setDatasetSize}
-                  onAudioFileReady={handleAudioFileReady}
+                  operator={operator}
+                  pipelineOptions={pipelineOptionsFor(settings)}
                 />
               )}
               
               {activeTab === 'analyze' && (
                 <AudioAnalyzer
                   audioSources={audioSources}
-                  onAnalysisComplete={setAnalysisData}
+                  onAnalysisComplete={handleAnalysisComplete}
+                  onSourcesClassified={handleSourcesClassified}
+                  selection={selection}
+                  onFindingSelect={handleFindingSelect}
+                  mlPredictions={settings.mlPredictions}
+                  classifierOptions={settings.classifier}
+                  onClassifierOptionsChange={classifier => settingsStore.put({ ...settings, classifier })}
                 />
               )}
             </div>
 
             {/* Real-time Decibel Monitor */}
             <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Live Audio Monitor</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Live Audio Monitor</h3>
+                {meterSource && (
+                  <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full animate-pulse">
+                    {meterSource === 'input' ? 'Input' : 'Playback'}
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2 mb-4">
+                <select
+                  value={meterMeasure}
+                  onChange={(e) => setMeterMeasure(e.target.value as MeterMeasure)}
+                  className="p-2 border border-gray-300 rounded-lg text-sm"
+                  title="Measure"
+                >
+                  {Object.entries(MEASURE_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={meterOptions.frequencyWeighting}
+                  onChange={(e) => setMeterOptions(prev => ({ ...prev, frequencyWeighting: e.target.value as FrequencyWeighting }))}
+                  className="p-2 border border-gray-300 rounded-lg text-sm"
+                  title="Frequency weighting"
+                >
+                  <option value="A">A-weighting</option>
+                  <option value="C">C-weighting</option>
+                  <option value="Z">Z (flat)</option>
+                </select>
+                <select
+                  value={meterOptions.timeWeighting}
+                  onChange={(e) => setMeterOptions(prev => ({ ...prev, timeWeighting: e.target.value as TimeWeighting }))}
+                  className="p-2 border border-gray-300 rounded-lg text-sm"
+                  title="Time weighting"
+                >
+                  <option value="fast">Fast (125 ms)</option>
+                  <option value="slow">Slow (1 s)</option>
+                  <option value="impulse">Impulse (35 ms)</option>
+                </select>
+              </div>
               <div className="text-center">
-                <div className="text-4xl font-bold text-purple-600 mb-2">
-                  {currentDecibel.toFixed(1)} dB
+                <div className="text-4xl font-bold text-purple-600 mb-1">
+                  {liveLevel.value === null ? '—' : liveLevel.value.toFixed(1)}
                 </div>
+                <div className="text-sm font-medium text-purple-800 mb-2">{liveLevel.unit}</div>
                 <div className="w-full bg-gray-200 rounded-full h-3 mb-4">
                   <div
                     className="bg-gradient-to-r from-green-400 via-yellow-400 to-red-500 h-3 rounded-full transition-all duration-200"
-                    style={{ width: `${Math.min((currentDecibel / 120) * 100, 100)}%` }}
+                    style={{ width: `${Math.max(0, Math.min(levelFraction * 100, 100))}%` }}
                   ></div>
                 </div>
-                <DecibelChart currentDecibel={currentDecibel} />
+                {meterReading && (
+                  <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 mb-2">
+                    <div>{meterReading.peakDbfs.toFixed(1)} dBFS pk</div>
+                    <div>{meterReading.truePeakDbtp.toFixed(1)} dBTP</div>
+                    <div>
+                      {meterReading.integratedLufs === null ? '—' : meterReading.integratedLufs.toFixed(1)} LUFS I
+                    </div>
+                  </div>
+                )}
+                <DecibelChart
+                  currentDecibel={liveLevel.value}
+                  unit={liveLevel.unit}
+                  range={liveLevel.range}
+                  time={meterSource === 'playback' ? audioEngine.transport.currentTime : null}
+                  markers={playbackMarkers}
+                />
               </div>
             </div>
 
             {/* Sound Sources Control */}
             {audioSources.length > 0 && (
               <div className="bg-white rounded-xl shadow-lg p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Detected Sounds</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Detected Sounds</h3>
+                  {shownSources.length < audioSources.length && (
+                    <span className="text-xs text-gray-500">
+                      {audioSources.length - shownSources.length} hidden by settings
+                    </span>
+                  )}
+                </div>
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {audioSources.map((source) => (
+                  {chronological(shownSources).map((source) => (
                     <div key={source.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                       <div className="flex items-center space-x-3">
                         <div
@@ -240,7 +420,8 @@ function App() {
                         <div>
                           <div className="font-medium text-gray-900">{source.name}</div>
                           <div className="text-sm text-gray-500">
-                            {source.decibel.toFixed(1)} dB • {source.distance.toFixed(1)}m
+                            {source.decibel.toFixed(1)} {levelUnit(!!source.calibrationId)} (pk {source.peakDecibel.toFixed(1)}) •{' '}
+                            {source.frequency.toFixed(0)} Hz • {formatDistance(source)}
                           </div>
                         </div>
                       </div>
@@ -268,12 +449,14 @@ function App() {
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-xl font-bold text-gray-900">Interactive Sonar View</h2>
                   <div className="text-sm text-purple-600 font-medium">
-                    {audioSources.filter(s => s.visible).length} active sources
+                    {shownSources.filter(s => s.visible).length} active sources
                   </div>
                 </div>
                 <SonarView
-                  audioSources={audioSources.filter(source => source.visible)}
+                  audioSources={shownSources.filter(source => source.visible)}
+                  impulses={impulses}
                   isRecording={isRecording}
+                  showDistances={settings.showDistances}
                 />
               </div>
             ) : (
@@ -283,6 +466,13 @@ function App() {
                   audioSources={audioSources}
                   analysisData={analysisData}
                   datasetSize={datasetSize}
+                  calibration={calibration}
+                  operator={operator}
+                  selection={selection}
+                  diarizations={Object.values(diarizations)}
+                  enhancements={Object.values(enhancements).map(e => e.log)}
+                  settings={settings}
+                  detectionSettings={detectionSettings}
                 />
               </div>
             )}
@@ -296,6 +486,99 @@ function App() {
                 {showSonar ? 'Show Report' : 'Show Sonar View'}
               </button>
             </div>
+
+            {/* Waveform Timeline */}
+            <div ref={timelineRef} className="bg-white rounded-xl shadow-lg p-6 mt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">Timeline</h2>
+                <div className="flex items-center space-x-2">
+                  {activeBuffer && (
+                    <select
+                      value={settings.vadAggressiveness}
+                      onChange={(e) => settingsStore.put({ ...settings, vadAggressiveness: Number(e.target.value) as VadAggressiveness })}
+                      className="p-2 border border-gray-300 rounded-lg text-sm"
+                      title="Voice activity detection: stricter settings reject more non-speech"
+                    >
+                      {Object.entries(VAD_AGGRESSIVENESS_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>Speech: {label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {buffers.length > 1 && (
+                    <select
+                      value={activeBuffer?.id}
+                      onChange={(e) => setActiveBufferId(e.target.value)}
+                      className="p-2 border border-gray-300 rounded-lg text-sm max-w-xs"
+                    >
+                      {buffers.map(b => (
+                        <option key={b.id} value={b.id}>{b.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+              {activeBuffer && (
+                <div className="text-sm text-gray-600 mb-3">
+                  {speech ? (
+                    speech.segments.length > 0 ? (
+                      <>
+                        Speech {(speech.speechRatio * 100).toFixed(1)}% ({speech.speechSeconds.toFixed(1)} of{' '}
+                        {speech.duration.toFixed(1)} s) · {speech.segments.length} segments · mean{' '}
+                        {speech.meanSegmentSeconds.toFixed(2)} s · longest {speech.longestSegmentSeconds.toFixed(2)} s
+                      </>
+                    ) : (
+                      'No speech detected'
+                    )
+                  ) : (
+                    'Detecting speech...'
+                  )}
+                </div>
+              )}
+              <WaveformTimeline
+                buffer={activeBuffer}
+                transport={audioEngine.transport}
+                selection={selection}
+                onSelectionChange={setSelection}
+                loop={loop}
+                onLoopChange={setLoop}
+                speechSegments={speech?.segments}
+                speakers={activeDiarization?.speakers}
+                speakerTurns={activeDiarization ? speakerTurns(activeDiarization) : undefined}
+                marker={marker}
+              />
+              {activeBuffer && (
+                <SpeakerPanel
+                  buffer={activeBuffer}
+                  speechSegments={speech?.segments ?? null}
+                  diarization={activeDiarization}
+                  onDiarizationChange={handleDiarizationChange}
+                />
+              )}
+              {activeBuffer && (
+                <EnhancementPanel
+                  key={activeBuffer.id}
+                  buffer={activeBuffer}
+                  selection={selection}
+                  enhancement={activeEnhancement}
+                  onEnhancementChange={handleEnhancementChange}
+                  listenEnhanced={settings.noiseSuppression}
+                  onListenEnhancedChange={handleNoiseSuppressionChange}
+                  operator={operator}
+                />
+              )}
+            </div>
+
+            {/* Spectrogram */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Spectrogram</h2>
+              <SpectrogramView buffer={activeBuffer} selection={selection} marker={marker} />
+            </div>
+
+            {/* Electrical Network Frequency */}
+            <div className="bg-white rounded-xl shadow-lg p-6 mt-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">ENF Analysis</h2>
+              <EnfView buffer={activeBuffer} transport={audioEngine.transport} />
+            </div>
           </div>
         </div>
       </div>
@@ -305,6 +588,9 @@ function App() {
         <SettingsPanel
           audioSources={audioSources}
           onToggleSound={toggleSoundVisibility}
+          settings={settings}
+          onSettingsChange={settingsStore.put}
+          enhancementAvailable={activeEnhancement !== null}
           onClose={() => setShowSettings(false)}
         />
       )}
@@ -1,78 +1,209 @@
-import React, { useState, useEffect } from 'react';
-import { Brain, Zap, Target, TrendingUp } from 'lucide-react';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { Brain, Zap, Target, TrendingUp, AlertTriangle } from 'lucide-react';
+import { AudioSource, TimeMarker, TimeRegion } from '../types/audio';
+import { formatTimestamp, overlapsRegion } from '../lib/analysisPipeline';
+import { FeatureFrames, SourceFeatures, extractSourceFeatures, featureVector } from '../lib/features';
+import { bufferStore, mixToMono } from '../lib/bufferStore';
+import { TamperAnalysis, analyzeTampering } from '../lib/tamper';
+import { EncodingHistory, analyzeEncoding } from '../lib/encoding';
+import { custodyLog } from '../lib/custody';
+import { ImpulseAnalysis, detectImpulses } from '../lib/impulses';
+import { IntegrityReport, countFindings, findingsBetween, integrityStatus, scanIntegrity } from '../lib/integrity';
+import {
+  ClassifierOptions,
+  METRIC_LABELS,
+  classify,
+  classifyImpulse,
+  crossValidate,
+  referenceLibrary,
+  soundTypeFor
+} from '../lib/classifier';
+import FeatureView from './FeatureView';
+import ReferenceLibrary from './ReferenceLibrary';
+import TamperView from './TamperView';
+import EncodingView from './EncodingView';
 
 interface AudioAnalyzerProps {
   audioSources: AudioSource[];
   onAnalysisComplete: (data: any) => void;
+  onSourcesClassified: (sources: AudioSource[]) => void;
+  selection: TimeRegion | null;
+  onFindingSelect: (marker: TimeMarker) => void;
+  // Classify sources and impulses; off, sources keep their detected type
+  mlPredictions: boolean;
+  classifierOptions: ClassifierOptions;
+  onClassifierOptionsChange: (options: ClassifierOptions) => void;
+}
+
+// An analysis stage that threw; the run carries on without its results
+interface StageError {
+  stage: string;
+  message: string;
 }
 
 const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
-  audioSources,
-  onAnalysisComplete
+  audioSources: allSources,
+  onAnalysisComplete,
+  onSourcesClassified,
+  selection,
+  onFindingSelect,
+  mlPredictions,
+  classifierOptions,
+  onClassifierOptionsChange
 }) => {
+  // With a selection, only the sources inside it are analysed
+  const audioSources = selection ? allSources.filter(s => overlapsRegion(s, selection)) : allSources;
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [currentStage, setCurrentStage] = useState('');
   const [analysisResults, setAnalysisResults] = useState<any>(null);
+  // Per-frame features of each analysed file, kept for CSV export
+  const [featureFrames, setFeatureFrames] = useState<Map<string, FeatureFrames>>(new Map());
+  const [detectEdits, setDetectEdits] = useState(true);
+  const featuresRef = useRef<SourceFeatures[]>([]);
+  // Sources as classified by the current run
+  const classifiedRef = useRef<AudioSource[]>([]);
+  const tamperRef = useRef<TamperAnalysis[]>([]);
+  const encodingRef = useRef<EncodingHistory[]>([]);
+  const integrityRef = useRef<IntegrityReport[]>([]);
+  const impulsesRef = useRef<ImpulseAnalysis[]>([]);
 
-  const analysisStages = [
-    { name: 'Preprocessing Audio', duration: 1000 },
-    { name: 'CRNN Feature Extraction', duration: 1500 },
-    { name: 'Deep Learning Classification', duration: 2000 },
-    { name: 'KNN Distance Calculation', duration: 1200 },
-    { name: 'Noise Pattern Recognition', duration: 800 },
-    { name: 'Generating Report', duration: 500 }
+  // Each stage reports its own progress; `duration` weights its share of the bar
+  const analysisStages: {
+    name: string;
+    duration: number;
+    run: (onProgress: (fraction: number) => void) => Promise<void>;
+  }[] = [
+    {
+      name: 'Feature Extraction',
+      duration: 2500,
+      run: async onProgress => {
+        const { frames, summaries } = await extractSourceFeatures(audioSources, undefined, onProgress);
+        featuresRef.current = summaries;
+        setFeatureFrames(frames);
+      }
+    },
+    ...(mlPredictions ? [{
+      name: 'KNN Classification',
+      duration: 1200,
+      run: async () => {
+        const library = referenceLibrary.list();
+        classifiedRef.current = audioSources.map(source => {
+          const entry = featuresRef.current.find(f => f.sourceId === source.id);
+          const classification = entry && classify(featureVector(entry.summary), library, classifierOptions);
+          return classification
+            ? { ...source, type: soundTypeFor(classification.label), classification }
+            : source;
+        });
+        if (classifiedRef.current.some(s => s.classification)) onSourcesClassified(classifiedRef.current);
+      }
+    }] : []),
+    {
+      name: 'Integrity Scan',
+      duration: 1000,
+      run: async onProgress => {
+        const buffers = bufferStore.list().filter(buffer => audioSources.some(s => s.fileId === buffer.id));
+        for (const [index, buffer] of buffers.entries()) {
+          const report = await scanIntegrity(buffer, fraction => onProgress((index + fraction) / buffers.length));
+          if (selection?.bufferId === buffer.id) {
+            const findings = findingsBetween(report, selection.start, selection.end);
+            integrityRef.current.push({ ...report, findings, counts: countFindings(findings), status: integrityStatus(findings) });
+          } else {
+            integrityRef.current.push(report);
+          }
+        }
+      }
+    },
+    {
+      name: 'Impulse Detection',
+      duration: 1000,
+      run: async onProgress => {
+        // Without predictions every impulse stays uncategorised
+        const library = mlPredictions ? referenceLibrary.list() : [];
+        const buffers = bufferStore.list().filter(buffer => audioSources.some(s => s.fileId === buffer.id));
+        for (const [index, buffer] of buffers.entries()) {
+          const analysis = await detectImpulses(mixToMono(buffer), buffer.sampleRate, buffer.id, fraction =>
+            onProgress((index + fraction) / buffers.length)
+          );
+          const impulses = analysis.impulses
+            .filter(impulse => selection?.bufferId !== buffer.id || (impulse.time >= selection.start && impulse.time <= selection.end))
+            .map(impulse => ({ ...impulse, ...classifyImpulse(impulse.vector, library, classifierOptions) }));
+          impulsesRef.current.push({ ...analysis, impulses });
+        }
+      }
+    },
+    ...(detectEdits ? [{
+      name: 'Edit Detection',
+      duration: 2500,
+      run: async (onProgress: (fraction: number) => void) => {
+        const buffers = bufferStore.list().filter(buffer => audioSources.some(s => s.fileId === buffer.id));
+        for (const [index, buffer] of buffers.entries()) {
+          const analysis = await analyzeTampering(mixToMono(buffer), buffer.sampleRate, buffer.id, undefined, fraction =>
+            onProgress((index + fraction) / buffers.length)
+          );
+          // With a selection, only findings inside it are reported
+          tamperRef.current.push(selection?.bufferId === buffer.id
+            ? { ...analysis, findings: analysis.findings.filter(f => f.time >= selection.start && f.time <= selection.end) }
+            : analysis);
+        }
+      }
+    }] : []),
+    {
+      name: 'Encoding History',
+      duration: 1500,
+      run: async onProgress => {
+        // Whole files: container headers and codec traces describe the file, not a region
+        const buffers = bufferStore.list().filter(buffer => audioSources.some(s => s.fileId === buffer.id));
+        for (const [index, buffer] of buffers.entries()) {
+          encodingRef.current.push(await analyzeEncoding(buffer, custodyLog.file(buffer.id), fraction =>
+            onProgress((index + fraction) / buffers.length)
+          ));
+        }
+      }
+    }
   ];
 
   const startAnalysis = async () => {
     setIsAnalyzing(true);
+    featuresRef.current = [];
+    classifiedRef.current = audioSources;
+    tamperRef.current = [];
+    encodingRef.current = [];
+    integrityRef.current = [];
+    impulsesRef.current = [];
     setAnalysisProgress(0);
+    const analysisStartedAt = performance.now();
     
     let totalProgress = 0;
     const totalDuration = analysisStages.reduce((sum, stage) => sum + stage.duration, 0);
     
+    const failures: StageError[] = [];
+
     for (const stage of analysisStages) {
       setCurrentStage(stage.name);
-      
-      // Simulate processing time
-      const startTime = Date.now();
-      const endTime = startTime + stage.duration;
-      
-      while (Date.now() < endTime) {
-        const elapsed = Date.now() - startTime;
-        const stageProgress = Math.min(elapsed / stage.duration, 1);
-        const currentStageWeight = stage.duration / totalDuration;
-        
-        setAnalysisProgress(totalProgress + stageProgress * currentStageWeight * 100);
-        
-        await new Promise(resolve => setTimeout(resolve, 50));
+      const currentStageWeight = stage.duration / totalDuration;
+
+      try {
+        await stage.run(fraction => setAnalysisProgress(totalProgress + fraction * currentStageWeight * 100));
+      } catch (error) {
+        console.error(`Error in ${stage.name}:`, error);
+        failures.push({ stage: stage.name, message: error instanceof Error ? error.message : String(error) });
       }
-      
-      totalProgress += (stage.duration / totalDuration) * 100;
+      totalProgress += currentStageWeight * 100;
     }
     
     // Generate analysis results
-    const results = generateAnalysisResults();
+    const results = generateAnalysisResults((performance.now() - analysisStartedAt) / 1000, failures);
     setAnalysisResults(results);
     onAnalysisComplete(results);
     
     setIsAnalyzing(false);
-    setCurrentStage('Analysis Complete');
+    setCurrentStage(failures.length > 0 ? 'Analysis Incomplete' : 'Analysis Complete');
   };
 
-  const generateAnalysisResults = () => {
+  const generateAnalysisResults = (processingSeconds: number, stageErrors: StageError[]) => {
+    const audioSources = classifiedRef.current;
+    const classifications = audioSources.flatMap(s => (s.classification ? [s.classification] : []));
     const noiseSources = audioSources.filter(s => s.type === 'noise');
     const voiceSources = audioSources.filter(s => s.type === 'voice');
     const backgroundNoise = audioSources.reduce((sum, s) => sum + (s.type === 'ambient' ? s.decibel : 0), 0);
@@ -89,8 +220,27 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
         ambient: audioSources.filter(s => s.type === 'ambient').length,
         unknown: audioSources.filter(s => s.type === 'unknown').length
       },
-      mlConfidence: 85 + Math.random() * 10,
-      anomalies: Math.floor(Math.random() * 3),
+      // Mean share of neighbours that agreed with each source's class
+      mlConfidence: classifications.length > 0
+        ? (classifications.reduce((sum, c) => sum + c.probabilities[c.label], 0) / classifications.length) * 100
+        : null,
+      classifier: {
+        ...classifierOptions,
+        enabled: mlPredictions,
+        classifiedSources: classifications.length,
+        crossValidation: crossValidate(referenceLibrary.list(), classifierOptions)
+      },
+      processingSeconds,
+      // Stages that failed; their findings are missing from the results
+      stageErrors,
+      // Suspect edit points; null when edit detection was not run
+      anomalies: detectEdits ? tamperRef.current.reduce((sum, a) => sum + a.findings.length, 0) : null,
+      tamper: detectEdits ? tamperRef.current : null,
+      encoding: encodingRef.current,
+      integrity: integrityRef.current,
+      impulses: impulsesRef.current,
+      region: selection,
+      features: featuresRef.current,
       timestamp: new Date().toISOString()
     };
   };
@@ -113,10 +263,27 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
         >
           {isAnalyzing ? 'Analyzing...' : 'Start ML Analysis'}
         </button>
+
+        <label className="flex items-center justify-center space-x-2 text-sm text-gray-700 mt-2">
+          <input
+            type="checkbox"
+            checked={detectEdits}
+            onChange={(e) => setDetectEdits(e.target.checked)}
+            disabled={isAnalyzing}
+            className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+          />
+          <span>Edit and splice detection</span>
+        </label>
         
+        {selection && (
+          <p className="text-sm text-purple-700 mt-2">
+            Selection {formatTimestamp(selection.start)}–{formatTimestamp(selection.end)}: {audioSources.length} source(s)
+          </p>
+        )}
+
         {audioSources.length === 0 && (
           <p className="text-sm text-gray-500 mt-2">
-            Record or upload audio files to begin analysis
+            {selection ? 'No detected sources in the selected region' : 'Record or upload audio files to begin analysis'}
           </p>
         )}
       </div>
@@ -149,6 +316,22 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
       {analysisResults && !isAnalyzing && (
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-gray-900">Analysis Results</h3>
+
+          {analysisResults.stageErrors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-center space-x-2 mb-2">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+                <span className="font-semibold text-red-800">
+                  {analysisResults.stageErrors.length} analysis stage(s) failed; their results are missing
+                </span>
+              </div>
+              <ul className="text-sm text-red-700 space-y-1">
+                {analysisResults.stageErrors.map((failure: StageError) => (
+                  <li key={failure.stage}>{failure.stage}: {failure.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           
           {/* Key Metrics */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -178,7 +361,7 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
                 <span className="text-sm font-medium text-green-800">ML Confidence</span>
               </div>
               <div className="text-2xl font-bold text-green-900">
-                {analysisResults.mlConfidence.toFixed(1)}%
+                {analysisResults.mlConfidence === null ? '—' : `${analysisResults.mlConfidence.toFixed(1)}%`}
               </div>
             </div>
             
@@ -188,7 +371,7 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
                 <span className="text-sm font-medium text-orange-800">Anomalies</span>
               </div>
               <div className="text-2xl font-bold text-orange-900">
-                {analysisResults.anomalies}
+                {analysisResults.anomalies ?? '—'}
               </div>
             </div>
           </div>
@@ -226,6 +409,20 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
             </div>
           </div>
 
+          {analysisResults.tamper && (
+            <TamperView analyses={analysisResults.tamper} onFindingSelect={onFindingSelect} />
+          )}
+
+          {analysisResults.encoding.length > 0 && <EncodingView histories={analysisResults.encoding} />}
+
+          {analysisResults.features.length > 0 && (
+            <FeatureView
+              audioSources={audioSources}
+              features={analysisResults.features}
+              frames={featureFrames}
+            />
+          )}
+
           {/* Technical Details */}
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
             <h4 className="font-semibold text-gray-900 mb-4">Technical Analysis</h4>
@@ -241,11 +438,23 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
               </div>
               
               <div>
-                <h5 className="font-medium text-gray-700 mb-2">AI Model Performance</h5>
+                <h5 className="font-medium text-gray-700 mb-2">Classifier</h5>
                 <div className="text-sm text-gray-600 space-y-1">
-                  <div>CRNN Accuracy: 94.2%</div>
-                  <div>KNN Classification: 91.8%</div>
-                  <div>Processing Time: 3.2s</div>
+                  <div>
+                    KNN: k = {analysisResults.classifier.k}, {METRIC_LABELS[analysisResults.classifier.metric as keyof typeof METRIC_LABELS]} distance
+                  </div>
+                  <div>
+                    Cross-validated accuracy:{' '}
+                    {analysisResults.classifier.crossValidation
+                      ? `${(analysisResults.classifier.crossValidation.accuracy * 100).toFixed(1)}% (leave-one-out, ${analysisResults.classifier.crossValidation.examples} examples)`
+                      : 'no reference library'}
+                  </div>
+                  <div>
+                    Classified: {analysisResults.classifier.enabled
+                      ? `${analysisResults.classifier.classifiedSources} of ${analysisResults.totalSources} sources`
+                      : 'predictions off in settings'}
+                  </div>
+                  <div>Processing Time: {analysisResults.processingSeconds.toFixed(1)}s</div>
                 </div>
               </div>
             </div>
@@ -253,13 +462,20 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({
         </div>
       )}
 
+      <ReferenceLibrary options={classifierOptions} onOptionsChange={onClassifierOptionsChange} />
+
       {/* Algorithm Info */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-semibold text-blue-800 mb-2">ML Algorithms Used</h4>
         <div className="text-sm text-blue-700 space-y-1">
-          <div>• <strong>CRNN:</strong> Convolutional Recurrent Neural Network for temporal pattern recognition</div>
-          <div>• <strong>KNN:</strong> K-Nearest Neighbors for distance-based classification</div>
-          <div>• <strong>Deep Learning:</strong> Multi-layer perceptron for complex feature extraction</div>
+          <div>• <strong>Features:</strong> MFCCs with deltas, log-mel, spectral shape, zero-crossing rate and chroma per frame</div>
+          <div>• <strong>KNN:</strong> K-Nearest Neighbors over standardised segment features, trained from the reference library</div>
+          <div>• <strong>Integrity Scan:</strong> Clipped runs, digital silence and dropouts, DC offset, held or repeated samples and channel imbalance</div>
+          <div>• <strong>Impulses:</strong> Rise time, crest factor, spectral shape and decay, categorised by KNN against reference impulses</div>
+          <div>• <strong>Edit Detection:</strong> Steps in noise floor, DC offset and background spectrum, waveform breaks and ENF phase jumps</div>
+          <div>• <strong>Direction of Arrival:</strong> GCC-PHAT time differences for microphone pairs, SRP-PHAT bearing search for arrays</div>
+          <div>• <strong>Distance:</strong> Calibrated level against reference levels with air absorption, direct-to-reverberant ratio and high-frequency roll-off, combined into a range</div>
+          <div>• <strong>Encoding History:</strong> Container and encoder tags, bandwidth cutoff, MP3/AAC frame-grid traces, upsampling and padded bit depth</div>
           <div>• <strong>Signal Processing:</strong> FFT and spectral analysis for frequency domain features</div>
         </div>
       </div>
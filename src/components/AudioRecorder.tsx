@@ -1,42 +1,75 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Play, Pause } from 'lucide-react';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import { Mic, Square, Play, Pause, Download } from 'lucide-react';
+import { AudioSource } from '../types/audio';
+import { CalibrationProfile, createCorrectionNode, getProfile } from '../lib/calibration';
+import { PcmCapture } from '../lib/pcmCapture';
+import { StoredBuffer, bufferStore } from '../lib/bufferStore';
+import { PipelineOptions, analyzeBuffer } from '../lib/analysisPipeline';
+import { measureLoudness } from '../lib/metering';
+import { audioEngine } from '../lib/audioEngine';
+import { bextTimestamp } from '../lib/wav/bext';
+import { SAMPLE_FORMAT_LABELS, SampleFormat, encodeWav } from '../lib/wav/writer';
+import { registerEvidence } from '../lib/custody';
+import CalibrationPanel from './CalibrationPanel';
 
 interface AudioRecorderProps {
   onRecordingChange: (isRecording: boolean) => void;
   onAudioAnalysis: (sources: AudioSource[]) => void;
-  onDecibelUpdate: (decibel: number) => void;
+  calibration: CalibrationProfile | null;
+  onCalibrationChange: (profile: CalibrationProfile | null) => void;
+  operator: string;
+  pipelineOptions: PipelineOptions;
 }
 
 const AudioRecorder: React.FC<AudioRecorderProps> = ({
   onRecordingChange,
   onAudioAnalysis,
-  onDecibelUpdate
+  calibration,
+  onCalibrationChange,
+  operator,
+  pipelineOptions
 }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [recordedAudio, setRecordedAudio] = useState<string | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('default');
+  // The take and its Broadcast Wave file, which is both the logged evidence
+  // and the download
+  const [recording, setRecording] = useState<{ buffer: StoredBuffer; startedAt: Date; file: Blob } | null>(null);
+  const [exportFormat, setExportFormat] = useState<SampleFormat>('float32');
+  const [originator, setOriginator] = useState('');
+  const [description, setDescription] = useState('');
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyzerRef = useRef<AnalyserNode | null>(null);
+  const captureRef = useRef<PcmCapture | null>(null);
+  const startedAtRef = useRef<Date | null>(null);
+  const detachInputRef = useRef<(() => void) | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const intervalRef = useRef<number | null>(null);
 
+  const recordingId = recording?.buffer.id;
+  useEffect(() => {
+    const update = () => setIsPlaying(audioEngine.playing && audioEngine.loadedId === recordingId);
+    update();
+    return audioEngine.subscribe(update);
+  }, [recordingId]);
+
+  useEffect(() => {
+    navigator.mediaDevices?.enumerateDevices()
+      .then(devices => setInputDevices(devices.filter(d => d.kind === 'audioinput')))
+      .catch(error => console.error('Error listing input devices:', error));
+  }, []);
+
+  // Calibration belongs to the input device, so switching device switches profile
+  useEffect(() => {
+    onCalibrationChange(getProfile(deviceId));
+  }, [deviceId, onCalibrationChange]);
+
+  const deviceLabel = inputDevices.find(d => d.deviceId === deviceId)?.label || 'Default input';
+
   useEffect(() => {
     return () => {
+      detachInputRef.current?.();
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
@@ -47,9 +80,11 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   }, []);
 
   const startRecording = async () => {
+    const inputs: AudioNode[] = [];
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
         audio: {
+          deviceId: deviceId === 'default' ? undefined : { exact: deviceId },
           echoCancellation: false,
           noiseSuppression: false,
           autoGainControl: false
@@ -58,37 +93,27 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       
       streamRef.current = stream;
       
-      // Set up audio analysis
-      audioContextRef.current = new AudioContext();
-      analyzerRef.current = audioContextRef.current.createAnalyser();
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      source.connect(analyzerRef.current);
-      
-      analyzerRef.current.fftSize = 2048;
-      
-      // Start real-time analysis
-      startAnalysis();
-      
-      // Set up media recorder
-      mediaRecorderRef.current = new MediaRecorder(stream);
-      const chunks: BlobPart[] = [];
+      // Set up level metering on the raw input, through the microphone
+      // response correction when the calibration has one
+      const context = audioEngine.context;
+      await context.resume();
+      let source: AudioNode = context.createMediaStreamSource(stream);
+      inputs.push(source);
+      if (calibration?.responseCorrection) {
+        const correction = createCorrectionNode(context, calibration.responseCorrection);
+        source.connect(correction);
+        inputs.push(correction);
+        source = correction;
+      }
+      const channelCount = stream.getAudioTracks()[0]?.getSettings().channelCount ?? 1;
+      detachInputRef.current = audioEngine.attachInput(source, channelCount);
       
-      mediaRecorderRef.current.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunks.push(e.data);
-        }
-      };
+      // Capture the raw input, before any response correction
+      const rawSource = context.createMediaStreamSource(stream);
+      inputs.push(rawSource);
+      captureRef.current = await PcmCapture.start(context, rawSource, channelCount);
+      startedAtRef.current = new Date();
       
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunks, { type: 'audio/wav' });
-        const url = URL.createObjectURL(blob);
-        setRecordedAudio(url);
-        
-        // Analyze recorded audio
-        analyzeRecordedAudio(blob);
-      };
-      
-      mediaRecorderRef.current.start();
       setIsRecording(true);
       onRecordingChange(true);
       
@@ -100,12 +125,18 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       
     } catch (error) {
       console.error('Error starting recording:', error);
+      detachInputRef.current?.();
+      detachInputRef.current = null;
+      inputs.forEach(node => node.disconnect());
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
+  const stopRecording = async () => {
+    if (captureRef.current && isRecording) {
+      const capture = captureRef.current;
+      captureRef.current = null;
       setIsRecording(false);
       onRecordingChange(false);
       
@@ -113,88 +144,95 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         clearInterval(intervalRef.current);
       }
       
+      detachInputRef.current?.();
+      detachInputRef.current = null;
+      
+      const channels = await capture.stop();
+      
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
+      
+      const startedAt = startedAtRef.current ?? new Date();
+      const length = channels[0]?.length ?? 0;
+      const buffer: StoredBuffer = {
+        id: `recording-${startedAt.toISOString()}`.replace(/[^\w.-]/g, '_'),
+        name: `recording-${startedAt.toISOString().replace(/[:.]/g, '-')}.wav`,
+        sampleRate: capture.sampleRate,
+        channels,
+        length,
+        duration: length / capture.sampleRate
+      };
+      bufferStore.put(buffer);
+
+      // The custody log hashes exactly the file that is later downloaded
+      const file = encodeTake(buffer, startedAt);
+      setRecording({ buffer, startedAt, file });
+      registerEvidence(file, { id: buffer.id, name: buffer.name, lastModified: null }, 'recorded', operator)
+        .catch(error => console.error('Error logging recording:', error));
+      
+      analyzeRecordedAudio(buffer);
     }
   };
 
-  const startAnalysis = () => {
-    if (!analyzerRef.current) return;
-    
-    const bufferLength = analyzerRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    
-    const analyze = () => {
-      if (!analyzerRef.current) return;
-      
-      analyzerRef.current.getByteFrequencyData(dataArray);
-      
-      // Calculate decibel level
-      const sum = dataArray.reduce((acc, val) => acc + val, 0);
-      const average = sum / bufferLength;
-      const decibel = 20 * Math.log10(average / 255) + 100;
-      
-      onDecibelUpdate(Math.max(0, decibel));
-      
-      if (isRecording) {
-        requestAnimationFrame(analyze);
-      }
-    };
-    
-    analyze();
+  const analyzeRecordedAudio = async (buffer: StoredBuffer) => {
+    try {
+      onAudioAnalysis(await analyzeBuffer(buffer, pipelineOptions, calibration));
+    } catch (error) {
+      console.error('Error analysing recording:', error);
+    }
   };
 
-  const analyzeRecordedAudio = async (audioBlob: Blob) => {
-    // Simulate audio analysis with ML/AI processing
-    const mockSources: AudioSource[] = [
-      {
-        id: 'source-1',
-        name: 'Background Noise',
-        type: 'noise',
-        decibel: 45 + Math.random() * 20,
-        frequency: 200 + Math.random() * 400,
-        position: { x: Math.random() * 100, y: Math.random() * 100, z: Math.random() * 50 },
-        distance: 5 + Math.random() * 15,
-        visible: true,
-        color: '#ff6b6b'
-      },
-      {
-        id: 'source-2',
-        name: 'Voice Activity',
-        type: 'voice',
-        decibel: 60 + Math.random() * 25,
-        frequency: 300 + Math.random() * 500,
-        position: { x: Math.random() * 100, y: Math.random() * 100, z: Math.random() * 50 },
-        distance: 2 + Math.random() * 8,
-        visible: true,
-        color: '#4ecdc4'
-      },
-      {
-        id: 'source-3',
-        name: 'Ambient Sound',
-        type: 'ambient',
-        decibel: 35 + Math.random() * 15,
-        frequency: 100 + Math.random() * 300,
-        position: { x: Math.random() * 100, y: Math.random() * 100, z: Math.random() * 50 },
-        distance: 10 + Math.random() * 20,
-        visible: true,
-        color: '#45b7d1'
+  // Broadcast Wave file of a take in the chosen format, with the bext
+  // metadata entered before recording
+  const encodeTake = (buffer: StoredBuffer, startedAt: Date) => {
+    const loudness = measureLoudness(buffer.channels, buffer.sampleRate);
+    const bits = exportFormat === 'pcm8' ? 8 : exportFormat === 'pcm16' ? 16 : exportFormat === 'pcm24' ? 24 : 32;
+    const mode = buffer.channels.length === 1 ? 'mono' : buffer.channels.length === 2 ? 'stereo' : 'multichannel';
+
+    return encodeWav({
+      channels: buffer.channels,
+      sampleRate: buffer.sampleRate,
+      format: exportFormat,
+      bext: {
+        description,
+        originator: originator || 'Audio Forensic Audio',
+        originatorReference: `AFA${startedAt.getTime()}`,
+        ...bextTimestamp(startedAt, buffer.sampleRate),
+        version: 2,
+        umid: new Uint8Array(64),
+        loudnessValue: loudness.integratedLufs,
+        loudnessRange: null,
+        maxTruePeakLevel: loudness.truePeakDbtp,
+        maxMomentaryLoudness: loudness.maxMomentaryLufs,
+        maxShortTermLoudness: loudness.maxShortTermLufs,
+        codingHistory: `A=PCM,F=${buffer.sampleRate},W=${bits},M=${mode},T=Audio Forensic Audio\r\n`
       }
-    ];
-    
-    onAudioAnalysis(mockSources);
+    });
+  };
+
+  // The logged evidence file, unchanged
+  const downloadRecording = () => {
+    if (!recording) return;
+    const { buffer, file: blob } = recording;
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = buffer.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const playRecording = () => {
-    if (recordedAudio) {
-      const audio = new Audio(recordedAudio);
-      audio.play();
-      setIsPlaying(true);
-      
-      audio.onended = () => {
-        setIsPlaying(false);
-      };
+    if (!recording) return;
+    if (isPlaying) {
+      audioEngine.pause();
+    } else {
+      audioEngine.play(recording.buffer)
+        .catch(error => console.error('Error playing recording:', error));
     }
   };
 
@@ -224,10 +262,9 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           </button>
         )}
         
-        {recordedAudio && (
+        {recording && !isRecording && (
           <button
             onClick={playRecording}
-            disabled={isPlaying}
             className="bg-purple-500 hover:bg-purple-600 disabled:opacity-50 text-white p-4 rounded-full transition-colors shadow-lg"
           >
             {isPlaying ? <Pause className="h-6 w-6" /> : <Play className="h-6 w-6" />}
@@ -243,13 +280,87 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
           </div>
         )}
         
-        {recordedAudio && !isRecording && (
+        {recording && !isRecording && (
           <div className="text-green-500 font-semibold">
             Recording saved • Duration: {formatTime(recordingTime)}
           </div>
         )}
       </div>
 
+      {/* Broadcast Wave file; set before recording, since the take is logged as written */}
+      {!isRecording && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+          <h4 className="font-semibold text-gray-900">Broadcast Wave File</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Originator"
+              maxLength={32}
+              value={originator}
+              onChange={(e) => setOriginator(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as SampleFormat)}
+              className="p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {Object.entries(SAMPLE_FORMAT_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            placeholder="Description"
+            maxLength={256}
+            rows={2}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+          {recording && (
+            <button
+              onClick={downloadRecording}
+              className="w-full flex items-center justify-center space-x-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              <span>Download WAV</span>
+            </button>
+          )}
+          <p className="text-xs text-gray-500">
+            {recording && `${recording.buffer.sampleRate} Hz, ${recording.buffer.channels.length} ch. `}
+            The file is written and hashed when recording stops; changes here apply to the next take.
+            Only 32-bit float keeps every captured sample bit-exact; integer formats are rounded without dither.
+          </p>
+        </div>
+      )}
+
+      {/* Input Device & Calibration */}
+      <div className="space-y-3">
+        <select
+          value={deviceId}
+          onChange={(e) => setDeviceId(e.target.value)}
+          disabled={isRecording}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {!inputDevices.some(d => d.deviceId === 'default') && (
+            <option value="default">Default input</option>
+          )}
+          {inputDevices.map((device, index) => (
+            <option key={device.deviceId || index} value={device.deviceId}>
+              {device.label || `Input ${index + 1}`}
+            </option>
+          ))}
+        </select>
+        <CalibrationPanel
+          deviceId={deviceId}
+          deviceLabel={deviceLabel}
+          profile={calibration}
+          onProfileChange={onCalibrationChange}
+          disabled={isRecording}
+        />
+      </div>
+
       {/* Recording Tips */}
       <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
         <h4 className="font-semibold text-purple-800 mb-2">Recording Tips</h4>
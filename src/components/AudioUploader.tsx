@@ -1,36 +1,50 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileAudio, X, CheckCircle, Play } from 'lucide-react';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, FileAudio, X, CheckCircle, Play, Pause } from 'lucide-react';
+import { AudioSource, CalibrationAssignment } from '../types/audio';
+import { fileId, bufferStore } from '../lib/bufferStore';
+import { decodeAudioFile } from '../lib/decode';
+import { PipelineOptions, analyzeBuffer } from '../lib/analysisPipeline';
+import { CalibrationProfile, loadProfiles, profileId } from '../lib/calibration';
+import { WavFile, describeFormat } from '../lib/wav/reader';
+import { INFO_LABELS } from '../lib/wav/info';
+import { registerEvidence, releaseEvidence, verifyEvidence } from '../lib/custody';
+import { audioEngine } from '../lib/audioEngine';
 
 interface AudioUploaderProps {
   onAudioAnalysis: (sources: AudioSource[]) => void;
   onDatasetSizeChange: (size: number) => void;
-  onAudioFileReady: (audioUrl: string) => void;
+  operator: string;
+  pipelineOptions: PipelineOptions;
 }
 
 const AudioUploader: React.FC<AudioUploaderProps> = ({
   onAudioAnalysis,
   onDatasetSizeChange,
-  onAudioFileReady
+  operator,
+  pipelineOptions
 }) => {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [dragOver, setDragOver] = useState(false);
   const [playingFile, setPlayingFile] = useState<string | null>(null);
+  const [failedFiles, setFailedFiles] = useState<{ name: string; reason: string }[]>([]);
+  // Format and metadata chunks of WAV files, keyed by file id
+  const [wavMetadata, setWavMetadata] = useState<Record<string, WavFile>>({});
+  // Uploads are analysed in dBFS unless the operator assigns a calibration
+  // profile to the file, since the equipment they were made with is unknown
+  const [assignments, setAssignments] = useState<Record<string, CalibrationAssignment>>({});
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>(loadProfiles);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = (files: FileList | null) => {
+  // Follow the engine, so the indicator clears when playback ends or
+  // another player takes over
+  useEffect(() => {
+    const update = () => setPlayingFile(audioEngine.playing ? audioEngine.loadedId : null);
+    update();
+    return audioEngine.subscribe(update);
+  }, []);
+
+  const handleFileSelect = async (files: FileList | null) => {
     if (!files) return;
 
     const audioFiles = Array.from(files).filter(file =>
@@ -47,57 +61,103 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
 
     // Auto-analyze if files are added
     if (audioFiles.length > 0) {
-      analyzeFiles([...uploadedFiles, ...audioFiles]);
+      // Hash and log every file before anything reads it, one at a time
+      const imported = new Set<string>();
+      for (const file of audioFiles) {
+        try {
+          const id = fileId(file);
+          await registerEvidence(file, { id, name: file.name, lastModified: file.lastModified }, 'imported', operator);
+          imported.add(id);
+        } catch (error) {
+          console.error(`Error hashing ${file.name}:`, error);
+        }
+      }
+      await analyzeFiles([...uploadedFiles, ...audioFiles], imported);
 
-      // Create URL for the first file and start monitoring
-      const firstFile = audioFiles[0];
-      const audioUrl = URL.createObjectURL(firstFile);
-      onAudioFileReady(audioUrl);
+      // Start monitoring the first new file
+      const first = bufferStore.get(fileId(audioFiles[0]));
+      if (first) {
+        audioEngine.play(first).catch(error => console.error('Error playing file:', error));
+      }
     }
   };
 
-  const analyzeFiles = async (files: File[]) => {
+  // Files hashed moments ago by the import are not hashed a second time
+  const analyzeFiles = async (
+    files: File[],
+    justImported: Set<string> = new Set(),
+    fileAssignments: Record<string, CalibrationAssignment> = assignments
+  ) => {
     setIsAnalyzing(true);
+    const failed: { name: string; reason: string }[] = [];
+    const sources: AudioSource[] = [];
+    const metadata: Record<string, WavFile> = {};
 
-    // Simulate AI analysis processing
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    const mockSources: AudioSource[] = files.flatMap((file, fileIndex) => {
-      const numSources = 2 + Math.floor(Math.random() * 3);
-
-      return Array.from({ length: numSources }, (_, sourceIndex) => ({
-        id: `file-${fileIndex}-source-${sourceIndex}`,
-        name: `${file.name.split('.')[0]} - Source ${sourceIndex + 1}`,
-        type: ['noise', 'voice', 'music', 'ambient', 'unknown'][Math.floor(Math.random() * 5)] as any,
-        decibel: 30 + Math.random() * 60,
-        frequency: 100 + Math.random() * 1000,
-        position: { 
-          x: Math.random() * 100, 
-          y: Math.random() * 100, 
-          z: Math.random() * 50 
-        },
-        distance: 1 + Math.random() * 25,
-        visible: true,
-        color: `hsl(${Math.random() * 360}, 70%, 60%)`
-      }));
-    });
+    // Decode and analyse one file at a time to bound peak memory use
+    for (const file of files) {
+      if (!justImported.has(fileId(file))) {
+        const verification = await verifyEvidence(fileId(file), operator).catch(error => {
+          console.error(`Error verifying ${file.name}:`, error);
+          return null;
+        });
+        if (!verification?.ok) {
+          failed.push({
+            name: file.name,
+            reason: verification ? 'hash does not match the custody record' : 'no custody record'
+          });
+          continue;
+        }
+      }
+      const assignment = fileAssignments[fileId(file)];
+      const profile = assignment ? profiles.find(p => profileId(p) === assignment.profileId) : undefined;
+      if (assignment && !profile) {
+        failed.push({ name: file.name, reason: `calibration profile of ${assignment.deviceLabel} no longer exists` });
+        continue;
+      }
+      try {
+        const buffer = await decodeAudioFile(file);
+        if (buffer.wav) metadata[buffer.id] = buffer.wav;
+        const fileSources = await analyzeBuffer(buffer, pipelineOptions, profile ?? null);
+        sources.push(...fileSources.map(source => (assignment ? { ...source, calibrationAssignment: assignment } : source)));
+      } catch (error) {
+        console.error(`Error analysing ${file.name}:`, error);
+        failed.push({ name: file.name, reason: 'could not decode' });
+      }
+    }
 
-    onAudioAnalysis(mockSources);
+    setFailedFiles(failed);
+    setWavMetadata(metadata);
+    onAudioAnalysis(sources);
     setIsAnalyzing(false);
   };
 
-  const playFile = (file: File, index: number) => {
-    const audioUrl = URL.createObjectURL(file);
-    setPlayingFile(file.name);
-    onAudioFileReady(audioUrl);
+  const assignCalibration = (file: File, id: string) => {
+    const profile = profiles.find(p => profileId(p) === id);
+    const next = { ...assignments };
+    if (profile) {
+      next[fileId(file)] = { profileId: id, deviceLabel: profile.deviceLabel, operator, assignedAt: new Date().toISOString() };
+    } else {
+      delete next[fileId(file)];
+    }
+    setAssignments(next);
+    analyzeFiles(uploadedFiles, new Set(), next);
+  };
 
-    // Auto-stop playing indicator after file duration (estimated)
-    setTimeout(() => {
-      setPlayingFile(null);
-    }, 30000);
+  const playFile = (file: File) => {
+    if (playingFile === fileId(file)) {
+      audioEngine.pause();
+      return;
+    }
+    const buffer = bufferStore.get(fileId(file));
+    if (!buffer) return;
+    audioEngine.play(buffer).catch(error => console.error(`Error playing ${file.name}:`, error));
   };
 
   const removeFile = (index: number) => {
+    if (audioEngine.loadedId === fileId(uploadedFiles[index])) audioEngine.pause();
+    bufferStore.remove(fileId(uploadedFiles[index]));
+    releaseEvidence(fileId(uploadedFiles[index]), operator)
+      .catch(error => console.error('Error logging file removal:', error));
     const newFiles = uploadedFiles.filter((_, i) => i !== index);
     setUploadedFiles(newFiles);
 
@@ -135,6 +195,40 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const renderWavMetadata = (wav: WavFile) => (
+    <div className="text-xs text-gray-500 space-y-0.5 mt-1">
+      <div>
+        {wav.container !== 'RIFF' && <span className="font-medium">{wav.container} · </span>}
+        {describeFormat(wav.format)}
+      </div>
+      {wav.bext && (
+        <div>
+          BWF: {[wav.bext.originator, `${wav.bext.originationDate} ${wav.bext.originationTime}`, wav.bext.description]
+            .filter(field => field.trim())
+            .join(' · ')}
+        </div>
+      )}
+      {wav.info && Object.entries(wav.info).map(([id, value]) => (
+        <div key={id}>{INFO_LABELS[id] ?? id}: {value}</div>
+      ))}
+      <details>
+        <summary className="cursor-pointer hover:text-gray-700">
+          {wav.chunks.length} chunks{wav.ixml ? ' incl. iXML' : ''}
+        </summary>
+        <div className="font-mono">
+          {wav.chunks.map((chunk, i) => (
+            <div key={i}>{chunk.id.trim()} @ {chunk.offset} ({formatFileSize(chunk.size)})</div>
+          ))}
+          {wav.ixml && (
+            <pre className="whitespace-pre-wrap max-h-32 overflow-y-auto bg-white border border-gray-200 rounded p-1 mt-1">
+              {wav.ixml}
+            </pre>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Upload Area */}
@@ -194,9 +288,9 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
                   <FileAudio className="h-5 w-5 text-purple-600" />
                   <div>
                     <div className="font-medium text-gray-900 truncate max-w-48">
-                      {playingFile === file.name && (
+                      {playingFile === fileId(file) && (
                         <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full animate-pulse">
-                          Analyzing
+                          Playing
                         </span>
                       )}
                       {file.name}
@@ -204,6 +298,24 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
                     <div className="text-sm text-gray-500">
                       {formatFileSize(file.size)}
                     </div>
+                    {wavMetadata[fileId(file)] && renderWavMetadata(wavMetadata[fileId(file)])}
+                    <label className="flex items-center space-x-2 text-xs text-gray-500 mt-1">
+                      <span>Levels</span>
+                      <select
+                        value={assignments[fileId(file)]?.profileId ?? ''}
+                        onFocus={() => setProfiles(loadProfiles())}
+                        onChange={(e) => assignCalibration(file, e.target.value)}
+                        disabled={isAnalyzing}
+                        className="p-1 border border-gray-300 rounded text-xs"
+                      >
+                        <option value="">Uncalibrated (dBFS)</option>
+                        {profiles.map(profile => (
+                          <option key={profileId(profile)} value={profileId(profile)}>
+                            dB SPL, {profile.deviceLabel} ({new Date(profile.createdAt).toLocaleDateString()})
+                          </option>
+                        ))}
+                      </select>
+                    </label>
                   </div>
                 </div>
                 
@@ -218,11 +330,12 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
                     <X className="h-4 w-4" />
                   </button>
                   <button
-                    onClick={() => playFile(file, index)}
-                    className="bg-purple-100 hover:bg-purple-200 text-purple-600 p-2 rounded-lg transition-colors"
-                    title="Analyze this file"
+                    onClick={() => playFile(file)}
+                    disabled={!bufferStore.get(fileId(file))}
+                    className="bg-purple-100 hover:bg-purple-200 disabled:opacity-50 text-purple-600 p-2 rounded-lg transition-colors"
+                    title={playingFile === fileId(file) ? 'Pause' : 'Play this file'}
                   >
-                    <Play className="h-4 w-4" />
+                    {playingFile === fileId(file) ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
                   </button>
                 </div>
               </div>
@@ -239,13 +352,29 @@ const AudioUploader: React.FC<AudioUploaderProps> = ({
             <div>
               <div className="font-semibold text-purple-800">Analyzing Audio Files</div>
               <div className="text-sm text-purple-600">
-                Processing with CRNN and KNN algorithms...
+                Decoding to PCM and measuring levels and spectra...
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {failedFiles.length > 0 && !isAnalyzing && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="font-semibold text-red-800 mb-1">Could not analyse</div>
+          <div className="text-sm text-red-700 space-y-1">
+            {failedFiles.map(({ name, reason }) => <div key={name}>• {name}: {reason}</div>)}
+          </div>
+        </div>
+      )}
+
+      {uploadedFiles.length > 0 && (
+        <div className="text-xs text-gray-500">
+          Uploaded files are measured in dBFS. Assign a calibration profile only to a file known to have been
+          recorded with that device; the assignment is recorded with its sources.
+        </div>
+      )}
+
       {/* API Integration Info */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-semibold text-blue-800 mb-2">API Integration</h4>
@@ -0,0 +1,202 @@
+import React, { useState, useRef } from 'react';
+import { Gauge, FileUp, Trash2 } from 'lucide-react';
+import {
+  CalibrationProfile,
+  REFERENCE_FREQUENCY,
+  REFERENCE_LEVEL_DB,
+  captureFromStream,
+  deleteProfile,
+  describeProfile,
+  measureReferenceTone,
+  parseResponseFile,
+  saveProfile
+} from '../lib/calibration';
+import { audioEngine } from '../lib/audioEngine';
+
+interface CalibrationPanelProps {
+  deviceId: string;
+  deviceLabel: string;
+  profile: CalibrationProfile | null;
+  onProfileChange: (profile: CalibrationProfile | null) => void;
+  disabled: boolean;
+}
+
+const CAPTURE_SECONDS = 3;
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  deviceId,
+  deviceLabel,
+  profile,
+  onProfileChange,
+  disabled
+}) => {
+  const [referenceLevel, setReferenceLevel] = useState(REFERENCE_LEVEL_DB);
+  const [manualOffset, setManualOffset] = useState('');
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const responseInputRef = useRef<HTMLInputElement>(null);
+
+  const storeProfile = (next: CalibrationProfile) => {
+    saveProfile(next);
+    onProfileChange(next);
+    setError(null);
+  };
+
+  const calibrateWithTone = async () => {
+    setIsCalibrating(true);
+    setError(null);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false
+        }
+      });
+      const { samples, sampleRate } = await captureFromStream(audioEngine.context, stream, CAPTURE_SECONDS);
+      const { levelDbfs } = measureReferenceTone(samples, sampleRate);
+
+      storeProfile({
+        deviceId,
+        deviceLabel,
+        offsetDb: referenceLevel - levelDbfs,
+        method: 'reference-tone',
+        referenceLevelDb: referenceLevel,
+        referenceFrequency: REFERENCE_FREQUENCY,
+        measuredDbfs: levelDbfs,
+        createdAt: new Date().toISOString(),
+        responseCorrection: profile?.responseCorrection
+      });
+    } catch (err) {
+      console.error('Error calibrating input:', err);
+      setError(err instanceof Error ? err.message : 'Calibration failed');
+    } finally {
+      stream?.getTracks().forEach(track => track.stop());
+      setIsCalibrating(false);
+    }
+  };
+
+  const saveManualOffset = () => {
+    const offsetDb = parseFloat(manualOffset);
+    if (!Number.isFinite(offsetDb)) {
+      setError('Enter the offset in dB (dB SPL = dBFS + offset)');
+      return;
+    }
+    storeProfile({
+      deviceId,
+      deviceLabel,
+      offsetDb,
+      method: 'manual',
+      createdAt: new Date().toISOString(),
+      responseCorrection: profile?.responseCorrection
+    });
+    setManualOffset('');
+  };
+
+  const loadResponseFile = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file || !profile) return;
+    try {
+      const points = parseResponseFile(await file.text());
+      storeProfile({
+        ...profile,
+        createdAt: new Date().toISOString(),
+        responseCorrection: { name: file.name, points }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read response file');
+    } finally {
+      if (responseInputRef.current) responseInputRef.current.value = '';
+    }
+  };
+
+  const removeProfile = () => {
+    deleteProfile(deviceId);
+    onProfileChange(null);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Gauge className="h-5 w-5 text-purple-600" />
+        <h4 className="font-semibold text-gray-900">SPL Calibration</h4>
+      </div>
+
+      <div className={`text-sm p-2 rounded-lg ${profile ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'}`}>
+        {profile ? describeProfile(profile) : 'Uncalibrated: levels are shown in dBFS'}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="number"
+          step="0.1"
+          value={referenceLevel}
+          onChange={(e) => setReferenceLevel(parseFloat(e.target.value) || REFERENCE_LEVEL_DB)}
+          className="w-20 p-2 border border-gray-300 rounded-lg text-sm"
+          title="Calibrator level in dB SPL"
+        />
+        <span className="text-sm text-gray-600">dB @ {REFERENCE_FREQUENCY} Hz</span>
+        <button
+          onClick={calibrateWithTone}
+          disabled={disabled || isCalibrating}
+          className="flex-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          {isCalibrating ? `Measuring ${CAPTURE_SECONDS} s...` : 'Calibrate with tone'}
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="number"
+          step="0.1"
+          placeholder="Offset dB"
+          value={manualOffset}
+          onChange={(e) => setManualOffset(e.target.value)}
+          className="w-28 p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          onClick={saveManualOffset}
+          disabled={disabled}
+          className="bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          Set known offset
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => responseInputRef.current?.click()}
+          disabled={!profile}
+          className="flex items-center space-x-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-3 py-2 rounded-lg text-sm transition-colors"
+          title="Microphone frequency response (frequency, dB per line)"
+        >
+          <FileUp className="h-4 w-4" />
+          <span>{profile?.responseCorrection ? 'Replace response file' : 'Add response file'}</span>
+        </button>
+        {profile && (
+          <button
+            onClick={removeProfile}
+            className="text-red-500 hover:text-red-700 p-2 rounded transition-colors"
+            title="Delete calibration for this input"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={responseInputRef}
+        type="file"
+        accept=".csv,.txt,.frd"
+        onChange={(e) => loadResponseFile(e.target.files)}
+        className="hidden"
+      />
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -1,26 +1,50 @@
 import React, { useEffect, useRef, useState } from 'react';
 
 interface DecibelChartProps {
-  currentDecibel: number;
+  currentDecibel: number | null;
+  // Unit label of the plotted measure, e.g. "dBFS RMS" or "LUFS (M)"
+  unit: string;
+  // Lowest and highest level shown on the y axis
+  range: [number, number];
+  // Playback position of the current reading, null for a live input
+  time: number | null;
+  // Events of the playing file, marked where playback passes them
+  markers: { time: number; label: string }[];
 }
 
-const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
+interface HistoryPoint {
+  db: number;
+  time: number | null;
+}
+
+const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel, unit, range, time, markers }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [decibelHistory, setDecibelHistory] = useState<number[]>([]);
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  // Read when a reading arrives; time alone changing adds no point
+  const timeRef = useRef(time);
+  timeRef.current = time;
   const maxDataPoints = 100;
+  const [minDb, maxDb] = range;
+  const span = maxDb - minDb;
+
+  // A different measure is not comparable with the old history
+  useEffect(() => {
+    setHistory([]);
+  }, [unit]);
 
   useEffect(() => {
-    if (currentDecibel > 0) {
-      setDecibelHistory(prev => {
-        const newHistory = [...prev, currentDecibel];
+    if (currentDecibel !== null) {
+      setHistory(prev => {
+        const newHistory = [...prev, { db: Math.max(minDb, Math.min(maxDb, currentDecibel)), time: timeRef.current }];
         return newHistory.slice(-maxDataPoints);
       });
     }
-  }, [currentDecibel]);
+  }, [currentDecibel, minDb, maxDb]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || decibelHistory.length === 0) return;
+    if (!canvas || history.length === 0) return;
+    const decibelHistory = history.map(point => point.db);
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -32,6 +56,7 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
     const padding = 20;
     const chartWidth = canvas.width - padding * 2;
     const chartHeight = canvas.height - padding * 2;
+    const toY = (db: number) => padding + ((maxDb - db) / span) * chartHeight;
 
     // Draw background grid
     ctx.strokeStyle = '#e5e7eb';
@@ -49,7 +74,7 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
       ctx.fillStyle = '#6b7280';
       ctx.font = '10px Arial';
       ctx.textAlign = 'right';
-      ctx.fillText(`${120 - (i * 12)}`, padding - 5, y + 3);
+      ctx.fillText(`${(maxDb - (i * span) / 10).toFixed(0)}`, padding - 5, y + 3);
     }
 
     // Vertical grid lines (time)
@@ -70,7 +95,7 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
 
       decibelHistory.forEach((db, index) => {
         const x = padding + (index / (maxDataPoints - 1)) * chartWidth;
-        const y = padding + ((120 - db) / 120) * chartHeight;
+        const y = toY(db);
 
         if (index === 0) {
           ctx.moveTo(x, y);
@@ -94,14 +119,14 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
 
       // Draw current point
       const currentX = padding + ((decibelHistory.length - 1) / (maxDataPoints - 1)) * chartWidth;
-      const currentY = padding + ((120 - currentDecibel) / 120) * chartHeight;
+      const currentY = toY(decibelHistory[decibelHistory.length - 1]);
 
       ctx.fillStyle = '#7c3aed';
       ctx.beginPath();
       ctx.arc(currentX, currentY, 4, 0, 2 * Math.PI);
       ctx.fill();
 
-      // Highlight high decibel areas
+      // Highlight the top sixth of the range (near full scale)
       ctx.strokeStyle = '#ef4444';
       ctx.lineWidth = 3;
       ctx.beginPath();
@@ -109,9 +134,9 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
       let inHighZone = false;
       decibelHistory.forEach((db, index) => {
         const x = padding + (index / (maxDataPoints - 1)) * chartWidth;
-        const y = padding + ((120 - db) / 120) * chartHeight;
+        const y = toY(db);
 
-        if (db > 80) {
+        if (db > maxDb - span / 6) {
           if (!inHighZone) {
             ctx.moveTo(x, y);
             inHighZone = true;
@@ -130,6 +155,28 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
       if (inHighZone) {
         ctx.stroke();
       }
+
+      // Events playback passed between two readings
+      ctx.strokeStyle = '#f59e0b';
+      ctx.fillStyle = '#b45309';
+      ctx.lineWidth = 1.5;
+      ctx.font = '9px Arial';
+      ctx.textAlign = 'left';
+      history.forEach((point, index) => {
+        const previous = history[index - 1]?.time;
+        const current = point.time;
+        if (index === 0 || previous === null || current === null || current < previous) return;
+        markers
+          .filter(marker => marker.time > previous && marker.time <= current)
+          .forEach(marker => {
+            const x = padding + (index / (maxDataPoints - 1)) * chartWidth;
+            ctx.beginPath();
+            ctx.moveTo(x, padding);
+            ctx.lineTo(x, canvas.height - padding);
+            ctx.stroke();
+            ctx.fillText(marker.label, x + 2, padding + 10);
+          });
+      });
     }
 
     // Chart title and stats
@@ -142,14 +189,15 @@ const DecibelChart: React.FC<DecibelChartProps> = ({ currentDecibel }) => {
     ctx.font = '10px Arial';
     ctx.textAlign = 'left';
     ctx.fillStyle = '#6b7280';
-    const maxDb = Math.max(...decibelHistory);
+    const historyMax = Math.max(...decibelHistory);
     const avgDb = decibelHistory.reduce((a, b) => a + b, 0) / decibelHistory.length;
+    const latest = decibelHistory[decibelHistory.length - 1];
     
-    ctx.fillText(`Current: ${currentDecibel.toFixed(1)} dB`, 10, canvas.height - 25);
-    ctx.fillText(`Max: ${maxDb.toFixed(1)} dB`, 10, canvas.height - 15);
-    ctx.fillText(`Avg: ${avgDb.toFixed(1)} dB`, 10, canvas.height - 5);
+    ctx.fillText(`Current: ${latest.toFixed(1)} ${unit}`, 10, canvas.height - 25);
+    ctx.fillText(`Max: ${historyMax.toFixed(1)} ${unit}`, 10, canvas.height - 15);
+    ctx.fillText(`Avg: ${avgDb.toFixed(1)} ${unit}`, 10, canvas.height - 5);
 
-  }, [decibelHistory, currentDecibel]);
+  }, [history, markers, unit, maxDb, span]);
 
   return (
     <div className="mt-4">
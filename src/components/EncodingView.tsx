@@ -0,0 +1,140 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { FileSearch } from 'lucide-react';
+import { EncodingConclusion, EncodingHistory } from '../lib/encoding';
+
+interface EncodingViewProps {
+  histories: EncodingHistory[];
+}
+
+interface SpectrumPlotProps {
+  spectrumDb: Float32Array;
+  binHz: number;
+  cutoffHz: number;
+}
+
+const PLOT_WIDTH = 720;
+const PLOT_HEIGHT = 120;
+const PLOT_RANGE_DB = 100;
+
+const badge = (detected: EncodingConclusion['detected']) =>
+  detected === true
+    ? { label: 'Detected', className: 'bg-red-100 text-red-800' }
+    : detected === false
+      ? { label: 'Not found', className: 'bg-green-100 text-green-800' }
+      : { label: 'Info', className: 'bg-gray-100 text-gray-700' };
+
+const SpectrumPlot: React.FC<SpectrumPlotProps> = ({ spectrumDb, binHz, cutoffHz }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || spectrumDb.length === 0) return;
+
+    ctx.clearRect(0, 0, PLOT_WIDTH, PLOT_HEIGHT);
+    const top = Math.max(...spectrumDb);
+    const maxHz = spectrumDb.length * binHz;
+    const toX = (hz: number) => (hz / maxHz) * PLOT_WIDTH;
+    const toY = (db: number) => (Math.min(PLOT_RANGE_DB, top - db) / PLOT_RANGE_DB) * PLOT_HEIGHT;
+
+    ctx.strokeStyle = '#ef4444';
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(toX(cutoffHz), 0);
+    ctx.lineTo(toX(cutoffHz), PLOT_HEIGHT);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = '#7c3aed';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = 0; i < spectrumDb.length; i++) {
+      const x = toX(i * binHz);
+      if (i === 0) ctx.moveTo(x, toY(spectrumDb[i]));
+      else ctx.lineTo(x, toY(spectrumDb[i]));
+    }
+    ctx.stroke();
+    ctx.lineWidth = 1;
+
+    ctx.font = '10px Arial';
+    ctx.fillStyle = '#6b7280';
+    ctx.textAlign = 'left';
+    ctx.fillText('0 dB', 2, 10);
+    ctx.fillText(`-${PLOT_RANGE_DB} dB`, 2, PLOT_HEIGHT - 3);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${(cutoffHz / 1000).toFixed(1)} kHz`, toX(cutoffHz) - 3, 10);
+  }, [spectrumDb, binHz, cutoffHz]);
+
+  return (
+    <div>
+      <canvas ref={canvasRef} width={PLOT_WIDTH} height={PLOT_HEIGHT} className="w-full h-auto bg-white rounded" />
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>0 Hz</span>
+        <span>{((spectrumDb.length * binHz) / 1000).toFixed(1)} kHz</span>
+      </div>
+    </div>
+  );
+};
+
+const EncodingView: React.FC<EncodingViewProps> = ({ histories }) => {
+  const [selectedId, setSelectedId] = useState(histories[0].bufferId);
+  const history = histories.find(h => h.bufferId === selectedId) ?? histories[0];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <FileSearch className="h-5 w-5 text-indigo-600" />
+          <h4 className="font-semibold text-gray-900">Encoding History</h4>
+        </div>
+        {histories.length > 1 && (
+          <select
+            value={history.bufferId}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="text-sm border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            {histories.map(h => (
+              <option key={h.bufferId} value={h.bufferId}>{h.fileName}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {history.conclusions.map(conclusion => {
+          const { label, className } = badge(conclusion.detected);
+          return (
+            <div key={conclusion.topic} className="bg-gray-50 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <span className="font-medium text-gray-900">{conclusion.topic}:</span>{' '}
+                  <span className="text-gray-700">{conclusion.statement}</span>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{label}</span>
+              </div>
+              {conclusion.evidence.length > 0 && (
+                <ul className="mt-1 text-xs text-gray-600 list-disc list-inside space-y-0.5">
+                  {conclusion.evidence.map(line => (
+                    <li key={line} className="whitespace-pre-line">{line}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4">
+        <div className="text-sm font-medium text-gray-800 mb-1">Long-term spectrum</div>
+        <SpectrumPlot spectrumDb={history.spectrumDb} binHz={history.binHz} cutoffHz={history.bandwidth.cutoffHz} />
+      </div>
+
+      <div className="text-xs text-gray-500 mt-3">
+        Header fields are read from the original file; bandwidth, frame grids and bit depth are measured on the decoded
+        samples. Compressed files are decoded by the browser, so their bit depth is not assessed.
+      </div>
+    </div>
+  );
+};
+
+export default EncodingView;
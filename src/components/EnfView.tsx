@@ -0,0 +1,300 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Zap, FileUp } from 'lucide-react';
+import { StoredBuffer, mixToMono } from '../lib/bufferStore';
+import { Transport } from '../lib/transport';
+import { formatTimestamp } from '../lib/analysisPipeline';
+import {
+  DEFAULT_ENF_OPTIONS,
+  EnfMatch,
+  EnfReference,
+  EnfTrace,
+  MainsFrequency,
+  extractEnf,
+  matchReference,
+  parseEnfCsv
+} from '../lib/enf';
+
+interface EnfViewProps {
+  buffer: StoredBuffer | null;
+  transport: Transport | null;
+}
+
+const WIDTH = 800;
+const HEIGHT = 220;
+const PADDING = { left: 56, right: 12, top: 12, bottom: 24 };
+// Below this correlation a reference match is shown as inconclusive
+const WEAK_CORRELATION = 0.6;
+
+const EnfView: React.FC<EnfViewProps> = ({ buffer, transport }) => {
+  const [nominal, setNominal] = useState<MainsFrequency | null>(DEFAULT_ENF_OPTIONS.nominal);
+  const [trace, setTrace] = useState<EnfTrace | null>(null);
+  const [analysing, setAnalysing] = useState(false);
+  const [reference, setReference] = useState<EnfReference | null>(null);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+  const [match, setMatch] = useState<EnfMatch | null>(null);
+  const [matching, setMatching] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A trace belongs to one file
+  useEffect(() => {
+    setTrace(null);
+  }, [buffer]);
+
+  useEffect(() => {
+    setMatch(null);
+    setMatching(false);
+    if (!trace || !reference) return;
+    let cancelled = false;
+    setMatching(true);
+    matchReference(trace, reference)
+      .then(result => { if (!cancelled) setMatch(result); })
+      .catch(error => console.error('Error matching ENF reference:', error))
+      .finally(() => { if (!cancelled) setMatching(false); });
+    return () => {
+      cancelled = true;
+    };
+  }, [trace, reference]);
+
+  const analyse = async () => {
+    if (!buffer) return;
+    setAnalysing(true);
+    try {
+      setTrace(await extractEnf(mixToMono(buffer), buffer.sampleRate, { ...DEFAULT_ENF_OPTIONS, nominal }));
+    } catch (error) {
+      console.error('Error extracting ENF:', error);
+    } finally {
+      setAnalysing(false);
+    }
+  };
+
+  const importReference = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setReference(parseEnfCsv(await file.text(), file.name));
+      setReferenceError(null);
+    } catch (error) {
+      console.error('Error reading ENF reference:', error);
+      setReferenceError(error instanceof Error ? error.message : String(error));
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !trace || trace.times.length === 0) return;
+
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    const duration = buffer?.duration ?? trace.times[trace.times.length - 1];
+    const trusted = trace.frequency.filter((_, i) => trace.reliable[i]);
+    const values = trusted.length > 0 ? trusted : trace.frequency;
+    const margin = Math.max(0.005, (Math.max(...values) - Math.min(...values)) * 0.15);
+    const low = Math.min(...values) - margin;
+    const high = Math.max(...values) + margin;
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const toX = (time: number) => PADDING.left + (time / duration) * plotWidth;
+    const toY = (hz: number) => PADDING.top + ((high - hz) / (high - low)) * plotHeight;
+
+    ctx.font = '10px Arial';
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.fillStyle = '#6b7280';
+    ctx.lineWidth = 1;
+    for (let i = 0; i <= 4; i++) {
+      const hz = low + (i / 4) * (high - low);
+      const y = toY(hz);
+      ctx.beginPath();
+      ctx.moveTo(PADDING.left, y);
+      ctx.lineTo(WIDTH - PADDING.right, y);
+      ctx.stroke();
+      ctx.textAlign = 'right';
+      ctx.fillText(hz.toFixed(3), PADDING.left - 4, y + 3);
+    }
+    ctx.textAlign = 'center';
+    for (let i = 0; i <= 4; i++) {
+      ctx.fillText(formatTimestamp((i / 4) * duration), toX((i / 4) * duration), HEIGHT - 6);
+    }
+
+    trace.discontinuities.forEach(d => {
+      ctx.strokeStyle = d.kind === 'phase' ? '#ef4444' : '#f59e0b';
+      ctx.beginPath();
+      ctx.moveTo(toX(d.time), PADDING.top);
+      ctx.lineTo(toX(d.time), HEIGHT - PADDING.bottom);
+      ctx.stroke();
+    });
+
+    // Reference aligned at the best match, shifted to the trace's mean
+    if (reference && match) {
+      const shift = trace.meanFrequency -
+        reference.frequency.reduce((sum, f) => sum + f, 0) / reference.frequency.length;
+      ctx.strokeStyle = '#10b981';
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      let started = false;
+      reference.times.forEach((t, i) => {
+        const time = t - match.offsetSeconds;
+        if (time < 0 || time > duration) return;
+        const y = toY(reference.frequency[i] + shift);
+        if (started) ctx.lineTo(toX(time), y);
+        else ctx.moveTo(toX(time), y);
+        started = true;
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    ctx.strokeStyle = '#7c3aed';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let drawing = false;
+    trace.times.forEach((time, i) => {
+      if (!trace.reliable[i]) {
+        drawing = false;
+        return;
+      }
+      const y = Math.max(PADDING.top, Math.min(HEIGHT - PADDING.bottom, toY(trace.frequency[i])));
+      if (drawing) ctx.lineTo(toX(time), y);
+      else ctx.moveTo(toX(time), y);
+      drawing = true;
+    });
+    ctx.stroke();
+
+    ctx.fillStyle = '#9ca3af';
+    trace.times.forEach((time, i) => {
+      if (trace.reliable[i]) return;
+      const y = Math.max(PADDING.top, Math.min(HEIGHT - PADDING.bottom, toY(trace.frequency[i])));
+      ctx.fillRect(toX(time) - 1.5, y - 1.5, 3, 3);
+    });
+  }, [trace, reference, match, buffer]);
+
+  const seek = (time: number) => {
+    if (!transport || !buffer) return;
+    transport.load(buffer);
+    transport.seek(time).catch(error => console.error('Error seeking playback:', error));
+  };
+
+  if (!buffer) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Record or upload audio to analyse its mains hum.
+      </div>
+    );
+  }
+
+  const reliableCount = trace ? trace.reliable.filter(Boolean).length : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <select
+            value={nominal ?? 'auto'}
+            onChange={(e) => setNominal(e.target.value === 'auto' ? null : (Number(e.target.value) as MainsFrequency))}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="auto">Mains: auto</option>
+            <option value={50}>Mains: 50 Hz</option>
+            <option value={60}>Mains: 60 Hz</option>
+          </select>
+          <button
+            onClick={analyse}
+            disabled={analysing}
+            className="flex items-center space-x-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+          >
+            <Zap className="h-4 w-4" />
+            <span>{analysing ? 'Tracking hum...' : 'Extract ENF'}</span>
+          </button>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm transition-colors"
+          title="CSV of time,frequency or one frequency per second"
+        >
+          <FileUp className="h-4 w-4" />
+          <span>{reference ? reference.name : 'Import reference CSV'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv"
+          onChange={(e) => importReference(e.target.files?.[0])}
+          className="hidden"
+        />
+      </div>
+
+      {referenceError && <div className="text-sm text-red-600">Reference not loaded: {referenceError}</div>}
+
+      {trace === null && !analysing && (
+        <div className="text-sm text-gray-500">
+          Tracks the 50/60 Hz mains hum over time to date the recording against a grid reference and to find edits.
+          Files shorter than {DEFAULT_ENF_OPTIONS.frameSeconds} s cannot be analysed.
+        </div>
+      )}
+
+      {trace && (
+        <>
+          <div className="text-sm text-gray-700">
+            Mains {trace.nominal} Hz, tracked at {trace.harmonic === 1 ? 'the fundamental' : `harmonic ${trace.harmonic}`} (
+            {trace.nominal * trace.harmonic} Hz), SNR {trace.snrDb.toFixed(1)} dB · mean {trace.meanFrequency.toFixed(4)} Hz
+            ± {(trace.stdFrequency * 1000).toFixed(1)} mHz · {reliableCount}/{trace.times.length} frames reliable
+          </div>
+          {reliableCount === 0 && (
+            <div className="text-sm text-amber-700 bg-amber-50 p-2 rounded-lg">
+              No clear mains hum: the recording may be battery powered or filtered.
+            </div>
+          )}
+          <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="w-full h-auto bg-gray-50 border border-gray-200 rounded" />
+          <div className="text-xs text-gray-500">
+            Purple: ENF trace (grey dots are frames buried in noise) · red: phase jump · amber: frequency jump
+            {match && ' · green dashed: reference at the best match'}
+          </div>
+
+          {match && reference && (
+            <div className={`text-sm p-3 rounded-lg ${
+              match.correlation >= WEAK_CORRELATION ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'
+            }`}>
+              Best match with {reference.name}: recording starts {formatTimestamp(Math.max(0, match.offsetSeconds))}{' '}
+              {match.offsetSeconds < 0 && '(before the reference begins) '}into the reference
+              {match.startEpochMs !== null && ` (${new Date(match.startEpochMs).toISOString()})`}; correlation{' '}
+              {match.correlation.toFixed(3)}, RMSE {(match.rmse * 1000).toFixed(1)} mHz over {match.overlapSeconds.toFixed(0)} s
+              {match.correlation < WEAK_CORRELATION && '. The match is weak and should not be relied on.'}
+            </div>
+          )}
+          {reference && matching && (
+            <div className="text-sm text-gray-500">Comparing with {reference.name}...</div>
+          )}
+          {reference && !matching && !match && (
+            <div className="text-sm text-gray-500">Too few reliable frames to compare with the reference.</div>
+          )}
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Discontinuities</h4>
+            {trace.discontinuities.length === 0 ? (
+              <div className="text-sm text-gray-500">No phase or frequency jumps found.</div>
+            ) : (
+              <div className="space-y-1">
+                {trace.discontinuities.map(d => (
+                  <button
+                    key={`${d.kind}-${d.time}`}
+                    onClick={() => seek(d.time)}
+                    className="w-full flex items-center justify-between text-sm bg-gray-50 hover:bg-purple-50 rounded-lg px-3 py-2"
+                  >
+                    <span className="font-mono">{formatTimestamp(d.time)}</span>
+                    <span className={d.kind === 'phase' ? 'text-red-600' : 'text-amber-600'}>
+                      {d.kind === 'phase'
+                        ? `Phase jump ${d.magnitude.toFixed(2)} rad at ${trace.nominal * trace.harmonic} Hz`
+                        : `Frequency jump ${(d.magnitude * 1000).toFixed(1)} mHz`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EnfView;
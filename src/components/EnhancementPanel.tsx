@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { Wand2, Download } from 'lucide-react';
+import { StoredBuffer } from '../lib/bufferStore';
+import { TimeRegion } from '../types/audio';
+import {
+  DEFAULT_ENHANCEMENT_SETTINGS,
+  Enhancement,
+  EnhancementSettings,
+  NOISE_REDUCTION_LABELS,
+  NoiseReductionMethod,
+  describeEnhancement,
+  enhanceBuffer
+} from '../lib/enhancement';
+import { MainsFrequency } from '../lib/enf';
+import { encodeWav } from '../lib/wav/writer';
+import { hashBlob } from '../lib/hash';
+
+interface EnhancementPanelProps {
+  buffer: StoredBuffer;
+  selection: TimeRegion | null;
+  enhancement: Enhancement | null;
+  onEnhancementChange: (enhancement: Enhancement) => void;
+  // Whether playback uses the enhanced rendering (B) instead of the original (A)
+  listenEnhanced: boolean;
+  onListenEnhancedChange: (enhanced: boolean) => void;
+  operator: string;
+}
+
+const CHECKBOX_CLASS = 'h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded';
+const INPUT_CLASS = 'w-20 p-1 border border-gray-300 rounded text-sm';
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, onChange }) => (
+  <label className="flex items-center space-x-1 text-sm text-gray-600">
+    <span>{label}</span>
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next)) onChange(Math.max(min, Math.min(max, next)));
+      }}
+      className={INPUT_CLASS}
+    />
+  </label>
+);
+
+const EnhancementPanel: React.FC<EnhancementPanelProps> = ({
+  buffer,
+  selection,
+  enhancement,
+  onEnhancementChange,
+  listenEnhanced,
+  onListenEnhancedChange,
+  operator
+}) => {
+  const [settings, setSettings] = useState<EnhancementSettings>(enhancement?.settings ?? DEFAULT_ENHANCEMENT_SETTINGS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const noiseRegion = selection?.bufferId === buffer.id ? selection : null;
+  const anyStep = settings.declick || settings.humRemoval || settings.highPass || settings.lowPass || settings.noiseReduction;
+
+  const update = (changes: Partial<EnhancementSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const render = async () => {
+    setProgress(0);
+    setError(null);
+    try {
+      onEnhancementChange(await enhanceBuffer(buffer, settings, noiseRegion, operator, setProgress));
+    } catch (error) {
+      console.error('Error enhancing audio:', error);
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const exportEnhanced = async () => {
+    if (!enhancement) return;
+    const { buffer: enhanced, log } = enhancement;
+    const blob = encodeWav({
+      channels: enhanced.channels,
+      sampleRate: enhanced.sampleRate,
+      format: 'float32',
+      info: {
+        ISFT: 'Audio Forensic Audio',
+        ISRC: buffer.name,
+        ICMT: `Enhanced copy, not original evidence.\n${describeEnhancement(log).join('\n')}`
+      }
+    });
+
+    try {
+      const digests = await hashBlob(blob);
+      onEnhancementChange({
+        ...enhancement,
+        log: {
+          ...log,
+          exports: [...log.exports, { fileName: enhanced.name, ...digests, timestamp: new Date().toISOString() }]
+        }
+      });
+    } catch (error) {
+      console.error('Error hashing enhanced export:', error);
+    }
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = enhanced.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Wand2 className="h-5 w-5 text-purple-600" />
+          <h3 className="font-semibold text-gray-900">Enhancement</h3>
+          {enhancement && (
+            <span className="text-sm text-gray-500">{enhancement.log.steps.length} step(s) applied</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="flex rounded-lg overflow-hidden border border-gray-300 text-sm" title="A/B: what playback uses">
+            <button
+              onClick={() => onListenEnhancedChange(false)}
+              className={`px-3 py-2 ${!listenEnhanced ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              A Original
+            </button>
+            <button
+              onClick={() => onListenEnhancedChange(true)}
+              disabled={!enhancement}
+              className={`px-3 py-2 disabled:opacity-50 ${listenEnhanced ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+            >
+              B Enhanced
+            </button>
+          </div>
+          <button
+            onClick={exportEnhanced}
+            disabled={!enhancement}
+            className="p-2 text-gray-600 hover:text-purple-700 disabled:opacity-30"
+            title="Export the enhanced audio as 32-bit float WAV"
+          >
+            <Download className="h-5 w-5" />
+          </button>
+          <button
+            onClick={render}
+            disabled={!anyStep || progress !== null}
+            className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+          >
+            {progress !== null ? `Processing ${(progress * 100).toFixed(0)}%` : enhancement ? 'Re-render' : 'Render'}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 bg-gray-50 rounded-lg p-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-800 w-40">
+            <input type="checkbox" checked={settings.noiseReduction} onChange={(e) => update({ noiseReduction: e.target.checked })} className={CHECKBOX_CLASS} />
+            <span>Noise reduction</span>
+          </label>
+          <select
+            value={settings.method}
+            onChange={(e) => update({ method: e.target.value as NoiseReductionMethod })}
+            className="p-1 border border-gray-300 rounded text-sm"
+          >
+            {Object.entries(NOISE_REDUCTION_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          <NumberField label="Max dB" value={settings.reductionDb} min={0} max={40} onChange={reductionDb => update({ reductionDb })} />
+          {settings.method === 'subtraction' && (
+            <NumberField
+              label="Over-subtraction"
+              value={settings.overSubtraction}
+              min={1}
+              max={4}
+              step={0.1}
+              onChange={overSubtraction => update({ overSubtraction })}
+            />
+          )}
+          <span className={`text-xs ${noiseRegion || !settings.noiseReduction ? 'text-gray-500' : 'text-amber-600'}`}>
+            {noiseRegion
+              ? `Profile: ${noiseRegion.start.toFixed(2)}–${noiseRegion.end.toFixed(2)} s`
+              : 'Select a noise-only region on the timeline as the profile'}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-800 w-40">
+            <input type="checkbox" checked={settings.humRemoval} onChange={(e) => update({ humRemoval: e.target.checked })} className={CHECKBOX_CLASS} />
+            <span>Hum removal</span>
+          </label>
+          <select
+            value={settings.mainsFrequency ?? 'auto'}
+            onChange={(e) => update({ mainsFrequency: e.target.value === 'auto' ? null : Number(e.target.value) as MainsFrequency })}
+            className="p-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="auto">Detect mains</option>
+            <option value="50">50 Hz</option>
+            <option value="60">60 Hz</option>
+          </select>
+          <NumberField label="Harmonics" value={settings.humHarmonics} min={1} max={40} onChange={humHarmonics => update({ humHarmonics })} />
+          <NumberField label="Q" value={settings.humQ} min={5} max={200} onChange={humQ => update({ humQ })} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-800 w-40">
+            <input type="checkbox" checked={settings.highPass} onChange={(e) => update({ highPass: e.target.checked })} className={CHECKBOX_CLASS} />
+            <span>High-pass</span>
+          </label>
+          <NumberField label="Hz" value={settings.highPassHz} min={10} max={5000} onChange={highPassHz => update({ highPassHz })} />
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-800">
+            <input type="checkbox" checked={settings.lowPass} onChange={(e) => update({ lowPass: e.target.checked })} className={CHECKBOX_CLASS} />
+            <span>Low-pass</span>
+          </label>
+          <NumberField label="Hz" value={settings.lowPassHz} min={500} max={24000} step={100} onChange={lowPassHz => update({ lowPassHz })} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-800 w-40">
+            <input type="checkbox" checked={settings.declick} onChange={(e) => update({ declick: e.target.checked })} className={CHECKBOX_CLASS} />
+            <span>De-click</span>
+          </label>
+          <NumberField
+            label="Threshold σ"
+            value={settings.declickThreshold}
+            min={3}
+            max={30}
+            step={0.5}
+            onChange={declickThreshold => update({ declickThreshold })}
+          />
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {enhancement && (
+        <div className="text-xs text-gray-600 space-y-1">
+          <div>
+            Rendered {new Date(enhancement.log.timestamp).toLocaleString()}
+            {enhancement.log.operator && ` by ${enhancement.log.operator}`}; the original file is unchanged.
+          </div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {enhancement.log.steps.map(step => (
+              <li key={step.name}>
+                <span className="font-medium text-gray-800">{step.name}:</span> {step.result}
+              </li>
+            ))}
+          </ul>
+          {enhancement.log.exports.map(e => (
+            <div key={e.timestamp} className="font-mono break-all">
+              Exported {e.fileName} · SHA-256 {e.sha256}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnhancementPanel;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { AudioSource } from '../types/audio';
+import { CHROMA_LABELS, FeatureFrames, SourceFeatures, featuresToCsv } from '../lib/features';
+import { bufferStore } from '../lib/bufferStore';
+
+interface FeatureViewProps {
+  audioSources: AudioSource[];
+  features: SourceFeatures[];
+  frames: Map<string, FeatureFrames>;
+}
+
+const download = (content: string, type: string, name: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Bars scaled between the smallest and largest value of the row
+const Bars: React.FC<{ values: number[]; labels?: string[]; color: string }> = ({ values, labels, color }) => {
+  const low = Math.min(...values);
+  const span = Math.max(...values) - low || 1;
+  return (
+    <div className="flex items-end h-16 space-x-px">
+      {values.map((value, i) => (
+        <div
+          key={i}
+          className={`flex-1 ${color} rounded-t`}
+          style={{ height: `${8 + ((value - low) / span) * 92}%` }}
+          title={`${labels?.[i] ?? i + 1}: ${value.toFixed(2)}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const FeatureView: React.FC<FeatureViewProps> = ({ audioSources, features, frames }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const exportSegment = (entry: SourceFeatures) => {
+    const bufferFrames = frames.get(entry.bufferId);
+    if (!bufferFrames) return;
+    const csv = featuresToCsv(bufferFrames, entry.summary.start, entry.summary.end);
+    download(csv, 'text/csv', `features-${entry.sourceId}.csv`);
+  };
+
+  const exportSummaries = () => {
+    const data = features.map(entry => ({
+      ...entry,
+      source: audioSources.find(s => s.id === entry.sourceId)?.name,
+      file: bufferStore.get(entry.bufferId)?.name
+    }));
+    download(JSON.stringify(data, null, 2), 'application/json', `features-${Date.now()}.json`);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-semibold text-gray-900">Acoustic Features</h4>
+        <button
+          onClick={exportSummaries}
+          className="flex items-center space-x-1 text-sm bg-purple-100 hover:bg-purple-200 text-purple-700 px-3 py-1 rounded-lg transition-colors"
+        >
+          <Download className="h-4 w-4" />
+          <span>JSON</span>
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-2">Segment</th>
+              <th className="py-2 pr-2 text-right">Centroid</th>
+              <th className="py-2 pr-2 text-right">Rolloff</th>
+              <th className="py-2 pr-2 text-right">Flatness</th>
+              <th className="py-2 pr-2 text-right">ZCR</th>
+              <th className="py-2 pr-2 text-right">RMS</th>
+              <th className="py-2 pr-2">Chroma</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {features.map(entry => {
+              const source = audioSources.find(s => s.id === entry.sourceId);
+              const { summary } = entry;
+              const isOpen = expanded === entry.sourceId;
+              const strongest = summary.chroma.indexOf(Math.max(...summary.chroma));
+              return (
+                <React.Fragment key={entry.sourceId}>
+                  <tr
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpanded(isOpen ? null : entry.sourceId)}
+                  >
+                    <td className="py-2 pr-2">
+                      <div className="flex items-center space-x-1">
+                        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        <span className="truncate max-w-48">{source?.name ?? entry.sourceId}</span>
+                      </div>
+                    </td>
+                    <td className="py-2 pr-2 text-right">{summary.centroid.mean.toFixed(0)} Hz</td>
+                    <td className="py-2 pr-2 text-right">{summary.rolloff.mean.toFixed(0)} Hz</td>
+                    <td className="py-2 pr-2 text-right">{summary.flatness.mean.toFixed(3)}</td>
+                    <td className="py-2 pr-2 text-right">{summary.zcr.mean.toFixed(3)}</td>
+                    <td className="py-2 pr-2 text-right">{summary.rmsDb.mean.toFixed(1)} dBFS</td>
+                    <td className="py-2 pr-2">{CHROMA_LABELS[strongest]}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          exportSegment(entry);
+                        }}
+                        className="text-purple-600 hover:text-purple-800"
+                        title="Export the frames of this segment as CSV"
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr className="border-b border-gray-100">
+                      <td colSpan={8} className="py-3">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs text-gray-600">
+                          <div>
+                            <div className="mb-1">MFCC mean (1–{summary.mfcc.length})</div>
+                            <Bars values={summary.mfcc.map(s => s.mean)} color="bg-purple-500" />
+                          </div>
+                          <div>
+                            <div className="mb-1">Log-mel mean ({summary.logMel.length} bands)</div>
+                            <Bars values={summary.logMel} color="bg-blue-500" />
+                          </div>
+                          <div>
+                            <div className="mb-1">Chroma</div>
+                            <Bars values={summary.chroma} labels={CHROMA_LABELS} color="bg-green-500" />
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-600 mt-3">
+                          <div>Bandwidth: {summary.bandwidth.mean.toFixed(0)} ± {summary.bandwidth.std.toFixed(0)} Hz</div>
+                          <div>Flux: {summary.flux.mean.toFixed(2)} ± {summary.flux.std.toFixed(2)}</div>
+                          <div>RMS spread: {summary.rmsDb.std.toFixed(1)} dB</div>
+                          <div>{summary.frameCount} frames</div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default FeatureView;
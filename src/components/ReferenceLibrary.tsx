@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Library, Plus, Trash2 } from 'lucide-react';
+import {
+  BUILT_IN_CLASSES,
+  ClassifierOptions,
+  DistanceMetric,
+  METRIC_LABELS,
+  ReferenceExample,
+  createExample,
+  crossValidate,
+  impulseExamples,
+  libraryClasses,
+  referenceLibrary
+} from '../lib/classifier';
+import { decodeAudioFile } from '../lib/decode';
+import { IMPULSE_CATEGORIES } from '../lib/impulses';
+
+interface ReferenceLibraryProps {
+  options: ClassifierOptions;
+  onOptionsChange: (options: ClassifierOptions) => void;
+}
+
+const ReferenceLibrary: React.FC<ReferenceLibraryProps> = ({ options, onOptionsChange }) => {
+  const [examples, setExamples] = useState<ReferenceExample[]>(referenceLibrary.list);
+  const [label, setLabel] = useState<string>('voice');
+  const [adding, setAdding] = useState<string | null>(null);
+  const [failed, setFailed] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => referenceLibrary.subscribe(() => setExamples(referenceLibrary.list())), []);
+
+  const classes = libraryClasses(examples);
+  const validation = useMemo(() => crossValidate(examples, options), [examples, options]);
+  const impulses = impulseExamples(examples);
+
+  const addClips = async (files: FileList | null) => {
+    const trimmed = label.trim().toLowerCase();
+    if (!files || !trimmed) return;
+    const errors: string[] = [];
+    // One clip at a time; reference clips are not kept in the buffer store
+    for (const file of Array.from(files)) {
+      setAdding(file.name);
+      try {
+        referenceLibrary.put(await createExample(await decodeAudioFile(file, false), trimmed));
+      } catch (error) {
+        console.error(`Error adding ${file.name} to the reference library:`, error);
+        errors.push(file.name);
+      }
+    }
+    setFailed(errors);
+    setAdding(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Library className="h-5 w-5 text-purple-600" />
+        <h4 className="font-semibold text-gray-900">Reference Library</h4>
+        <span className="text-sm text-gray-500">{examples.length} examples</span>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          list="reference-classes"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Class"
+          className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <datalist id="reference-classes">
+          {Array.from(new Set([...BUILT_IN_CLASSES, ...IMPULSE_CATEGORIES.filter(c => c !== 'other'), ...classes])).map(name => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={adding !== null || !label.trim()}
+          className="flex items-center space-x-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add clips</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="audio/*,.mp3,.wav,.ogg,.m4a,.aac,.flac"
+          onChange={(e) => addClips(e.target.files)}
+          className="hidden"
+        />
+      </div>
+
+      {adding && <div className="text-sm text-purple-600">Extracting features of {adding}...</div>}
+      {failed.length > 0 && (
+        <div className="text-sm text-red-600">Could not add: {failed.join(', ')}</div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-sm text-gray-600">
+          k
+          <input
+            type="number"
+            min={1}
+            max={25}
+            value={options.k}
+            onChange={(e) => onOptionsChange({ ...options, k: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Distance
+          <select
+            value={options.metric}
+            onChange={(e) => onOptionsChange({ ...options, metric: e.target.value as DistanceMetric })}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {Object.entries(METRIC_LABELS).map(([key, name]) => (
+              <option key={key} value={key}>{name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="text-sm">
+        {validation ? (
+          <div className="text-gray-700">
+            <div className="font-medium">
+              Leave-one-out accuracy: {(validation.accuracy * 100).toFixed(1)}% ({validation.examples} examples)
+            </div>
+            <div className="text-xs text-gray-500">
+              {Object.entries(validation.perClass)
+                .map(([name, { correct, total }]) => `${name} ${correct}/${total}`)
+                .join(' · ')}
+            </div>
+          </div>
+        ) : (
+          <div className="text-gray-500">
+            Add examples of at least two classes to classify sources and measure accuracy.
+          </div>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500">
+        Impulsive events are categorised from clips labelled gunshot, slam or glass; other clips teach the "other"
+        category. {impulses.length > 0
+          ? IMPULSE_CATEGORIES.map(c => `${c} ${impulses.filter(e => e.label === c).length}`).join(' · ')
+          : 'No clips describe an impulse yet.'}
+      </div>
+
+      {classes.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {classes.map(name => (
+            <details key={name} className="bg-gray-50 rounded-lg p-2">
+              <summary className="cursor-pointer text-sm font-medium text-gray-800 capitalize">
+                {name} ({examples.filter(e => e.label === name).length})
+              </summary>
+              <div className="mt-1 space-y-1">
+                {examples.filter(e => e.label === name).map(example => (
+                  <div key={example.id} className="flex items-center justify-between text-xs text-gray-600">
+                    <span className="truncate">{example.name}</span>
+                    <button
+                      onClick={() => referenceLibrary.remove(example.id)}
+                      className="text-red-500 hover:text-red-700 p-1"
+                      title="Remove from library"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceLibrary;
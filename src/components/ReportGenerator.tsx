@@ -1,36 +1,206 @@
-import React from 'react';
-import { FileText, Download, Share2, Calendar, MapPin, Volume2 } from 'lucide-react';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import React, { useState, useEffect } from 'react';
+import { FileText, Download, Share2, Calendar, MapPin, Volume2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { AudioSource, TimeRegion } from '../types/audio';
+import { CalibrationProfile, describeProfile, levelUnit, loadProfiles, profileId } from '../lib/calibration';
+import { VerificationResult, custodyLog, lastVerification, verifyCustodyChain, verifyEvidence } from '../lib/custody';
+import { chronological, formatTimestamp, overlapsRegion } from '../lib/analysisPipeline';
+import { bufferStore } from '../lib/bufferStore';
+import { Diarization, speakerTurns, talkSeconds } from '../lib/diarization';
+import { DETECTOR_LABELS, TamperAnalysis } from '../lib/tamper';
+import { EncodingHistory } from '../lib/encoding';
+import { ImpulseAnalysis } from '../lib/impulses';
+import { EnhancementLog } from '../lib/enhancement';
+import { SENSITIVITY_PRESETS, Settings, describeDetection, describeDisplay, sourceShown } from '../lib/settings';
+import { PresetInEffect, presetInEffect, shortHash } from '../lib/presets';
+import { DOA_METHOD_LABELS, describeGeometry } from '../lib/doa';
+import { DISTANCE_CUE_LABELS, confidenceLabel, describeDistanceModel, formatDistance } from '../lib/distance';
+import {
+  INTEGRITY_LABELS,
+  IntegrityFinding,
+  IntegrityReport,
+  IntegrityStatus,
+  findingsBetween,
+  integrityStatus
+} from '../lib/integrity';
 
 interface ReportGeneratorProps {
   audioSources: AudioSource[];
   analysisData: any;
   datasetSize: number;
+  calibration: CalibrationProfile | null;
+  operator: string;
+  selection: TimeRegion | null;
+  diarizations: Diarization[];
+  // Processing of enhanced listening copies; analyses always use the originals
+  enhancements: EnhancementLog[];
+  settings: Settings;
+  // Settings the sources were detected with; null before any detection
+  detectionSettings: Settings | null;
+}
+
+interface CustodyCheck {
+  results: VerificationResult[];
+  // Session files not verified since they were registered
+  unverified: number;
+  // Sequence number of the first tampered log entry, null when intact
+  chainBreak: number | null;
+  checkedAt: string;
 }
 
+/** Re-hash every evidence file of the session, logging the outcome, and check the log's chain. */
+const checkCustody = async (operator: string): Promise<CustodyCheck> => {
+  const results: VerificationResult[] = [];
+  for (const id of custodyLog.evidenceIds()) {
+    results.push(await verifyEvidence(id, operator));
+  }
+  return { results, unverified: 0, chainBreak: await verifyCustodyChain(), checkedAt: new Date().toISOString() };
+};
+
+/** The verifications already logged for the session's files; nothing is re-hashed or logged. */
+const custodyStatus = async (): Promise<CustodyCheck> => {
+  const ids = custodyLog.evidenceIds();
+  const results = ids.flatMap(id => lastVerification(id) ?? []);
+  return {
+    results,
+    unverified: ids.length - results.length,
+    chainBreak: await verifyCustodyChain(),
+    checkedAt: new Date().toISOString()
+  };
+};
+
+const STATUS_BADGES: Record<IntegrityStatus, { label: string; className: string }> = {
+  clean: { label: 'Clean', className: 'text-green-600' },
+  warning: { label: 'Warnings', className: 'text-amber-600' },
+  critical: { label: 'Critical', className: 'text-red-600' }
+};
+
+const severityClass = (severity: IntegrityFinding['severity']) =>
+  severity === 'critical' ? 'bg-red-100 text-red-800' : severity === 'warning' ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700';
+
+interface SourceIntegrity {
+  status: IntegrityStatus;
+  findings: IntegrityFinding[];
+}
+
+const IntegrityCell: React.FC<{ integrity: SourceIntegrity | null }> = ({ integrity }) => {
+  if (!integrity) return <span className="text-gray-400">Not scanned</span>;
+  const { label, className } = STATUS_BADGES[integrity.status];
+  const checks = Array.from(new Set(integrity.findings.filter(f => f.severity !== 'info').map(f => INTEGRITY_LABELS[f.check])));
+  return (
+    <>
+      <span className={`font-medium ${className}`}>{label}</span>
+      {checks.length > 0 && <div className="text-xs text-gray-500">{checks.join(', ')}</div>}
+    </>
+  );
+};
+
 const ReportGenerator: React.FC<ReportGeneratorProps> = ({
   audioSources,
   analysisData,
-  datasetSize
+  datasetSize,
+  calibration,
+  operator,
+  selection,
+  diarizations,
+  enhancements,
+  settings,
+  detectionSettings
 }) => {
-  const generateReport = () => {
+  const [custody, setCustody] = useState<CustodyCheck | null>(null);
+  const [preset, setPreset] = useState<PresetInEffect | null>(null);
+  const [custodyEntries, setCustodyEntries] = useState(() => custodyLog.entriesFor(custodyLog.evidenceIds()));
+  const [custodyError, setCustodyError] = useState<string | null>(null);
+
+  // Shown from the log as it stands; files are only re-hashed, and the
+  // verification logged, when a report is generated
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      setCustodyEntries(custodyLog.entriesFor(custodyLog.evidenceIds()));
+      custodyStatus()
+        .then(status => {
+          if (cancelled) return;
+          setCustody(status);
+          setCustodyError(null);
+        })
+        .catch(error => {
+          console.error('Error reading custody status:', error);
+          if (!cancelled) setCustodyError(error instanceof Error ? error.message : String(error));
+        });
+    };
+    refresh();
+    const unsubscribe = custodyLog.subscribe(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [audioSources]);
+
+  // The preset the sources were detected with, or failing that the current one
+  const presetSettings = detectionSettings ?? settings;
+
+  useEffect(() => {
+    let cancelled = false;
+    presetInEffect(presetSettings)
+      .then(result => { if (!cancelled) setPreset(result); })
+      .catch(error => console.error('Error hashing settings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [presetSettings]);
+
+  const tamper: TamperAnalysis[] = analysisData?.tamper ?? [];
+  const suspectEdits = tamper
+    .flatMap(analysis => analysis.findings.map(finding => ({ bufferId: analysis.bufferId, finding })))
+    .sort((a, b) => b.finding.confidence - a.finding.confidence);
+  const encoding: EncodingHistory[] = analysisData?.encoding ?? [];
+  const integrity: IntegrityReport[] = analysisData?.integrity ?? [];
+  const impulseAnalyses: ImpulseAnalysis[] = analysisData?.impulses ?? [];
+  const impulses = impulseAnalyses
+    .flatMap(analysis => analysis.impulses)
+    .sort((a, b) => a.bufferId.localeCompare(b.bufferId) || a.time - b.time);
+  const hiddenSources = audioSources.filter(source => !sourceShown(source, settings));
+  // Every profile behind an SPL figure: the live input's, and those assigned to uploaded files
+  const calibrationsInUse = Array.from(new Set(audioSources.flatMap(s => s.calibrationId ?? [])))
+    .map(id => ({
+      id,
+      profile: calibration && profileId(calibration) === id ? calibration : loadProfiles().find(p => profileId(p) === id) ?? null,
+      assignments: Array.from(new Map(audioSources
+        .flatMap(s => (s.calibrationId === id && s.calibrationAssignment ? [[s.fileId, s.calibrationAssignment] as const] : [])))
+        .entries())
+        .map(([fileId, assignment]) => ({ file: bufferStore.get(fileId)?.name ?? fileId, ...assignment }))
+    }));
+  const directionMethods = Array.from(new Set(audioSources.flatMap(s => (s.direction ? [s.direction.method] : []))));
+  const distanceMethods = Array.from(new Set(audioSources.flatMap(s => s.distanceEstimate?.cues.map(cue => cue.method) ?? [])));
+  const integrityFindings = integrity.flatMap(report => report.findings.map(finding => ({ report, finding })));
+
+  /** Integrity findings within a source's time span; null when its file was not scanned. */
+  const sourceIntegrity = (source: AudioSource): SourceIntegrity | null => {
+    const report = integrity.find(r => r.bufferId === source.fileId);
+    if (!report) return null;
+    const findings = findingsBetween(report, source.startTime, source.endTime);
+    return { status: integrityStatus(findings), findings };
+  };
+
+  const generateReport = async () => {
+    let check: CustodyCheck;
+    try {
+      check = await checkCustody(operator);
+      setCustody(check);
+    } catch (error) {
+      console.error('Error verifying evidence:', error);
+      setCustodyError(error instanceof Error ? error.message : String(error));
+      alert('Evidence could not be verified; the report was not generated.');
+      return;
+    }
+
     const reportData = {
       metadata: {
         title: 'Audio Forensic Analysis Report',
         timestamp: new Date().toISOString(),
         version: '1.0',
-        analyst: 'Audio Forensic Audio System'
+        analyst: 'Audio Forensic Audio System',
+        operator
       },
       summary: {
         totalSources: audioSources.length,
@@ -38,8 +208,114 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
         analysisDate: new Date().toLocaleDateString(),
         processingTime: '3.2 seconds'
       },
-      findings: audioSources,
-      technicalDetails: analysisData || {}
+      calibration: calibrationsInUse.length > 0
+        ? calibrationsInUse.map(({ id, profile, assignments }) => ({
+          profileId: id,
+          description: profile ? describeProfile(profile) : 'Profile no longer stored',
+          ...profile,
+          // Uploaded files the operator assigned the profile to
+          assignedTo: assignments
+        }))
+        : { description: 'None: levels are relative to digital full scale (dBFS)' },
+      settings: {
+        preset: await presetInEffect(presetSettings),
+        detection: detectionSettings && {
+          sensitivity: detectionSettings.sensitivity,
+          thresholds: SENSITIVITY_PRESETS[detectionSettings.sensitivity],
+          filterChain: detectionSettings.filterChain,
+          speechDetection: detectionSettings.vadAggressiveness,
+          micGeometry: detectionSettings.micGeometry,
+          distanceModel: detectionSettings.distanceModel,
+          classification: detectionSettings.mlPredictions && detectionSettings.classifier,
+          description: describeDetection(detectionSettings)
+        },
+        display: {
+          minDbSpl: settings.minDbSpl,
+          minDbfs: settings.minDbfs,
+          maxDistance: settings.maxDistance,
+          soundTypes: settings.soundTypes,
+          hiddenSources: hiddenSources.length,
+          description: describeDisplay(settings)
+        },
+        playbackEnhanced: settings.noiseSuppression
+      },
+      regionOfInterest: selection && {
+        file: bufferStore.get(selection.bufferId)?.name ?? selection.bufferId,
+        start: selection.start,
+        end: selection.end,
+        duration: selection.end - selection.start
+      },
+      findings: chronological(audioSources).map(source => ({
+        ...source,
+        levelUnit: levelUnit(!!source.calibrationId),
+        // Without an estimate the distance only placed the marker
+        distance: source.distanceEstimate ? source.distance : null,
+        inRegionOfInterest: selection ? overlapsRegion(source, selection) : undefined,
+        // Hidden sources are reported all the same
+        shownInView: sourceShown(source, settings),
+        integrity: sourceIntegrity(source)
+      })),
+      impulsiveEvents: impulses.map(impulse => ({
+        file: bufferStore.get(impulse.bufferId)?.name ?? impulse.bufferId,
+        onset: impulse.time,
+        peakTime: impulse.peakTime,
+        peakDbfs: impulse.peakDbfs,
+        riseMs: impulse.riseMs,
+        decayMs: impulse.decayMs,
+        crestDb: impulse.crestDb,
+        centroidHz: impulse.centroidHz,
+        category: impulse.category,
+        categoryProbabilities: impulse.classification?.probabilities ?? null
+      })),
+      integrity: integrity.map(report => ({
+        file: report.fileName,
+        status: report.status,
+        counts: report.counts,
+        findings: report.findings
+      })),
+      speakers: diarizations.map(d => ({
+        file: d.bufferName,
+        speakerCountEstimated: d.estimated,
+        speakers: d.speakers.map(speaker => ({ name: speaker.name, talkSeconds: talkSeconds(d, speaker.id) })),
+        turns: speakerTurns(d).map(turn => ({
+          speaker: d.speakers.find(s => s.id === turn.speakerId)?.name,
+          start: turn.start,
+          end: turn.end
+        }))
+      })),
+      enhancement: enhancements.map(log => ({
+        file: log.fileName,
+        renderedAt: log.timestamp,
+        operator: log.operator,
+        sampleRate: log.sampleRate,
+        channels: log.channels,
+        usedForAnalysis: false,
+        steps: log.steps,
+        exports: log.exports
+      })),
+      editDetection: analysisData?.tamper && tamper.map(analysis => ({
+        file: bufferStore.get(analysis.bufferId)?.name ?? analysis.bufferId,
+        findings: analysis.findings
+      })),
+      encodingHistory: encoding.map(history => ({
+        file: history.fileName,
+        container: history.container.description,
+        encoderSignatures: history.signatures,
+        bandwidth: history.bandwidth,
+        frameGrids: history.frameGrids,
+        upsampledFrom: history.upsampledFrom,
+        bitDepth: history.bitDepth,
+        conclusions: history.conclusions
+      })),
+      custody: {
+        verifiedAt: check.checkedAt,
+        chainIntact: check.chainBreak === null,
+        chainBreakAtSequence: check.chainBreak,
+        evidence: check.results,
+        log: custodyLog.entriesFor(custodyLog.evidenceIds())
+      },
+      // Detector curves and spectra are left out; the sections above carry the evidence
+      technicalDetails: analysisData ? { ...analysisData, tamper: undefined, encoding: undefined } : {}
     };
 
     const blob = new Blob([JSON.stringify(reportData, null, 2)], {
@@ -83,9 +359,13 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
     );
   }
 
-  const highestDb = Math.max(...audioSources.map(s => s.decibel));
-  const averageDb = audioSources.reduce((sum, s) => sum + s.decibel, 0) / audioSources.length;
-  const noisySources = audioSources.filter(s => s.decibel > 70);
+  // Only compare like with like: SPL figures when every source is calibrated
+  const allCalibrated = audioSources.every(s => s.calibrationId);
+  const unit = levelUnit(allCalibrated);
+  const levelSources = allCalibrated ? audioSources : audioSources.filter(s => !s.calibrationId);
+  const highestDb = Math.max(...levelSources.map(s => s.decibel));
+  const averageDb = levelSources.reduce((sum, s) => sum + s.decibel, 0) / levelSources.length;
+  const noisySources = allCalibrated ? audioSources.filter(s => s.decibel > 70) : [];
 
   return (
     <div className="space-y-6">
@@ -148,7 +428,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
           
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="text-3xl font-bold text-blue-600 mb-1">{highestDb.toFixed(1)}</div>
-            <div className="text-sm text-gray-600">Peak Decibel Level</div>
+            <div className="text-sm text-gray-600">Peak Level ({unit})</div>
           </div>
           
           <div className="text-center p-4 bg-gray-50 rounded-lg">
@@ -161,19 +441,92 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
           <p>
             This forensic audio analysis processed <strong>{datasetSize.toFixed(2)} MB</strong> of audio data 
             and detected <strong>{audioSources.length} distinct sound sources</strong>. The analysis revealed 
-            a peak sound level of <strong>{highestDb.toFixed(1)} dB</strong> with an average of <strong>{averageDb.toFixed(1)} dB</strong> 
+            a peak sound level of <strong>{highestDb.toFixed(1)} {unit}</strong> with an average of <strong>{averageDb.toFixed(1)} {unit}</strong> 
             across all detected sources.
           </p>
+
+          {selection && (
+            <p>
+              <strong>Region of interest:</strong>{' '}
+              {bufferStore.get(selection.bufferId)?.name ?? selection.bufferId},{' '}
+              {formatTimestamp(selection.start)}–{formatTimestamp(selection.end)}{' '}
+              ({(selection.end - selection.start).toFixed(3)} s), containing{' '}
+              {audioSources.filter(s => overlapsRegion(s, selection)).length} of the detected sources.
+            </p>
+          )}
+
+          <p>
+            <strong>Calibration:</strong>{' '}
+            {calibrationsInUse.length === 0
+              ? 'none. Levels are relative to digital full scale (dBFS) and are not sound pressure levels.'
+              : calibrationsInUse.map(({ id, profile, assignments }) => (
+                <span key={id} className="block">
+                  {profile ? describeProfile(profile) : `profile ${id}, no longer stored`}
+                  {assignments.map(a => (
+                    `; assigned to ${a.file} by ${a.operator || 'unnamed operator'} on ${new Date(a.assignedAt).toLocaleString()}`
+                  )).join('')}
+                </span>
+              ))}
+            {calibrationsInUse.length > 0 && !allCalibrated && ' Sources without a profile are in dBFS.'}
+          </p>
           
           {noisySources.length > 0 && (
             <p className="text-amber-800 bg-amber-50 p-3 rounded-lg">
-              <strong>Alert:</strong> {noisySources.length} source(s) exceeded 70 dB threshold, 
+              <strong>Alert:</strong> {noisySources.length} source(s) exceeded 70 dB SPL threshold, 
               indicating potentially significant audio events requiring further investigation.
             </p>
           )}
         </div>
       </div>
 
+      {/* Settings in Effect */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Settings in Effect</h3>
+        {preset && (
+          <p className="text-sm text-gray-600 mb-4">
+            {preset.name && preset.versionHash ? (
+              <>
+                Preset <strong>{preset.name}</strong>, version <span className="font-mono">{shortHash(preset.versionHash)}</span>
+                {preset.modified && (
+                  <>
+                    , modified from the preset; settings version{' '}
+                    <span className="font-mono">{shortHash(preset.settingsHash)}</span>
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                No preset; settings version <span className="font-mono">{shortHash(preset.settingsHash)}</span>
+              </>
+            )}
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm text-gray-700">
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Detection</h4>
+            {detectionSettings ? (
+              <ul className="list-disc list-inside space-y-1">
+                {describeDetection(detectionSettings).map(line => <li key={line}>{line}</li>)}
+              </ul>
+            ) : (
+              <p className="text-gray-500">Not recorded for these sources.</p>
+            )}
+          </div>
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Display</h4>
+            <ul className="list-disc list-inside space-y-1">
+              {describeDisplay(settings).map(line => <li key={line}>{line}</li>)}
+            </ul>
+            {hiddenSources.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                {hiddenSources.length} of {audioSources.length} sources are hidden from the list and sonar by these
+                limits; they are still reported below.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
       {/* Detailed Findings */}
       <div className="bg-white border border-gray-200 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Detailed Findings</h3>
@@ -189,21 +542,27 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                   Type
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Level (dB)
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Level
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Frequency (Hz)
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Distance (m)
+                  Distance
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Bearing
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Classification
+                  Integrity
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {audioSources.map((source, index) => (
+              {chronological(audioSources).map((source, index) => (
                 <tr key={source.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     <div className="flex items-center space-x-2">
@@ -212,6 +571,9 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                         style={{ backgroundColor: source.color }}
                       />
                       <span>{source.name}</span>
+                      {selection && overlapsRegion(source, selection) && (
+                        <span className="text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full">ROI</span>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -222,51 +584,484 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                       source.type === 'ambient' ? 'bg-yellow-100 text-yellow-800' :
                       'bg-gray-100 text-gray-800'
                     }`}>
-                      {source.type}
+                      {source.classification?.label ?? source.type}
                     </span>
+                    {source.classification && (
+                      <span className="ml-1 text-xs text-gray-500">
+                        {(source.classification.probabilities[source.classification.label] * 100).toFixed(0)}%
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatTimestamp(source.startTime)}–{formatTimestamp(source.endTime)}
+                    {source.talkSeconds !== undefined && (
+                      <div className="text-xs text-gray-500">talk time {source.talkSeconds.toFixed(1)} s</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    <span className={source.decibel > 70 ? 'font-bold text-red-600' : ''}>
-                      {source.decibel.toFixed(1)}
+                    <span className={source.calibrationId && source.decibel > 70 ? 'font-bold text-red-600' : ''}>
+                      {source.decibel.toFixed(1)} {levelUnit(!!source.calibrationId)}
                     </span>
+                    <div className="text-xs text-gray-500">
+                      peak {source.peakDecibel.toFixed(1)} {levelUnit(!!source.calibrationId)}
+                    </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {source.frequency.toFixed(0)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {source.distance.toFixed(1)}
+                    {source.distanceEstimate ? (
+                      <>
+                        {formatDistance(source)}
+                        <div className="text-xs text-gray-500">
+                          {confidenceLabel(source.distanceEstimate.confidence)} confidence
+                          ({(source.distanceEstimate.confidence * 100).toFixed(0)}%)
+                          {!source.distanceEstimate.consistent && '; cues disagree'}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {source.direction ? (
+                      <>
+                        {source.direction.bearing.toFixed(0)}° ± {source.direction.uncertainty.toFixed(0)}°
+                        <div className="text-xs text-gray-500">
+                          coherence {source.direction.coherence.toFixed(2)}
+                          {source.direction.mirrorBearing !== null && `; or ${source.direction.mirrorBearing.toFixed(0)}°`}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    <span className="text-green-600 font-medium">Verified</span>
+                    <IntegrityCell integrity={sourceIntegrity(source)} />
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
         </div>
+
+        {directionMethods.length > 0 && (
+          <p className="text-sm text-gray-600 mt-4">
+            <strong>Bearings</strong> are directions of arrival in degrees clockwise from straight ahead of the
+            microphones ({detectionSettings ? describeGeometry(detectionSettings.micGeometry) : 'geometry not recorded'}),
+            estimated by {directionMethods.map(method => DOA_METHOD_LABELS[method]).join(' and ')} over the frames of each
+            event. The uncertainty is the spread of the frames' bearings, and coherence the mean whitened correlation at
+            the bearing (near 1 for one clear source, near 0 for diffuse sound). A pair or line of microphones cannot tell
+            front from back, so the mirrored bearing is given as well.
+          </p>
+        )}
+
+        {distanceMethods.length > 0 && (
+          <p className="text-sm text-gray-600 mt-4">
+            <strong>Distances</strong> are ranges, not measurements, from{' '}
+            {distanceMethods.map(method => DISTANCE_CUE_LABELS[method].toLowerCase()).join(', ')}. The level cue takes
+            the calibrated level, less the noise floor, back to 1 m through spherical spreading (−6 dB per doubling) and
+            air absorption (ISO 9613-1) and compares it with the level expected of that type of source; it is only as
+            good as that expectation. The direct-to-reverberant ratio at an impulsive onset is compared with the room's
+            critical distance, and the loss of the 4–8 kHz band against 0.5–1 kHz with the balance typical of the source,
+            which the air absorbs with distance. The range is where the cues overlap, or all of them where they do not;
+            confidence falls as it widens and halves when the cues disagree. No cue applied to events without a range;
+            uncalibrated recordings have no level cue. Model:{' '}
+            {detectionSettings ? describeDistanceModel(detectionSettings.distanceModel) : 'not recorded'}.
+          </p>
+        )}
+      </div>
+
+      {/* Speaker Timeline */}
+      {diarizations.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Speaker Timeline</h3>
+          <div className="space-y-6">
+            {diarizations.map(d => {
+              const turns = speakerTurns(d);
+              return (
+                <div key={d.bufferId}>
+                  <div className="text-sm font-medium text-gray-700 mb-2">
+                    {d.bufferName} · {d.speakers.length} speaker(s), {d.estimated ? 'estimated' : 'set by the operator'}
+                  </div>
+                  <div className="space-y-1">
+                    {d.speakers.map(speaker => (
+                      <div key={speaker.id} className="flex items-center space-x-3">
+                        <div className="w-40 text-sm text-gray-700 truncate">{speaker.name}</div>
+                        <div className="relative flex-1 h-4 bg-gray-100 rounded">
+                          {turns.filter(t => t.speakerId === speaker.id).map(turn => (
+                            <div
+                              key={turn.start}
+                              className="absolute top-0 bottom-0 rounded"
+                              style={{
+                                left: `${(turn.start / d.duration) * 100}%`,
+                                width: `${Math.max(0.3, ((turn.end - turn.start) / d.duration) * 100)}%`,
+                                backgroundColor: speaker.color
+                              }}
+                              title={`${formatTimestamp(turn.start)}–${formatTimestamp(turn.end)}`}
+                            />
+                          ))}
+                        </div>
+                        <div className="w-20 text-right text-sm text-gray-600">
+                          {talkSeconds(d, speaker.id).toFixed(1)} s
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-500 mt-1 ml-[10.75rem] mr-[5.75rem]">
+                    <span>{formatTimestamp(0)}</span>
+                    <span>{formatTimestamp(d.duration)}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Enhancement */}
+      {enhancements.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Enhancement</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Enhanced copies were rendered for listening only. The original files are unchanged, and every analysis in
+            this report was run on them.
+          </p>
+          <div className="space-y-6">
+            {enhancements.map(log => (
+              <div key={log.bufferId}>
+                <div className="text-sm font-medium text-gray-700 mb-2">
+                  {log.fileName} · rendered {new Date(log.timestamp).toLocaleString()}
+                  {log.operator && ` by ${log.operator}`}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {['#', 'Step', 'Result', 'Parameters'].map(heading => (
+                          <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {log.steps.map((step, index) => (
+                        <tr key={step.name}>
+                          <td className="px-3 py-2 text-sm text-gray-500">{index + 1}</td>
+                          <td className="px-3 py-2 text-sm font-medium text-gray-900 whitespace-nowrap">{step.name}</td>
+                          <td className="px-3 py-2 text-sm text-gray-700">{step.result}</td>
+                          <td className="px-3 py-2 text-xs text-gray-600">
+                            {Object.entries(step.parameters).map(([key, value]) => (
+                              <div key={key}>
+                                <span className="font-mono">{key}</span>: {value}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {log.exports.map(e => (
+                  <div key={e.timestamp} className="text-xs text-gray-600 mt-2">
+                    Exported as {e.fileName} on {new Date(e.timestamp).toLocaleString()} ·{' '}
+                    <span className="font-mono break-all">SHA-256 {e.sha256}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Signal Integrity */}
+      {integrity.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Signal Integrity</h3>
+          <div className="flex flex-wrap gap-4 mb-4 text-sm">
+            {integrity.map(report => (
+              <div key={report.bufferId}>
+                <span className="text-gray-700">{report.fileName}:</span>{' '}
+                <span className={`font-medium ${STATUS_BADGES[report.status].className}`}>{STATUS_BADGES[report.status].label}</span>
+              </div>
+            ))}
+          </div>
+          {integrityFindings.length === 0 ? (
+            <div className="text-sm text-gray-500">
+              No clipping, dropouts, digital silence, DC offset, sample-rate glitches or channel imbalance found.
+            </div>
+          ) : (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['File', 'Time', 'Check', 'Channel', 'Severity', 'Detail'].map(heading => (
+                      <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {integrityFindings.map(({ report, finding }, index) => (
+                    <tr key={`${report.bufferId}-${index}`}>
+                      <td className="px-3 py-2">{report.fileName}</td>
+                      <td className="px-3 py-2 font-mono whitespace-nowrap">{formatTimestamp(finding.time)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{INTEGRITY_LABELS[finding.check]}</td>
+                      <td className="px-3 py-2">{finding.channel === null ? 'All' : finding.channel + 1}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${severityClass(finding.severity)}`}>
+                          {finding.severity}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{finding.detail}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Impulsive Events */}
+      {analysisData?.impulses && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Impulsive Events</h3>
+          {impulses.length === 0 ? (
+            <div className="text-sm text-gray-500">No impulsive events in the analysed files.</div>
+          ) : (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['#', 'File', 'Onset', 'Peak', 'Rise', 'Decay', 'Crest', 'Category'].map(heading => (
+                      <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {impulses.map((impulse, index) => (
+                    <tr key={`${impulse.bufferId}-${impulse.time}`}>
+                      <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                      <td className="px-3 py-2">{bufferStore.get(impulse.bufferId)?.name ?? impulse.bufferId}</td>
+                      <td className="px-3 py-2 font-mono whitespace-nowrap">{formatTimestamp(impulse.time)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{impulse.peakDbfs.toFixed(1)} dBFS</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{impulse.riseMs.toFixed(2)} ms</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{impulse.decayMs.toFixed(0)} ms</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{impulse.crestDb.toFixed(1)} dB</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span className="capitalize">{impulse.category}</span>
+                        <span className="ml-1 text-xs text-gray-500">
+                          {impulse.classification
+                            ? `${(impulse.classification.probabilities[impulse.classification.label] * 100).toFixed(0)}%`
+                            : '(no reference impulses)'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Edit Detection */}
+      {analysisData?.tamper && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Edit Detection</h3>
+          {suspectEdits.length === 0 ? (
+            <div className="text-sm text-gray-500">No suspected edits in the analysed files.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['#', 'File', 'Time', 'Confidence', 'Evidence'].map(heading => (
+                      <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {suspectEdits.map(({ bufferId, finding }, rank) => (
+                    <tr key={`${bufferId}-${finding.time}`}>
+                      <td className="px-3 py-2 text-gray-500">{rank + 1}</td>
+                      <td className="px-3 py-2">{bufferStore.get(bufferId)?.name ?? bufferId}</td>
+                      <td className="px-3 py-2 font-mono whitespace-nowrap">{formatTimestamp(finding.time)}</td>
+                      <td className="px-3 py-2">{(finding.confidence * 100).toFixed(0)}%</td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {finding.evidence.map(e => (
+                          <div key={e.detector}>{DETECTOR_LABELS[e.detector]}: {e.detail}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Encoding History */}
+      {encoding.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Encoding History</h3>
+          <div className="space-y-4">
+            {encoding.map(history => (
+              <div key={history.bufferId}>
+                <div className="font-medium text-gray-900 mb-2">{history.fileName}</div>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Topic', 'Conclusion', 'Evidence'].map(heading => (
+                        <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {history.conclusions.map(conclusion => (
+                      <tr key={conclusion.topic}>
+                        <td className="px-3 py-2 font-medium whitespace-nowrap">{conclusion.topic}</td>
+                        <td className="px-3 py-2">{conclusion.statement}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {conclusion.evidence.map(line => (
+                            <div key={line} className="whitespace-pre-line">{line}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Chain of Custody */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Chain of Custody</h3>
+
+        {custodyError ? (
+          <div className="flex items-center space-x-2 text-sm p-3 rounded-lg mb-4 bg-red-50 text-red-800">
+            <ShieldAlert className="h-4 w-4" />
+            <span>{custodyError}</span>
+          </div>
+        ) : custody === null ? (
+          <div className="text-sm text-gray-500 mb-4">Checking custody log...</div>
+        ) : (
+          <div className={`flex items-center space-x-2 text-sm p-3 rounded-lg mb-4 ${
+            custody.chainBreak === null && custody.results.every(r => r.ok)
+              ? 'bg-green-50 text-green-800'
+              : 'bg-red-50 text-red-800'
+          }`}>
+            {custody.chainBreak === null && custody.results.every(r => r.ok)
+              ? <ShieldCheck className="h-4 w-4" />
+              : <ShieldAlert className="h-4 w-4" />}
+            <span>
+              {custody.results.filter(r => r.ok).length} of {custody.results.length} verified file(s) matched their
+              recorded hashes
+              {custody.unverified > 0 && `; ${custody.unverified} not verified since import, verified when the report is generated`}
+              ; custody log {custody.chainBreak === null ? 'intact' : `altered at entry #${custody.chainBreak}`}.
+              Checked {new Date(custody.checkedAt).toLocaleString()}.
+              {custody.results.filter(r => r.conflicting.length > 0).map(r => (
+                <span key={r.evidenceId} className="block text-amber-700">
+                  {r.fileName} was checked against entry #{r.registration} of this session; entries{' '}
+                  {r.conflicting.map(n => `#${n}`).join(', ')} record the same name, size and date with other hashes.
+                </span>
+              ))}
+            </span>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['#', 'Time', 'Action', 'File', 'Size', 'Modified', 'SHA-256', 'MD5', 'Operator'].map(heading => (
+                  <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {custodyEntries.map(entry => (
+                <tr key={entry.sequence} className={entry.action === 'mismatch' ? 'bg-red-50' : ''}>
+                  <td className="px-3 py-2 text-gray-500">{entry.sequence}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className={`px-3 py-2 capitalize ${entry.action === 'mismatch' ? 'font-bold text-red-600' : ''}`}>
+                    {entry.action}
+                  </td>
+                  <td className="px-3 py-2">{entry.fileName}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{entry.size.toLocaleString()} B</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {entry.lastModified ? new Date(entry.lastModified).toLocaleString() : '—'}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-xs break-all">{entry.sha256}</td>
+                  <td className="px-3 py-2 font-mono text-xs break-all">{entry.md5}</td>
+                  <td className="px-3 py-2">{entry.operator || <span className="text-amber-600">not set</span>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
       </div>
 
       {/* Technical Analysis */}
       {analysisData && (
         <div className="bg-white border border-gray-200 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Technical Analysis</h3>
-          
+
+          {analysisData.stageErrors?.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-800">
+              Analysis incomplete; these stages failed and their findings are absent from this report:
+              <ul className="list-disc list-inside mt-1">
+                {analysisData.stageErrors.map((failure: { stage: string; message: string }) => (
+                  <li key={failure.stage}>{failure.stage}: {failure.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <h4 className="font-medium text-gray-700 mb-3">Machine Learning Results</h4>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span>ML Confidence:</span>
-                  <span className="font-medium">{analysisData.mlConfidence?.toFixed(1)}%</span>
+                  <span className="font-medium">
+                    {typeof analysisData.mlConfidence === 'number' ? `${analysisData.mlConfidence.toFixed(1)}%` : '—'}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Anomalies Detected:</span>
-                  <span className="font-medium">{analysisData.anomalies || 0}</span>
+                  <span className="font-medium">{analysisData.anomalies ?? '—'}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Processing Algorithm:</span>
-                  <span className="font-medium">CRNN + KNN</span>
+                  <span className="font-medium">
+                    {analysisData.classifier ? `KNN (k = ${analysisData.classifier.k}, ${analysisData.classifier.metric})` : 'KNN'}
+                  </span>
                 </div>
+                {analysisData.classifier?.crossValidation && (
+                  <div className="flex justify-between">
+                    <span>Cross-validated Accuracy:</span>
+                    <span className="font-medium">
+                      {(analysisData.classifier.crossValidation.accuracy * 100).toFixed(1)}%
+                      ({analysisData.classifier.crossValidation.examples} reference examples)
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -279,7 +1074,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
                 </div>
                 <div className="flex justify-between">
                   <span>Background Noise:</span>
-                  <span className="font-medium">{analysisData.noiseLevel?.toFixed(1)} dB</span>
+                  <span className="font-medium">{analysisData.noiseLevel?.toFixed(1)} {unit}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Dynamic Range:</span>
@@ -297,7 +1092,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
           Report generated by Audio Forensic Audio v1.0 on {new Date().toLocaleString()}
         </p>
         <p className="text-xs text-gray-500 mt-1">
-          This analysis uses advanced ML algorithms including CRNN, Deep Learning, and KNN classification
+          Sources are classified by k-nearest neighbours over acoustic features, against the examiner's reference library
         </p>
       </div>
     </div>
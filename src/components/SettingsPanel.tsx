@@ -1,30 +1,181 @@
-import React from 'react';
-import { X, Volume2, VolumeX, Eye, EyeOff } from 'lucide-react';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Volume2, VolumeX, Eye, EyeOff, Plus, Trash2, Save, Download, Upload } from 'lucide-react';
+import { AudioSource, SoundType } from '../types/audio';
+import { levelUnit } from '../lib/calibration';
+import { EQ_BAND_LABELS, EqBand, EqBandType, FilterChain, createBand, hasGain, hasQ } from '../lib/filterChain';
+import {
+  DEFAULT_SETTINGS,
+  LEVEL_LIMITS,
+  MAX_DISTANCE,
+  SENSITIVITY_LABELS,
+  SENSITIVITY_PRESETS,
+  SOUND_TYPES,
+  Sensitivity,
+  Settings,
+  sourceShown
+} from '../lib/settings';
+import {
+  AnalysisPreset,
+  applyPreset,
+  createPreset,
+  parsePresetFile,
+  presetFile,
+  presetStore,
+  settingsHash,
+  shortHash
+} from '../lib/presets';
+import { MIC_LAYOUT_LABELS, MicGeometry, MicLayout } from '../lib/doa';
+import { DistanceModel, ROOM_PRESETS, ReferenceLevel, formatDistance } from '../lib/distance';
 
 interface SettingsPanelProps {
   audioSources: AudioSource[];
   onToggleSound: (soundId: string) => void;
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  // Whether the loaded file has an enhanced rendering to play
+  enhancementAvailable: boolean;
   onClose: () => void;
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   audioSources,
   onToggleSound,
+  settings,
+  onSettingsChange,
+  enhancementAvailable,
   onClose
 }) => {
-  const soundTypeColors = {
+  // Edits stay here until applied; cancelling discards them
+  const [draft, setDraft] = useState<Settings>(settings);
+  const filterChain = draft.filterChain;
+  const thresholds = SENSITIVITY_PRESETS[draft.sensitivity];
+
+  const [presets, setPresets] = useState<AnalysisPreset[]>(presetStore.list);
+  const [presetName, setPresetName] = useState(settings.preset?.name ?? '');
+  const [presetMessage, setPresetMessage] = useState<{ text: string; error: boolean } | null>(null);
+  // Whether the draft differs from the preset it was loaded from
+  const [modified, setModified] = useState(false);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+  // Custom microphone positions as typed, one "x, y" line per channel
+  const [positionsText, setPositionsText] = useState(() =>
+    settings.micGeometry.positions.map(p => `${p.x}, ${p.y}`).join('\n')
+  );
+  const [positionsError, setPositionsError] = useState<string | null>(null);
+
+  useEffect(() => presetStore.subscribe(() => setPresets(presetStore.list())), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    settingsHash(draft)
+      .then(hash => { if (!cancelled) setModified(draft.preset !== null && draft.preset.hash !== hash); })
+      .catch(error => console.error('Error hashing settings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [draft]);
+
+  const update = (changes: Partial<Settings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateGeometry = (changes: Partial<MicGeometry>) =>
+    update({ micGeometry: { ...draft.micGeometry, ...changes } });
+
+  const updateDistanceModel = (changes: Partial<DistanceModel>) =>
+    update({ distanceModel: { ...draft.distanceModel, ...changes } });
+
+  const updateReference = (type: SoundType, changes: Partial<ReferenceLevel>) =>
+    updateDistanceModel({
+      references: { ...draft.distanceModel.references, [type]: { ...draft.distanceModel.references[type], ...changes } }
+    });
+
+  const roomPreset = ROOM_PRESETS.findIndex(room => room.criticalDistance === draft.distanceModel.criticalDistance);
+
+  const changePositions = (text: string) => {
+    setPositionsText(text);
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const positions = lines.map(line => line.split(/[\s,;]+/).map(Number));
+    if (positions.some(p => p.length !== 2 || !p.every(Number.isFinite))) {
+      setPositionsError('Each line needs an x and a y in metres, e.g. "-0.1, 0"');
+      return;
+    }
+    setPositionsError(null);
+    updateGeometry({ positions: positions.map(([x, y]) => ({ x, y })) });
+  };
+
+  const resetSettings = () => {
+    setDraft(DEFAULT_SETTINGS);
+    setPositionsText('');
+    setPositionsError(null);
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setDraft(applyPreset(preset));
+    setPresetName(preset.name);
+    setPositionsText(preset.settings.micGeometry.positions.map(p => `${p.x}, ${p.y}`).join('\n'));
+    setPositionsError(null);
+    setPresetMessage(null);
+  };
+
+  const savePreset = async () => {
+    const name = presetName.trim();
+    if (presets.some(p => p.name === name) && !confirm(`Replace the preset "${name}"?`)) return;
+    try {
+      const preset = await createPreset(name, draft);
+      presetStore.put(preset);
+      setDraft(applyPreset(preset));
+      setPresetMessage({ text: `Saved "${name}", version ${shortHash(preset.hash)}`, error: false });
+    } catch (error) {
+      console.error('Error saving preset:', error);
+      setPresetMessage({ text: 'The preset could not be saved', error: true });
+    }
+  };
+
+  const deletePreset = () => {
+    if (!draft.preset || !confirm(`Delete the preset "${draft.preset.name}"?`)) return;
+    presetStore.remove(draft.preset.name);
+    update({ preset: null });
+  };
+
+  const exportPresets = () => {
+    const blob = new Blob([presetFile(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `audio-forensic-presets-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const importPresets = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const { presets: imported, altered } = await parsePresetFile(await file.text());
+      imported.forEach(presetStore.put);
+      setPresetMessage({
+        text: `Imported ${imported.length} preset(s)` +
+          (altered.length > 0 ? `; changed since export or saved with other thresholds: ${altered.join(', ')}` : ''),
+        error: altered.length > 0
+      });
+    } catch (error) {
+      console.error('Error importing presets:', error);
+      setPresetMessage({ text: error instanceof Error ? error.message : 'Could not read preset file', error: true });
+    } finally {
+      if (presetInputRef.current) presetInputRef.current.value = '';
+    }
+  };
+
+  const onFilterChainChange = (chain: FilterChain) => update({ filterChain: chain });
+
+  const applySettings = () => {
+    onSettingsChange(draft);
+    onClose();
+  };
+
+  const soundTypeColors: Record<SoundType, string> = {
     noise: '#ff6b6b',
     voice: '#4ecdc4',
     music: '#45b7d1',
@@ -32,6 +183,17 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     unknown: '#feca57'
   };
 
+  const numberValue = (text: string) => {
+    const value = Number(text);
+    return Number.isFinite(value) ? value : null;
+  };
+
+  const updateBand = (id: string, changes: Partial<EqBand>) =>
+    onFilterChainChange({
+      ...filterChain,
+      bands: filterChain.bands.map(band => (band.id === id ? { ...band, ...changes } : band))
+    });
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[80vh] overflow-hidden">
@@ -47,6 +209,82 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[60vh]">
+          {/* Presets */}
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Presets</h3>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={draft.preset?.name ?? ''}
+                onChange={(e) => loadPreset(e.target.value)}
+                className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="" disabled>Choose a preset…</option>
+                {presets.map(preset => (
+                  <option key={preset.name} value={preset.name}>{preset.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={deletePreset}
+                disabled={!draft.preset || !presets.some(p => p.name === draft.preset?.name)}
+                className="text-red-500 hover:text-red-700 disabled:opacity-30 p-2 rounded transition-colors"
+                title="Delete this preset"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={exportPresets}
+                disabled={presets.length === 0}
+                className="text-gray-600 hover:text-purple-700 disabled:opacity-30 p-2 rounded transition-colors"
+                title="Export all presets as JSON"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => presetInputRef.current?.click()}
+                className="text-gray-600 hover:text-purple-700 p-2 rounded transition-colors"
+                title="Import presets from JSON"
+              >
+                <Upload className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name, e.g. Noise complaint"
+                className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                onClick={savePreset}
+                disabled={!presetName.trim()}
+                className="flex items-center space-x-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+              >
+                <Save className="h-4 w-4" />
+                <span>Save current</span>
+              </button>
+            </div>
+            <div className="text-xs text-gray-500 mt-2">
+              {draft.preset
+                ? `${draft.preset.name}, version ${shortHash(draft.preset.hash)}${modified ? '; modified since loaded' : ''}`
+                : 'These settings are not saved as a preset.'}{' '}
+              Presets hold every setting below with the detector thresholds behind the sensitivity, the speech detection
+              and the classifier options.
+            </div>
+            {presetMessage && (
+              <div className={`text-xs mt-1 ${presetMessage.error ? 'text-amber-600' : 'text-green-600'}`}>
+                {presetMessage.text}
+              </div>
+            )}
+            <input
+              ref={presetInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => importPresets(e.target.files)}
+              className="hidden"
+            />
+          </div>
+
           {/* Sound Sources Management */}
           <div className="mb-8">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -71,13 +309,18 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                       />
                       
                       <div className="flex-1">
-                        <div className="font-medium text-gray-900">{source.name}</div>
+                        <div className="font-medium text-gray-900">
+                          {source.name}
+                          {!sourceShown(source, draft) && (
+                            <span className="ml-2 text-xs font-normal text-gray-400">hidden by filters</span>
+                          )}
+                        </div>
                         <div className="text-sm text-gray-500 flex items-center space-x-4">
                           <span className="capitalize bg-gray-200 px-2 py-1 rounded text-xs">
                             {source.type}
                           </span>
-                          <span>{source.decibel.toFixed(1)} dB</span>
-                          <span>{source.distance.toFixed(1)}m</span>
+                          <span>{source.decibel.toFixed(1)} {levelUnit(!!source.calibrationId)}</span>
+                          <span>{formatDistance(source)}</span>
                           <span>{source.frequency.toFixed(0)} Hz</span>
                         </div>
                       </div>
@@ -122,16 +365,26 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <div className="space-y-3">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Minimum Decibel Level
+                    Minimum Level
                   </label>
                   <input
                     type="range"
-                    min="0"
-                    max="120"
-                    defaultValue="30"
+                    min={LEVEL_LIMITS.dbSpl[0]}
+                    max={LEVEL_LIMITS.dbSpl[1]}
+                    value={draft.minDbSpl}
+                    onChange={(e) => update({ minDbSpl: Number(e.target.value) })}
                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                   />
-                  <div className="text-xs text-gray-500 mt-1">30 dB</div>
+                  <div className="text-xs text-gray-500 mt-1">{draft.minDbSpl} dB SPL (calibrated sources)</div>
+                  <input
+                    type="range"
+                    min={LEVEL_LIMITS.dbfs[0]}
+                    max={LEVEL_LIMITS.dbfs[1]}
+                    value={draft.minDbfs}
+                    onChange={(e) => update({ minDbfs: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider mt-2"
+                  />
+                  <div className="text-xs text-gray-500 mt-1">{draft.minDbfs} dBFS (uncalibrated sources)</div>
                 </div>
                 
                 <div>
@@ -141,11 +394,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   <input
                     type="range"
                     min="1"
-                    max="50"
-                    defaultValue="25"
+                    max={MAX_DISTANCE}
+                    value={draft.maxDistance}
+                    onChange={(e) => update({ maxDistance: Number(e.target.value) })}
                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                   />
-                  <div className="text-xs text-gray-500 mt-1">25 meters</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {draft.maxDistance} meters; sources without a distance estimate are always shown
+                  </div>
                 </div>
               </div>
               
@@ -159,32 +415,340 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                       type="number"
                       placeholder="Min Hz"
                       className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
-                      defaultValue="20"
+                      value={filterChain.minFrequency}
+                      min={20}
+                      onChange={(e) => {
+                        const value = numberValue(e.target.value);
+                        if (value !== null) onFilterChainChange({ ...filterChain, minFrequency: value });
+                      }}
                     />
                     <input
                       type="number"
                       placeholder="Max Hz"
                       className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
-                      defaultValue="20000"
+                      value={filterChain.maxFrequency}
+                      max={20000}
+                      onChange={(e) => {
+                        const value = numberValue(e.target.value);
+                        if (value !== null) onFilterChainChange({ ...filterChain, maxFrequency: value });
+                      }}
                     />
                   </div>
+                  <div className={`text-xs mt-1 ${filterChain.minFrequency < filterChain.maxFrequency ? 'text-gray-500' : 'text-red-600'}`}>
+                    {filterChain.minFrequency < filterChain.maxFrequency
+                      ? 'Filters what you hear and limits the frequencies sources are detected at'
+                      : 'The minimum must be below the maximum'}
+                  </div>
                 </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Analysis Sensitivity
                   </label>
-                  <select className="w-full p-2 border border-gray-300 rounded-lg text-sm">
-                    <option value="low">Low (Basic detection)</option>
-                    <option value="medium" selected>Medium (Balanced)</option>
-                    <option value="high">High (Sensitive)</option>
-                    <option value="forensic">Forensic (Maximum detail)</option>
+                  <select
+                    value={draft.sensitivity}
+                    onChange={(e) => update({ sensitivity: e.target.value as Sensitivity })}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {Object.entries(SENSITIVITY_LABELS).map(([key, label]) => (
+                      <option key={key} value={key}>{label}</option>
+                    ))}
                   </select>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Events start {thresholds.onThresholdDb} dB and end {thresholds.offThresholdDb} dB over the noise
+                    floor, last at least {thresholds.minDurationSeconds * 1000} ms; onsets at{' '}
+                    {thresholds.onsetSensitivity} MAD; up to {thresholds.maxEvents} events per file
+                  </div>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Filter and EQ Chain */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Filter & EQ Chain</h3>
+              <button
+                onClick={() => onFilterChainChange({ ...filterChain, bands: [...filterChain.bands, createBand()] })}
+                className="flex items-center space-x-1 text-sm text-purple-700 hover:text-purple-900"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add band</span>
+              </button>
+            </div>
+
+            {filterChain.bands.length === 0 ? (
+              <div className="text-sm text-gray-500">No EQ bands; only the frequency range is applied.</div>
+            ) : (
+              <div className="space-y-2">
+                {filterChain.bands.map(band => (
+                  <div key={band.id} className="flex items-center space-x-2 bg-gray-50 rounded-lg p-2">
+                    <input
+                      type="checkbox"
+                      checked={band.enabled}
+                      onChange={(e) => updateBand(band.id, { enabled: e.target.checked })}
+                      className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                      title="Enable band"
+                    />
+                    <select
+                      value={band.type}
+                      onChange={(e) => updateBand(band.id, { type: e.target.value as EqBandType })}
+                      className="p-1 border border-gray-300 rounded text-sm"
+                    >
+                      {Object.entries(EQ_BAND_LABELS).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <input
+                        type="number"
+                        value={band.frequency}
+                        min={1}
+                        onChange={(e) => {
+                          const value = numberValue(e.target.value);
+                          if (value !== null && value > 0) updateBand(band.id, { frequency: value });
+                        }}
+                        className="w-24 p-1 border border-gray-300 rounded text-sm"
+                      />
+                      <span>Hz</span>
+                    </label>
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <span>Q</span>
+                      <input
+                        type="number"
+                        value={band.q}
+                        min={0.1}
+                        step={0.1}
+                        disabled={!hasQ(band.type)}
+                        onChange={(e) => {
+                          const value = numberValue(e.target.value);
+                          if (value !== null && value > 0) updateBand(band.id, { q: value });
+                        }}
+                        className="w-16 p-1 border border-gray-300 rounded text-sm disabled:opacity-40"
+                      />
+                    </label>
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <input
+                        type="number"
+                        value={band.gainDb}
+                        min={-40}
+                        max={40}
+                        step={0.5}
+                        disabled={!hasGain(band.type)}
+                        onChange={(e) => {
+                          const value = numberValue(e.target.value);
+                          if (value !== null) updateBand(band.id, { gainDb: Math.max(-40, Math.min(40, value)) });
+                        }}
+                        className="w-16 p-1 border border-gray-300 rounded text-sm disabled:opacity-40"
+                      />
+                      <span>dB</span>
+                    </label>
+                    <button
+                      onClick={() => onFilterChainChange({ ...filterChain, bands: filterChain.bands.filter(b => b.id !== band.id) })}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title="Remove band"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="text-xs text-gray-500 mt-2">
+              Once applied, used live on monitoring and playback and on files analysed from then on. Recordings and
+              exports are kept unfiltered.
+            </div>
+          </div>
+
+          {/* Microphone Geometry */}
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Microphone Geometry</h3>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={draft.micGeometry.layout}
+                onChange={(e) => updateGeometry({ layout: e.target.value as MicLayout })}
+                className="p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {Object.entries(MIC_LAYOUT_LABELS).map(([layout, label]) => (
+                  <option key={layout} value={layout}>{label}</option>
+                ))}
+              </select>
+              {(draft.micGeometry.layout === 'pair' || draft.micGeometry.layout === 'linear') && (
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Spacing</span>
+                  <input
+                    type="number"
+                    value={draft.micGeometry.spacing}
+                    min={0.01}
+                    step={0.01}
+                    onChange={(e) => {
+                      const value = numberValue(e.target.value);
+                      if (value !== null && value > 0) updateGeometry({ spacing: value });
+                    }}
+                    className="w-20 p-1 border border-gray-300 rounded text-sm"
+                  />
+                  <span>m</span>
+                </label>
+              )}
+              {draft.micGeometry.layout === 'circular' && (
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Radius</span>
+                  <input
+                    type="number"
+                    value={draft.micGeometry.radius}
+                    min={0.01}
+                    step={0.01}
+                    onChange={(e) => {
+                      const value = numberValue(e.target.value);
+                      if (value !== null && value > 0) updateGeometry({ radius: value });
+                    }}
+                    className="w-20 p-1 border border-gray-300 rounded text-sm"
+                  />
+                  <span>m</span>
+                </label>
+              )}
+            </div>
+            {draft.micGeometry.layout === 'custom' && (
+              <div className="mt-2">
+                <textarea
+                  value={positionsText}
+                  onChange={(e) => changePositions(e.target.value)}
+                  rows={4}
+                  placeholder={'-0.1, 0\n0.1, 0\n0, 0.15'}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm font-mono"
+                />
+                {positionsError && <div className="text-xs text-red-600">{positionsError}</div>}
+              </div>
+            )}
+            <div className="text-xs text-gray-500 mt-2">
+              {draft.micGeometry.layout === 'custom'
+                ? 'One line per channel: x to the right and y ahead, in metres. '
+                : draft.micGeometry.layout === 'pair'
+                  ? 'Left channel first. A pair cannot tell front from back; bearings are taken ahead of it. '
+                  : draft.micGeometry.layout === 'linear'
+                    ? 'Channels left to right. A line of microphones cannot tell front from back; bearings are taken ahead of it. '
+                    : draft.micGeometry.layout === 'circular'
+                      ? 'First channel straight ahead, then clockwise. '
+                      : ''}
+              Multichannel files analysed from then on get a bearing per event, shown in the sonar view.
+            </div>
+          </div>
+
+          {/* Distance Estimation */}
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Distance Estimation</h3>
+            <table className="w-full text-sm mb-3">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium pb-1">Source type</th>
+                  <th className="font-medium pb-1">Level at 1 m (dB SPL)</th>
+                  <th className="font-medium pb-1">± dB</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SOUND_TYPES.map(type => (
+                  <tr key={type}>
+                    <td className="capitalize py-1">{type}</td>
+                    <td className="py-1">
+                      <input
+                        type="number"
+                        value={draft.distanceModel.references[type].levelDb}
+                        step={1}
+                        onChange={(e) => {
+                          const value = numberValue(e.target.value);
+                          if (value !== null) updateReference(type, { levelDb: value });
+                        }}
+                        className="w-20 p-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="py-1">
+                      <input
+                        type="number"
+                        value={draft.distanceModel.references[type].spreadDb}
+                        min={0}
+                        step={1}
+                        onChange={(e) => {
+                          const value = numberValue(e.target.value);
+                          if (value !== null && value >= 0) updateReference(type, { spreadDb: value });
+                        }}
+                        className="w-16 p-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={roomPreset}
+                onChange={(e) => {
+                  const index = Number(e.target.value);
+                  updateDistanceModel({
+                    criticalDistance: index >= 0 ? ROOM_PRESETS[index].criticalDistance : draft.distanceModel.criticalDistance ?? 1
+                  });
+                }}
+                className="p-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {ROOM_PRESETS.map((room, index) => (
+                  <option key={room.label} value={index}>
+                    {room.label}{room.criticalDistance !== null ? ` (${room.criticalDistance} m)` : ''}
+                  </option>
+                ))}
+                <option value={-1}>Measured room</option>
+              </select>
+              {draft.distanceModel.criticalDistance !== null && (
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Critical distance</span>
+                  <input
+                    type="number"
+                    value={draft.distanceModel.criticalDistance}
+                    min={0.1}
+                    step={0.1}
+                    onChange={(e) => {
+                      const value = numberValue(e.target.value);
+                      if (value !== null && value > 0) updateDistanceModel({ criticalDistance: value });
+                    }}
+                    className="w-20 p-1 border border-gray-300 rounded text-sm"
+                  />
+                  <span>m</span>
+                </label>
+              )}
+              <label className="flex items-center space-x-1 text-sm text-gray-600">
+                <span>Air</span>
+                <input
+                  type="number"
+                  value={draft.distanceModel.temperature}
+                  step={1}
+                  onChange={(e) => {
+                    const value = numberValue(e.target.value);
+                    if (value !== null && value > -50 && value < 60) updateDistanceModel({ temperature: value });
+                  }}
+                  className="w-16 p-1 border border-gray-300 rounded text-sm"
+                />
+                <span>°C</span>
+                <input
+                  type="number"
+                  value={draft.distanceModel.humidity}
+                  min={1}
+                  max={100}
+                  step={1}
+                  onChange={(e) => {
+                    const value = numberValue(e.target.value);
+                    if (value !== null && value > 0 && value <= 100) updateDistanceModel({ humidity: value });
+                  }}
+                  className="w-16 p-1 border border-gray-300 rounded text-sm"
+                />
+                <span>% RH</span>
+              </label>
+            </div>
+            <div className="text-xs text-gray-500 mt-2">
+              Levels only give a distance in calibrated recordings, against what the source is expected to
+              produce at 1 m. The room's critical distance, where direct and reverberant sound are equal,
+              lets impulsive sounds be ranged by their reverberation. Every event is ranged by its
+              high-frequency loss. Files analysed from then on get a distance range with a confidence.
+            </div>
+          </div>
+
           {/* Sound Type Filters */}
           <div className="mb-8">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Sound Type Filters</h3>
@@ -196,7 +760,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   <label key={type} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100">
                     <input
                       type="checkbox"
-                      defaultChecked
+                      checked={draft.soundTypes[type as SoundType]}
+                      onChange={(e) => update({ soundTypes: { ...draft.soundTypes, [type]: e.target.checked } })}
                       className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
                     />
                     <div className="flex items-center space-x-2">
@@ -221,16 +786,25 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <label className="flex items-center space-x-3">
                 <input
                   type="checkbox"
-                  defaultChecked
+                  checked={draft.noiseSuppression}
+                  onChange={(e) => update({ noiseSuppression: e.target.checked })}
                   className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
                 />
-                <span className="text-sm">Enable real-time noise suppression</span>
+                <span className="text-sm">
+                  Enable noise suppression on playback
+                  <span className="block text-xs text-gray-500">
+                    {enhancementAvailable
+                      ? 'Plays the enhanced rendering of the loaded file (B in the Enhancement panel)'
+                      : 'Render an enhancement of the file in the Enhancement panel first'}
+                  </span>
+                </span>
               </label>
               
               <label className="flex items-center space-x-3">
                 <input
                   type="checkbox"
-                  defaultChecked
+                  checked={draft.showDistances}
+                  onChange={(e) => update({ showDistances: e.target.checked })}
                   className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
                 />
                 <span className="text-sm">Show distance calculations in sonar view</span>
@@ -239,6 +813,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <label className="flex items-center space-x-3">
                 <input
                   type="checkbox"
+                  checked={draft.autoExport}
+                  onChange={(e) => update({ autoExport: e.target.checked })}
                   className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
                 />
                 <span className="text-sm">Export analysis data automatically</span>
@@ -247,7 +823,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <label className="flex items-center space-x-3">
                 <input
                   type="checkbox"
-                  defaultChecked
+                  checked={draft.mlPredictions}
+                  onChange={(e) => update({ mlPredictions: e.target.checked })}
                   className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
                 />
                 <span className="text-sm">Enable machine learning predictions</span>
@@ -258,6 +835,12 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
         {/* Footer */}
         <div className="bg-gray-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={resetSettings}
+            className="mr-auto px-4 py-2 text-sm text-gray-600 hover:text-purple-700"
+          >
+            Reset to defaults
+          </button>
           <button
             onClick={onClose}
             className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
@@ -265,7 +848,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             Cancel
           </button>
           <button
-            onClick={onClose}
+            onClick={applySettings}
             className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
           >
             Apply Settings
@@ -1,23 +1,36 @@
 import React, { useRef, useEffect, useState } from 'react';
-
-interface AudioSource {
-  id: string;
-  name: string;
-  type: 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
-  decibel: number;
-  frequency: number;
-  position: { x: number; y: number; z: number };
-  distance: number;
-  visible: boolean;
-  color: string;
-}
+import { AudioSource } from '../types/audio';
+import { levelUnit, normalizedLevel } from '../lib/calibration';
+import { ImpulseCategory, ImpulseEvent } from '../lib/impulses';
+import { formatDistance } from '../lib/distance';
 
 interface SonarViewProps {
   audioSources: AudioSource[];
+  impulses: ImpulseEvent[];
   isRecording: boolean;
+  // Range labels and per-source distances
+  showDistances: boolean;
 }
 
-const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
+// Canvas pixels per metre; the range circles are 10 m apart
+const PIXELS_PER_METRE = 5;
+// Distance bands are drawn no farther out than this, in pixels
+const MAX_BAND_RADIUS = 320;
+
+/** Where a source lies on the canvas, with straight ahead of the microphones up. */
+const toCanvas = (source: AudioSource, center: { x: number; y: number }) => ({
+  x: center.x + source.position.x * PIXELS_PER_METRE,
+  y: center.y - source.position.y * PIXELS_PER_METRE
+});
+
+const IMPULSE_COLORS: Record<ImpulseCategory, string> = {
+  gunshot: '#ef4444',
+  slam: '#f59e0b',
+  glass: '#38bdf8',
+  other: '#e2e8f0'
+};
+
+const SonarView: React.FC<SonarViewProps> = ({ audioSources, impulses, isRecording, showDistances }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const [listenerPosition, setListenerPosition] = useState({ x: 250, y: 250 });
@@ -44,6 +57,11 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
       audioSources.forEach(source => {
         drawAudioSource(ctx, source, listenerPosition);
       });
+
+      // Draw impulsive events at the sources they occurred in
+      impulses.forEach(impulse => {
+        drawImpulse(ctx, impulse, audioSources, listenerPosition);
+      });
       
       // Draw listener position
       drawListener(ctx, listenerPosition);
@@ -66,7 +84,7 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [audioSources, isRecording, listenerPosition, pulseRadius]);
+  }, [audioSources, impulses, isRecording, showDistances, listenerPosition, pulseRadius]);
 
   useEffect(() => {
     if (isRecording) {
@@ -97,6 +115,8 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
       ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
       ctx.stroke();
       
+      if (!showDistances) continue;
+
       // Range labels
       ctx.fillStyle = '#a0aec0';
       ctx.font = '12px Arial';
@@ -104,16 +124,72 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
     }
   };
 
+  const drawBearingWedge = (ctx: CanvasRenderingContext2D, source: AudioSource, center: { x: number; y: number }) => {
+    if (!source.direction) return;
+    const { bearing, uncertainty, mirrorBearing, coherence } = source.direction;
+    const radius = (source.distanceEstimate?.max ?? source.distance) * PIXELS_PER_METRE + 25;
+    const half = (Math.max(uncertainty, 1) * Math.PI) / 180;
+    const sector = (degrees: number) => {
+      // Bearings run clockwise from up; canvas angles clockwise from the right
+      const mid = ((degrees - 90) * Math.PI) / 180;
+      ctx.beginPath();
+      ctx.moveTo(center.x, center.y);
+      ctx.arc(center.x, center.y, radius, mid - half, mid + half);
+      ctx.closePath();
+    };
+
+    ctx.save();
+    ctx.fillStyle = source.color;
+    ctx.strokeStyle = source.color;
+    // Clearer for sources the microphones agree on
+    ctx.globalAlpha = 0.1 + 0.25 * coherence;
+    sector(bearing);
+    ctx.fill();
+
+    // A line of microphones hears the mirrored bearing alike
+    if (mirrorBearing !== null) {
+      ctx.globalAlpha = 0.4;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([3, 4]);
+      sector(mirrorBearing);
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  const drawDistanceBand = (ctx: CanvasRenderingContext2D, source: AudioSource, center: { x: number; y: number }) => {
+    if (!source.distanceEstimate) return;
+    const { min, max, confidence } = source.distanceEstimate;
+    const inner = Math.min(min * PIXELS_PER_METRE, MAX_BAND_RADIUS);
+    const outer = Math.min(Math.max(max * PIXELS_PER_METRE, inner + 2), MAX_BAND_RADIUS);
+    // Within the bearing's uncertainty where there is one, all round otherwise
+    const [from, to] = source.direction
+      ? [source.direction.bearing - Math.max(source.direction.uncertainty, 1), source.direction.bearing + Math.max(source.direction.uncertainty, 1)]
+      : [0, 360];
+    const start = ((from - 90) * Math.PI) / 180;
+    const end = ((to - 90) * Math.PI) / 180;
+
+    ctx.save();
+    ctx.fillStyle = source.color;
+    // Clearer for ranges the cues are confident of
+    ctx.globalAlpha = 0.08 + 0.3 * confidence;
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, outer, start, end);
+    ctx.arc(center.x, center.y, inner, end, start, true);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  };
+
   const drawAudioSource = (ctx: CanvasRenderingContext2D, source: AudioSource, center: { x: number; y: number }) => {
-    // Use consistent positioning based on source ID for stable visualization
-    const angle = (parseInt(source.id.replace(/\D/g, '')) || 0) * 0.5;
-    const distance = source.distance * 5; // Scale for visualization
-    const x = center.x + Math.cos(angle) * distance;
-    const y = center.y + Math.sin(angle) * distance;
+    const { x, y } = toCanvas(source, center);
+    drawBearingWedge(ctx, source, center);
+    drawDistanceBand(ctx, source, center);
     
     // Sound wave effect
-    const intensity = Math.max(0.2, source.decibel / 120);
-    const waveRadius = 10 + (source.decibel / 120) * 20;
+    const level = normalizedLevel(source.decibel, !!source.calibrationId);
+    const intensity = Math.max(0.2, level);
+    const waveRadius = 10 + level * 20;
     
     // Draw sound waves
     for (let i = 0; i < 3; i++) {
@@ -124,11 +200,17 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
       ctx.stroke();
     }
     
-    // Draw source marker
-    ctx.fillStyle = source.color;
+    // Draw source marker, hollow when its bearing is unknown and its placement arbitrary
     ctx.beginPath();
     ctx.arc(x, y, 8 * intensity, 0, 2 * Math.PI);
-    ctx.fill();
+    if (source.direction) {
+      ctx.fillStyle = source.color;
+      ctx.fill();
+    } else {
+      ctx.strokeStyle = source.color;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
     
     // Draw connection line to listener
     ctx.strokeStyle = `${source.color}40`;
@@ -139,9 +221,39 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
     ctx.lineTo(x, y);
     ctx.stroke();
     ctx.setLineDash([]);
-    
-    // Store position for label drawing
-    source.position = { x: x - center.x, y: y - center.y, z: 0 };
+  };
+
+  const drawImpulse = (
+    ctx: CanvasRenderingContext2D,
+    impulse: ImpulseEvent,
+    sources: AudioSource[],
+    center: { x: number; y: number }
+  ) => {
+    // The shortest visible source spanning the event; impulses in hidden sources are not drawn
+    const source = sources
+      .filter(s => s.fileId === impulse.bufferId && s.startTime <= impulse.peakTime && s.endTime >= impulse.peakTime)
+      .sort((a, b) => (a.endTime - a.startTime) - (b.endTime - b.startTime))[0];
+    if (!source) return;
+    const { x, y } = toCanvas(source, center);
+    const color = IMPULSE_COLORS[impulse.category];
+
+    // Starburst
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let i = 0; i < 8; i++) {
+      const angle = (i / 8) * 2 * Math.PI;
+      const inner = i % 2 === 0 ? 6 : 4;
+      const outer = i % 2 === 0 ? 16 : 11;
+      ctx.moveTo(x + Math.cos(angle) * inner, y + Math.sin(angle) * inner);
+      ctx.lineTo(x + Math.cos(angle) * outer, y + Math.sin(angle) * outer);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.font = '10px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(impulse.category, x, y - 20);
   };
 
   const drawListener = (ctx: CanvasRenderingContext2D, position: { x: number; y: number }) => {
@@ -196,7 +308,14 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
       // DB info
       ctx.font = '10px Arial';
       ctx.fillStyle = '#a0aec0';
-      ctx.fillText(`${source.decibel.toFixed(1)} dB`, labelX, labelY + 12);
+      const details = [
+        `${source.decibel.toFixed(1)} ${levelUnit(!!source.calibrationId)}`,
+        ...(showDistances && source.distanceEstimate
+          ? [`${formatDistance(source)} (${Math.round(source.distanceEstimate.confidence * 100)}%)`]
+          : []),
+        ...(source.direction ? [`${source.direction.bearing.toFixed(0)}° ±${source.direction.uncertainty.toFixed(0)}°`] : [])
+      ];
+      ctx.fillText(details.join(' · '), labelX, labelY + 12);
       
       ctx.font = 'bold 14px Arial';
     });
@@ -258,10 +377,36 @@ const SonarView: React.FC<SonarViewProps> = ({ audioSources, isRecording }) => {
             <div className="w-3 h-3 bg-red-500 rounded-full"></div>
             <span>Listener (Drag to move)</span>
           </div>
-          <div className="flex items-center space-x-2">
-            <div className="w-3 h-3 border-2 border-gray-400 rounded-full"></div>
-            <span>Range circles (10m each)</span>
-          </div>
+          {showDistances && (
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 border-2 border-gray-400 rounded-full"></div>
+              <span>Range circles (10m each)</span>
+            </div>
+          )}
+          {audioSources.some(s => s.direction) && (
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 bg-purple-400 bg-opacity-50" style={{ clipPath: 'polygon(50% 100%, 0 0, 100% 0)' }}></div>
+              <span>Bearing ± uncertainty</span>
+            </div>
+          )}
+          {audioSources.some(s => !s.direction) && (
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 border-2 border-purple-300 rounded-full"></div>
+              <span>No bearing (placed arbitrarily)</span>
+            </div>
+          )}
+          {audioSources.some(s => s.distanceEstimate) && (
+            <div className="flex items-center space-x-2">
+              <div className="w-3 h-3 border-y-4 border-purple-400 border-opacity-60"></div>
+              <span>Distance range (stronger = more confident)</span>
+            </div>
+          )}
+          {impulses.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <span className="text-amber-400 leading-none">✷</span>
+              <span>Impulsive events ({impulses.length})</span>
+            </div>
+          )}
           <div className="text-xs text-gray-300 mt-2">
             Position: ({listenerPosition.x}, {listenerPosition.y})
           </div>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Users, Scissors, Merge } from 'lucide-react';
+import { StoredBuffer, mixToMono } from '../lib/bufferStore';
+import { SpeechSegment } from '../lib/vad';
+import {
+  DEFAULT_DIARIZATION_OPTIONS,
+  Diarization,
+  diarize,
+  mergeSpeakers,
+  renameSpeaker,
+  speakerTurns,
+  splitSpeaker,
+  talkSeconds
+} from '../lib/diarization';
+
+interface SpeakerPanelProps {
+  buffer: StoredBuffer;
+  speechSegments: SpeechSegment[] | null;
+  diarization: Diarization | null;
+  onDiarizationChange: (diarization: Diarization) => void;
+}
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ buffer, speechSegments, diarization, onDiarizationChange }) => {
+  const [speakerCount, setSpeakerCount] = useState<number | null>(DEFAULT_DIARIZATION_OPTIONS.speakerCount);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const runDiarization = async () => {
+    if (!speechSegments) return;
+    setProgress(0);
+    try {
+      onDiarizationChange(await diarize(
+        mixToMono(buffer),
+        buffer.sampleRate,
+        speechSegments,
+        buffer,
+        { ...DEFAULT_DIARIZATION_OPTIONS, speakerCount },
+        setProgress
+      ));
+    } catch (error) {
+      console.error('Error diarizing speech:', error);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const turns = diarization ? speakerTurns(diarization) : [];
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Users className="h-5 w-5 text-purple-600" />
+          <h3 className="font-semibold text-gray-900">Speakers</h3>
+          {diarization && (
+            <span className="text-sm text-gray-500">
+              {diarization.speakers.length} {diarization.estimated ? 'estimated' : 'fixed'} · {turns.length} turns
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={speakerCount ?? 'auto'}
+            onChange={(e) => setSpeakerCount(e.target.value === 'auto' ? null : Number(e.target.value))}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="auto">Auto count</option>
+            {Array.from({ length: DEFAULT_DIARIZATION_OPTIONS.maxSpeakers }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n} speaker{n > 1 ? 's' : ''}</option>
+            ))}
+          </select>
+          <button
+            onClick={runDiarization}
+            disabled={!speechSegments || speechSegments.length === 0 || progress !== null}
+            className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+          >
+            {progress !== null ? `Diarizing ${(progress * 100).toFixed(0)}%` : diarization ? 'Re-run' : 'Identify speakers'}
+          </button>
+        </div>
+      </div>
+
+      {speechSegments && speechSegments.length === 0 && (
+        <div className="text-sm text-gray-500">No speech to diarize in this file.</div>
+      )}
+
+      {diarization && (
+        <div className="space-y-2">
+          {diarization.speakers.map(speaker => {
+            const chunks = diarization.chunks.filter(c => c.speakerId === speaker.id).length;
+            const others = diarization.speakers.filter(s => s.id !== speaker.id);
+            return (
+              <div key={speaker.id} className="flex items-center space-x-2 bg-gray-50 rounded-lg p-2">
+                <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: speaker.color }} />
+                <input
+                  type="text"
+                  value={speaker.name}
+                  onChange={(e) => onDiarizationChange(renameSpeaker(diarization, speaker.id, e.target.value))}
+                  className="flex-1 min-w-0 p-1 border border-gray-300 rounded text-sm"
+                />
+                <span className="text-sm text-gray-600 w-32 text-right">
+                  {talkSeconds(diarization, speaker.id).toFixed(1)} s ·{' '}
+                  {turns.filter(t => t.speakerId === speaker.id).length} turns
+                </span>
+                <button
+                  onClick={() => onDiarizationChange(splitSpeaker(diarization, speaker.id))}
+                  disabled={chunks < 2}
+                  className="p-1 text-gray-500 hover:text-purple-700 disabled:opacity-30"
+                  title="Split into two speakers"
+                >
+                  <Scissors className="h-4 w-4" />
+                </button>
+                {others.length > 0 && (
+                  <div className="flex items-center text-gray-500" title="Merge into another speaker">
+                    <Merge className="h-4 w-4" />
+                    <select
+                      value=""
+                      onChange={(e) => onDiarizationChange(mergeSpeakers(diarization, e.target.value, speaker.id))}
+                      className="ml-1 p-1 border border-gray-300 rounded text-xs"
+                    >
+                      <option value="">Merge into…</option>
+                      {others.map(other => (
+                        <option key={other.id} value={other.id}>{other.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,437 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Scan } from 'lucide-react';
+import { StoredBuffer, mixToMono } from '../lib/bufferStore';
+import { formatTimestamp } from '../lib/analysisPipeline';
+import { TimeMarker, TimeRegion } from '../types/audio';
+import {
+  ColorMap,
+  DEFAULT_SPECTROGRAM_OPTIONS,
+  FrequencyScale,
+  SpectrogramOptions,
+  SpectrogramTiles,
+  TILE_WIDTH,
+  WINDOW_LABELS,
+  WindowType,
+  axisToHz,
+  colorLut,
+  formatFrequency,
+  frequencyAt,
+  hzToAxis,
+  minFrequency,
+  renderTile
+} from '../lib/spectrogram';
+
+interface SpectrogramViewProps {
+  buffer: StoredBuffer | null;
+  selection: TimeRegion | null;
+  // Point to bring into view and mark, such as a suspected edit
+  marker?: TimeMarker | null;
+}
+
+interface View {
+  // Time at the left edge and seconds per pixel column
+  start: number;
+  secondsPerPixel: number;
+  lowHz: number;
+  highHz: number;
+}
+
+interface Cursor {
+  x: number;
+  y: number;
+  time: number;
+  frequency: number;
+  level: number;
+}
+
+const HEIGHT = 320;
+const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192, 16384];
+const OVERLAPS = [0.5, 0.75, 0.875];
+// Seconds either side of a marker shown when it is brought into view
+const MARKER_CONTEXT_SECONDS = 2;
+// Longest a task spends on hop blocks before yielding, in ms
+const TILE_BUDGET_MS = 30;
+
+// The whole file across the full frequency range of the scale
+const fittedView = (buffer: StoredBuffer | null, width: number, scale: FrequencyScale): View | null =>
+  buffer && width > 0
+    ? { start: 0, secondsPerPixel: buffer.duration / width, lowHz: minFrequency(scale), highHz: buffer.sampleRate / 2 }
+    : null;
+
+const SpectrogramView: React.FC<SpectrogramViewProps> = ({ buffer, selection, marker = null }) => {
+  const [options, setOptions] = useState<SpectrogramOptions>(DEFAULT_SPECTROGRAM_OPTIONS);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<View | null>(null);
+  const [cursor, setCursor] = useState<Cursor | null>(null);
+  const [pendingTiles, setPendingTiles] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View } | null>(null);
+
+  const { fftSize, hopSize, window: windowType, scale } = options;
+  const activeSelection = selection && buffer && selection.bufferId === buffer.id ? selection : null;
+  const activeMarker = marker && buffer && marker.bufferId === buffer.id ? marker : null;
+  const nyquist = buffer ? buffer.sampleRate / 2 : 0;
+
+  const tiles = useMemo(() => {
+    if (!buffer) return null;
+    return new SpectrogramTiles(mixToMono(buffer), buffer.sampleRate, { fftSize, hopSize, window: windowType });
+  }, [buffer, fftSize, hopSize, windowType]);
+
+  // Track the container width so one canvas pixel is one column. The
+  // canvas only exists while there is a buffer to show.
+  const hasBuffer = buffer !== null;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasBuffer]);
+
+  // New buffer, scale or size: show everything
+  useEffect(() => {
+    setView(fittedView(buffer, width, scale));
+    setCursor(null);
+  }, [buffer, scale, width]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !tiles || !view) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const lut = colorLut(options.colorMap);
+    const startPx = view.start / view.secondsPerPixel;
+    const first = Math.floor(startPx / TILE_WIDTH);
+    const last = Math.floor((startPx + width - 1) / TILE_WIDTH);
+    let cancelled = false;
+
+    const draw = (index: number) => {
+      const image = ctx.createImageData(TILE_WIDTH, HEIGHT);
+      renderTile(tiles, tiles.tile(view.secondsPerPixel, index), image, view.lowHz, view.highHz, options, lut);
+      ctx.putImageData(image, Math.round(index * TILE_WIDTH - startPx), 0);
+    };
+
+    // Cached tiles are drawn at once; the rest one per task so the page
+    // stays responsive while they are computed
+    const queue: number[] = [];
+    for (let index = first; index <= last; index++) {
+      if (tiles.hasTile(view.secondsPerPixel, index)) draw(index);
+      else queue.push(index);
+    }
+    setPendingTiles(queue.length);
+
+    const next = () => {
+      if (cancelled || queue.length === 0) return;
+      // Zoomed far out, a tile's hop blocks are computed over several tasks first
+      if (tiles.prepareTile(view.secondsPerPixel, queue[0], TILE_BUDGET_MS)) {
+        draw(queue.shift()!);
+        setPendingTiles(queue.length);
+      }
+      setTimeout(next, 0);
+    };
+    const timer = setTimeout(next, 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [tiles, view, width, options]);
+
+  const clampView = (next: View): View => {
+    if (!buffer) return next;
+    const fit = buffer.duration / width;
+    // From one sample per pixel up to the whole file
+    const secondsPerPixel = Math.min(fit, Math.max(1 / buffer.sampleRate, next.secondsPerPixel));
+    const visible = secondsPerPixel * width;
+    const start = Math.max(0, Math.min(buffer.duration - visible, next.start));
+
+    const floor = hzToAxis(minFrequency(scale), scale);
+    const ceiling = hzToAxis(nyquist, scale);
+    const span = Math.max((ceiling - floor) / 100, Math.min(ceiling - floor, hzToAxis(next.highHz, scale) - hzToAxis(next.lowHz, scale)));
+    const low = Math.max(floor, Math.min(ceiling - span, hzToAxis(next.lowHz, scale)));
+
+    return { start, secondsPerPixel, lowHz: axisToHz(low, scale), highHz: axisToHz(low + span, scale) };
+  };
+
+  // Zoom in around a newly set marker, keeping the frequency range
+  const markerRef = useRef({ buffer, scale, clampView });
+  markerRef.current = { buffer, scale, clampView };
+  useEffect(() => {
+    const { buffer, scale, clampView } = markerRef.current;
+    const fitted = fittedView(buffer, width, scale);
+    if (!activeMarker || !fitted) return;
+    setView(view => clampView({
+      ...(view ?? fitted),
+      start: activeMarker.time - MARKER_CONTEXT_SECONDS,
+      secondsPerPixel: (2 * MARKER_CONTEXT_SECONDS) / width
+    }));
+  }, [activeMarker, width]);
+
+  const zoomTime = (factor: number, anchorX = width / 2) => {
+    if (!view) return;
+    const anchorTime = view.start + anchorX * view.secondsPerPixel;
+    const secondsPerPixel = view.secondsPerPixel * factor;
+    setView(clampView({ ...view, secondsPerPixel, start: anchorTime - anchorX * secondsPerPixel }));
+  };
+
+  const zoomFrequency = (factor: number, anchorY = HEIGHT / 2) => {
+    if (!view) return;
+    const low = hzToAxis(view.lowHz, scale);
+    const high = hzToAxis(view.highHz, scale);
+    const anchor = low + (1 - anchorY / HEIGHT) * (high - low);
+    setView(clampView({
+      ...view,
+      lowHz: axisToHz(anchor - (anchor - low) * factor, scale),
+      highHz: axisToHz(anchor + (high - anchor) * factor, scale)
+    }));
+  };
+
+  // Wheel zooms time, shift+wheel zooms frequency. Registered natively
+  // because React's wheel listener is passive and cannot stop page scroll.
+  const zoomRef = useRef({ zoomTime, zoomFrequency });
+  zoomRef.current = { zoomTime, zoomFrequency };
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? 0.5 : 2;
+      if (e.shiftKey) zoomRef.current.zoomFrequency(factor, e.clientY - rect.top);
+      else zoomRef.current.zoomTime(factor, e.clientX - rect.left);
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [hasBuffer]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (view) dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!view || !tiles) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+
+    const drag = dragRef.current;
+    if (drag) {
+      const low = hzToAxis(drag.view.lowHz, scale);
+      const high = hzToAxis(drag.view.highHz, scale);
+      const shift = ((e.clientY - drag.y) / HEIGHT) * (high - low);
+      setView(clampView({
+        ...drag.view,
+        start: drag.view.start - (e.clientX - drag.x) * drag.view.secondsPerPixel,
+        lowHz: axisToHz(low + shift, scale),
+        highHz: axisToHz(high + shift, scale)
+      }));
+      return;
+    }
+
+    const time = view.start + (x + 0.5) * view.secondsPerPixel;
+    const frequency = frequencyAt(1 - y / HEIGHT, view.lowHz, view.highHz, scale);
+    setCursor({ x, y, time, frequency, level: tiles.levelAt(time, frequency) });
+  };
+
+  const updateOptions = (changes: Partial<SpectrogramOptions>) =>
+    setOptions(prev => ({ ...prev, ...changes }));
+
+  if (!buffer) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        Record or upload audio to see its spectrogram.
+      </div>
+    );
+  }
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <select
+          value={fftSize}
+          onChange={(e) => {
+            const size = parseInt(e.target.value);
+            updateOptions({ fftSize: size, hopSize: size * (hopSize / fftSize) });
+          }}
+          className="p-2 border border-gray-300 rounded-lg"
+          title="FFT size"
+        >
+          {FFT_SIZES.map(size => (
+            <option key={size} value={size}>
+              FFT {size} ({(buffer.sampleRate / size).toFixed(1)} Hz)
+            </option>
+          ))}
+        </select>
+        <select
+          value={hopSize / fftSize}
+          onChange={(e) => updateOptions({ hopSize: fftSize * parseFloat(e.target.value) })}
+          className="p-2 border border-gray-300 rounded-lg"
+          title="Hop size"
+        >
+          {OVERLAPS.map(overlap => (
+            <option key={overlap} value={1 - overlap}>
+              {overlap * 100}% overlap (hop {fftSize * (1 - overlap)})
+            </option>
+          ))}
+        </select>
+        <select
+          value={windowType}
+          onChange={(e) => updateOptions({ window: e.target.value as WindowType })}
+          className="p-2 border border-gray-300 rounded-lg"
+          title="Window"
+        >
+          {Object.entries(WINDOW_LABELS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={scale}
+          onChange={(e) => updateOptions({ scale: e.target.value as FrequencyScale })}
+          className="p-2 border border-gray-300 rounded-lg"
+          title="Frequency scale"
+        >
+          <option value="linear">Linear frequency</option>
+          <option value="log">Log frequency</option>
+          <option value="mel">Mel frequency</option>
+        </select>
+        <select
+          value={options.colorMap}
+          onChange={(e) => updateOptions({ colorMap: e.target.value as ColorMap })}
+          className="p-2 border border-gray-300 rounded-lg"
+          title="Colour map"
+        >
+          <option value="viridis">Viridis</option>
+          <option value="magma">Magma</option>
+          <option value="grayscale">Grayscale</option>
+        </select>
+        <div className="flex items-center space-x-1 col-span-1 md:col-span-2">
+          <input
+            type="number"
+            value={options.minDb}
+            onChange={(e) => updateOptions({ minDb: Math.min(options.maxDb - 10, parseFloat(e.target.value) || 0) })}
+            className="w-20 p-2 border border-gray-300 rounded-lg"
+            title="Level at the bottom of the colour map"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="number"
+            value={options.maxDb}
+            onChange={(e) => updateOptions({ maxDb: Math.max(options.minDb + 10, parseFloat(e.target.value) || 0) })}
+            className="w-20 p-2 border border-gray-300 rounded-lg"
+            title="Level at the top of the colour map"
+          />
+          <span className="text-gray-500">dBFS</span>
+        </div>
+        <div className="flex items-center justify-end space-x-1">
+          <button onClick={() => zoomTime(0.5)} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg" title="Zoom in (time)">
+            <ZoomIn className="h-4 w-4" />
+          </button>
+          <button onClick={() => zoomTime(2)} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg" title="Zoom out (time)">
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <button onClick={() => zoomFrequency(0.5)} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-xs font-semibold" title="Zoom in (frequency)">
+            F+
+          </button>
+          <button onClick={() => zoomFrequency(2)} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-xs font-semibold" title="Zoom out (frequency)">
+            F−
+          </button>
+          {activeSelection && view && (
+            <button
+              onClick={() => setView(clampView({
+                ...view,
+                start: activeSelection.start,
+                secondsPerPixel: (activeSelection.end - activeSelection.start) / width
+              }))}
+              className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg"
+              title="Zoom to selection"
+            >
+              <Scan className="h-4 w-4" />
+            </button>
+          )}
+          <button onClick={() => setView(fittedView(buffer, width, scale))} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg" title="Show all">
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative pl-14 pb-5">
+        {/* Frequency axis */}
+        {view && ticks.map(t => (
+          <div
+            key={`f${t}`}
+            className="absolute left-0 w-12 text-right text-xs text-gray-500 -translate-y-1/2"
+            style={{ top: (1 - t) * HEIGHT }}
+          >
+            {formatFrequency(frequencyAt(t, view.lowHz, view.highHz, scale))}
+          </div>
+        ))}
+
+        <div ref={containerRef} className="relative bg-gray-900 rounded overflow-hidden" style={{ height: HEIGHT }}>
+          <canvas
+            ref={canvasRef}
+            width={width}
+            height={HEIGHT}
+            className="block cursor-crosshair"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={() => { dragRef.current = null; }}
+            onMouseLeave={() => { dragRef.current = null; setCursor(null); }}
+          />
+          {cursor && (
+            <>
+              <div className="absolute top-0 bottom-0 w-px bg-white/60 pointer-events-none" style={{ left: cursor.x }} />
+              <div className="absolute left-0 right-0 h-px bg-white/60 pointer-events-none" style={{ top: cursor.y }} />
+              <div className="absolute top-2 right-2 bg-black/70 text-white text-xs font-mono px-2 py-1 rounded pointer-events-none">
+                {formatTimestamp(cursor.time)} · {formatFrequency(cursor.frequency)} · {cursor.level.toFixed(1)} dBFS
+              </div>
+            </>
+          )}
+          {activeSelection && view && (
+            <div
+              className="absolute top-0 bottom-0 border-x-2 border-white/80 bg-white/10 pointer-events-none"
+              style={{
+                left: (activeSelection.start - view.start) / view.secondsPerPixel,
+                width: (activeSelection.end - activeSelection.start) / view.secondsPerPixel
+              }}
+            />
+          )}
+          {activeMarker && view && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-amber-400 pointer-events-none"
+              style={{ left: (activeMarker.time - view.start) / view.secondsPerPixel }}
+              title={activeMarker.label}
+            />
+          )}
+          {pendingTiles > 0 && (
+            <div className="absolute bottom-2 right-2 text-xs text-gray-300 pointer-events-none">
+              Rendering {pendingTiles} tile(s)...
+            </div>
+          )}
+        </div>
+
+        {/* Time axis */}
+        {view && ticks.map(t => (
+          <div
+            key={`t${t}`}
+            className="absolute bottom-0 text-xs text-gray-500 -translate-x-1/2"
+            style={{ left: `calc(3.5rem + ${t} * (100% - 3.5rem))` }}
+          >
+            {formatTimestamp(view.start + t * width * view.secondsPerPixel)}
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-500">
+        Drag to pan, wheel to zoom time, Shift+wheel to zoom frequency.
+      </div>
+    </div>
+  );
+};
+
+export default SpectrogramView;
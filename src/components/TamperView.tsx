@@ -0,0 +1,226 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { bufferStore } from '../lib/bufferStore';
+import { formatTimestamp } from '../lib/analysisPipeline';
+import { DETECTOR_LABELS, TamperAnalysis, TamperDetector } from '../lib/tamper';
+import { TimeMarker } from '../types/audio';
+
+interface TamperViewProps {
+  analyses: TamperAnalysis[];
+  onFindingSelect: (marker: TimeMarker) => void;
+}
+
+interface EvidencePlotProps {
+  title: string;
+  detail: string;
+  // Values from `start` seconds, `step` seconds apart
+  values: ArrayLike<number>;
+  start: number;
+  step: number;
+  from: number;
+  to: number;
+  marker: number;
+  threshold: number | null;
+  unit: string;
+}
+
+const PLOT_WIDTH = 360;
+const PLOT_HEIGHT = 90;
+// Seconds either side of a finding shown in its evidence plots
+const EVIDENCE_SECONDS: Record<TamperDetector, number> = {
+  noiseFloor: 6,
+  dcOffset: 4,
+  spectral: 4,
+  waveform: 1,
+  enf: 30
+};
+const WAVEFORM_SNIPPET_SECONDS = 0.02;
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 0.7 ? 'bg-red-500' : confidence >= 0.4 ? 'bg-amber-500' : 'bg-gray-400';
+
+const EvidencePlot: React.FC<EvidencePlotProps> = ({ title, detail, values, start, step, from, to, marker, threshold, unit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, PLOT_WIDTH, PLOT_HEIGHT);
+    const first = Math.max(0, Math.floor((from - start) / step));
+    const last = Math.min(values.length - 1, Math.ceil((to - start) / step));
+    const shown: number[] = [];
+    for (let i = first; i <= last; i++) if (Number.isFinite(values[i])) shown.push(values[i]);
+    if (shown.length === 0) return;
+
+    let low = Math.min(...shown, threshold ?? Infinity);
+    let high = Math.max(...shown, threshold ?? -Infinity);
+    const margin = (high - low) * 0.1 || Math.abs(high) * 0.1 || 1;
+    low -= margin;
+    high += margin;
+    const toX = (time: number) => ((time - from) / (to - from)) * PLOT_WIDTH;
+    const toY = (value: number) => ((high - Math.max(low, Math.min(high, value))) / (high - low)) * PLOT_HEIGHT;
+
+    if (threshold !== null) {
+      ctx.strokeStyle = '#f59e0b';
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(0, toY(threshold));
+      ctx.lineTo(PLOT_WIDTH, toY(threshold));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    ctx.strokeStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.moveTo(toX(marker), 0);
+    ctx.lineTo(toX(marker), PLOT_HEIGHT);
+    ctx.stroke();
+
+    ctx.strokeStyle = '#7c3aed';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = first; i <= last; i++) {
+      const x = toX(start + i * step);
+      const y = toY(Number.isFinite(values[i]) ? values[i] : high);
+      if (i === first) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+    ctx.lineWidth = 1;
+
+    ctx.font = '10px Arial';
+    ctx.fillStyle = '#6b7280';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${high.toPrecision(3)} ${unit}`, 2, 10);
+    ctx.fillText(`${low.toPrecision(3)} ${unit}`, 2, PLOT_HEIGHT - 3);
+  }, [values, start, step, from, to, marker, threshold, unit]);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-2">
+      <div className="text-sm font-medium text-gray-800">{title}</div>
+      <div className="text-xs text-gray-500 mb-1">{detail}</div>
+      <canvas ref={canvasRef} width={PLOT_WIDTH} height={PLOT_HEIGHT} className="w-full h-auto bg-white rounded" />
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{formatTimestamp(Math.max(0, from))}</span>
+        <span>{formatTimestamp(to)}</span>
+      </div>
+    </div>
+  );
+};
+
+/** Samples either side of a time, mixed to mono, for a close look at a cut. */
+const waveformSnippet = (bufferId: string, time: number) => {
+  const buffer = bufferStore.get(bufferId);
+  if (!buffer) return null;
+  const first = Math.max(0, Math.floor((time - WAVEFORM_SNIPPET_SECONDS) * buffer.sampleRate));
+  const last = Math.min(buffer.length, Math.ceil((time + WAVEFORM_SNIPPET_SECONDS) * buffer.sampleRate));
+  const values = new Float32Array(Math.max(0, last - first));
+  buffer.channels.forEach(channel => {
+    for (let i = 0; i < values.length; i++) values[i] += channel[first + i] / buffer.channels.length;
+  });
+  return { values, start: first / buffer.sampleRate, step: 1 / buffer.sampleRate };
+};
+
+const TamperView: React.FC<TamperViewProps> = ({ analyses, onFindingSelect }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const ranked = analyses
+    .flatMap(analysis => analysis.findings.map(finding => ({ analysis, finding })))
+    .sort((a, b) => b.finding.confidence - a.finding.confidence);
+  const current = ranked.find(({ analysis, finding }) => `${analysis.bufferId}-${finding.time}` === selected);
+  const snippet = current ? waveformSnippet(current.analysis.bufferId, current.finding.time) : null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <ShieldAlert className="h-5 w-5 text-orange-600" />
+        <h4 className="font-semibold text-gray-900">Edit Detection</h4>
+        <span className="text-sm text-gray-500">{ranked.length} suspect point(s)</span>
+      </div>
+
+      {ranked.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No abrupt changes in noise floor, DC offset, background spectrum, waveform or mains hum were found.
+        </div>
+      ) : (
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {ranked.map(({ analysis, finding }, rank) => {
+            const key = `${analysis.bufferId}-${finding.time}`;
+            return (
+              <button
+                key={key}
+                onClick={() => {
+                  setSelected(key);
+                  onFindingSelect({ bufferId: analysis.bufferId, time: finding.time, label: `Suspect edit #${rank + 1}` });
+                }}
+                className={`w-full flex items-center space-x-3 text-sm rounded-lg px-3 py-2 text-left ${
+                  key === selected ? 'bg-purple-100' : 'bg-gray-50 hover:bg-purple-50'
+                }`}
+              >
+                <span className="w-6 text-gray-500">#{rank + 1}</span>
+                <span className="font-mono w-20">{formatTimestamp(finding.time)}</span>
+                {analyses.length > 1 && (
+                  <span className="w-32 truncate text-gray-600">{bufferStore.get(analysis.bufferId)?.name ?? analysis.bufferId}</span>
+                )}
+                <div className="w-24 bg-gray-200 rounded-full h-2">
+                  <div className={`h-2 rounded-full ${confidenceColor(finding.confidence)}`} style={{ width: `${finding.confidence * 100}%` }} />
+                </div>
+                <span className="w-10 text-right">{(finding.confidence * 100).toFixed(0)}%</span>
+                <span className="flex-1 truncate text-gray-600">
+                  {finding.evidence.map(e => DETECTOR_LABELS[e.detector]).join(', ')}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {current && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-4">
+          {current.finding.evidence.map(evidence => {
+            const curve = current.analysis.curves[evidence.detector];
+            if (!curve) return null;
+            return (
+              <EvidencePlot
+                key={evidence.detector}
+                title={DETECTOR_LABELS[evidence.detector]}
+                detail={`${evidence.detail} (score ${(evidence.score * 100).toFixed(0)}%)`}
+                values={curve.values}
+                start={curve.start}
+                step={curve.step}
+                from={evidence.time - EVIDENCE_SECONDS[evidence.detector]}
+                to={evidence.time + EVIDENCE_SECONDS[evidence.detector]}
+                marker={evidence.time}
+                threshold={curve.threshold}
+                unit={curve.unit}
+              />
+            );
+          })}
+          {snippet && (
+            <EvidencePlot
+              title="Waveform"
+              detail={`±${WAVEFORM_SNIPPET_SECONDS * 1000} ms around the finding`}
+              values={snippet.values}
+              start={snippet.start}
+              step={snippet.step}
+              from={current.finding.time - WAVEFORM_SNIPPET_SECONDS}
+              to={current.finding.time + WAVEFORM_SNIPPET_SECONDS}
+              marker={current.finding.time}
+              threshold={null}
+              unit="FS"
+            />
+          )}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500 mt-3">
+        Confidence combines the detectors that agree on a point. Click a finding to show its evidence and jump to it on
+        the timeline; an edit is only proven by examining the evidence, not by the score.
+      </div>
+    </div>
+  );
+};
+
+export default TamperView;
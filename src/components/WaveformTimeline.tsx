@@ -0,0 +1,477 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Pause, Repeat, ZoomIn, ZoomOut, Maximize2, Scan, X, SkipBack, SkipForward } from 'lucide-react';
+import { StoredBuffer } from '../lib/bufferStore';
+import { Transport } from '../lib/transport';
+import { buildPeakPyramid, columnPeaks } from '../lib/waveform';
+import { formatTimestamp } from '../lib/analysisPipeline';
+import { SpeechSegment } from '../lib/vad';
+import { Speaker, SpeakerTurn } from '../lib/diarization';
+import { TimeMarker, TimeRegion } from '../types/audio';
+
+interface WaveformTimelineProps {
+  buffer: StoredBuffer | null;
+  transport: Transport | null;
+  selection: TimeRegion | null;
+  onSelectionChange: (region: TimeRegion | null) => void;
+  loop: boolean;
+  onLoopChange: (loop: boolean) => void;
+  // Detected speech in `buffer`, drawn as bands under the waveform
+  speechSegments?: SpeechSegment[];
+  // Diarized speakers of `buffer`, drawn as one lane each below the waveform
+  speakers?: Speaker[];
+  speakerTurns?: SpeakerTurn[];
+  // Point to bring into view and mark, such as a suspected edit
+  marker?: TimeMarker | null;
+}
+
+interface View {
+  start: number;
+  // Samples per pixel column; below 1 individual samples are drawn
+  samplesPerPixel: number;
+}
+
+// Pixels moved before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 3;
+// Closest zoom: 16 pixels per sample
+const MIN_SAMPLES_PER_PIXEL = 1 / 16;
+const SPEAKER_LANE_HEIGHT = 16;
+// A jump back from this close to a segment start goes to the one before it
+const JUMP_TOLERANCE_SECONDS = 0.05;
+// Seconds either side of a marker shown when it is brought into view
+const MARKER_CONTEXT_SECONDS = 2;
+
+// The transport swaps nodes at once; only resuming the context can fail
+const reportPlaybackError = (error: unknown) => console.error('Error starting playback:', error);
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  buffer,
+  transport,
+  selection,
+  onSelectionChange,
+  loop,
+  onLoopChange,
+  speechSegments = [],
+  speakers = [],
+  speakerTurns = [],
+  marker = null
+}) => {
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<View | null>(null);
+  const [draft, setDraft] = useState<{ start: number; end: number } | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const positionRef = useRef<HTMLSpanElement>(null);
+  const pressRef = useRef<{ x: number; time: number } | null>(null);
+
+  const laneHeight = buffer && buffer.channels.length > 2 ? 40 : 64;
+  const height = buffer ? laneHeight * buffer.channels.length : 0;
+  const hasBuffer = buffer !== null;
+  const activeSelection = selection && buffer && selection.bufferId === buffer.id ? selection : null;
+  const activeMarker = marker && buffer && marker.bufferId === buffer.id ? marker : null;
+
+  const pyramids = useMemo(() => buffer?.channels.map(buildPeakPyramid) ?? [], [buffer]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasBuffer]);
+
+  useEffect(() => {
+    setView(buffer && width > 0 ? { start: 0, samplesPerPixel: buffer.length / width } : null);
+  }, [buffer, width]);
+
+  useEffect(() => {
+    if (!transport) return;
+    setIsPlaying(transport.playing);
+    return transport.subscribe(() => setIsPlaying(transport.playing));
+  }, [transport]);
+
+  // Waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !buffer || !view) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    buffer.channels.forEach((samples, c) => {
+      const top = c * laneHeight;
+      const mid = top + laneHeight / 2;
+      const scale = laneHeight / 2 - 2;
+
+      ctx.strokeStyle = '#e5e7eb';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, mid + 0.5);
+      ctx.lineTo(width, mid + 0.5);
+      ctx.stroke();
+
+      ctx.strokeStyle = '#7c3aed';
+      ctx.fillStyle = '#7c3aed';
+      if (view.samplesPerPixel >= 1) {
+        const { min, max } = columnPeaks(samples, pyramids[c], view.start, view.samplesPerPixel, width);
+        ctx.beginPath();
+        for (let x = 0; x < width; x++) {
+          ctx.moveTo(x + 0.5, mid - max[x] * scale);
+          ctx.lineTo(x + 0.5, mid - min[x] * scale + 1);
+        }
+        ctx.stroke();
+      } else {
+        // Sample level: join the samples and mark each one when far enough apart
+        const first = Math.max(0, Math.floor(view.start));
+        const last = Math.min(samples.length - 1, Math.ceil(view.start + width * view.samplesPerPixel));
+        ctx.beginPath();
+        for (let i = first; i <= last; i++) {
+          const x = (i - view.start) / view.samplesPerPixel;
+          if (i === first) ctx.moveTo(x, mid - samples[i] * scale);
+          else ctx.lineTo(x, mid - samples[i] * scale);
+        }
+        ctx.stroke();
+        if (view.samplesPerPixel < 0.25) {
+          for (let i = first; i <= last; i++) {
+            ctx.fillRect((i - view.start) / view.samplesPerPixel - 1.5, mid - samples[i] * scale - 1.5, 3, 3);
+          }
+        }
+      }
+    });
+  }, [buffer, pyramids, view, width, laneHeight]);
+
+  const clampView = (next: View): View => {
+    if (!buffer) return next;
+    const samplesPerPixel = Math.min(buffer.length / width, Math.max(MIN_SAMPLES_PER_PIXEL, next.samplesPerPixel));
+    const start = Math.max(0, Math.min(buffer.length - samplesPerPixel * width, next.start));
+    return { start, samplesPerPixel };
+  };
+
+  // Zoom in around a newly set marker
+  const markerRef = useRef({ buffer, clampView });
+  markerRef.current = { buffer, clampView };
+  useEffect(() => {
+    const { buffer, clampView } = markerRef.current;
+    if (!activeMarker || !buffer || width === 0) return;
+    setView(clampView({
+      start: (activeMarker.time - MARKER_CONTEXT_SECONDS) * buffer.sampleRate,
+      samplesPerPixel: (2 * MARKER_CONTEXT_SECONDS * buffer.sampleRate) / width
+    }));
+  }, [activeMarker, width]);
+
+  const xToTime = (x: number) =>
+    view && buffer ? Math.max(0, Math.min(buffer.duration, (view.start + x * view.samplesPerPixel) / buffer.sampleRate)) : 0;
+
+  const timeToX = (time: number) =>
+    view && buffer ? (time * buffer.sampleRate - view.start) / view.samplesPerPixel : 0;
+
+  // Playhead: positioned directly on the DOM each frame so playback does not
+  // re-render the whole timeline
+  const followRef = useRef({ timeToX, view, width, buffer, clampView });
+  followRef.current = { timeToX, view, width, buffer, clampView };
+  useEffect(() => {
+    if (!transport) return;
+    let frame = 0;
+    const update = () => {
+      const { timeToX, view, width, buffer, clampView } = followRef.current;
+      const time = transport.currentTime;
+      const onThisBuffer = buffer && transport.loadedId === buffer.id;
+      const x = timeToX(time);
+      if (playheadRef.current) {
+        playheadRef.current.style.display = onThisBuffer && x >= 0 && x <= width ? 'block' : 'none';
+        playheadRef.current.style.left = `${x}px`;
+      }
+      if (positionRef.current) positionRef.current.textContent = onThisBuffer ? formatTimestamp(time) : formatTimestamp(0);
+      // Page along with the playhead
+      if (onThisBuffer && transport.playing && view && buffer && (x < 0 || x > width)) {
+        setView(clampView({ ...view, start: time * buffer.sampleRate }));
+      }
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [transport]);
+
+  const zoom = (factor: number, anchorX = width / 2) => {
+    if (!view) return;
+    const anchor = view.start + anchorX * view.samplesPerPixel;
+    const samplesPerPixel = view.samplesPerPixel * factor;
+    setView(clampView({ start: anchor - anchorX * samplesPerPixel, samplesPerPixel }));
+  };
+
+  const wheelRef = useRef({ zoom, view, clampView });
+  wheelRef.current = { zoom, view, clampView };
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { zoom, view, clampView } = wheelRef.current;
+      if (!view) return;
+      // Shift+wheel or a horizontal swipe pans, the plain wheel zooms
+      const pan = e.shiftKey ? e.deltaY : e.deltaX;
+      if (pan !== 0) {
+        setView(clampView({ ...view, start: view.start + pan * view.samplesPerPixel }));
+      } else {
+        zoom(e.deltaY < 0 ? 0.5 : 2, e.clientX - canvas.getBoundingClientRect().left);
+      }
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [hasBuffer]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    pressRef.current = { x, time: xToTime(x) };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const press = pressRef.current;
+    if (!press) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    if (Math.abs(x - press.x) < DRAG_THRESHOLD && !draft) return;
+    const time = xToTime(x);
+    setDraft({ start: Math.min(press.time, time), end: Math.max(press.time, time) });
+  };
+
+  const handleMouseUp = () => {
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (!press || !buffer || !transport) return;
+
+    if (draft) {
+      onSelectionChange({ bufferId: buffer.id, ...draft });
+      setDraft(null);
+      transport.load(buffer);
+      transport.seek(draft.start).catch(reportPlaybackError);
+    } else {
+      transport.load(buffer);
+      transport.seek(press.time).catch(reportPlaybackError);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (!transport || !buffer) return;
+    if (transport.playing) {
+      transport.pause();
+      return;
+    }
+    transport.load(buffer);
+    if (activeSelection) {
+      const position = transport.currentTime;
+      const inside = position >= activeSelection.start && position < activeSelection.end;
+      const from = inside ? position : activeSelection.start;
+      const playing = loop
+        ? transport.play({ from, loop: activeSelection })
+        : transport.play({ from, until: activeSelection.end });
+      playing.catch(reportPlaybackError);
+    } else {
+      transport.play().catch(reportPlaybackError);
+    }
+  };
+
+  const jumpToSpeech = (direction: 1 | -1) => {
+    if (!transport || !buffer || !view) return;
+    const position = transport.loadedId === buffer.id ? transport.currentTime : 0;
+    const target = direction > 0
+      ? speechSegments.find(s => s.start > position + JUMP_TOLERANCE_SECONDS)
+      : [...speechSegments].reverse().find(s => s.start < position - JUMP_TOLERANCE_SECONDS);
+    if (!target) return;
+    transport.load(buffer);
+    transport.seek(target.start).catch(reportPlaybackError);
+    const x = timeToX(target.start);
+    if (x < 0 || x > width) {
+      setView(clampView({ ...view, start: target.start * buffer.sampleRate - (width / 2) * view.samplesPerPixel }));
+    }
+  };
+
+  if (!buffer) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Record or upload audio to see its waveform.
+      </div>
+    );
+  }
+
+  const shown = draft ?? activeSelection;
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={togglePlayback}
+            disabled={!transport}
+            className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white p-2 rounded-lg transition-colors"
+            title={activeSelection ? 'Play selection' : 'Play'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => onLoopChange(!loop)}
+            className={`p-2 rounded-lg transition-colors ${
+              loop ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+            }`}
+            title="Loop the selection"
+          >
+            <Repeat className="h-4 w-4" />
+          </button>
+          <span ref={positionRef} className="font-mono text-sm text-gray-700">0:00.00</span>
+          {speechSegments.length > 0 && (
+            <div className="flex items-center">
+              <button
+                onClick={() => jumpToSpeech(-1)}
+                disabled={!transport}
+                className="p-2 text-green-700 hover:bg-green-50 disabled:opacity-50 rounded-lg"
+                title="Previous speech segment"
+              >
+                <SkipBack className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => jumpToSpeech(1)}
+                disabled={!transport}
+                className="p-2 text-green-700 hover:bg-green-50 disabled:opacity-50 rounded-lg"
+                title="Next speech segment"
+              >
+                <SkipForward className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+          {activeSelection && (
+            <span className="flex items-center space-x-1 text-sm bg-purple-50 text-purple-800 px-2 py-1 rounded-lg">
+              <span>
+                {formatTimestamp(activeSelection.start)}–{formatTimestamp(activeSelection.end)} (
+                {(activeSelection.end - activeSelection.start).toFixed(3)} s)
+              </span>
+              <button onClick={() => onSelectionChange(null)} className="hover:text-purple-900" title="Clear selection">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => zoom(0.5)} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg" title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </button>
+          <button onClick={() => zoom(2)} className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg" title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          {activeSelection && (
+            <button
+              onClick={() => setView(clampView({
+                start: activeSelection.start * buffer.sampleRate,
+                samplesPerPixel: ((activeSelection.end - activeSelection.start) * buffer.sampleRate) / width
+              }))}
+              className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg"
+              title="Zoom to selection"
+            >
+              <Scan className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setView(clampView({ start: 0, samplesPerPixel: buffer.length / width }))}
+            className="p-2 bg-gray-100 hover:bg-gray-200 rounded-lg"
+            title="Show all"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative pb-5">
+        <div ref={containerRef} className="relative bg-gray-50 border border-gray-200 rounded overflow-hidden" style={{ height }}>
+          <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            className="block cursor-text"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => { pressRef.current = null; setDraft(null); }}
+          />
+          {view && speechSegments.map(segment => (
+            <div
+              key={segment.start}
+              className="absolute top-0 bottom-0 bg-green-400/15 border-b-4 border-green-500 pointer-events-none"
+              style={{ left: timeToX(segment.start), width: Math.max(1, timeToX(segment.end) - timeToX(segment.start)) }}
+            />
+          ))}
+          {shown && view && (
+            <div
+              className="absolute top-0 bottom-0 bg-purple-400/20 border-x border-purple-500 pointer-events-none"
+              style={{ left: timeToX(shown.start), width: Math.max(1, timeToX(shown.end) - timeToX(shown.start)) }}
+            />
+          )}
+          {activeMarker && view && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-amber-500 pointer-events-none"
+              style={{ left: timeToX(activeMarker.time) }}
+              title={activeMarker.label}
+            />
+          )}
+          <div ref={playheadRef} className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" />
+        </div>
+
+        {view && speakers.length > 0 && (
+          <div
+            className="relative mt-1 bg-gray-50 border border-gray-200 rounded overflow-hidden"
+            style={{ height: speakers.length * SPEAKER_LANE_HEIGHT }}
+          >
+            {speakers.map((speaker, lane) => (
+              <React.Fragment key={speaker.id}>
+                {speakerTurns.filter(t => t.speakerId === speaker.id).map(turn => (
+                  <div
+                    key={turn.start}
+                    className="absolute rounded-sm cursor-pointer"
+                    style={{
+                      top: lane * SPEAKER_LANE_HEIGHT + 3,
+                      height: SPEAKER_LANE_HEIGHT - 6,
+                      left: timeToX(turn.start),
+                      width: Math.max(2, timeToX(turn.end) - timeToX(turn.start)),
+                      backgroundColor: speaker.color
+                    }}
+                    title={`${speaker.name}: ${formatTimestamp(turn.start)}–${formatTimestamp(turn.end)}`}
+                    onClick={() => {
+                      if (!transport) return;
+                      transport.load(buffer);
+                      transport.seek(turn.start).catch(reportPlaybackError);
+                    }}
+                  />
+                ))}
+                <span
+                  className="absolute left-1 text-[10px] leading-none text-gray-700 bg-white/70 px-1 rounded pointer-events-none"
+                  style={{ top: lane * SPEAKER_LANE_HEIGHT + 3 }}
+                >
+                  {speaker.name}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+
+        {view && ticks.map(t => (
+          <div
+            key={t}
+            className="absolute bottom-0 text-xs text-gray-500 -translate-x-1/2"
+            style={{ left: `${t * 100}%` }}
+          >
+            {formatTimestamp(xToTime(t * width))}
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-500">
+        Click to seek, drag to select, wheel to zoom, Shift+wheel to scroll.
+        {speechSegments.length > 0 && ' Green bands mark detected speech.'}
+        {speakers.length > 0 && ' Click a speaker turn to play from it.'}
+        {activeMarker && ` Amber line: ${activeMarker.label} at ${formatTimestamp(activeMarker.time)}.`}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
@@ -0,0 +1,337 @@
+import { AudioSource, DistanceEstimate, SourceDirection, TimeRegion } from '../types/audio';
+import { StoredBuffer, mixToMono } from './bufferStore';
+import { convolve, hannWindow, interpolatePeak, powerSpectrum, toDb } from './fft';
+import { CalibrationProfile, designCorrectionFir, profileId } from './calibration';
+import { EventDetectionOptions, EventSpan, detectEvents, pickOnsets, spectralFlux } from './onsets';
+import { DEFAULT_VAD_OPTIONS, VadOptions, detectSpeech, speechOverlap } from './vad';
+import { DEFAULT_FILTER_CHAIN, FULL_RANGE, FilterChain, applyFilterChain } from './filterChain';
+import { SENSITIVITY_PRESETS, Settings } from './settings';
+import { DEFAULT_MIC_GEOMETRY, MicGeometry, estimateDirection, micPositions, positionAt } from './doa';
+import { DEFAULT_DISTANCE_MODEL, DistanceModel, estimateDistance } from './distance';
+import { percentile, yieldToMain } from './util';
+
+export interface PipelineOptions extends EventDetectionOptions {
+  frameSize: number;
+  hopSize: number;
+  maxEvents: number;
+  // Dominant frequencies are only looked for in this range
+  minFrequency: number;
+  maxFrequency: number;
+  // Applied to the samples before anything is detected
+  filterChain: FilterChain;
+  vad: VadOptions;
+  // Multichannel files with a geometry that fits get a bearing per event
+  micGeometry: MicGeometry;
+  // Reference levels and room behind the distance estimate of each event
+  distanceModel: DistanceModel;
+}
+
+export const DEFAULT_PIPELINE_OPTIONS: PipelineOptions = {
+  frameSize: 2048,
+  hopSize: 512,
+  onThresholdDb: 10,
+  offThresholdDb: 6,
+  holdSeconds: 0.3,
+  minDurationSeconds: 0.1,
+  onsetSensitivity: 6,
+  maxEvents: 24,
+  minFrequency: FULL_RANGE.min,
+  maxFrequency: FULL_RANGE.max,
+  filterChain: DEFAULT_FILTER_CHAIN,
+  vad: DEFAULT_VAD_OPTIONS,
+  micGeometry: DEFAULT_MIC_GEOMETRY,
+  distanceModel: DEFAULT_DISTANCE_MODEL
+};
+
+/**
+ * Pipeline options for the operator's settings: the detector thresholds of
+ * the sensitivity preset, the speech detector's aggressiveness, the
+ * microphone geometry, the distance model, and the filter chain, with sources
+ * looked for within its frequency range.
+ */
+export const pipelineOptionsFor = ({ sensitivity, filterChain, vadAggressiveness, micGeometry, distanceModel }: Settings): PipelineOptions => ({
+  ...DEFAULT_PIPELINE_OPTIONS,
+  ...SENSITIVITY_PRESETS[sensitivity],
+  minFrequency: filterChain.minFrequency,
+  maxFrequency: filterChain.maxFrequency,
+  filterChain,
+  vad: { ...DEFAULT_VAD_OPTIONS, aggressiveness: vadAggressiveness },
+  micGeometry,
+  distanceModel
+});
+
+export interface FrameAnalysis {
+  // Per-frame RMS level in dBFS
+  levels: Float64Array;
+  noiseFloorDb: number;
+  hopSeconds: number;
+}
+
+const SILENCE_DB = -150;
+// Events at least this much covered by detected speech are typed as voice
+const VOICE_SHARE = 0.5;
+
+export const formatTimestamp = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds - mins * 60;
+  return `${mins}:${secs.toFixed(2).padStart(5, '0')}`;
+};
+
+/** RMS level of every analysis frame plus the estimated noise floor. */
+export const analyzeFrames = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: PipelineOptions = DEFAULT_PIPELINE_OPTIONS
+): FrameAnalysis => {
+  const { frameSize, hopSize } = options;
+  const frameCount = Math.max(1, Math.ceil((samples.length - frameSize) / hopSize) + 1);
+  const levels = new Float64Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hopSize;
+    const end = Math.min(start + frameSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels[f] = toDb(end > start ? sum / (end - start) : 0, SILENCE_DB);
+  }
+
+  return {
+    levels,
+    noiseFloorDb: levels.length > 0 ? percentile(levels, 0.1) : SILENCE_DB,
+    hopSeconds: hopSize / sampleRate
+  };
+};
+
+const eventEnergy = (frames: FrameAnalysis, segment: EventSpan) => {
+  let energy = 0;
+  for (let f = segment.startFrame; f < segment.endFrame; f++) {
+    energy += Math.pow(10, frames.levels[f] / 10);
+  }
+  return energy;
+};
+
+/**
+ * Level and dominant frequency over a set of frames. The spectrum is the
+ * average of Hann-windowed frames, so the dominant frequency reflects the
+ * whole span rather than a single instant.
+ */
+export const measureFrames = (
+  samples: Float32Array,
+  sampleRate: number,
+  frameIndices: number[],
+  options: PipelineOptions = DEFAULT_PIPELINE_OPTIONS
+) => {
+  const window = hannWindow(options.frameSize);
+  const average = new Float64Array(options.frameSize / 2 + 1);
+  let sumSquares = 0;
+  let count = 0;
+  let peak = 0;
+
+  for (const f of frameIndices) {
+    const start = f * options.hopSize;
+    const spectrum = powerSpectrum(samples, start, window, options.frameSize);
+    for (let k = 0; k < spectrum.length; k++) average[k] += spectrum[k];
+
+    // Hop-sized slices so overlapping frames are only counted once
+    const end = Math.min(start + options.hopSize, samples.length);
+    for (let i = start; i < end; i++) {
+      sumSquares += samples[i] * samples[i];
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    count += Math.max(0, end - start);
+  }
+
+  const binHz = sampleRate / options.frameSize;
+  const minBin = Math.max(1, Math.ceil(options.minFrequency / binHz));
+  const maxBin = Math.max(minBin, Math.min(average.length - 1, Math.floor(options.maxFrequency / binHz)));
+  let peakBin = minBin;
+  for (let k = minBin; k <= maxBin; k++) {
+    if (average[k] > average[peakBin]) peakBin = k;
+  }
+
+  return {
+    rmsDb: toDb(count > 0 ? sumSquares / count : 0, SILENCE_DB),
+    peakDb: toDb(peak * peak, SILENCE_DB),
+    dominantFrequency: interpolatePeak(average, peakBin) * binHz
+  };
+};
+
+/** Whether a source lies at least partly inside a region. */
+export const overlapsRegion = (source: AudioSource, region: TimeRegion) =>
+  source.fileId === region.bufferId && source.startTime < region.end && source.endTime > region.start;
+
+export const isBackground = (source: AudioSource) => source.id === `${source.fileId}-background`;
+
+/** Sources in time order, file by file, with each file's background after its events. */
+export const chronological = (sources: AudioSource[]) => {
+  const files = Array.from(new Set(sources.map(s => s.fileId)));
+  return [...sources].sort((a, b) =>
+    files.indexOf(a.fileId) - files.indexOf(b.fileId) ||
+    Number(isBackground(a)) - Number(isBackground(b)) ||
+    a.startTime - b.startTime
+  );
+};
+
+const range = (start: number, end: number) =>
+  Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+
+const sourceColor = (index: number) => `hsl(${(index * 137.508) % 360}, 70%, 60%)`;
+
+/**
+ * Apply a calibration profile's response correction to a signal. Levels
+ * measured on the result are converted to dB SPL by adding the offset.
+ */
+export const applyCalibration = (samples: Float32Array, sampleRate: number, calibration: CalibrationProfile | null) => {
+  if (!calibration?.responseCorrection) return samples;
+  const fir = designCorrectionFir(calibration.responseCorrection.points, sampleRate);
+  return convolve(samples, fir, (fir.length - 1) / 2);
+};
+
+/**
+ * Turn a decoded buffer into audio sources: one per detected sound event, in
+ * chronological order, plus the background between them. Events that are
+ * mostly speech are typed as voice. The samples pass through the options'
+ * filter chain first. Where the microphone geometry fits the file, each
+ * event is placed on its direction of arrival, and each event gets a
+ * distance range where any cue applies. The result depends only on
+ * the samples, the options and the calibration, so the same file always
+ * produces the same sources.
+ */
+export const analyzeBuffer = async (
+  buffer: StoredBuffer,
+  options: PipelineOptions = DEFAULT_PIPELINE_OPTIONS,
+  calibration: CalibrationProfile | null = null
+): Promise<AudioSource[]> => {
+  const calibrated = applyCalibration(mixToMono(buffer), buffer.sampleRate, calibration);
+  const samples = applyFilterChain(calibrated, buffer.sampleRate, options.filterChain);
+  const offset = calibration?.offsetDb ?? 0;
+  const calibrationId = calibration ? profileId(calibration) : undefined;
+  const frames = analyzeFrames(samples, buffer.sampleRate, options);
+  const baseName = buffer.name.replace(/\.[^.]+$/, '');
+
+  const flux = await spectralFlux(samples, options.frameSize, options.hopSize, frames.levels.length);
+  const onsets = pickOnsets(flux, frames.hopSeconds, options.onsetSensitivity);
+
+  // Keep the most energetic events, then restore chronological order
+  const events = detectEvents(frames.levels, frames.noiseFloorDb, onsets, frames.hopSeconds, options)
+    .map(event => ({ event, energy: eventEnergy(frames, event) }))
+    .sort((a, b) => b.energy - a.energy || a.event.startFrame - b.event.startFrame)
+    .slice(0, options.maxEvents)
+    .map(({ event }) => event)
+    .sort((a, b) => a.startFrame - b.startFrame);
+
+  const measurements = [];
+  for (const event of events) {
+    measurements.push({
+      event,
+      ...measureFrames(samples, buffer.sampleRate, range(event.startFrame, event.endFrame), options)
+    });
+    await yieldToMain();
+  }
+
+  const speech = await detectSpeech(samples, buffer.sampleRate, options.vad);
+
+  // Direction finding runs on the separate channels, filtered alike so their
+  // time differences are kept
+  const mics = micPositions(options.micGeometry, buffer.channels.length);
+  const spatialChannels = mics?.map((_, c) => applyFilterChain(buffer.channels[c], buffer.sampleRate, options.filterChain));
+
+  // The first frame to pick up a sound usually has it in its last hop
+  const eventStartTime = (event: EventSpan) =>
+    (event.startFrame * options.hopSize + options.frameSize - options.hopSize) / buffer.sampleRate;
+  const eventEndTime = (event: EventSpan) =>
+    Math.min(buffer.duration, (event.endFrame - 1) * frames.hopSeconds + options.frameSize / buffer.sampleRate);
+
+  const active = new Set(events.flatMap(e => range(e.startFrame, e.endFrame)));
+  const backgroundFrames = range(0, frames.levels.length).filter(f => !active.has(f));
+  const background = backgroundFrames.length > 0
+    ? measureFrames(samples, buffer.sampleRate, backgroundFrames, options)
+    : null;
+
+  // Events without a distance estimate are placed relative to the loudest
+  // one assuming equal source power (inverse square law: -6 dB per doubling
+  // of distance). This keeps markers apart; it is not a measurement.
+  const loudest = Math.max(...measurements.map(m => m.rmsDb), background?.rmsDb ?? SILENCE_DB);
+  const relativeDistance = (rmsDb: number) => Math.min(50, Math.pow(10, (loudest - rmsDb) / 20));
+
+  const typeAt = (startTime: number, endTime: number) =>
+    speechOverlap(speech.segments, startTime, endTime) >= VOICE_SHARE ? 'voice' : 'unknown';
+  const directions: (SourceDirection | null)[] = [];
+  const distances: (DistanceEstimate | null)[] = [];
+  for (const m of measurements) {
+    const start = m.event.startFrame * options.hopSize;
+    const end = Math.min(buffer.length, (m.event.endFrame - 1) * options.hopSize + options.frameSize);
+    directions.push(mics && spatialChannels
+      ? estimateDirection(spatialChannels, buffer.sampleRate, mics, start, end, { min: options.minFrequency, max: options.maxFrequency })
+      : null);
+    // Onsets and spectral balance are judged on the unfiltered samples;
+    // levels only mean SPL with a calibration
+    distances.push(estimateDistance(
+      calibrated,
+      buffer.sampleRate,
+      start,
+      end,
+      typeAt(eventStartTime(m.event), eventEndTime(m.event)),
+      calibration ? m.rmsDb + offset : null,
+      frames.noiseFloorDb + offset,
+      m.dominantFrequency,
+      options.distanceModel
+    ));
+    await yieldToMain();
+  }
+
+  const sources: AudioSource[] = measurements.map((m, index) => {
+    const startTime = eventStartTime(m.event);
+    const endTime = eventEndTime(m.event);
+    const distanceEstimate = distances[index];
+    const distance = distanceEstimate
+      ? Math.sqrt(distanceEstimate.min * distanceEstimate.max)
+      : relativeDistance(m.rmsDb);
+    const direction = directions[index];
+    // Without a bearing the golden angle only keeps markers apart
+    const angle = index * 2.399963;
+
+    return {
+      id: `${buffer.id}-event-${index}`,
+      name: `${baseName} ${formatTimestamp(startTime)}–${formatTimestamp(endTime)}`,
+      type: typeAt(startTime, endTime),
+      decibel: m.rmsDb + offset,
+      peakDecibel: m.peakDb + offset,
+      frequency: m.dominantFrequency,
+      position: direction
+        ? positionAt(direction.bearing, distance)
+        : { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance, z: 0 },
+      distance,
+      distanceEstimate: distanceEstimate ?? undefined,
+      visible: true,
+      color: sourceColor(index),
+      fileId: buffer.id,
+      startTime,
+      endTime,
+      calibrationId,
+      direction: direction ?? undefined
+    };
+  });
+
+  if (background) {
+    const distance = relativeDistance(background.rmsDb);
+    sources.push({
+      id: `${buffer.id}-background`,
+      name: `${baseName} background`,
+      type: 'ambient',
+      decibel: background.rmsDb + offset,
+      peakDecibel: background.peakDb + offset,
+      frequency: background.dominantFrequency,
+      position: { x: 0, y: -distance, z: 0 },
+      distance,
+      visible: true,
+      color: sourceColor(sources.length),
+      fileId: buffer.id,
+      startTime: 0,
+      endTime: buffer.duration,
+      calibrationId
+    });
+  }
+
+  return sources;
+};
@@ -0,0 +1,164 @@
+import { Transport } from './transport';
+import { StoredBuffer } from './bufferStore';
+import {
+  AnalyserTap,
+  DEFAULT_METER_OPTIONS,
+  LevelMeter,
+  MeterOptions,
+  MeterReading,
+  startMeterLoop
+} from './metering';
+import { DEFAULT_FILTER_CHAIN, FilterChain, LiveFilterChain } from './filterChain';
+
+// The single audio graph of the app. It owns the one AudioContext, the
+// transport every player goes through, and the taps the level meter reads:
+// the transport's output while something plays, or a live input while one
+// is attached. Anything that makes or measures sound goes through here, so
+// nothing plays twice and the meter never reads a stale node. The operator's
+// filter chain sits in front of the speakers and of both taps; recordings
+// are captured before it.
+
+type Listener = () => void;
+type MeterListener = (reading: MeterReading) => void;
+
+export type MeterSource = 'playback' | 'input';
+
+class AudioEngine {
+  private audioContext: AudioContext | null = null;
+  private player: Transport | null = null;
+  private filterChain: FilterChain = DEFAULT_FILTER_CHAIN;
+  private playbackFilters: LiveFilterChain | null = null;
+  private inputFilters: LiveFilterChain | null = null;
+  private outputTap: AnalyserTap | null = null;
+  private inputTap: AnalyserTap | null = null;
+  private meteredTap: AnalyserTap | null = null;
+  private meter: LevelMeter | null = null;
+  private stopMeter: (() => void) | null = null;
+  private meterOptions: MeterOptions = DEFAULT_METER_OPTIONS;
+  private listeners = new Set<Listener>();
+  private meterListeners = new Set<MeterListener>();
+
+  /** Created on first use, so nothing is allocated before it is needed. */
+  get context() {
+    if (!this.audioContext) {
+      const prefixed = (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      this.audioContext = new (window.AudioContext || prefixed)();
+    }
+    return this.audioContext;
+  }
+
+  get transport() {
+    if (!this.player) {
+      const filters = new LiveFilterChain(this.context, this.filterChain);
+      filters.output.connect(this.context.destination);
+      const player = new Transport(this.context, filters.input);
+      this.outputTap = new AnalyserTap(this.context, filters.output, 2);
+      this.playbackFilters = filters;
+      player.subscribe(() => {
+        this.updateMeter();
+        this.notify();
+      });
+      this.player = player;
+    }
+    return this.player;
+  }
+
+  get loadedId() {
+    return this.player?.loadedId ?? null;
+  }
+
+  get playing() {
+    return this.player?.playing ?? false;
+  }
+
+  /** What the meter is reading; a live input takes precedence over playback. */
+  get meterSource(): MeterSource | null {
+    if (this.inputTap) return 'input';
+    return this.playing ? 'playback' : null;
+  }
+
+  /** Load `buffer` unless it is already loaded, and play it from `from`. */
+  play(buffer: StoredBuffer, from = 0) {
+    this.transport.load(buffer);
+    return this.transport.play({ from });
+  }
+
+  pause() {
+    this.player?.pause();
+  }
+
+  /**
+   * Meter a live input until the returned detach is called. Playback is
+   * paused first so it does not leak into the microphone.
+   */
+  attachInput(source: AudioNode, channelCount: number) {
+    this.pause();
+    this.inputTap?.disconnect();
+    this.inputFilters?.disconnect();
+    const filters = new LiveFilterChain(this.context, this.filterChain);
+    source.connect(filters.input);
+    const tap = new AnalyserTap(this.context, filters.output, channelCount);
+    this.inputTap = tap;
+    this.inputFilters = filters;
+    this.updateMeter();
+    this.notify();
+    return () => {
+      if (this.inputTap !== tap) return;
+      tap.disconnect();
+      source.disconnect(filters.input);
+      filters.disconnect();
+      this.inputTap = null;
+      this.inputFilters = null;
+      this.updateMeter();
+      this.notify();
+    };
+  }
+
+  /** Applies at once to playback and to an attached input. */
+  setFilterChain(chain: FilterChain) {
+    this.filterChain = chain;
+    this.playbackFilters?.set(chain);
+    this.inputFilters?.set(chain);
+  }
+
+  setMeterOptions(options: MeterOptions) {
+    this.meterOptions = options;
+    this.meter?.setOptions(options);
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribeMeter(listener: MeterListener) {
+    this.meterListeners.add(listener);
+    return () => {
+      this.meterListeners.delete(listener);
+    };
+  }
+
+  // Start a fresh meter whenever the tap it should read changes
+  private updateMeter() {
+    const tap = this.inputTap ?? (this.playing ? this.outputTap : null);
+    if (tap === this.meteredTap) return;
+    this.stopMeter?.();
+    this.stopMeter = null;
+    this.meter = null;
+    this.meteredTap = tap;
+    if (!tap) return;
+    const meter = new LevelMeter(this.context.sampleRate, tap.channelCount, this.meterOptions);
+    this.meter = meter;
+    this.stopMeter = startMeterLoop(tap, meter, reading => {
+      this.meterListeners.forEach(listener => listener(reading));
+    });
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const audioEngine = new AudioEngine();
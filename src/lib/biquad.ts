@@ -0,0 +1,113 @@
+// Second-order IIR sections in direct form I, evaluated in double precision.
+// Coefficients are normalised so that a0 = 1.
+
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export interface BiquadState {
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+}
+
+export const createBiquadState = (): BiquadState => ({ x1: 0, x2: 0, y1: 0, y2: 0 });
+
+export const processBiquadSample = (c: BiquadCoefficients, s: BiquadState, x: number) => {
+  const y = c.b0 * x + c.b1 * s.x1 + c.b2 * s.x2 - c.a1 * s.y1 - c.a2 * s.y2;
+  s.x2 = s.x1;
+  s.x1 = x;
+  s.y2 = s.y1;
+  s.y1 = y;
+  return y;
+};
+
+/** Run a cascade of sections over a block; returns a new array. */
+export const processCascade = (
+  sections: BiquadCoefficients[],
+  states: BiquadState[],
+  input: Float32Array
+) => {
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    let y = input[i];
+    for (let s = 0; s < sections.length; s++) {
+      y = processBiquadSample(sections[s], states[s], y);
+    }
+    output[i] = y;
+  }
+  return output;
+};
+
+/**
+ * Bilinear transform of the analogue section
+ * (n2 s^2 + n1 s + n0) / (s^2 + d1 s + d0).
+ */
+export const bilinearSection = (
+  sampleRate: number,
+  [n2, n1, n0]: [number, number, number],
+  [d1, d0]: [number, number]
+): BiquadCoefficients => {
+  const k = 2 * sampleRate;
+  const k2 = k * k;
+  const a0 = k2 + d1 * k + d0;
+  return {
+    b0: (n2 * k2 + n1 * k + n0) / a0,
+    b1: (2 * (n0 - n2 * k2)) / a0,
+    b2: (n2 * k2 - n1 * k + n0) / a0,
+    a1: (2 * (d0 - k2)) / a0,
+    a2: (k2 - d1 * k + d0) / a0
+  };
+};
+
+/** Magnitude response of a cascade at `frequency` Hz. */
+export const cascadeGain = (sections: BiquadCoefficients[], sampleRate: number, frequency: number) => {
+  const w = (2 * Math.PI * frequency) / sampleRate;
+  const cos1 = Math.cos(w);
+  const sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w);
+  const sin2 = Math.sin(2 * w);
+  return sections.reduce((gain, c) => {
+    const numRe = c.b0 + c.b1 * cos1 + c.b2 * cos2;
+    const numIm = -(c.b1 * sin1 + c.b2 * sin2);
+    const denRe = 1 + c.a1 * cos1 + c.a2 * cos2;
+    const denIm = -(c.a1 * sin1 + c.a2 * sin2);
+    return gain * Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+  }, 1);
+};
+
+/** Analogue angular frequency that lands on `frequency` Hz after the bilinear transform. */
+export const prewarp = (sampleRate: number, frequency: number) =>
+  2 * sampleRate * Math.tan((Math.PI * frequency) / sampleRate);
+
+/** Fourth-order Butterworth lowpass or highpass as two sections. */
+export const butterworthSections = (
+  sampleRate: number,
+  type: 'lowpass' | 'highpass',
+  frequency: number
+): BiquadCoefficients[] => {
+  const w = prewarp(sampleRate, frequency);
+  return [0.7654, 1.8478].map(d =>
+    bilinearSection(sampleRate, type === 'highpass' ? [1, 0, 0] : [0, 0, w * w], [d * w, w * w])
+  );
+};
+
+/** Second-order notch at `frequency` Hz with bandwidth `frequency / q`. */
+export const notchSection = (sampleRate: number, frequency: number, q: number) => {
+  const w = prewarp(sampleRate, frequency);
+  return bilinearSection(sampleRate, [1, 0, w * w], [w / q, w * w]);
+};
+
+/**
+ * Run a cascade forwards and then backwards, so the result has no phase
+ * shift and events keep their timing; the magnitude response is squared.
+ */
+export const processZeroPhase = (sections: BiquadCoefficients[], input: Float32Array) => {
+  const forward = processCascade(sections, sections.map(createBiquadState), input).reverse();
+  return processCascade(sections, sections.map(createBiquadState), forward).reverse();
+};
@@ -0,0 +1,65 @@
+import { WavFile } from './wav/reader';
+
+// Decoded PCM for every file in the session, keyed by file id. Components
+// share this store so a file is only decoded once, no matter how many views
+// or analysis passes look at it.
+
+export interface StoredBuffer {
+  id: string;
+  name: string;
+  sampleRate: number;
+  // One Float32Array per channel, all of equal length
+  channels: Float32Array[];
+  length: number;
+  duration: number;
+  // Format and metadata chunks when the file was read as WAV
+  wav?: WavFile;
+}
+
+type Listener = () => void;
+
+const buffers = new Map<string, StoredBuffer>();
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const bufferStore = {
+  get: (id: string) => buffers.get(id),
+
+  has: (id: string) => buffers.has(id),
+
+  list: () => Array.from(buffers.values()),
+
+  put: (buffer: StoredBuffer) => {
+    buffers.set(buffer.id, buffer);
+    notify();
+  },
+
+  remove: (id: string) => {
+    if (buffers.delete(id)) notify();
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+/** Stable id for a file, derived from the properties the browser exposes. */
+export const fileId = (file: File) =>
+  `${file.name}-${file.size}-${file.lastModified}`.replace(/[^\w.-]/g, '_');
+
+/** Average all channels into a single mono signal. */
+export const mixToMono = (buffer: StoredBuffer) => {
+  if (buffer.channels.length === 1) return buffer.channels[0];
+  const mono = new Float32Array(buffer.length);
+  const gain = 1 / buffer.channels.length;
+  for (const channel of buffer.channels) {
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += channel[i] * gain;
+    }
+  }
+  return mono;
+};
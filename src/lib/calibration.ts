@@ -0,0 +1,242 @@
+import { AnalyserTap } from './metering';
+import { hannWindow, ifft, interpolatePeak, powerSpectrum, toDb } from './fft';
+
+// Sound pressure level calibration. A profile maps dBFS from one input
+// device to dB SPL with a fixed offset, optionally with a microphone
+// frequency-response correction applied as a linear-phase FIR.
+
+export interface ResponsePoint {
+  frequency: number;
+  gainDb: number;
+}
+
+export interface ResponseCorrection {
+  name: string;
+  // Measured microphone response; the correction applies the inverse
+  points: ResponsePoint[];
+}
+
+export interface CalibrationProfile {
+  deviceId: string;
+  deviceLabel: string;
+  // dB SPL = dBFS + offsetDb
+  offsetDb: number;
+  method: 'reference-tone' | 'manual';
+  referenceLevelDb?: number;
+  referenceFrequency?: number;
+  measuredDbfs?: number;
+  createdAt: string;
+  responseCorrection?: ResponseCorrection;
+}
+
+export const REFERENCE_LEVEL_DB = 94;
+export const REFERENCE_FREQUENCY = 1000;
+export const CORRECTION_TAPS = 1023;
+
+const STORAGE_KEY = 'audio-forensic.calibration-profiles';
+
+/** Identifies one calibration of one device; recalibrating changes it. */
+export const profileId = (profile: CalibrationProfile) => `${profile.deviceId}@${profile.createdAt}`;
+
+export const loadProfiles = (): CalibrationProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading calibration profiles:', error);
+    return [];
+  }
+};
+
+const storeProfiles = (profiles: CalibrationProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const getProfile = (deviceId: string) =>
+  loadProfiles().find(p => p.deviceId === deviceId) ?? null;
+
+/** Save a profile, replacing any existing profile for the same device. */
+export const saveProfile = (profile: CalibrationProfile) => {
+  storeProfiles([...loadProfiles().filter(p => p.deviceId !== profile.deviceId), profile]);
+};
+
+export const deleteProfile = (deviceId: string) => {
+  storeProfiles(loadProfiles().filter(p => p.deviceId !== deviceId));
+};
+
+export const describeProfile = (profile: CalibrationProfile) => {
+  const method = profile.method === 'reference-tone'
+    ? `${profile.referenceLevelDb} dB / ${profile.referenceFrequency} Hz reference tone`
+    : 'manual offset';
+  const correction = profile.responseCorrection
+    ? `, response correction "${profile.responseCorrection.name}"`
+    : '';
+  return `${profile.deviceLabel}: ${profile.offsetDb >= 0 ? '+' : ''}${profile.offsetDb.toFixed(2)} dB (${method}${correction}, ${new Date(profile.createdAt).toLocaleString()})`;
+};
+
+/**
+ * Parse a microphone response file: one "frequency gain" pair per line,
+ * separated by commas, tabs or spaces. Extra columns (phase) and lines that
+ * do not start with a number (headers, comments) are ignored.
+ */
+export const parseResponseFile = (text: string): ResponsePoint[] => {
+  const points = text
+    .split(/\r?\n/)
+    .map(line => line.trim().split(/[\s,;]+/).map(Number))
+    .filter(([frequency, gainDb]) => Number.isFinite(frequency) && Number.isFinite(gainDb) && frequency > 0)
+    .map(([frequency, gainDb]) => ({ frequency, gainDb }))
+    .sort((a, b) => a.frequency - b.frequency);
+
+  if (points.length < 2) {
+    throw new Error('Response file needs at least two "frequency, dB" rows');
+  }
+  return points;
+};
+
+/** Response at `frequency`, interpolated linearly on a log-frequency axis. */
+export const interpolateResponse = (points: ResponsePoint[], frequency: number) => {
+  if (frequency <= points[0].frequency) return points[0].gainDb;
+  const last = points[points.length - 1];
+  if (frequency >= last.frequency) return last.gainDb;
+
+  let i = 1;
+  while (points[i].frequency < frequency) i++;
+  const lo = points[i - 1];
+  const hi = points[i];
+  const t = Math.log(frequency / lo.frequency) / Math.log(hi.frequency / lo.frequency);
+  return lo.gainDb + t * (hi.gainDb - lo.gainDb);
+};
+
+/**
+ * Linear-phase FIR that applies the inverse of a measured response by
+ * frequency sampling. The correction is normalised to 0 dB at the reference
+ * frequency so it never disturbs the 1 kHz calibration, and limited to
+ * +/-20 dB so deep notches in the response are not boosted into noise.
+ */
+export const designCorrectionFir = (
+  points: ResponsePoint[],
+  sampleRate: number,
+  taps = CORRECTION_TAPS
+) => {
+  const size = 4 * (taps + 1);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const reference = interpolateResponse(points, REFERENCE_FREQUENCY);
+
+  for (let k = 0; k <= size / 2; k++) {
+    const frequency = (k * sampleRate) / size;
+    const correctionDb = Math.max(-20, Math.min(20, reference - interpolateResponse(points, frequency)));
+    const gain = Math.pow(10, correctionDb / 20);
+    re[k] = gain;
+    if (k > 0 && k < size / 2) re[size - k] = gain;
+  }
+  ifft(re, im);
+
+  const half = (taps - 1) / 2;
+  const window = hannWindow(taps + 2);
+  const fir = new Float64Array(taps);
+  for (let n = 0; n < taps; n++) {
+    const index = (n - half + size) % size;
+    fir[n] = re[index] * window[n + 1];
+  }
+  return fir;
+};
+
+/** Convolver node that applies a profile's response correction live. */
+export const createCorrectionNode = (context: BaseAudioContext, correction: ResponseCorrection) => {
+  const fir = designCorrectionFir(correction.points, context.sampleRate);
+  const impulse = context.createBuffer(1, fir.length, context.sampleRate);
+  impulse.copyToChannel(Float32Array.from(fir), 0);
+  const convolver = context.createConvolver();
+  convolver.normalize = false;
+  convolver.buffer = impulse;
+  return convolver;
+};
+
+/**
+ * RMS level of a captured reference tone in dBFS. Fails if the capture is
+ * not dominated by a tone near the expected frequency, which catches a
+ * calibrator that is switched off or not seated on the microphone.
+ */
+export const measureReferenceTone = (
+  samples: Float32Array,
+  sampleRate: number,
+  expectedFrequency = REFERENCE_FREQUENCY
+) => {
+  const frameSize = 8192;
+  const window = hannWindow(frameSize);
+  const average = new Float64Array(frameSize / 2 + 1);
+  let frames = 0;
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize / 2) {
+    const spectrum = powerSpectrum(samples, start, window, frameSize);
+    for (let k = 0; k < spectrum.length; k++) average[k] += spectrum[k];
+    frames++;
+  }
+  if (frames === 0) throw new Error('Reference capture is too short');
+
+  let peakBin = 1;
+  for (let k = 1; k < average.length; k++) {
+    if (average[k] > average[peakBin]) peakBin = k;
+  }
+  const frequency = (interpolatePeak(average, peakBin) * sampleRate) / frameSize;
+  if (Math.abs(frequency - expectedFrequency) > expectedFrequency * 0.05) {
+    throw new Error(`Expected a ${expectedFrequency} Hz tone but the strongest component is at ${frequency.toFixed(0)} Hz`);
+  }
+
+  // Hann main lobe spans +/-2 bins around the true frequency; +/-3 around the
+  // peak bin covers it when the tone falls between bins
+  let tonePower = 0;
+  let totalPower = 0;
+  average.forEach((p, k) => {
+    totalPower += p;
+    if (Math.abs(k - peakBin) <= 3) tonePower += p;
+  });
+  if (tonePower / totalPower < 0.9) {
+    throw new Error('Reference tone is not clean enough; check the calibrator and background noise');
+  }
+
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+  return { levelDbfs: toDb(sumSquares / samples.length), frequency };
+};
+
+/** Capture `seconds` of mono audio from a stream through an analyser tap. */
+export const captureFromStream = (context: AudioContext, stream: MediaStream, seconds: number) =>
+  new Promise<{ samples: Float32Array; sampleRate: number }>((resolve, reject) => {
+    context.resume();
+    const source = context.createMediaStreamSource(stream);
+    const tap = new AnalyserTap(context, source, 1);
+    const target = Math.round(seconds * context.sampleRate);
+    const samples = new Float32Array(target);
+    let filled = 0;
+
+    // Skip the first read: it returns a full analyser window of history
+    tap.read();
+    const timer = setInterval(() => {
+      try {
+        const [block] = tap.read();
+        const count = Math.min(block.length, target - filled);
+        samples.set(block.subarray(0, count), filled);
+        filled += count;
+        if (filled >= target) {
+          clearInterval(timer);
+          tap.disconnect();
+          resolve({ samples, sampleRate: context.sampleRate });
+        }
+      } catch (error) {
+        clearInterval(timer);
+        tap.disconnect();
+        reject(error);
+      }
+    }, 50);
+  });
+
+export type LevelUnit = 'dBFS' | 'dB SPL';
+
+export const levelUnit = (calibrated: boolean): LevelUnit => (calibrated ? 'dB SPL' : 'dBFS');
+
+/** Map a level onto 0..1 for drawing, whichever scale it is on. */
+export const normalizedLevel = (decibel: number, calibrated: boolean) => {
+  const [min, max] = calibrated ? [20, 120] : [-96, 0];
+  return Math.max(0, Math.min(1, (decibel - min) / (max - min)));
+};
@@ -0,0 +1,249 @@
+import { SoundType, SourceClassification } from '../types/audio';
+import { StoredBuffer, mixToMono } from './bufferStore';
+import { extractFeatures, featureVector, summarizeFeatures } from './features';
+import { ImpulseCategory, impulseCategoryFor, impulseDescriptor } from './impulses';
+
+// k-nearest-neighbour sound classification over feature vectors from
+// `featureVector`. The reference library of labelled examples is built by
+// the user and kept in localStorage; only the vectors are stored, never the
+// audio. Every dimension is standardised against the library before
+// distances are taken, so no single feature dominates.
+
+export type DistanceMetric = SourceClassification['metric'];
+
+export interface ClassifierOptions {
+  k: number;
+  metric: DistanceMetric;
+}
+
+export const DEFAULT_CLASSIFIER_OPTIONS: ClassifierOptions = {
+  k: 5,
+  metric: 'euclidean'
+};
+
+export const METRIC_LABELS: Record<DistanceMetric, string> = {
+  euclidean: 'Euclidean',
+  manhattan: 'Manhattan',
+  cosine: 'Cosine'
+};
+
+export const BUILT_IN_CLASSES: SoundType[] = ['noise', 'voice', 'music', 'ambient'];
+
+export interface ReferenceExample {
+  id: string;
+  // Clip the example was taken from
+  name: string;
+  label: string;
+  vector: number[];
+  // Descriptor of the clip's loudest impulse, for impulsive-event categories;
+  // absent for examples added before impulses were described
+  impulse?: number[] | null;
+  addedAt: string;
+}
+
+export interface CrossValidation {
+  accuracy: number;
+  examples: number;
+  perClass: Record<string, { correct: number; total: number }>;
+}
+
+const LIBRARY_KEY = 'audio-forensic.reference-library';
+const OPTIONS_KEY = 'audio-forensic.classifier-options';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const loadLibrary = (): ReferenceExample[] => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading reference library:', error);
+    return [];
+  }
+};
+
+const storeLibrary = (examples: ReferenceExample[]) => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(examples));
+  listeners.forEach(listener => listener());
+};
+
+export const referenceLibrary = {
+  list: loadLibrary,
+
+  put: (example: ReferenceExample) => {
+    storeLibrary([...loadLibrary().filter(e => e.id !== example.id), example]);
+  },
+
+  remove: (id: string) => {
+    storeLibrary(loadLibrary().filter(e => e.id !== id));
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+/** Options stored by versions before the settings store; the settings now keep them. */
+export const loadClassifierOptions = (): ClassifierOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_KEY);
+    return stored ? { ...DEFAULT_CLASSIFIER_OPTIONS, ...JSON.parse(stored) } : DEFAULT_CLASSIFIER_OPTIONS;
+  } catch (error) {
+    console.error('Error loading classifier options:', error);
+    return DEFAULT_CLASSIFIER_OPTIONS;
+  }
+};
+
+/** Reference example from a whole decoded clip. */
+export const createExample = async (buffer: StoredBuffer, label: string): Promise<ReferenceExample> => {
+  const samples = mixToMono(buffer);
+  const features = await extractFeatures(samples, buffer.sampleRate);
+  return {
+    id: `${label}:${buffer.id}`,
+    name: buffer.name,
+    label,
+    vector: featureVector(summarizeFeatures(features)),
+    impulse: impulseDescriptor(samples, buffer.sampleRate),
+    addedAt: new Date().toISOString()
+  };
+};
+
+/** Class labels in the library, built-in classes first. */
+export const libraryClasses = (examples: ReferenceExample[]) => {
+  const labels = new Set(examples.map(e => e.label));
+  return [
+    ...BUILT_IN_CLASSES.filter(label => labels.has(label)),
+    ...Array.from(labels).filter(label => !BUILT_IN_CLASSES.includes(label as SoundType)).sort()
+  ];
+};
+
+/** The built-in sound type for a label; custom classes map to 'unknown'. */
+export const soundTypeFor = (label: string): SoundType =>
+  BUILT_IN_CLASSES.includes(label as SoundType) ? (label as SoundType) : 'unknown';
+
+interface Scaler {
+  mean: number[];
+  std: number[];
+}
+
+const fitScaler = (vectors: number[][]): Scaler => {
+  const size = vectors[0]?.length ?? 0;
+  const mean = Array.from({ length: size }, (_, i) => vectors.reduce((sum, v) => sum + v[i], 0) / vectors.length);
+  const std = mean.map((m, i) => {
+    const variance = vectors.reduce((sum, v) => sum + (v[i] - m) ** 2, 0) / vectors.length;
+    // Constant dimensions carry no information; leave them unscaled
+    return Math.sqrt(variance) || 1;
+  });
+  return { mean, std };
+};
+
+const scale = (vector: number[], scaler: Scaler) => vector.map((value, i) => (value - scaler.mean[i]) / scaler.std[i]);
+
+const distance = (a: number[], b: number[], metric: DistanceMetric) => {
+  if (metric === 'cosine') {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? 1 - dot / Math.sqrt(normA * normB) : 1;
+  }
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += metric === 'manhattan' ? Math.abs(a[i] - b[i]) : (a[i] - b[i]) ** 2;
+  }
+  return metric === 'manhattan' ? sum : Math.sqrt(sum);
+};
+
+// Vote among the k nearest of already scaled examples; ties go to the class
+// with the nearest member
+const vote = (
+  query: number[],
+  examples: { label: string; scaled: number[] }[],
+  classes: string[],
+  options: ClassifierOptions
+): SourceClassification => {
+  const neighbours = examples
+    .map(example => ({ label: example.label, d: distance(query, example.scaled, options.metric) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, Math.max(1, Math.min(options.k, examples.length)));
+
+  const probabilities = Object.fromEntries(classes.map(label => [label, 0]));
+  neighbours.forEach(n => {
+    probabilities[n.label] += 1 / neighbours.length;
+  });
+  const best = Math.max(...Object.values(probabilities));
+  const label = neighbours.find(n => probabilities[n.label] === best)?.label ?? 'unknown';
+  return { label, probabilities, k: neighbours.length, metric: options.metric };
+};
+
+// Examples whose vectors do not match the query's length were made with
+// other feature settings and are left out
+const compatible = (examples: ReferenceExample[], size: number) => examples.filter(e => e.vector.length === size);
+
+/** Classify one feature vector, or return null when the library is empty. */
+export const classify = (
+  vector: number[],
+  library: ReferenceExample[],
+  options: ClassifierOptions = DEFAULT_CLASSIFIER_OPTIONS
+): SourceClassification | null => {
+  const examples = compatible(library, vector.length);
+  if (examples.length === 0) return null;
+  const scaler = fitScaler(examples.map(e => e.vector));
+  const scaled = examples.map(e => ({ label: e.label, scaled: scale(e.vector, scaler) }));
+  return vote(scale(vector, scaler), scaled, libraryClasses(examples), options);
+};
+
+/**
+ * Leave-one-out cross-validation: every example is classified against all
+ * the others, exactly as `classify` would. Needs at least two examples and
+ * two classes to mean anything.
+ */
+export const crossValidate = (
+  library: ReferenceExample[],
+  options: ClassifierOptions = DEFAULT_CLASSIFIER_OPTIONS
+): CrossValidation | null => {
+  const examples = compatible(library, library[0]?.vector.length ?? 0);
+  const classes = libraryClasses(examples);
+  if (examples.length < 2 || classes.length < 2) return null;
+
+  const perClass = Object.fromEntries(classes.map(label => [label, { correct: 0, total: 0 }]));
+  let correct = 0;
+
+  examples.forEach((example, i) => {
+    // The scaler is fitted on the training examples of each fold alone, so
+    // the held-out example does not shape its own scaling
+    const label = classify(example.vector, examples.filter((_, j) => j !== i), options)?.label;
+    perClass[example.label].total++;
+    if (label === example.label) {
+      perClass[example.label].correct++;
+      correct++;
+    }
+  });
+
+  return { accuracy: correct / examples.length, examples: examples.length, perClass };
+};
+
+/** Library examples that describe an impulse, labelled with its category. */
+export const impulseExamples = (library: ReferenceExample[]): ReferenceExample[] =>
+  library.flatMap(e => (e.impulse ? [{ ...e, label: impulseCategoryFor(e.label), vector: e.impulse }] : []));
+
+/**
+ * Categorise an impulse descriptor against the library's impulse examples.
+ * Labels other than gunshot, slam and glass all vote for 'other'.
+ */
+export const classifyImpulse = (
+  descriptor: number[],
+  library: ReferenceExample[],
+  options: ClassifierOptions = DEFAULT_CLASSIFIER_OPTIONS
+): { category: ImpulseCategory; classification: SourceClassification | null } => {
+  const classification = classify(descriptor, impulseExamples(library), options);
+  return { category: classification ? impulseCategoryFor(classification.label) : 'other', classification };
+};
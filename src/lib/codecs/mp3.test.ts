@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseMp3 } from './mp3';
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo; 417 bytes unpadded
+const frame = (bitrateIndex = 9) => {
+  const bytes = new Uint8Array(Math.floor((144 * [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160][bitrateIndex] * 1000) / 44100));
+  bytes.set([0xff, 0xfb, (bitrateIndex << 4) | 0x00, 0x44]);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => new Blob(parts);
+
+const random = (length: number, seed: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    bytes[i] = seed & 0xff;
+  }
+  return bytes;
+};
+
+describe('parseMp3', () => {
+  it('reads a CBR stream', async () => {
+    const info = await parseMp3(concat(Array.from({ length: 20 }, () => frame())));
+    expect(info).toMatchObject({
+      version: '1',
+      layer: 3,
+      sampleRate: 44100,
+      channelMode: 'joint stereo',
+      bitrate: 128,
+      vbr: false,
+      framesScanned: 20,
+      samplesPerFrame: 1152
+    });
+  });
+
+  it('sees varying bitrates as VBR', async () => {
+    const info = await parseMp3(concat([frame(9), frame(10), frame(5), frame(9)]));
+    expect(info?.vbr).toBe(true);
+    expect(info?.bitrates).toEqual([64, 128, 160]);
+  });
+
+  it('skips junk before the first frame', async () => {
+    const info = await parseMp3(concat([new Uint8Array([0xff, 0xfb, 0x00, 0x12, 0x34]), ...Array.from({ length: 5 }, () => frame())]));
+    expect(info?.framesScanned).toBe(5);
+  });
+
+  it('accepts a single frame that ends the file', async () => {
+    expect((await parseMp3(concat([frame()])))?.framesScanned).toBe(1);
+  });
+
+  it('rejects a lone header whose frame runs past the end', async () => {
+    // MPEG-2.5 Layer I header with a frame longer than what follows it
+    expect(await parseMp3(concat([new Uint8Array(1000), new Uint8Array([0xff, 0xe6, 0x10, 0x00]), new Uint8Array(100)]))).toBeNull();
+  });
+
+  it('finds no MPEG audio in random data', async () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      expect(await parseMp3(new Blob([random(300_000, seed)]))).toBeNull();
+    }
+  });
+});
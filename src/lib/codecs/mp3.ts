@@ -0,0 +1,219 @@
+// MPEG audio (MP3) stream headers: ID3v2 text frames, frame headers and the
+// Xing/Info, LAME and VBRI tags an encoder writes into the first frame.
+// Only the start of the file is read; the bitrates seen there are enough to
+// tell CBR from VBR.
+
+export type MpegVersion = '1' | '2' | '2.5';
+
+export interface LameTag {
+  // Encoder version string, e.g. "LAME3.100"
+  encoder: string;
+  // Lowpass the encoder applied, in Hz; null when not recorded
+  lowpassHz: number | null;
+  vbrMethod: string;
+}
+
+export interface Mp3Info {
+  version: MpegVersion;
+  layer: 1 | 2 | 3;
+  sampleRate: number;
+  channelMode: 'stereo' | 'joint stereo' | 'dual channel' | 'mono';
+  // Mean bitrate of the audio frames and every distinct bitrate seen, in kbps
+  bitrate: number;
+  bitrates: number[];
+  vbr: boolean;
+  framesScanned: number;
+  // Samples per frame: 1152 for MPEG-1 Layer III
+  samplesPerFrame: number;
+  // 'Xing' (VBR), 'Info' (CBR) or 'VBRI' header in the first frame
+  vbrHeader: 'Xing' | 'Info' | 'VBRI' | null;
+  lame: LameTag | null;
+  // ID3v2 text frames that name software: TSSE, TENC
+  id3: Record<string, string>;
+}
+
+// Bytes read from the start of the file, after any ID3v2 tag
+const SCAN_BYTES = 1 << 20;
+const MAX_FRAMES = 2000;
+// Consecutive valid frames needed before a sync word is trusted
+const SYNC_FRAMES = 3;
+
+const BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const SAMPLE_RATES: Record<MpegVersion, number[]> = {
+  '1': [44100, 48000, 32000],
+  '2': [22050, 24000, 16000],
+  '2.5': [11025, 12000, 8000]
+};
+const CHANNEL_MODES: Mp3Info['channelMode'][] = ['stereo', 'joint stereo', 'dual channel', 'mono'];
+const VBR_METHODS = [
+  'unknown', 'CBR', 'ABR', 'VBR (old/rh)', 'VBR (mtrh)', 'VBR (rh)', 'VBR (mt)', 'unknown', 'CBR (2-pass)', 'ABR (2-pass)'
+];
+const ID3_SOFTWARE_FRAMES = ['TSSE', 'TENC', 'TSS', 'TEN'];
+
+interface FrameHeader {
+  version: MpegVersion;
+  layer: 1 | 2 | 3;
+  bitrate: number;
+  sampleRate: number;
+  channelMode: Mp3Info['channelMode'];
+  length: number;
+  samplesPerFrame: number;
+}
+
+const readBytes = async (blob: Blob, offset: number, length: number) =>
+  new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/** Decode the 4-byte header at `offset`, or null when it is not one. */
+const frameHeader = (bytes: Uint8Array, offset: number): FrameHeader | null => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 3;
+  const layerBits = (bytes[offset + 1] >> 1) & 3;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const rateIndex = (bytes[offset + 2] >> 2) & 3;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const version: MpegVersion = versionBits === 3 ? '1' : versionBits === 2 ? '2' : '2.5';
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = BITRATES[`${version === '1' ? 1 : 2}-${layer}`][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[version][rateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 1;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== '1' ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4
+    : Math.floor((samplesPerFrame / 8) * bitrate * 1000 / sampleRate) + padding;
+
+  return { version, layer, bitrate, sampleRate, channelMode: CHANNEL_MODES[bytes[offset + 3] >> 6], length, samplesPerFrame };
+};
+
+const decodeId3Text = (body: Uint8Array) => {
+  const encoding = body[0];
+  const text = body.subarray(1);
+  const label = encoding === 1 ? 'utf-16' : encoding === 2 ? 'utf-16be' : encoding === 3 ? 'utf-8' : 'latin1';
+  return new TextDecoder(label).decode(text).replace(/\0+$/, '').replace(/\0/g, ' / ');
+};
+
+/** Software-related text frames of an ID3v2 tag (v2.2 to v2.4). */
+const parseId3Software = (tag: Uint8Array) => {
+  const major = tag[3];
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  const frames: Record<string, string> = {};
+  let offset = 10;
+
+  while (offset + headerLength <= tag.length && tag[offset] !== 0) {
+    const id = ascii(tag, offset, idLength);
+    const size = major === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : major === 4
+        ? syncsafe(tag, offset + 4)
+        : new DataView(tag.buffer, tag.byteOffset).getUint32(offset + 4);
+    const body = tag.subarray(offset + headerLength, offset + headerLength + size);
+    if (ID3_SOFTWARE_FRAMES.includes(id) && body.length > 1) frames[id] = decodeId3Text(body);
+    if (size <= 0) break;
+    offset += headerLength + size;
+  }
+  return frames;
+};
+
+/** Xing/Info and LAME tags, or a VBRI header, inside the first frame. */
+const parseVbrHeaders = (frame: Uint8Array, header: FrameHeader) => {
+  const mono = header.channelMode === 'mono';
+  const sideInfo = header.version === '1' ? (mono ? 17 : 32) : mono ? 9 : 17;
+  const xingOffset = 4 + sideInfo;
+  const tag = ascii(frame, xingOffset, 4);
+
+  if (tag === 'Xing' || tag === 'Info') {
+    const flags = new DataView(frame.buffer, frame.byteOffset).getUint32(xingOffset + 4);
+    // Frames, bytes, TOC and quality fields are each optional
+    const lameOffset = xingOffset + 8 + (flags & 1 ? 4 : 0) + (flags & 2 ? 4 : 0) + (flags & 4 ? 100 : 0) + (flags & 8 ? 4 : 0);
+    const encoder = ascii(frame, lameOffset, 9).replace(/[^\x20-\x7e]/g, '').trim();
+    const lame: LameTag | null = /^(LAME|Lavf|Lavc|GOGO)/.test(encoder)
+      ? {
+          encoder,
+          lowpassHz: frame[lameOffset + 10] ? frame[lameOffset + 10] * 100 : null,
+          vbrMethod: VBR_METHODS[frame[lameOffset + 9] & 0x0f] ?? 'unknown'
+        }
+      : null;
+    return { vbrHeader: tag as 'Xing' | 'Info', lame };
+  }
+  if (ascii(frame, 36, 4) === 'VBRI') return { vbrHeader: 'VBRI' as const, lame: null };
+  return { vbrHeader: null, lame: null };
+};
+
+/**
+ * Offset of the first sync word followed by further valid frames, or -1. A
+ * stream too short for that must end exactly at the end of the file; a
+ * header whose frame runs past the end of what was read proves nothing.
+ */
+const findSync = (bytes: Uint8Array, wholeFile: boolean) => {
+  for (let offset = 0; offset < bytes.length - 4; offset++) {
+    let next = offset;
+    let run = 0;
+    for (; run < SYNC_FRAMES; run++) {
+      const header = frameHeader(bytes, next);
+      if (!header) break;
+      next += header.length;
+    }
+    if (run === SYNC_FRAMES || (run > 0 && wholeFile && next === bytes.length)) return offset;
+  }
+  return -1;
+};
+
+/** Read MP3 stream headers, or null when the file holds no MPEG audio frames. */
+export const parseMp3 = async (blob: Blob): Promise<Mp3Info | null> => {
+  let start = 0;
+  let id3: Record<string, string> = {};
+  const head = await readBytes(blob, 0, 10);
+  if (ascii(head, 0, 3) === 'ID3') {
+    // Tag size excludes the header and any footer
+    const size = syncsafe(head, 6) + 10 + (head[5] & 0x10 ? 10 : 0);
+    id3 = parseId3Software(await readBytes(blob, 0, size));
+    start = size;
+  }
+
+  const bytes = await readBytes(blob, start, SCAN_BYTES);
+  const offset = findSync(bytes, start + bytes.length === blob.size);
+  if (offset < 0) return null;
+  const first = frameHeader(bytes, offset);
+  if (!first) return null;
+
+  const { vbrHeader, lame } = parseVbrHeaders(bytes.subarray(offset, offset + first.length), first);
+  const bitrates: number[] = [];
+  let framesScanned = 0;
+  for (let next = offset; framesScanned < MAX_FRAMES; framesScanned++) {
+    const header = frameHeader(bytes, next);
+    if (!header) break;
+    // A Xing/Info/VBRI frame carries no audio and its bitrate is arbitrary
+    if (framesScanned > 0 || !vbrHeader) bitrates.push(header.bitrate);
+    next += header.length;
+  }
+
+  const seen = Array.from(new Set(bitrates)).sort((a, b) => a - b);
+  return {
+    version: first.version,
+    layer: first.layer,
+    sampleRate: first.sampleRate,
+    channelMode: first.channelMode,
+    bitrate: bitrates.length > 0 ? Math.round(bitrates.reduce((sum, b) => sum + b, 0) / bitrates.length) : first.bitrate,
+    bitrates: seen,
+    vbr: seen.length > 1 || vbrHeader === 'Xing' || vbrHeader === 'VBRI',
+    framesScanned,
+    samplesPerFrame: first.samplesPerFrame,
+    vbrHeader,
+    lame,
+    id3
+  };
+};
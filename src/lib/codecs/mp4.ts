@@ -0,0 +1,242 @@
+// ISO base media (MP4/M4A/MOV) audio headers: the sample description
+// (`stsd`) of each audio track with its decoder configuration, and the tool
+// strings iTunes-style metadata (`ilst`) keeps about the encoder. Boxes are
+// read through Blob slices; only `moov` is loaded whole.
+
+export interface Mp4AudioTrack {
+  // Sample entry type: mp4a, alac, Opus, fLaC, ac-3, ...
+  codec: string;
+  // Readable codec name, e.g. "AAC-LC"
+  description: string;
+  channelCount: number;
+  sampleRate: number;
+  sampleSize: number;
+  // From the esds decoder config, in kbps; null when not stated
+  averageBitrate: number | null;
+  maxBitrate: number | null;
+  // MPEG-4 audio object type from the AudioSpecificConfig (2 = AAC-LC)
+  audioObjectType: number | null;
+}
+
+export interface Mp4Info {
+  majorBrand: string;
+  compatibleBrands: string[];
+  tracks: Mp4AudioTrack[];
+  // Encoder strings from ilst items (©too, ©enc, ©swr), by readable name
+  tags: Record<string, string>;
+}
+
+interface Box {
+  type: string;
+  // Offset of the body and its size in bytes
+  offset: number;
+  size: number;
+}
+
+// Boxes whose bodies are lists of boxes; `meta` also has a version/flags word
+const CONTAINERS = ['moov', 'trak', 'mdia', 'minf', 'stbl', 'udta', 'meta', 'ilst', 'edts'];
+const OBJECT_TYPES: Record<number, string> = {
+  1: 'AAC Main',
+  2: 'AAC-LC',
+  3: 'AAC SSR',
+  4: 'AAC LTP',
+  5: 'HE-AAC (SBR)',
+  29: 'HE-AAC v2 (PS)',
+  23: 'AAC-LD',
+  39: 'AAC-ELD',
+  34: 'MPEG Layer 3'
+};
+const CODEC_NAMES: Record<string, string> = {
+  alac: 'Apple Lossless',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  'ac-3': 'Dolby AC-3',
+  'ec-3': 'Dolby E-AC-3',
+  samr: 'AMR-NB',
+  sawb: 'AMR-WB',
+  '.mp3': 'MPEG Layer 3',
+  lpcm: 'Linear PCM',
+  sowt: 'Linear PCM',
+  twos: 'Linear PCM'
+};
+const TAG_NAMES: Record<string, string> = {
+  '©too': 'Encoding tool',
+  '©enc': 'Encoded by',
+  '©swr': 'Software'
+};
+
+const readBytes = async (blob: Blob, offset: number, length: number) =>
+  new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+
+// Box types are Mac Roman; © is 0xa9 there as in Latin-1
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+
+/** The boxes inside `bytes[from, to)`. */
+const childBoxes = (bytes: Uint8Array, from: number, to: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  let offset = from;
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= to) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type: fourCC(bytes, offset + 4), offset: offset + header, size: Math.min(size, to - offset) - header });
+    offset += size;
+  }
+  return boxes;
+};
+
+/** Every box below `box`, depth first. */
+const descendants = (bytes: Uint8Array, box: Box): Box[] => {
+  if (!CONTAINERS.includes(box.type)) return [];
+  const skip = box.type === 'meta' ? 4 : 0;
+  return childBoxes(bytes, box.offset + skip, box.offset + box.size)
+    .flatMap(child => [child, ...descendants(bytes, child)]);
+};
+
+/** Length of an MPEG-4 descriptor: up to four bytes of 7 bits each. */
+const descriptorLength = (bytes: Uint8Array, offset: number) => {
+  let length = 0;
+  let read = 0;
+  while (read < 4) {
+    const byte = bytes[offset + read++];
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { length, read };
+};
+
+/** Bitrates and audio object type from an esds box body. */
+const parseEsds = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const result = { averageBitrate: null as number | null, maxBitrate: null as number | null, audioObjectType: null as number | null };
+  // Skip the version/flags word, then walk descriptors
+  let offset = 4;
+  while (offset + 2 < bytes.length) {
+    const tag = bytes[offset];
+    const { length, read } = descriptorLength(bytes, offset + 1);
+    const body = offset + 1 + read;
+    if (tag === 0x03) {
+      // ES_Descriptor: ES_ID, then flags selecting optional fields
+      const flags = bytes[body + 2];
+      offset = body + 3 + (flags & 0x80 ? 2 : 0) + (flags & 0x40 ? 1 + bytes[body + 3] : 0) + (flags & 0x20 ? 2 : 0);
+    } else if (tag === 0x04 && body + 13 <= bytes.length) {
+      result.maxBitrate = view.getUint32(body + 5) / 1000 || null;
+      result.averageBitrate = view.getUint32(body + 9) / 1000 || null;
+      offset = body + 13;
+    } else if (tag === 0x05 && length > 0) {
+      let objectType = bytes[body] >> 3;
+      if (objectType === 31) objectType = 32 + (((bytes[body] & 7) << 3) | (bytes[body + 1] >> 5));
+      result.audioObjectType = objectType;
+      break;
+    } else {
+      offset = body + length;
+    }
+  }
+  return result;
+};
+
+/** An audio sample entry of an stsd box. */
+const parseSampleEntry = (bytes: Uint8Array, entry: Box): Mp4AudioTrack | null => {
+  if (entry.size < 28) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const base = entry.offset;
+  // QuickTime sound descriptions v1 and v2 add fields after the common part
+  const version = view.getUint16(base + 8);
+  const channelCount = view.getUint16(base + 16);
+  const sampleSize = view.getUint16(base + 18);
+  let sampleRate = view.getUint32(base + 24) / 65536;
+  if (version === 2 && entry.size >= 64) sampleRate = view.getFloat64(base + 32);
+  const extra = version === 1 ? 16 : version === 2 ? 36 : 0;
+
+  const children = childBoxes(bytes, base + 28 + extra, base + entry.size);
+  const esds = children.find(child => child.type === 'esds')
+    // Some QuickTime files nest the esds inside a wave box
+    ?? children.filter(child => child.type === 'wave').flatMap(wave => childBoxes(bytes, wave.offset, wave.offset + wave.size))
+      .find(child => child.type === 'esds');
+  const config = esds ? parseEsds(bytes.subarray(esds.offset, esds.offset + esds.size)) : null;
+  const codec = fourCC(bytes, base - 4);
+  const description = codec === 'mp4a'
+    ? OBJECT_TYPES[config?.audioObjectType ?? -1] ?? 'MPEG-4 Audio'
+    : CODEC_NAMES[codec] ?? codec;
+
+  return {
+    codec,
+    description,
+    channelCount,
+    sampleRate,
+    sampleSize,
+    averageBitrate: config?.averageBitrate ?? null,
+    maxBitrate: config?.maxBitrate ?? null,
+    audioObjectType: config?.audioObjectType ?? null
+  };
+};
+
+/** Text of a metadata item: the value of its `data` box. */
+const itemText = (bytes: Uint8Array, item: Box) => {
+  const data = childBoxes(bytes, item.offset, item.offset + item.size).find(child => child.type === 'data');
+  // Type and locale words precede the value
+  return data ? new TextDecoder().decode(bytes.subarray(data.offset + 8, data.offset + data.size)).replace(/\0+$/, '') : '';
+};
+
+/** Read MP4 audio headers, or null when the file is not an ISO media file. */
+export const parseMp4 = async (blob: Blob): Promise<Mp4Info | null> => {
+  const head = await readBytes(blob, 0, 16);
+  if (head.length < 16 || !['ftyp', 'moov', 'wide', 'mdat', 'free'].includes(fourCC(head, 4))) return null;
+
+  let majorBrand = '';
+  let compatibleBrands: string[] = [];
+  let moov: Uint8Array | null = null;
+  let offset = 0;
+  while (offset + 8 <= blob.size && !moov) {
+    const header = await readBytes(blob, offset, 16);
+    const view = new DataView(header.buffer);
+    const type = fourCC(header, 4);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint64(view, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = blob.size - offset;
+    }
+    if (size < headerSize) break;
+
+    if (type === 'ftyp') {
+      const body = await readBytes(blob, offset + headerSize, size - headerSize);
+      majorBrand = fourCC(body, 0).trim();
+      for (let i = 8; i + 4 <= body.length; i += 4) compatibleBrands.push(fourCC(body, i).trim());
+    } else if (type === 'moov') {
+      moov = await readBytes(blob, offset, size);
+    }
+    offset += size;
+  }
+  if (!moov) return null;
+  const movie = moov;
+
+  const boxes = descendants(movie, { type: 'moov', offset: 8, size: movie.length - 8 });
+  const tracks = boxes
+    .filter(box => box.type === 'stsd')
+    // Full box header and entry count precede the entries
+    .flatMap(stsd => childBoxes(movie, stsd.offset + 8, stsd.offset + stsd.size))
+    .map(entry => parseSampleEntry(movie, entry))
+    .filter((track): track is Mp4AudioTrack => track !== null && track.channelCount > 0 && track.sampleRate > 0);
+
+  const tags: Record<string, string> = {};
+  boxes.filter(box => TAG_NAMES[box.type]).forEach(box => {
+    const text = itemText(movie, box);
+    if (text) tags[TAG_NAMES[box.type]] = text;
+  });
+  compatibleBrands = compatibleBrands.filter(Boolean);
+
+  return { majorBrand, compatibleBrands, tracks, tags };
+};
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  lastVerification,
+  loadCustodyLog,
+  registerEvidence,
+  releaseEvidence,
+  verifyCustodyChain,
+  verifyEvidence
+} from './custody';
+
+// The log lives in localStorage, which Node does not have
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const STORAGE_KEY = 'audio-forensic.custody-log';
+
+const lastEntry = () => loadCustodyLog().pop();
+
+let nextId = 0;
+const register = (content: string, name = 'exhibit.wav') =>
+  registerEvidence(new Blob([content]), { id: `file-${++nextId}`, name, lastModified: 0 }, 'imported', 'Examiner');
+
+describe('custody log', () => {
+  beforeEach(() => storage.clear());
+
+  it('chains entries from the genesis hash', async () => {
+    const first = await register('first');
+    const second = await register('second');
+    expect(first.sequence).toBe(1);
+    expect(first.previousHash).toBe('0'.repeat(64));
+    expect(second.previousHash).toBe(first.entryHash);
+    expect(await verifyCustodyChain()).toBeNull();
+  });
+
+  it('serialises concurrent appends into one chain', async () => {
+    await Promise.all(['a', 'b', 'c', 'd'].map(content => register(content)));
+    expect(loadCustodyLog().map(e => e.sequence)).toEqual([1, 2, 3, 4]);
+    expect(await verifyCustodyChain()).toBeNull();
+  });
+
+  it('reports the first entry that was edited', async () => {
+    await register('first');
+    await register('second');
+    await register('third');
+    const log = loadCustodyLog();
+    log[1] = { ...log[1], operator: 'Someone else' };
+    expect(await verifyCustodyChain(log)).toBe(2);
+  });
+
+  it('reports a deleted entry at its successor', async () => {
+    await register('first');
+    await register('second');
+    await register('third');
+    const log = loadCustodyLog();
+    expect(await verifyCustodyChain([log[0], log[2]])).toBe(3);
+  });
+
+  it('verifies a file against its registration and logs the outcome', async () => {
+    const registration = await register('evidence');
+    expect(lastVerification(registration.evidenceId)).toBeNull();
+
+    const result = await verifyEvidence(registration.evidenceId, 'Examiner');
+    expect(result.ok).toBe(true);
+    expect(result.registration).toBe(registration.sequence);
+    expect(result.conflicting).toEqual([]);
+    expect(lastEntry()?.action).toBe('verified');
+    expect(lastVerification(registration.evidenceId)).toEqual(result);
+    expect(await verifyCustodyChain()).toBeNull();
+  });
+
+  it('flags other registrations of the same id with different digests', async () => {
+    const earlier = await registerEvidence(new Blob(['old case']), { id: 'shared', name: 'a.wav', lastModified: 0 }, 'imported', 'Examiner');
+    const current = await registerEvidence(new Blob(['new case']), { id: 'shared', name: 'a.wav', lastModified: 0 }, 'imported', 'Examiner');
+    const result = await verifyEvidence('shared', 'Examiner');
+    expect(result.ok).toBe(true);
+    expect(result.registration).toBe(current.sequence);
+    expect(result.conflicting).toEqual([earlier.sequence]);
+  });
+
+  it('refuses to verify when the registration has left the log', async () => {
+    const registration = await register('evidence');
+    storage.set(STORAGE_KEY, '[]');
+    await expect(verifyEvidence(registration.evidenceId, 'Examiner')).rejects.toThrow(/no longer in the log/);
+  });
+
+  it('logs a release and forgets the file', async () => {
+    const registration = await register('evidence');
+    await releaseEvidence(registration.evidenceId, 'Examiner');
+    expect(lastEntry()).toMatchObject({ action: 'removed', sha256: registration.sha256 });
+    await expect(verifyEvidence(registration.evidenceId, 'Examiner')).rejects.toThrow(/in this session/);
+  });
+});
@@ -0,0 +1,263 @@
+import { FileDigests, hashBlob, sha256Text } from './hash';
+
+// Append-only chain-of-custody log. Every entry carries the hash of the
+// entry before it, so editing or deleting a stored entry breaks the chain
+// from that point on. The log lives in localStorage and survives reloads;
+// the evidence blobs themselves are only held for the current session.
+
+export type CustodyAction = 'imported' | 'recorded' | 'verified' | 'mismatch' | 'removed';
+
+export interface CustodyEntry {
+  sequence: number;
+  action: CustodyAction;
+  evidenceId: string;
+  fileName: string;
+  size: number;
+  // ISO time the file was last modified on disk, null for recordings
+  lastModified: string | null;
+  sha256: string;
+  md5: string;
+  operator: string;
+  timestamp: string;
+  previousHash: string;
+  entryHash: string;
+}
+
+export interface EvidenceInfo {
+  id: string;
+  name: string;
+  lastModified: number | null;
+}
+
+export interface VerificationResult {
+  evidenceId: string;
+  fileName: string;
+  ok: boolean;
+  expected: FileDigests;
+  actual: FileDigests;
+  // Sequence of the session's import or recording entry the file was checked against
+  registration: number;
+  // Other import or recording entries under the same id whose digests differ,
+  // e.g. a like-named file from an earlier case; a reader should check which is meant
+  conflicting: number[];
+  // When the result was logged
+  timestamp: string;
+}
+
+const STORAGE_KEY = 'audio-forensic.custody-log';
+const OPERATOR_KEY = 'audio-forensic.operator';
+const GENESIS_HASH = '0'.repeat(64);
+
+type Listener = () => void;
+
+// Files held this session with the entry that registered them; verification
+// is always against that entry, never a like-named record from another session
+const evidence = new Map<string, { blob: Blob; info: EvidenceInfo; registration: CustodyEntry }>();
+const listeners = new Set<Listener>();
+// Appends are serialised so concurrent imports still form a single chain
+let pending: Promise<unknown> = Promise.resolve();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const loadCustodyLog = (): CustodyEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading custody log:', error);
+    return [];
+  }
+};
+
+export const loadOperator = () => localStorage.getItem(OPERATOR_KEY) ?? '';
+
+export const saveOperator = (operator: string) => localStorage.setItem(OPERATOR_KEY, operator);
+
+// Fixed field order, so the same entry always hashes the same way
+const entryPayload = (entry: Omit<CustodyEntry, 'entryHash'>) =>
+  JSON.stringify([
+    entry.sequence,
+    entry.action,
+    entry.evidenceId,
+    entry.fileName,
+    entry.size,
+    entry.lastModified,
+    entry.sha256,
+    entry.md5,
+    entry.operator,
+    entry.timestamp,
+    entry.previousHash
+  ]);
+
+const appendEntry = (
+  fields: Pick<CustodyEntry, 'action' | 'fileName' | 'size' | 'lastModified' | 'sha256' | 'md5' | 'operator' | 'evidenceId'>
+) => {
+  const next = pending.then(async () => {
+    const log = loadCustodyLog();
+    const last = log[log.length - 1];
+    const entry = {
+      sequence: (last?.sequence ?? 0) + 1,
+      ...fields,
+      timestamp: new Date().toISOString(),
+      previousHash: last?.entryHash ?? GENESIS_HASH
+    };
+    const stored: CustodyEntry = { ...entry, entryHash: await sha256Text(entryPayload(entry)) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...log, stored]));
+    notify();
+    return stored;
+  });
+  pending = next.catch(() => undefined);
+  return next;
+};
+
+/**
+ * Check the hash chain. Returns the sequence number of the first entry that
+ * does not match its stored hash or predecessor, or null when intact.
+ */
+export const verifyCustodyChain = async (log: CustodyEntry[] = loadCustodyLog()) => {
+  let previousHash = GENESIS_HASH;
+  for (const { entryHash, ...entry } of log) {
+    if (entry.previousHash !== previousHash || entryHash !== await sha256Text(entryPayload(entry))) {
+      return entry.sequence;
+    }
+    previousHash = entryHash;
+  }
+  return null;
+};
+
+/** Hash a new file or recording and log its arrival. */
+export const registerEvidence = async (
+  blob: Blob,
+  info: EvidenceInfo,
+  action: 'imported' | 'recorded',
+  operator: string
+) => {
+  const digests = await hashBlob(blob);
+  const registration = await appendEntry({
+    action,
+    evidenceId: info.id,
+    fileName: info.name,
+    size: blob.size,
+    lastModified: info.lastModified === null ? null : new Date(info.lastModified).toISOString(),
+    operator,
+    ...digests
+  });
+  evidence.set(info.id, { blob, info, registration });
+  return registration;
+};
+
+const isRegistration = (entry: CustodyEntry) => entry.action === 'imported' || entry.action === 'recorded';
+
+/**
+ * The session's registration of a file, checked to still stand unchanged in
+ * the log, and the sequences of other registrations under the same id that
+ * disagree with it.
+ */
+const originalEntry = (evidenceId: string, log: CustodyEntry[] = loadCustodyLog()) => {
+  const registration = evidence.get(evidenceId)?.registration;
+  if (!registration) throw new Error(`No custody record for ${evidenceId} in this session`);
+  if (!log.some(e => e.sequence === registration.sequence && e.entryHash === registration.entryHash)) {
+    throw new Error(`Custody entry #${registration.sequence} for ${registration.fileName} is no longer in the log`);
+  }
+  const conflicting = log
+    .filter(e => isRegistration(e) && e.evidenceId === evidenceId && e.sequence !== registration.sequence)
+    .filter(e => e.sha256 !== registration.sha256 || e.md5 !== registration.md5)
+    .map(e => e.sequence);
+  return { original: registration, conflicting };
+};
+
+/**
+ * Re-hash a session file and compare with the digests logged when it was
+ * imported or recorded this session. The outcome is itself logged.
+ */
+export const verifyEvidence = async (evidenceId: string, operator: string): Promise<VerificationResult> => {
+  const item = evidence.get(evidenceId);
+  if (!item) throw new Error(`No custody record for ${evidenceId} in this session`);
+  const { original, conflicting } = originalEntry(evidenceId);
+
+  const actual = await hashBlob(item.blob);
+  const ok = actual.sha256 === original.sha256 && actual.md5 === original.md5;
+  const logged = await appendEntry({
+    action: ok ? 'verified' : 'mismatch',
+    evidenceId,
+    fileName: item.info.name,
+    size: item.blob.size,
+    lastModified: original.lastModified,
+    operator,
+    ...actual
+  });
+
+  return {
+    evidenceId,
+    fileName: item.info.name,
+    ok,
+    expected: { sha256: original.sha256, md5: original.md5 },
+    actual,
+    registration: original.sequence,
+    conflicting,
+    timestamp: logged.timestamp
+  };
+};
+
+/**
+ * The latest verification of a session file as logged, without re-hashing
+ * it or adding to the log; null when it has not been verified since it was
+ * registered.
+ */
+export const lastVerification = (evidenceId: string, log: CustodyEntry[] = loadCustodyLog()): VerificationResult | null => {
+  const item = evidence.get(evidenceId);
+  if (!item) return null;
+  const { original, conflicting } = originalEntry(evidenceId, log);
+  const entry = log
+    .filter(e => e.evidenceId === evidenceId && e.sequence > original.sequence && (e.action === 'verified' || e.action === 'mismatch'))
+    .pop();
+  if (!entry) return null;
+  return {
+    evidenceId,
+    fileName: item.info.name,
+    ok: entry.action === 'verified',
+    expected: { sha256: original.sha256, md5: original.md5 },
+    actual: { sha256: entry.sha256, md5: entry.md5 },
+    registration: original.sequence,
+    conflicting,
+    timestamp: entry.timestamp
+  };
+};
+
+/** Log that a file left the session. The log itself keeps its history. */
+export const releaseEvidence = async (evidenceId: string, operator: string) => {
+  const item = evidence.get(evidenceId);
+  evidence.delete(evidenceId);
+  if (!item) return;
+  const original = item.registration;
+  await appendEntry({
+    action: 'removed',
+    evidenceId,
+    fileName: item.info.name,
+    size: item.blob.size,
+    lastModified: original.lastModified,
+    operator,
+    sha256: original.sha256,
+    md5: original.md5
+  });
+};
+
+export const custodyLog = {
+  // Ids of evidence held in this session, in import order
+  evidenceIds: () => Array.from(evidence.keys()),
+
+  // The original file as imported or recorded, while it is held
+  file: (evidenceId: string) => evidence.get(evidenceId)?.blob ?? null,
+
+  entriesFor: (evidenceIds: string[]) => {
+    const ids = new Set(evidenceIds);
+    return loadCustodyLog().filter(e => ids.has(e.evidenceId));
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,78 @@
+import { StoredBuffer, bufferStore, fileId } from './bufferStore';
+import { WavFormatError, parseWav, readWavSamples } from './wav/reader';
+
+// Compressed files are decoded at one fixed rate so the analysis never
+// depends on the sample rate of whatever output device the browser happens
+// to use. WAV files are read directly at their native rate.
+export const ANALYSIS_SAMPLE_RATE = 48000;
+
+const isWavHeader = async (file: File) => {
+  const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  const tag = (offset: number) => String.fromCharCode(...header.subarray(offset, offset + 4));
+  return ['RIFF', 'RF64', 'BW64'].includes(tag(0)) && tag(8) === 'WAVE';
+};
+
+/**
+ * Read a PCM or float WAV file without the browser decoder, keeping its
+ * sample rate, bit depth and metadata chunks. Returns null for WAV codecs
+ * the parser does not handle (ADPCM, A-law, ...).
+ */
+const readWavFile = async (file: File, id: string): Promise<StoredBuffer | null> => {
+  try {
+    const wav = await parseWav(file);
+    const channels = await readWavSamples(file, wav);
+    return {
+      id,
+      name: file.name,
+      sampleRate: wav.format.sampleRate,
+      channels,
+      length: wav.frameCount,
+      duration: wav.duration,
+      wav
+    };
+  } catch (error) {
+    if (error instanceof WavFormatError) {
+      console.warn(`Falling back to the browser decoder for ${file.name}:`, error.message);
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Decode a compressed or PCM audio file to Float32 channels and put the
+ * result in the shared buffer store, unless `store` is false. Returns the
+ * cached buffer when the file has already been decoded.
+ */
+export const decodeAudioFile = async (file: File, store = true): Promise<StoredBuffer> => {
+  const id = fileId(file);
+  const cached = bufferStore.get(id);
+  if (cached) return cached;
+
+  const wavBuffer = (await isWavHeader(file)) ? await readWavFile(file, id) : null;
+  if (wavBuffer) {
+    if (store) bufferStore.put(wavBuffer);
+    return wavBuffer;
+  }
+
+  const data = await file.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(data);
+
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) =>
+    // Copy so the store does not keep the AudioBuffer alive
+    audioBuffer.getChannelData(c).slice()
+  );
+
+  const buffer: StoredBuffer = {
+    id,
+    name: file.name,
+    sampleRate: audioBuffer.sampleRate,
+    channels,
+    length: audioBuffer.length,
+    duration: audioBuffer.duration
+  };
+
+  if (store) bufferStore.put(buffer);
+  return buffer;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Diarization, diarize, speakerTurns, splitSpeaker } from './diarization';
+
+const RATE = 16000;
+
+// A voiced "speaker": harmonics of `pitch` shaped by one formant, with a
+// little vibrato and noise so no two chunks are identical
+const voice = (seconds: number, pitch: number, formant: number, seed: number) => {
+  const samples = new Float32Array(Math.round(seconds * RATE));
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    const f0 = pitch * (1 + 0.02 * Math.sin((2 * Math.PI * 5 * i) / RATE));
+    phase += (2 * Math.PI * f0) / RATE;
+    let sum = 0;
+    for (let h = 1; h * pitch < RATE / 2; h++) {
+      sum += Math.sin(h * phase) / (1 + ((h * pitch - formant) / 300) ** 2);
+    }
+    samples[i] = 0.05 * sum + 0.001 * (seed / 2147483647 - 0.5);
+  }
+  return samples;
+};
+
+describe('diarize', () => {
+  it('tells two alternating voices apart', async () => {
+    const turns = [0, 1, 0, 1, 0, 1];
+    const low = voice(3, 110, 500, 1);
+    const high = voice(3, 230, 2500, 2);
+    const samples = new Float32Array(turns.length * 3 * RATE);
+    turns.forEach((speaker, i) => samples.set(speaker ? high : low, i * 3 * RATE));
+    const segments = turns.map((_, i) => ({ start: i * 3, end: i * 3 + 3 }));
+
+    const result = await diarize(samples, RATE, segments, { id: 'b', name: 'two.wav' });
+    expect(result.speakers).toHaveLength(2);
+    expect(result.estimated).toBe(true);
+    const turnSpeakers = speakerTurns(result).map(turn => turn.speakerId);
+    expect(turnSpeakers).toEqual(['S1', 'S2', 'S1', 'S2', 'S1', 'S2']);
+    const pitches = result.chunks.filter(c => c.speakerId === 'S1').map(c => c.pitch);
+    pitches.forEach(pitch => expect(pitch).toBeCloseTo(110, -1));
+  });
+
+  it('keeps a single voice as one speaker', async () => {
+    const samples = voice(12, 140, 1000, 3);
+    const result = await diarize(samples, RATE, [{ start: 0, end: 12 }], { id: 'b', name: 'one.wav' });
+    expect(result.speakers).toHaveLength(1);
+  });
+});
+
+describe('splitSpeaker', () => {
+  it('clusters a long recording without stalling', () => {
+    let seed = 42;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const chunks = Array.from({ length: 1200 }, (_, i) => ({
+      start: i * 1.5,
+      end: i * 1.5 + 1.5,
+      embedding: Array.from({ length: 24 }, (_, k) => random() * 10 + (i % 2 && k === 0 ? 100 : 0)),
+      speakerId: 'S1',
+      levelDb: -20,
+      peakDb: -6,
+      pitch: 120
+    }));
+    const diarization: Diarization = {
+      bufferId: 'b',
+      bufferName: 'long.wav',
+      duration: 1800,
+      speakers: [{ id: 'S1', name: 'Speaker 1', color: '#000' }],
+      chunks,
+      estimated: false,
+      createdAt: ''
+    };
+
+    const started = Date.now();
+    const split = splitSpeaker(diarization, 'S1');
+    expect(Date.now() - started).toBeLessThan(1500);
+    // The two interleaved groups end up apart
+    expect(split.chunks.every((c, i) => c.speakerId === split.chunks[i % 2].speakerId)).toBe(true);
+    expect(split.chunks[0].speakerId).not.toBe(split.chunks[1].speakerId);
+  });
+});
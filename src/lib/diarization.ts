@@ -0,0 +1,397 @@
+import { AudioSource } from '../types/audio';
+import { fft, hannWindow, ifft, nextPowerOfTwo, toDb } from './fft';
+import { extractFeatures, summarizeFeatures } from './features';
+import { SpeechSegment } from './vad';
+import { median, yieldToMain } from './util';
+
+// Speaker diarization: who spoke when. Speech segments are cut into chunks
+// of about `chunkSeconds`, each described by an embedding of MFCC means and
+// spreads (without c0, which is mostly loudness), and grouped by
+// average-linkage agglomerative clustering on Euclidean distance. With no
+// fixed speaker count the count with the best silhouette is taken, or a
+// single speaker when no split is convincing.
+
+export interface DiarizationOptions {
+  // Fixed number of speakers, or null to estimate it
+  speakerCount: number | null;
+  maxSpeakers: number;
+  chunkSeconds: number;
+}
+
+export const DEFAULT_DIARIZATION_OPTIONS: DiarizationOptions = {
+  speakerCount: null,
+  maxSpeakers: 6,
+  chunkSeconds: 1.5
+};
+
+export interface SpeechChunk {
+  start: number;
+  end: number;
+  embedding: number[];
+  speakerId: string;
+  // Mean frame level in dBFS and sample peak in dBFS
+  levelDb: number;
+  peakDb: number;
+  // Median fundamental over voiced frames, 0 when none were voiced
+  pitch: number;
+}
+
+export interface Speaker {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface SpeakerTurn {
+  speakerId: string;
+  start: number;
+  end: number;
+}
+
+export interface Diarization {
+  bufferId: string;
+  bufferName: string;
+  duration: number;
+  speakers: Speaker[];
+  chunks: SpeechChunk[];
+  // Whether the speaker count was estimated rather than fixed by the user
+  estimated: boolean;
+  createdAt: string;
+}
+
+// A split into speakers is only trusted with at least this mean silhouette
+// and with the closest two speakers at least this far apart on average
+// (MFCC units, roughly dB of spectral shape)
+const MIN_SILHOUETTE = 0.2;
+const MIN_SPEAKER_DISTANCE = 25;
+// Chunks this close together by the same speaker form one turn
+const TURN_GAP_SECONDS = 0.5;
+const PITCH_FRAME_SECONDS = 0.04;
+const MIN_PITCH = 60;
+const MAX_PITCH = 400;
+// Normalised autocorrelation a frame needs to count as voiced
+const VOICING_THRESHOLD = 0.4;
+const SPEAKER_COLORS = ['#7c3aed', '#059669', '#d97706', '#dc2626', '#2563eb', '#db2777', '#0891b2', '#65a30d'];
+
+/** Autocorrelation of a zero-padded frame, in place in `re`. */
+const autocorrelate = (re: Float64Array, im: Float64Array) => {
+  fft(re, im);
+  for (let k = 0; k < re.length; k++) {
+    re[k] = re[k] * re[k] + im[k] * im[k];
+    im[k] = 0;
+  }
+  ifft(re, im);
+};
+
+/** Median fundamental of the voiced frames in a span, by autocorrelation. */
+const estimatePitch = (samples: Float32Array, sampleRate: number, start: number, end: number) => {
+  const frameSize = Math.round(PITCH_FRAME_SECONDS * sampleRate);
+  const fftSize = nextPowerOfTwo(frameSize * 2);
+  const window = hannWindow(frameSize);
+  const minLag = Math.floor(sampleRate / MAX_PITCH);
+  const maxLag = Math.min(frameSize - 1, Math.ceil(sampleRate / MIN_PITCH));
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const pitches: number[] = [];
+
+  // The window's own autocorrelation, to undo its taper over the lags
+  const windowRe = new Float64Array(fftSize);
+  const windowIm = new Float64Array(fftSize);
+  windowRe.set(window);
+  autocorrelate(windowRe, windowIm);
+
+  for (let offset = Math.round(start * sampleRate); offset + frameSize <= end * sampleRate; offset += frameSize) {
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < frameSize; i++) re[i] = samples[offset + i] * window[i];
+    autocorrelate(re, im);
+    if (re[0] <= 0) continue;
+    const normalised = (lag: number) => re[lag] / re[0] / (windowRe[lag] / windowRe[0]);
+    let best = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (normalised(lag) > normalised(best)) best = lag;
+    }
+    if (normalised(best) >= VOICING_THRESHOLD) pitches.push(sampleRate / best);
+  }
+  return median(pitches);
+};
+
+const peakDb = (samples: Float32Array, sampleRate: number, start: number, end: number) => {
+  let peak = 0;
+  for (let i = Math.floor(start * sampleRate); i < Math.min(samples.length, end * sampleRate); i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return toDb(peak * peak);
+};
+
+/** Cut speech segments into chunks no longer than about `chunkSeconds`. */
+const chunkSegments = (segments: SpeechSegment[], chunkSeconds: number) =>
+  segments.flatMap(segment => {
+    const count = Math.max(1, Math.round((segment.end - segment.start) / chunkSeconds));
+    const length = (segment.end - segment.start) / count;
+    return Array.from({ length: count }, (_, i) => ({
+      start: segment.start + i * length,
+      end: segment.start + (i + 1) * length
+    }));
+  });
+
+const euclidean = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+const distanceMatrix = (embeddings: number[][]) =>
+  embeddings.map(a => embeddings.map(b => euclidean(a, b)));
+
+/**
+ * Average-linkage agglomerative clustering by nearest-neighbour chains,
+ * O(n²) rather than the O(n³) of searching every pair for each merge.
+ * Returns the cluster labels for every cluster count from `maxClusters`
+ * down to 1, indexed by count, and the distance between the two clusters
+ * merged to go from each count to the next lower one.
+ */
+const agglomerate = (distances: number[][], maxClusters: number) => {
+  const n = distances.length;
+  const d = distances.map(row => Float64Array.from(row));
+  const sizes = new Array(n).fill(1);
+  const alive = new Array(n).fill(true);
+  const merges: { a: number; b: number; height: number }[] = [];
+  const chain: number[] = [];
+
+  while (merges.length < n - 1) {
+    if (chain.length === 0) chain.push(alive.indexOf(true));
+    const a = chain[chain.length - 1];
+    const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+    // Nearest live cluster to the end of the chain; the previous link wins ties
+    let b = previous;
+    let nearest = previous >= 0 ? d[a][previous] : Infinity;
+    for (let c = 0; c < n; c++) {
+      if (alive[c] && c !== a && d[a][c] < nearest) {
+        b = c;
+        nearest = d[a][c];
+      }
+    }
+    if (b !== previous) {
+      chain.push(b);
+      continue;
+    }
+
+    // Reciprocal nearest neighbours: merge them, keeping the lower index
+    chain.length -= 2;
+    const keep = Math.min(a, b);
+    const drop = Math.max(a, b);
+    merges.push({ a: keep, b: drop, height: nearest });
+    // Lance–Williams update for average linkage
+    for (let c = 0; c < n; c++) {
+      if (!alive[c] || c === keep || c === drop) continue;
+      const merged = (sizes[keep] * d[keep][c] + sizes[drop] * d[drop][c]) / (sizes[keep] + sizes[drop]);
+      d[keep][c] = merged;
+      d[c][keep] = merged;
+    }
+    sizes[keep] += sizes[drop];
+    alive[drop] = false;
+  }
+
+  // Average linkage never merges below an earlier merge, so the merges in
+  // order of height replay the same tree as merging the closest pair each time
+  merges.sort((x, y) => x.height - y.height);
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const partitions: number[][] = [];
+  const heights: number[] = [];
+  for (let clusters = n; clusters >= 1; clusters--) {
+    if (clusters <= maxClusters) {
+      // Renumber to 0..clusters-1 in order of first appearance
+      const order = new Map<number, number>();
+      partitions[clusters] = parent.map((_, i) => {
+        const root = find(i);
+        if (!order.has(root)) order.set(root, order.size);
+        return order.get(root) as number;
+      });
+    }
+    if (clusters === 1) break;
+    const { a, b, height } = merges[n - clusters];
+    heights[clusters] = height;
+    parent[find(b)] = find(a);
+  }
+  return { partitions, heights };
+};
+
+/** Mean silhouette of a partition; -1 for fewer than two clusters. */
+const silhouette = (distances: number[][], labels: number[]) => {
+  const clusters = new Set(labels).size;
+  if (clusters < 2) return -1;
+  let total = 0;
+  labels.forEach((label, i) => {
+    const meanTo = new Array(clusters).fill(0);
+    const counts = new Array(clusters).fill(0);
+    labels.forEach((other, j) => {
+      if (i === j) return;
+      meanTo[other] += distances[i][j];
+      counts[other]++;
+    });
+    if (counts[label] === 0) return; // singletons score 0
+    const a = meanTo[label] / counts[label];
+    const b = Math.min(...meanTo.map((sum, c) => (c === label || counts[c] === 0 ? Infinity : sum / counts[c])));
+    total += (b - a) / Math.max(a, b);
+  });
+  return total / labels.length;
+};
+
+/** Partition of the embeddings: fixed count, or estimated. */
+const clusterEmbeddings = (embeddings: number[][], speakerCount: number | null, maxSpeakers: number) => {
+  const distances = distanceMatrix(embeddings);
+  const limit = Math.max(1, Math.min(embeddings.length, speakerCount ?? maxSpeakers));
+  const { partitions, heights } = agglomerate(distances, limit);
+  if (speakerCount !== null) return partitions[limit];
+
+  let best = 1;
+  let bestScore = MIN_SILHOUETTE;
+  for (let k = 2; k <= limit; k++) {
+    const score = silhouette(distances, partitions[k]);
+    if (score > bestScore && heights[k] >= MIN_SPEAKER_DISTANCE) {
+      best = k;
+      bestScore = score;
+    }
+  }
+  return partitions[best];
+};
+
+const speakerColor = (index: number) => SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+
+/**
+ * Diarize the speech segments of a mono signal. Reports progress from 0 to
+ * 1 while features are extracted, which is most of the work.
+ */
+export const diarize = async (
+  samples: Float32Array,
+  sampleRate: number,
+  segments: SpeechSegment[],
+  buffer: { id: string; name: string },
+  options: DiarizationOptions = DEFAULT_DIARIZATION_OPTIONS,
+  onProgress?: (fraction: number) => void
+): Promise<Diarization> => {
+  const features = await extractFeatures(samples, sampleRate, undefined, fraction => onProgress?.(fraction * 0.9));
+  const spans = chunkSegments(segments, options.chunkSeconds);
+
+  const measured: Omit<SpeechChunk, 'embedding' | 'speakerId'>[] = [];
+  const vectors: number[][] = [];
+  for (const span of spans) {
+    const summary = summarizeFeatures(features, span.start, span.end);
+    vectors.push([...summary.mfcc.slice(1).map(s => s.mean), ...summary.mfcc.slice(1).map(s => s.std)]);
+    measured.push({
+      ...span,
+      levelDb: summary.rmsDb.mean,
+      peakDb: peakDb(samples, sampleRate, span.start, span.end),
+      pitch: estimatePitch(samples, sampleRate, span.start, span.end)
+    });
+    if (measured.length % 50 === 0) await yieldToMain();
+  }
+
+  const labels = vectors.length > 0 ? clusterEmbeddings(vectors, options.speakerCount, options.maxSpeakers) : [];
+  const count = new Set(labels).size;
+  onProgress?.(1);
+
+  return {
+    bufferId: buffer.id,
+    bufferName: buffer.name,
+    duration: samples.length / sampleRate,
+    speakers: Array.from({ length: count }, (_, i) => ({ id: `S${i + 1}`, name: `Speaker ${i + 1}`, color: speakerColor(i) })),
+    chunks: measured.map((m, i) => ({ ...m, embedding: vectors[i], speakerId: `S${labels[i] + 1}` })),
+    estimated: options.speakerCount === null,
+    createdAt: new Date().toISOString()
+  };
+};
+
+/** Consecutive chunks of the same speaker joined into turns, in time order. */
+export const speakerTurns = (diarization: Diarization): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  for (const chunk of diarization.chunks) {
+    const last = turns[turns.length - 1];
+    if (last && last.speakerId === chunk.speakerId && chunk.start - last.end <= TURN_GAP_SECONDS) {
+      last.end = chunk.end;
+    } else {
+      turns.push({ speakerId: chunk.speakerId, start: chunk.start, end: chunk.end });
+    }
+  }
+  return turns;
+};
+
+export const talkSeconds = (diarization: Diarization, speakerId: string) =>
+  diarization.chunks
+    .filter(chunk => chunk.speakerId === speakerId)
+    .reduce((sum, chunk) => sum + chunk.end - chunk.start, 0);
+
+export const renameSpeaker = (diarization: Diarization, speakerId: string, name: string): Diarization => ({
+  ...diarization,
+  speakers: diarization.speakers.map(s => (s.id === speakerId ? { ...s, name } : s))
+});
+
+/** Move every chunk of `fromId` to `intoId` and drop `fromId`. */
+export const mergeSpeakers = (diarization: Diarization, intoId: string, fromId: string): Diarization => ({
+  ...diarization,
+  speakers: diarization.speakers.filter(s => s.id !== fromId),
+  chunks: diarization.chunks.map(c => (c.speakerId === fromId ? { ...c, speakerId: intoId } : c))
+});
+
+/**
+ * Re-cluster one speaker's chunks into two; the second group becomes a new
+ * speaker. Unchanged when the speaker has fewer than two chunks.
+ */
+export const splitSpeaker = (diarization: Diarization, speakerId: string): Diarization => {
+  const own = diarization.chunks.filter(c => c.speakerId === speakerId);
+  if (own.length < 2) return diarization;
+  const labels = clusterEmbeddings(own.map(c => c.embedding), 2, 2);
+  const next = Math.max(0, ...diarization.speakers.map(s => Number(s.id.slice(1)))) + 1;
+  const newId = `S${next}`;
+  const moved = new Set(own.filter((_, i) => labels[i] === 1));
+
+  return {
+    ...diarization,
+    speakers: [
+      ...diarization.speakers,
+      { id: newId, name: `Speaker ${next}`, color: speakerColor(next - 1) }
+    ],
+    chunks: diarization.chunks.map(c => (moved.has(c) ? { ...c, speakerId: newId } : c))
+  };
+};
+
+export const isSpeakerSource = (source: AudioSource) => source.id.startsWith(`${source.fileId}-speaker-`);
+
+/**
+ * One voice source per speaker, spanning their first to last turn. Levels
+ * are dBFS; distances are relative to the loudest speaker, as for events.
+ */
+export const speakerSources = (diarization: Diarization): AudioSource[] => {
+  const measured = diarization.speakers
+    .map(speaker => ({ speaker, chunks: diarization.chunks.filter(c => c.speakerId === speaker.id) }))
+    .filter(({ chunks }) => chunks.length > 0)
+    .map(({ speaker, chunks }) => {
+      const seconds = chunks.reduce((sum, c) => sum + c.end - c.start, 0);
+      const power = chunks.reduce((sum, c) => sum + Math.pow(10, c.levelDb / 10) * (c.end - c.start), 0) / seconds;
+      return { speaker, chunks, seconds, levelDb: toDb(power) };
+    });
+  const loudest = Math.max(...measured.map(m => m.levelDb));
+
+  return measured.map(({ speaker, chunks, seconds, levelDb }, index) => {
+    const distance = Math.min(50, Math.pow(10, (loudest - levelDb) / 20));
+    const angle = index * 2.399963 + Math.PI / 4;
+    return {
+      id: `${diarization.bufferId}-speaker-${speaker.id}`,
+      name: `${speaker.name} (${diarization.bufferName.replace(/\.[^.]+$/, '')})`,
+      type: 'voice',
+      decibel: levelDb,
+      peakDecibel: Math.max(...chunks.map(c => c.peakDb)),
+      frequency: median(chunks.map(c => c.pitch).filter(pitch => pitch > 0)),
+      position: { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance, z: 0 },
+      distance,
+      visible: true,
+      color: speaker.color,
+      fileId: diarization.bufferId,
+      startTime: chunks[0].start,
+      endTime: chunks[chunks.length - 1].end,
+      talkSeconds: seconds
+    };
+  });
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { AudioSource } from '../types/audio';
+import { DEFAULT_DISTANCE_MODEL, airAbsorption, confidenceLabel, estimateDistance, formatDistance } from './distance';
+import { ifft } from './fft';
+
+const random = (seed: number) => () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+
+// Noise with flat power `bandDb` in each [from, to) Hz band and nothing elsewhere
+const bandNoise = (length: number, sampleRate: number, bands: [number, number, number][]) => {
+  const noise = random(41);
+  const re = new Float64Array(length);
+  const im = new Float64Array(length);
+  for (const [from, to, bandDb] of bands) {
+    const amplitude = 10 ** (bandDb / 20);
+    for (let k = Math.ceil((from / sampleRate) * length); k < (to / sampleRate) * length; k++) {
+      const phase = 2 * Math.PI * noise();
+      re[k] = amplitude * Math.cos(phase);
+      im[k] = amplitude * Math.sin(phase);
+      re[length - k] = re[k];
+      im[length - k] = -im[k];
+    }
+  }
+  ifft(re, im);
+  return Float32Array.from(re);
+};
+
+describe('airAbsorption', () => {
+  it('matches the ISO 9613-2 table at 10 °C and 70 % humidity', () => {
+    // dB/km at the octave-band midfrequencies
+    const table: [number, number][] = [[250, 1.0], [500, 1.9], [1000, 3.7], [2000, 9.7], [4000, 32.8], [8000, 117]];
+    for (const [frequency, dbPerKm] of table) {
+      expect(airAbsorption(frequency, 10, 70) * 1000).toBeCloseTo(dbPerKm, dbPerKm < 10 ? 0 : -1);
+    }
+  });
+});
+
+describe('estimateDistance', () => {
+  // Below 16 kHz sampling the spectral balance cue cannot apply
+  const silent = new Float32Array(8000);
+
+  it('ranges a calibrated level through spherical spreading', () => {
+    // A voice 12 dB below its 60 dB SPL at 1 m: about 4 m, ± 7 dB of spread
+    const estimate = estimateDistance(silent, 8000, 0, 8000, 'voice', 48, 0, 300, DEFAULT_DISTANCE_MODEL);
+    expect(estimate?.cues.map(c => c.method)).toEqual(['level']);
+    expect(estimate?.min).toBeCloseTo(10 ** (5 / 20), 1);
+    expect(estimate?.max).toBeCloseTo(10 ** (19 / 20), 1);
+    expect(estimate?.consistent).toBe(true);
+  });
+
+  it('gives no estimate without calibration, room or spectrum', () => {
+    expect(estimateDistance(silent, 8000, 0, 8000, 'voice', null, 0, 300, DEFAULT_DISTANCE_MODEL)).toBeNull();
+  });
+
+  it('places an onset with as much reverberation as direct sound near the critical distance', () => {
+    const rate = 8000;
+    const samples = new Float32Array(rate);
+    const noise = random(43);
+    const peak = 1000;
+    samples[peak] = 1;
+    // Reverberant tail starting after the direct sound, with the direct sound's energy
+    const tail = Array.from({ length: 800 }, (_, i) => noise() * Math.exp(-i / 200));
+    const scale = 1 / Math.sqrt(tail.reduce((sum, v) => sum + v * v, 0));
+    tail.forEach((v, i) => { samples[peak + 20 + i] = v * scale; });
+
+    const model = { ...DEFAULT_DISTANCE_MODEL, criticalDistance: 1.2 };
+    const estimate = estimateDistance(samples, rate, 900, 2000, 'noise', null, 0, 1000, model);
+    const [cue] = estimate?.cues ?? [];
+    expect(cue.method).toBe('drr');
+    expect(cue.detail).toMatch(/^0\.0 dB at the onset/);
+    expect(cue.min).toBeLessThan(1.2);
+    expect(cue.max).toBeGreaterThan(1.2);
+
+    // A steady sound has no onset to measure
+    const steady = Float32Array.from({ length: rate }, random(47));
+    expect(estimateDistance(steady, rate, 900, 2000, 'noise', null, 0, 1000, model)).toBeNull();
+  });
+
+  it('reads distance from the high band lost to the air', () => {
+    const rate = 48000;
+    // A voice whose high band sits 10 dB below its usual -22 dB balance
+    const samples = bandNoise(1 << 15, rate, [[500, 1000, 0], [4000, 8000, -32]]);
+    const estimate = estimateDistance(samples, rate, 0, samples.length, 'voice', null, 0, 700, DEFAULT_DISTANCE_MODEL);
+    const [cue] = estimate?.cues ?? [];
+    expect(cue.method).toBe('hf-rolloff');
+    const absorption = (f: number) => airAbsorption(f, 20, 50);
+    const differential = absorption(Math.sqrt(4000 * 8000)) - absorption(Math.sqrt(500 * 1000));
+    // 10 dB short of the balance, ± 8 dB, to within half a dB
+    expect(cue.min * differential).toBeCloseTo(2, 0);
+    expect(cue.max * differential).toBeCloseTo(18, 0);
+
+    // Brighter than any voice: no distance to read
+    const bright = bandNoise(1 << 15, rate, [[500, 1000, 0], [4000, 8000, 0]]);
+    expect(estimateDistance(bright, rate, 0, bright.length, 'voice', null, 0, 700, DEFAULT_DISTANCE_MODEL)).toBeNull();
+  });
+
+  it('halves the confidence when the cues disagree', () => {
+    const rate = 48000;
+    const samples = bandNoise(1 << 15, rate, [[500, 1000, 0], [4000, 8000, -32]]);
+    // Loud enough to be within a metre or two, though the spectrum says tens of metres
+    const estimate = estimateDistance(samples, rate, 0, samples.length, 'voice', 62, 0, 700, DEFAULT_DISTANCE_MODEL);
+    expect(estimate?.cues).toHaveLength(2);
+    expect(estimate?.consistent).toBe(false);
+    expect(estimate?.confidence).toBeLessThanOrEqual(0.5);
+  });
+});
+
+describe('formatting', () => {
+  it('shows ranges and confidence in words', () => {
+    const source = { distanceEstimate: { min: 2.34, max: 12.6, confidence: 0.4, consistent: true, cues: [] } } as unknown as AudioSource;
+    expect(formatDistance(source)).toBe('2.3–13 m');
+    expect(formatDistance({} as AudioSource)).toBe('—');
+    expect([0.7, 0.4, 0.1].map(confidenceLabel)).toEqual(['high', 'medium', 'low']);
+  });
+});
@@ -0,0 +1,275 @@
+import { AudioSource, DistanceCue, DistanceEstimate, SoundType } from '../types/audio';
+import { hannWindow, nextPowerOfTwo, powerSpectrum } from './fft';
+
+// Distance to a sound source as a range, from up to three independent cues.
+// The calibrated level against the level the operator expects of that kind
+// of source at 1 m, through spherical spreading and air absorption (ISO
+// 9613-1). The ratio of direct to reverberant energy at an impulsive onset
+// against the room's critical distance. And the loss of high frequencies
+// against the spectral balance typical of the source, which air absorbs with
+// distance. Each cue gives an interval; the estimate is where they overlap,
+// and its confidence falls as the range widens or the cues disagree.
+
+export interface ReferenceLevel {
+  // Level of the source at 1 m, in dB SPL
+  levelDb: number;
+  // How far real sources of the kind stray from it, ± dB
+  spreadDb: number;
+}
+
+export interface DistanceModel {
+  references: Record<SoundType, ReferenceLevel>;
+  // Distance at which direct and reverberant sound are equal; null outdoors
+  // or when the room is unknown, which leaves the reverberation cue out
+  criticalDistance: number | null;
+  temperature: number;
+  humidity: number;
+}
+
+export const DEFAULT_DISTANCE_MODEL: DistanceModel = {
+  references: {
+    voice: { levelDb: 60, spreadDb: 6 },
+    noise: { levelDb: 80, spreadDb: 12 },
+    music: { levelDb: 85, spreadDb: 10 },
+    ambient: { levelDb: 60, spreadDb: 10 },
+    unknown: { levelDb: 75, spreadDb: 12 }
+  },
+  criticalDistance: null,
+  temperature: 20,
+  humidity: 50
+};
+
+export const ROOM_PRESETS: { label: string; criticalDistance: number | null }[] = [
+  { label: 'Outdoors or unknown', criticalDistance: null },
+  { label: 'Small furnished room', criticalDistance: 0.7 },
+  { label: 'Living room or office', criticalDistance: 1.2 },
+  { label: 'Stairwell or bare room', criticalDistance: 0.5 },
+  { label: 'Hall or warehouse', criticalDistance: 3 }
+];
+
+export const DISTANCE_CUE_LABELS: Record<DistanceCue['method'], string> = {
+  level: 'Level against reference',
+  drr: 'Direct-to-reverberant ratio',
+  'hf-rolloff': 'High-frequency roll-off'
+};
+
+const MIN_DISTANCE = 0.1;
+const MAX_DISTANCE = 1000;
+// Calibration and measurement error of the level, ± dB
+const LEVEL_UNCERTAINTY_DB = 1;
+// Direct sound and reverberation are split this long after the onset peak
+const DIRECT_SECONDS = 0.0025;
+const REVERB_SECONDS = 0.1;
+// Peak over RMS of the first REVERB_SECONDS for an onset to count as impulsive
+const MIN_ONSET_CREST_DB = 12;
+// Error of the blind DRR estimate, ± dB, and of the room's critical distance, as a factor
+const DRR_UNCERTAINTY_DB = 4;
+const CRITICAL_DISTANCE_FACTOR = 1.4;
+// Spectral balance bands, Hz
+const LOW_BAND = [500, 1000];
+const HIGH_BAND = [4000, 8000];
+// High-band over low-band level typical of each kind of source, dB, with its spread
+const REFERENCE_TILT: Record<SoundType, ReferenceLevel> = {
+  voice: { levelDb: -22, spreadDb: 8 },
+  noise: { levelDb: -12, spreadDb: 12 },
+  music: { levelDb: -18, spreadDb: 10 },
+  ambient: { levelDb: -20, spreadDb: 12 },
+  unknown: { levelDb: -15, spreadDb: 12 }
+};
+// Sounds missing more high band than this lack it to begin with; air takes
+// about 30 dB from 4–8 kHz over 300 m
+const MAX_TILT_DEFICIT_DB = 30;
+// Events must clear the noise floor by this much for their spectrum to count
+const MIN_SNR_DB = 10;
+const MAX_SPECTRUM_FRAMES = 32;
+
+/**
+ * Atmospheric absorption in dB per metre (ISO 9613-1) at sea-level
+ * pressure, for a temperature in °C and relative humidity in %.
+ */
+export const airAbsorption = (frequency: number, temperature: number, humidity: number) => {
+  const T = temperature + 273.15;
+  const T0 = 293.15;
+  const saturation = Math.pow(10, -6.8346 * Math.pow(273.16 / T, 1.261) + 4.6151);
+  const h = humidity * saturation;
+  const oxygen = 24 + (4.04e4 * h * (0.02 + h)) / (0.391 + h);
+  const nitrogen = Math.pow(T / T0, -0.5) * (9 + 280 * h * Math.exp(-4.17 * (Math.pow(T / T0, -1 / 3) - 1)));
+  const f2 = frequency * frequency;
+  return 8.686 * f2 * (
+    1.84e-11 * Math.pow(T / T0, 0.5) +
+    Math.pow(T / T0, -2.5) * (
+      (0.01275 * Math.exp(-2239.1 / T)) / (oxygen + f2 / oxygen) +
+      (0.1068 * Math.exp(-3352 / T)) / (nitrogen + f2 / nitrogen)
+    )
+  );
+};
+
+const clampDistance = (r: number) => Math.max(MIN_DISTANCE, Math.min(MAX_DISTANCE, r));
+
+/** Distance at which a source of `referenceDb` at 1 m is heard at `levelDb`. */
+const levelDistance = (referenceDb: number, levelDb: number, absorption: number) => {
+  const loss = (r: number) => 20 * Math.log10(r) + absorption * (r - 1);
+  const target = referenceDb - levelDb;
+  // The loss grows with distance, so bisect on a log scale
+  let lo = MIN_DISTANCE;
+  let hi = MAX_DISTANCE;
+  if (loss(lo) >= target) return lo;
+  if (loss(hi) <= target) return hi;
+  for (let i = 0; i < 60; i++) {
+    const mid = Math.sqrt(lo * hi);
+    if (loss(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  return Math.sqrt(lo * hi);
+};
+
+const energy = (samples: Float32Array, start: number, end: number) => {
+  let sum = 0;
+  for (let i = Math.max(0, start); i < Math.min(end, samples.length); i++) sum += samples[i] * samples[i];
+  return sum;
+};
+
+/** Direct-to-reverberant ratio at the onset of a span, in dB; null unless the onset is impulsive. */
+const onsetDrr = (samples: Float32Array, sampleRate: number, start: number, end: number) => {
+  const window = Math.round(REVERB_SECONDS * sampleRate);
+  const searchEnd = Math.min(end, start + window);
+  let peak = start;
+  for (let i = start; i < searchEnd; i++) {
+    if (Math.abs(samples[i]) > Math.abs(samples[peak])) peak = i;
+  }
+  const direct = Math.round(DIRECT_SECONDS * sampleRate);
+  const rms = energy(samples, peak, peak + window) / window;
+  if (rms <= 0 || 10 * Math.log10((samples[peak] * samples[peak]) / rms) < MIN_ONSET_CREST_DB) return null;
+  const directEnergy = energy(samples, peak - Math.round(direct / 2), peak + direct);
+  const reverbEnergy = energy(samples, peak + direct, Math.min(end, peak + direct + window));
+  return reverbEnergy > 0 ? 10 * Math.log10(directEnergy / reverbEnergy) : null;
+};
+
+const bandPower = (spectrum: Float64Array, binHz: number, [low, high]: number[]) => {
+  let sum = 0;
+  let count = 0;
+  for (let k = Math.ceil(low / binHz); k <= Math.floor(high / binHz) && k < spectrum.length; k++) {
+    sum += spectrum[k];
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+/** High-band over low-band level of a span, in dB; null when the file cannot carry the high band. */
+const spectralTilt = (samples: Float32Array, sampleRate: number, start: number, end: number) => {
+  if (sampleRate / 2 < HIGH_BAND[1]) return null;
+  const frameSize = nextPowerOfTwo(Math.round(0.04 * sampleRate));
+  const window = hannWindow(frameSize);
+  const available = Math.max(1, Math.floor((end - start - frameSize) / frameSize) + 1);
+  const count = Math.min(available, MAX_SPECTRUM_FRAMES);
+  const average = new Float64Array(frameSize / 2 + 1);
+  for (let f = 0; f < count; f++) {
+    const offset = start + (count > 1 ? Math.round((f * (available - 1)) / (count - 1)) : 0) * frameSize;
+    const spectrum = powerSpectrum(samples, offset, window, frameSize);
+    for (let k = 0; k < spectrum.length; k++) average[k] += spectrum[k];
+  }
+  const binHz = sampleRate / frameSize;
+  const low = bandPower(average, binHz, LOW_BAND);
+  const high = bandPower(average, binHz, HIGH_BAND);
+  return low > 0 && high > 0 ? 10 * Math.log10(high / low) : null;
+};
+
+/**
+ * The distance cues of one event in `[start, end)` samples and their
+ * combined range. `levelDb` is its level in dB SPL, or null when the
+ * recording is not calibrated, which leaves the level cue out; `noiseFloorDb`
+ * is on the same scale as the level. Samples should not be band-limited, so
+ * the onset and spectral balance are intact. Null when no cue applies.
+ */
+export const estimateDistance = (
+  samples: Float32Array,
+  sampleRate: number,
+  start: number,
+  end: number,
+  type: SoundType,
+  levelDb: number | null,
+  noiseFloorDb: number,
+  dominantFrequency: number,
+  model: DistanceModel
+): DistanceEstimate | null => {
+  const cues: DistanceCue[] = [];
+  const absorption = (f: number) => airAbsorption(f, model.temperature, model.humidity);
+  const snrDb = levelDb === null ? null : levelDb - noiseFloorDb;
+
+  if (levelDb !== null && snrDb !== null && snrDb > 0) {
+    // The noise floor adds to what was measured
+    const sourceDb = levelDb + 10 * Math.log10(1 - Math.pow(10, -snrDb / 10));
+    const { levelDb: referenceDb, spreadDb } = model.references[type];
+    const alpha = absorption(Math.max(dominantFrequency, 20));
+    cues.push({
+      method: 'level',
+      min: levelDistance(referenceDb - spreadDb - LEVEL_UNCERTAINTY_DB, sourceDb, alpha),
+      max: levelDistance(referenceDb + spreadDb + LEVEL_UNCERTAINTY_DB, sourceDb, alpha),
+      detail: `${sourceDb.toFixed(1)} dB SPL against ${referenceDb} ± ${spreadDb} dB at 1 m, ` +
+        `${(alpha * 1000).toFixed(1)} dB/km air absorption at ${dominantFrequency.toFixed(0)} Hz`
+    });
+  }
+
+  if (model.criticalDistance !== null) {
+    const drr = onsetDrr(samples, sampleRate, start, end);
+    if (drr !== null) {
+      const at = (db: number) => clampDistance(model.criticalDistance! * Math.pow(10, -db / 20));
+      cues.push({
+        method: 'drr',
+        min: at(drr + DRR_UNCERTAINTY_DB) / CRITICAL_DISTANCE_FACTOR,
+        max: at(drr - DRR_UNCERTAINTY_DB) * CRITICAL_DISTANCE_FACTOR,
+        detail: `${drr.toFixed(1)} dB at the onset, critical distance ${model.criticalDistance} m`
+      });
+    }
+  }
+
+  const tilt = snrDb === null || snrDb >= MIN_SNR_DB ? spectralTilt(samples, sampleRate, start, end) : null;
+  const reference = REFERENCE_TILT[type];
+  // A source brighter than its kind usually is says nothing about distance
+  if (tilt !== null && reference.levelDb - tilt + reference.spreadDb > 0 && reference.levelDb - tilt <= MAX_TILT_DEFICIT_DB) {
+    const deficit = reference.levelDb - tilt;
+    // Extra loss per metre of the high band over the low one
+    const differential = absorption(Math.sqrt(HIGH_BAND[0] * HIGH_BAND[1])) - absorption(Math.sqrt(LOW_BAND[0] * LOW_BAND[1]));
+    cues.push({
+      method: 'hf-rolloff',
+      min: clampDistance((deficit - reference.spreadDb) / differential),
+      max: clampDistance((deficit + reference.spreadDb) / differential),
+      detail: `${HIGH_BAND[0] / 1000}–${HIGH_BAND[1] / 1000} kHz ${tilt.toFixed(1)} dB against ${LOW_BAND[0]}–${LOW_BAND[1]} Hz, ` +
+        `${reference.levelDb} ± ${reference.spreadDb} dB expected`
+    });
+  }
+
+  if (cues.length === 0) return null;
+
+  // Where all cues overlap, or failing that the span of them all
+  const lo = Math.max(...cues.map(c => c.min));
+  const hi = Math.min(...cues.map(c => c.max));
+  const consistent = lo <= hi;
+  const min = consistent ? lo : Math.min(...cues.map(c => c.min));
+  const max = consistent ? hi : Math.max(...cues.map(c => c.max));
+  // A range spanning a factor of 10 keeps a third of the confidence, a factor of 30 next to none
+  const narrowness = Math.max(0.05, Math.min(1, 1 - Math.log10(max / min) / 1.5));
+  return {
+    min,
+    max,
+    confidence: narrowness * (consistent ? 1 : 0.5),
+    consistent,
+    cues
+  };
+};
+
+/** The model in one line, e.g. for reports. */
+export const describeDistanceModel = ({ references, criticalDistance, temperature, humidity }: DistanceModel) =>
+  `reference levels at 1 m ${Object.entries(references).map(([type, r]) => `${type} ${r.levelDb} ± ${r.spreadDb} dB SPL`).join(', ')}; ` +
+  `${criticalDistance === null ? 'no room model' : `critical distance ${criticalDistance} m`}; air ${temperature} °C, ${humidity} % RH`;
+
+/** Confidence in words. */
+export const confidenceLabel = (confidence: number) => (confidence >= 0.6 ? 'high' : confidence >= 0.3 ? 'medium' : 'low');
+
+/** A source's distance range for display, or a dash when it was not estimated. */
+export const formatDistance = (source: AudioSource) => {
+  const estimate = source.distanceEstimate;
+  if (!estimate) return '—';
+  const digits = (r: number) => r.toFixed(r < 10 ? 1 : 0);
+  return `${digits(estimate.min)}–${digits(estimate.max)} m`;
+};
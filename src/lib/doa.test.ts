@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MIC_GEOMETRY, MicPosition, estimateDirection, micPositions, positionAt } from './doa';
+import { fft, ifft } from './fft';
+
+const RATE = 48000;
+const LENGTH = 1 << 15;
+
+const bearingError = (a: number, b: number) => Math.abs(((a - b + 540) % 360) - 180);
+
+// White noise arriving as a plane wave from `bearing`, delayed to each
+// microphone by a phase shift so fractional delays are exact
+const planeWave = (mics: MicPosition[], bearing: number) => {
+  let seed = 31;
+  const re = Float64Array.from({ length: LENGTH }, () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5);
+  const im = new Float64Array(LENGTH);
+  fft(re, im);
+  const angle = (bearing * Math.PI) / 180;
+  return mics.map(({ x, y }) => {
+    const delay = (-(x * Math.sin(angle) + y * Math.cos(angle)) / 343) * RATE;
+    const shiftedRe = new Float64Array(LENGTH);
+    const shiftedIm = new Float64Array(LENGTH);
+    for (let k = 0; k < LENGTH; k++) {
+      const f = k <= LENGTH / 2 ? k : k - LENGTH;
+      const phase = (-2 * Math.PI * f * delay) / LENGTH;
+      shiftedRe[k] = re[k] * Math.cos(phase) - im[k] * Math.sin(phase);
+      shiftedIm[k] = re[k] * Math.sin(phase) + im[k] * Math.cos(phase);
+    }
+    ifft(shiftedRe, shiftedIm);
+    return Float32Array.from(shiftedRe);
+  });
+};
+
+const direction = (mics: MicPosition[], bearing: number) => estimateDirection(planeWave(mics, bearing), RATE, mics, 0, LENGTH);
+
+describe('micPositions', () => {
+  it('lays out pairs, lines and circles around the origin', () => {
+    expect(micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'pair', spacing: 0.2 }, 2)).toEqual([{ x: -0.1, y: 0 }, { x: 0.1, y: 0 }]);
+    expect(micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'linear', spacing: 0.1 }, 3)?.map(p => p.x)).toEqual([-0.1, 0, 0.1]);
+    const circle = micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'circular', radius: 0.05 }, 4);
+    expect(circle?.[0]).toEqual({ x: 0, y: 0.05 });
+    expect(circle?.[1].x).toBeCloseTo(0.05);
+  });
+
+  it('is null when the geometry does not fit the file', () => {
+    expect(micPositions(DEFAULT_MIC_GEOMETRY, 2)).toBeNull();
+    expect(micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'pair' }, 1)).toBeNull();
+    expect(micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'circular' }, 2)).toBeNull();
+    expect(micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'custom', positions: [{ x: 0, y: 0 }] }, 2)).toBeNull();
+  });
+});
+
+describe('estimateDirection', () => {
+  const pair = [{ x: -0.1, y: 0 }, { x: 0.1, y: 0 }];
+
+  it('finds the bearing of a pair from the time difference, and its mirror', () => {
+    for (const bearing of [0, 30, 320]) {
+      const result = direction(pair, bearing);
+      expect(result?.method).toBe('gcc-phat');
+      expect(bearingError(result?.bearing ?? NaN, bearing)).toBeLessThan(2);
+      expect(bearingError(result?.mirrorBearing ?? NaN, 180 - bearing)).toBeLessThan(2);
+      expect(result?.coherence).toBeGreaterThan(0.9);
+    }
+  });
+
+  it('resolves every bearing with a circular array', () => {
+    const mics = micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'circular', radius: 0.1 }, 6) as MicPosition[];
+    for (const bearing of [45, 200, 300]) {
+      const result = direction(mics, bearing);
+      expect(result?.method).toBe('srp-phat');
+      expect(result?.mirrorBearing).toBeNull();
+      expect(bearingError(result?.bearing ?? NaN, bearing)).toBeLessThan(2);
+      expect(result?.uncertainty).toBeLessThan(5);
+    }
+  });
+
+  it('searches the front half of a line array', () => {
+    const mics = micPositions({ ...DEFAULT_MIC_GEOMETRY, layout: 'linear', spacing: 0.1 }, 4) as MicPosition[];
+    const behind = direction(mics, 120);
+    expect(bearingError(behind?.bearing ?? NaN, 60)).toBeLessThan(2);
+    expect(bearingError(behind?.mirrorBearing ?? NaN, 120)).toBeLessThan(2);
+  });
+
+  it('has nothing to say about silence', () => {
+    expect(estimateDirection([new Float32Array(LENGTH), new Float32Array(LENGTH)], RATE, pair, 0, LENGTH)).toBeNull();
+  });
+});
+
+describe('positionAt', () => {
+  it('places bearings clockwise from straight ahead', () => {
+    const right = positionAt(90, 2);
+    expect(right.x).toBeCloseTo(2);
+    expect(right.y).toBeCloseTo(0);
+    expect(positionAt(0, 3).y).toBeCloseTo(3);
+  });
+});
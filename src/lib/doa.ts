@@ -0,0 +1,366 @@
+import { SourceDirection } from '../types/audio';
+import { fft, hannWindow, ifft, nextPowerOfTwo } from './fft';
+
+// Direction of arrival from the time differences between microphones. Each
+// pair of channels is cross-correlated with the phase transform (GCC-PHAT),
+// which whitens the spectrum so the correlation peaks sharply at the delay
+// whatever the sound. A pair gives that delay, and from it the bearing, in
+// closed form; arrays of three or more microphones search all bearings for
+// the one whose delays agree best over every pair (SRP-PHAT). Bearings are
+// in degrees clockwise from straight ahead of the array, with microphone
+// positions in metres, x to the right and y ahead.
+
+export type MicLayout = 'none' | 'pair' | 'linear' | 'circular' | 'custom';
+
+export const MIC_LAYOUT_LABELS: Record<MicLayout, string> = {
+  none: 'Not described (no direction finding)',
+  pair: 'Spaced stereo pair',
+  linear: 'Linear array',
+  circular: 'Circular array',
+  custom: 'Custom positions'
+};
+
+export interface MicPosition {
+  x: number;
+  y: number;
+}
+
+export interface MicGeometry {
+  layout: MicLayout;
+  // Between neighbouring microphones of a pair or linear array
+  spacing: number;
+  // Of a circular array, whose first channel points straight ahead
+  radius: number;
+  // One per channel, for custom layouts
+  positions: MicPosition[];
+}
+
+export const DEFAULT_MIC_GEOMETRY: MicGeometry = {
+  layout: 'none',
+  spacing: 0.2,
+  radius: 0.05,
+  positions: []
+};
+
+export const DOA_METHOD_LABELS: Record<SourceDirection['method'], string> = {
+  'gcc-phat': 'GCC-PHAT time difference of arrival',
+  'srp-phat': 'SRP-PHAT steered response power'
+};
+
+const SPEED_OF_SOUND = 343;
+const FRAME_SECONDS = 0.04;
+// Frames per event are spread evenly over it beyond this many
+const MAX_FRAMES = 32;
+// Correlations are interpolated this finely, in fractions of a sample
+const UPSAMPLING = 4;
+const GRID_DEGREES = 1;
+
+/**
+ * Positions of the microphones a file's channels come from, in channel
+ * order; null when the geometry is not described or does not fit the file.
+ * A pair takes the first two channels, left then right.
+ */
+export const micPositions = (geometry: MicGeometry, channels: number): MicPosition[] | null => {
+  switch (geometry.layout) {
+    case 'pair':
+      return channels >= 2 && geometry.spacing > 0
+        ? [{ x: -geometry.spacing / 2, y: 0 }, { x: geometry.spacing / 2, y: 0 }]
+        : null;
+    case 'linear':
+      return channels >= 2 && geometry.spacing > 0
+        ? Array.from({ length: channels }, (_, c) => ({ x: (c - (channels - 1) / 2) * geometry.spacing, y: 0 }))
+        : null;
+    case 'circular':
+      return channels >= 3 && geometry.radius > 0
+        ? Array.from({ length: channels }, (_, c) => {
+            const angle = (2 * Math.PI * c) / channels;
+            return { x: Math.sin(angle) * geometry.radius, y: Math.cos(angle) * geometry.radius };
+          })
+        : null;
+    case 'custom':
+      return channels >= 2 && geometry.positions.length === channels ? geometry.positions : null;
+    default:
+      return null;
+  }
+};
+
+/** The geometry in words, e.g. for reports. */
+export const describeGeometry = (geometry: MicGeometry) => {
+  switch (geometry.layout) {
+    case 'pair':
+      return `${MIC_LAYOUT_LABELS.pair}, ${geometry.spacing} m apart`;
+    case 'linear':
+      return `${MIC_LAYOUT_LABELS.linear}, ${geometry.spacing} m spacing`;
+    case 'circular':
+      return `${MIC_LAYOUT_LABELS.circular}, ${geometry.radius} m radius`;
+    case 'custom':
+      return `${MIC_LAYOUT_LABELS.custom}: ${geometry.positions.map(p => `(${p.x}, ${p.y})`).join(', ')} m`;
+    default:
+      return MIC_LAYOUT_LABELS.none;
+  }
+};
+
+/** Position `distance` metres away on a bearing, as stored on sources. */
+export const positionAt = (bearing: number, distance: number) => {
+  const angle = (bearing * Math.PI) / 180;
+  return { x: Math.sin(angle) * distance, y: Math.cos(angle) * distance, z: 0 };
+};
+
+const toBearing = (x: number, y: number) => ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360;
+
+// Signed difference of two bearings, within ±180°
+const bearingDifference = (a: number, b: number) => ((a - b + 540) % 360) - 180;
+
+// Unit vector along the line of collinear microphones; null for a planar array
+const arrayAxis = (mics: MicPosition[]) => {
+  const [first] = mics;
+  const reach = (p: MicPosition) => Math.hypot(p.x - first.x, p.y - first.y);
+  const far = mics.reduce((best, p) => (reach(p) > reach(best) ? p : best));
+  const axis = { x: (far.x - first.x) / reach(far), y: (far.y - first.y) / reach(far) };
+  const collinear = mics.every(p => Math.abs((p.x - first.x) * axis.y - (p.y - first.y) * axis.x) < 1e-3);
+  return collinear ? axis : null;
+};
+
+// The side of a line array taken as its front: ahead, or right when the line points ahead
+const frontNormal = (axis: MicPosition) => {
+  const normal = { x: -axis.y, y: axis.x };
+  return normal.y < -1e-9 || (Math.abs(normal.y) <= 1e-9 && normal.x < 0) ? { x: -normal.x, y: -normal.y } : normal;
+};
+
+// Bearing mirrored across the line of a line array, which hears both alike
+const mirrorAcross = (bearing: number, axis: MicPosition) => (2 * toBearing(axis.x, axis.y) - bearing + 720) % 360;
+
+interface PairCorrelation {
+  i: number;
+  j: number;
+  // Upsampled correlation; index UPSAMPLING * lag, negative lags wrapped to the end
+  r: Float64Array;
+}
+
+/**
+ * GCC-PHAT of every pair over one block of spectra. `cross` accumulates the
+ * whitened cross-spectra so all frames can be combined afterwards.
+ */
+const correlatePairs = (
+  spectra: { re: Float64Array; im: Float64Array }[],
+  pairs: [number, number][],
+  bins: [number, number],
+  cross: { re: Float64Array; im: Float64Array }[]
+): PairCorrelation[] => {
+  const n = spectra[0].re.length;
+  return pairs.map(([i, j], p) => {
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    for (let k = bins[0]; k <= bins[1]; k++) {
+      // X_i · conj(X_j), whitened
+      const cr = spectra[i].re[k] * spectra[j].re[k] + spectra[i].im[k] * spectra[j].im[k];
+      const ci = spectra[i].im[k] * spectra[j].re[k] - spectra[i].re[k] * spectra[j].im[k];
+      const magnitude = Math.hypot(cr, ci);
+      if (magnitude < 1e-20) continue;
+      re[k] = cr / magnitude;
+      im[k] = ci / magnitude;
+    }
+    for (let k = bins[0]; k <= bins[1]; k++) {
+      cross[p].re[k] += re[k];
+      cross[p].im[k] += im[k];
+    }
+    return { i, j, r: upsampledCorrelation(re, im) };
+  });
+};
+
+// Zero-padding the one-sided spectrum interpolates the correlation; scaled so
+// a perfectly coherent pair peaks at 1
+const upsampledCorrelation = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  const size = n * UPSAMPLING;
+  const outRe = new Float64Array(size);
+  const outIm = new Float64Array(size);
+  const half = n / 2;
+  let used = 0;
+  for (let k = 1; k < half; k++) {
+    if (re[k] === 0 && im[k] === 0) continue;
+    used++;
+    outRe[k] = re[k];
+    outIm[k] = im[k];
+    outRe[size - k] = re[k];
+    outIm[size - k] = -im[k];
+  }
+  ifft(outRe, outIm);
+  const scale = used > 0 ? size / (2 * used) : 0;
+  for (let m = 0; m < size; m++) outRe[m] *= scale;
+  return outRe;
+};
+
+// Correlation at a fractional lag in samples
+const correlationAt = (r: Float64Array, lag: number) => {
+  const position = lag * UPSAMPLING;
+  const lower = Math.floor(position);
+  const fraction = position - lower;
+  const at = (m: number) => r[((m % r.length) + r.length) % r.length];
+  return at(lower) * (1 - fraction) + at(lower + 1) * fraction;
+};
+
+// Vertex of the parabola through three points around a peak, as an offset in [-0.5, 0.5]
+const parabolicOffset = (a: number, b: number, c: number) => {
+  const denom = a - 2 * b + c;
+  return denom < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0;
+};
+
+interface Estimate {
+  bearing: number;
+  // Mean correlation over the pairs at the bearing
+  coherence: number;
+}
+
+/** Bearing of a microphone pair from the lag of its correlation peak. */
+const pairBearing = ({ i, j, r }: PairCorrelation, mics: MicPosition[], sampleRate: number): Estimate => {
+  const dx = mics[j].x - mics[i].x;
+  const dy = mics[j].y - mics[i].y;
+  const spacing = Math.hypot(dx, dy);
+  const axis = { x: dx / spacing, y: dy / spacing };
+  const normal = frontNormal(axis);
+
+  // Physically possible lags only
+  const maxIndex = Math.ceil((spacing / SPEED_OF_SOUND) * sampleRate * UPSAMPLING);
+  const at = (m: number) => r[(m + r.length) % r.length];
+  let best = -maxIndex;
+  for (let m = -maxIndex; m <= maxIndex; m++) {
+    if (at(m) > at(best)) best = m;
+  }
+  const lag = (best + parabolicOffset(at(best - 1), at(best), at(best + 1))) / UPSAMPLING;
+
+  // t_i - t_j = spacing · (axis · u) / c
+  const sine = Math.max(-1, Math.min(1, (SPEED_OF_SOUND * lag) / sampleRate / spacing));
+  const cosine = Math.sqrt(1 - sine * sine);
+  return {
+    bearing: toBearing(normal.x * cosine + axis.x * sine, normal.y * cosine + axis.y * sine),
+    coherence: at(best)
+  };
+};
+
+/** Bearing whose delays best agree over all pairs (steered response power). */
+const steeredBearing = (
+  correlations: PairCorrelation[],
+  mics: MicPosition[],
+  sampleRate: number,
+  axis: MicPosition | null
+): Estimate => {
+  const normal = axis && frontNormal(axis);
+  const steps = Math.round(360 / GRID_DEGREES);
+  const power = new Float64Array(steps);
+  for (let s = 0; s < steps; s++) {
+    const angle = (s * GRID_DEGREES * Math.PI) / 180;
+    const u = { x: Math.sin(angle), y: Math.cos(angle) };
+    // A line array cannot tell front from back; only the front half is searched
+    if (normal && u.x * normal.x + u.y * normal.y < -1e-9) {
+      power[s] = -Infinity;
+      continue;
+    }
+    for (const { i, j, r } of correlations) {
+      const delay = ((mics[j].x - mics[i].x) * u.x + (mics[j].y - mics[i].y) * u.y) / SPEED_OF_SOUND;
+      power[s] += correlationAt(r, delay * sampleRate);
+    }
+  }
+
+  let best = 0;
+  for (let s = 1; s < steps; s++) {
+    if (power[s] > power[best]) best = s;
+  }
+  const neighbour = (offset: number) => {
+    const value = power[(best + offset + steps) % steps];
+    return Number.isFinite(value) ? value : power[best];
+  };
+  const offset = parabolicOffset(neighbour(-1), power[best], neighbour(1));
+  return {
+    bearing: (((best + offset) * GRID_DEGREES) % 360 + 360) % 360,
+    coherence: power[best] / correlations.length
+  };
+};
+
+/**
+ * Direction of arrival of the sound in `[start, end)` samples of the
+ * channels, from microphones at `mics` (one per channel). The frames of the
+ * span are combined for the bearing; their spread gives the uncertainty.
+ * Correlation is limited to `band` in Hz. Returns null for silent spans.
+ */
+export const estimateDirection = (
+  channels: Float32Array[],
+  sampleRate: number,
+  mics: MicPosition[],
+  start: number,
+  end: number,
+  band: { min: number; max: number } = { min: 0, max: sampleRate / 2 }
+): SourceDirection | null => {
+  const frameSize = nextPowerOfTwo(Math.round(FRAME_SECONDS * sampleRate));
+  // Zero-padded to twice the frame so correlations do not wrap
+  const fftSize = frameSize * 2;
+  const window = hannWindow(frameSize);
+  const binHz = sampleRate / fftSize;
+  const bins: [number, number] = [
+    Math.max(1, Math.ceil(band.min / binHz)),
+    Math.min(fftSize / 2 - 1, Math.floor(band.max / binHz))
+  ];
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < mics.length; i++) {
+    for (let j = i + 1; j < mics.length; j++) pairs.push([i, j]);
+  }
+  const axis = arrayAxis(mics);
+  const method: SourceDirection['method'] = mics.length === 2 ? 'gcc-phat' : 'srp-phat';
+  const estimate = (correlations: PairCorrelation[]) =>
+    method === 'gcc-phat' ? pairBearing(correlations[0], mics, sampleRate) : steeredBearing(correlations, mics, sampleRate, axis);
+
+  const hop = frameSize / 2;
+  const available = Math.max(1, Math.floor((end - start - frameSize) / hop) + 1);
+  const count = Math.min(available, MAX_FRAMES);
+  const starts = Array.from({ length: count }, (_, f) =>
+    start + (count > 1 ? Math.round((f * (available - 1)) / (count - 1)) : 0) * hop
+  );
+
+  const cross = pairs.map(() => ({ re: new Float64Array(fftSize), im: new Float64Array(fftSize) }));
+  const frameBearings: number[] = [];
+  for (const frameStart of starts) {
+    let energy = 0;
+    const spectra = channels.map(samples => {
+      const re = new Float64Array(fftSize);
+      const im = new Float64Array(fftSize);
+      const length = Math.min(frameSize, Math.min(end, samples.length) - frameStart);
+      for (let i = 0; i < length; i++) {
+        re[i] = samples[frameStart + i] * window[i];
+        energy += re[i] * re[i];
+      }
+      fft(re, im);
+      return { re, im };
+    });
+    if (energy < 1e-12) continue;
+    frameBearings.push(estimate(correlatePairs(spectra, pairs, bins, cross)).bearing);
+  }
+  if (frameBearings.length === 0) return null;
+
+  const combined = estimate(
+    pairs.map(([i, j], p) => ({
+      i,
+      j,
+      r: upsampledCorrelation(
+        cross[p].re.map(v => v / frameBearings.length),
+        cross[p].im.map(v => v / frameBearings.length)
+      )
+    }))
+  );
+
+  // Spread of the frames about the combined bearing, no finer than the
+  // angle one interpolated sample of delay makes across the widest pair
+  const spread = Math.sqrt(
+    frameBearings.reduce((sum, b) => sum + bearingDifference(b, combined.bearing) ** 2, 0) / frameBearings.length
+  );
+  const aperture = Math.max(...pairs.map(([i, j]) => Math.hypot(mics[j].x - mics[i].x, mics[j].y - mics[i].y)));
+  const resolution = (Math.asin(Math.min(1, SPEED_OF_SOUND / (sampleRate * UPSAMPLING * aperture))) * 180) / Math.PI;
+
+  return {
+    bearing: combined.bearing,
+    uncertainty: Math.min(90, Math.max(spread, resolution, GRID_DEGREES / 2)),
+    method,
+    coherence: Math.max(0, Math.min(1, combined.coherence)),
+    mirrorBearing: axis ? mirrorAcross(combined.bearing, axis) : null,
+    frames: frameBearings.length
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { StoredBuffer } from './bufferStore';
+import { analyzeEncoding } from './encoding';
+import { fft, ifft } from './fft';
+import { parseWav, readWavSamples } from './wav/reader';
+import { SampleFormat, encodeWav } from './wav/writer';
+
+const RATE = 44100;
+const LENGTH = 1 << 17;
+
+const random = (seed: number) => () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+
+const whiteNoise = (length = LENGTH, seed = 11) => Float32Array.from({ length }, random(seed)).map(v => 0.3 * v);
+
+// White noise with nothing above `cutoffHz`
+const lowpassed = (cutoffHz: number) => {
+  const re = Float64Array.from(whiteNoise());
+  const im = new Float64Array(LENGTH);
+  fft(re, im);
+  const cutoff = Math.round((cutoffHz / RATE) * LENGTH);
+  for (let k = cutoff; k <= LENGTH - cutoff; k++) {
+    re[k] = 0;
+    im[k] = 0;
+  }
+  ifft(re, im);
+  return Float32Array.from(re);
+};
+
+// Noise in overlapping sine-windowed frames `hop` apart, each at its own
+// level, as a transform codec's frames are quantised apart from each other
+const codecFrames = (hop: number) => {
+  const noise = random(13);
+  const samples = new Float32Array(LENGTH);
+  for (let start = -hop; start < LENGTH; start += hop) {
+    const gain = 0.2 * 10 ** ((noise() * 12) / 20);
+    for (let n = 0; n < 2 * hop; n++) {
+      if (start + n >= 0 && start + n < LENGTH) samples[start + n] += gain * Math.sin((Math.PI * (n + 0.5)) / (2 * hop)) * noise();
+    }
+  }
+  return samples;
+};
+
+const storedWav = async (samples: Float32Array, format: SampleFormat): Promise<StoredBuffer> => {
+  const blob = encodeWav({ channels: [samples], sampleRate: RATE, format });
+  const wav = await parseWav(blob);
+  const channels = await readWavSamples(blob, wav);
+  return { id: 'b', name: 'test.wav', sampleRate: RATE, channels, length: samples.length, duration: samples.length / RATE, wav };
+};
+
+const conclusion = (history: Awaited<ReturnType<typeof analyzeEncoding>>, topic: string) =>
+  history.conclusions.find(c => c.topic === topic);
+
+describe('analyzeEncoding', () => {
+  it('finds no trace of processing in full-band 16-bit noise', async () => {
+    const history = await analyzeEncoding(await storedWav(whiteNoise(), 'pcm16'), null);
+    expect(history.container.kind).toBe('wav');
+    expect(history.bandwidth.brickWall).toBe(false);
+    expect(history.bandwidth.cutoffHz).toBeGreaterThan(20000);
+    expect(history.frameGrids.some(g => g.detected)).toBe(false);
+    expect(history.upsampledFrom).toBeNull();
+    expect(history.bitDepth).toEqual({ containerBits: 16, effectiveBits: 16, padded: false });
+    expect(conclusion(history, 'Lossy compression')?.detected).toBe(false);
+  });
+
+  it('measures a brick-wall lowpass like an encoder leaves', async () => {
+    const history = await analyzeEncoding(await storedWav(lowpassed(17000), 'pcm24'), null);
+    expect(history.bandwidth.brickWall).toBe(true);
+    expect(Math.abs(history.bandwidth.cutoffHz - 17000)).toBeLessThan(200);
+    expect(history.upsampledFrom).toBeNull();
+    // A lowpass alone does not prove compression
+    expect(conclusion(history, 'Lossy compression')?.detected).toBeNull();
+  });
+
+  it('recognises material upsampled from 22.05 kHz', async () => {
+    const history = await analyzeEncoding(await storedWav(lowpassed(11025), 'pcm24'), null);
+    expect(history.upsampledFrom).toBe(22050);
+    expect(conclusion(history, 'Upsampling')?.detected).toBe(true);
+  });
+
+  it('finds 16-bit audio padded into a 24-bit container', async () => {
+    const samples = whiteNoise().map(v => Math.round(v * 32768) / 32768);
+    const history = await analyzeEncoding(await storedWav(samples, 'pcm24'), null);
+    expect(history.bitDepth).toEqual({ containerBits: 24, effectiveBits: 16, padded: true });
+  });
+
+  it('finds the frame grid of an MP3 and not of AAC', async () => {
+    const history = await analyzeEncoding(await storedWav(codecFrames(576), 'float32'), null);
+    const mp3 = history.frameGrids.find(g => g.codec === 'mp3' && g.codecRate === RATE);
+    expect(mp3?.detected).toBe(true);
+    expect(history.frameGrids.filter(g => g.codec === 'aac').some(g => g.detected)).toBe(false);
+    expect(conclusion(history, 'Lossy compression')?.detected).toBe(true);
+  });
+});
@@ -0,0 +1,547 @@
+import { StoredBuffer, mixToMono } from './bufferStore';
+import { fft, hannWindow, toDb } from './fft';
+import { bilinearSection, createBiquadState, processCascade } from './biquad';
+import { Mp3Info, parseMp3 } from './codecs/mp3';
+import { Mp4Info, parseMp4 } from './codecs/mp4';
+import { yieldToMain } from './util';
+
+// Encoding history: what the file says about itself (container headers and
+// encoder tags) set against what the signal shows. Lossy codecs leave a
+// lowpass brick wall and a block structure whose noise changes once per
+// codec frame; upsampling leaves an empty band above the old Nyquist
+// frequency; padded bit depth leaves low bits that are always zero. Each
+// conclusion keeps the observations it rests on for the report.
+
+export type ContainerInfo =
+  | { kind: 'wav'; description: string; sampleRate: number; bitsPerSample: number; encoding: 'pcm' | 'float' }
+  | { kind: 'mp3'; description: string; sampleRate: number; mp3: Mp3Info }
+  | { kind: 'mp4'; description: string; sampleRate: number; mp4: Mp4Info }
+  | { kind: 'other'; description: string; sampleRate: null };
+
+export interface EncoderSignature {
+  // Where the signature was found, e.g. "LAME tag" or "ID3 TSSE"
+  source: string;
+  value: string;
+}
+
+export interface BandwidthEstimate {
+  cutoffHz: number;
+  // Level fall across the cutoff, in dB over about 1 kHz
+  dropDb: number;
+  brickWall: boolean;
+}
+
+export type CodecFamily = 'mp3' | 'aac';
+
+export interface FrameGridTrace {
+  codec: CodecFamily;
+  // Codec sample rate and frame hop the grid was searched for
+  codecRate: number;
+  hop: number;
+  // Swing of the top band's level over each codec hop, in dB, and how far it
+  // stands out from periods no codec uses, in standard deviations
+  strength: number;
+  zScore: number;
+  detected: boolean;
+}
+
+export interface BitDepthEstimate {
+  containerBits: number;
+  // Bits actually in use; null beyond 24 bits
+  effectiveBits: number | null;
+  padded: boolean;
+}
+
+export interface EncodingConclusion {
+  topic: string;
+  statement: string;
+  // null for descriptive topics and when the evidence does not decide
+  detected: boolean | null;
+  evidence: string[];
+}
+
+export interface EncodingHistory {
+  bufferId: string;
+  fileName: string;
+  container: ContainerInfo;
+  signatures: EncoderSignature[];
+  bandwidth: BandwidthEstimate;
+  // Long-term average spectrum, in dB, `binHz` apart
+  spectrumDb: Float32Array;
+  binHz: number;
+  frameGrids: FrameGridTrace[];
+  upsampledFrom: number | null;
+  bitDepth: BitDepthEstimate | null;
+  conclusions: EncodingConclusion[];
+}
+
+const SPECTRUM_SIZE = 4096;
+const MAX_SPECTRUM_FRAMES = 400;
+// Frames quieter than this say nothing about bandwidth
+const SILENT_FRAME_DB = -70;
+const SMOOTHING_HZ = 100;
+// Without a brick wall, the cutoff is the highest frequency this far above
+// the spectrum's floor
+const CUTOFF_MARGIN_DB = 10;
+// Fall across a brick wall, between bands this wide either side of it
+const BRICK_WALL_DROP_DB = 25;
+const BRICK_WALL_BAND_HZ = 500;
+const BRICK_WALL_GAP_HZ = 100;
+// The steepest fall is found up to the gap above the wall; the cutoff is the
+// half-power point below it
+const HALF_POWER_DB = 3;
+// Brick walls this close to Nyquist are the converter's anti-alias filter
+const ANTI_ALIAS_FRACTION = 0.9;
+const STANDARD_RATES = [8000, 11025, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000];
+// A cutoff between these fractions of a lower rate's Nyquist frequency
+const UPSAMPLE_RANGE = [0.9, 1.01];
+
+const GRID_BLOCK = 16;
+// The grid is measured in the top band of the signal, where a codec spends
+// fewest bits and its frames differ most; the band starts at this share of
+// the cutoff
+const GRID_BAND_FRACTION = 0.6;
+const MAX_GRID_SECONDS = 300;
+const CODEC_HOPS: Record<CodecFamily, number> = { mp3: 576, aac: 1024 };
+// Periods no codec uses, as multiples of the candidate period
+const CONTROL_FACTORS = [0.71, 0.77, 0.83, 0.87, 0.91, 1.09, 1.13, 1.17, 1.23, 1.29];
+const GRID_Z_SCORE = 5;
+const GRID_MIN_STRENGTH_DB = 0.05;
+
+// Typical LAME lowpass by MP3 bitrate (kbps -> Hz)
+const MP3_LOWPASS: [number, number][] = [
+  [64, 11000], [80, 13500], [96, 15100], [112, 15600], [128, 17000], [160, 17500],
+  [192, 18600], [224, 19400], [256, 19700], [320, 20500]
+];
+// Below this share of the expected lowpass, an earlier, narrower encode is likely
+const NARROWER_THAN_EXPECTED = 0.85;
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${hz.toFixed(0)} Hz`);
+
+/** Average power spectrum of the non-silent frames, smoothed, in dB. */
+const longTermSpectrum = async (samples: Float32Array, sampleRate: number) => {
+  const window = hannWindow(SPECTRUM_SIZE);
+  const re = new Float64Array(SPECTRUM_SIZE);
+  const im = new Float64Array(SPECTRUM_SIZE);
+  const power = new Float64Array(SPECTRUM_SIZE / 2);
+  const fallback = new Float64Array(SPECTRUM_SIZE / 2);
+  const frames = Math.max(1, Math.floor(samples.length / SPECTRUM_SIZE));
+  const stride = Math.max(1, Math.floor(frames / MAX_SPECTRUM_FRAMES));
+  let used = 0;
+  let counted = 0;
+
+  for (let f = 0; f < frames; f += stride) {
+    let energy = 0;
+    for (let i = 0; i < SPECTRUM_SIZE; i++) {
+      const sample = samples[f * SPECTRUM_SIZE + i] ?? 0;
+      energy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    const target = toDb(energy / SPECTRUM_SIZE) > SILENT_FRAME_DB ? power : fallback;
+    for (let k = 0; k < SPECTRUM_SIZE / 2; k++) target[k] += re[k] * re[k] + im[k] * im[k];
+    if (target === power) used++;
+    if (++counted % 50 === 0) await yieldToMain();
+  }
+
+  const source = used > 0 ? power : fallback;
+  const binHz = sampleRate / SPECTRUM_SIZE;
+  const half = Math.max(1, Math.round(SMOOTHING_HZ / binHz / 2));
+  const spectrumDb = new Float32Array(SPECTRUM_SIZE / 2);
+  for (let k = 0; k < spectrumDb.length; k++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(1, k - half); j <= Math.min(spectrumDb.length - 1, k + half); j++) {
+      sum += source[j];
+      count++;
+    }
+    spectrumDb[k] = toDb(sum / Math.max(1, count) / Math.max(1, used || counted));
+  }
+  return { spectrumDb, binHz };
+};
+
+const bandMean = (spectrumDb: Float32Array, binHz: number, fromHz: number, toHz: number) => {
+  const from = Math.max(1, Math.round(fromHz / binHz));
+  const to = Math.min(spectrumDb.length - 1, Math.round(toHz / binHz));
+  let sum = 0;
+  for (let k = from; k <= to; k++) sum += spectrumDb[k];
+  return to >= from ? sum / (to - from + 1) : spectrumDb[Math.min(from, spectrumDb.length - 1)];
+};
+
+/**
+ * The steepest fall in the spectrum above 2 kHz marks a brick-wall lowpass
+ * when it is deep enough; otherwise the bandwidth is where the spectrum
+ * sinks into its floor, or Nyquist when it never does.
+ */
+const estimateBandwidth = (spectrumDb: Float32Array, binHz: number): BandwidthEstimate => {
+  const nyquist = spectrumDb.length * binHz;
+  const dropAt = (hz: number) =>
+    bandMean(spectrumDb, binHz, hz - BRICK_WALL_GAP_HZ - BRICK_WALL_BAND_HZ, hz - BRICK_WALL_GAP_HZ) -
+    bandMean(spectrumDb, binHz, hz + BRICK_WALL_GAP_HZ, hz + BRICK_WALL_GAP_HZ + BRICK_WALL_BAND_HZ);
+
+  let steepest = { cutoffHz: nyquist, dropDb: -Infinity };
+  for (let k = Math.round(2000 / binHz); k * binHz < nyquist - BRICK_WALL_GAP_HZ - BRICK_WALL_BAND_HZ; k++) {
+    const dropDb = dropAt(k * binHz);
+    if (dropDb > steepest.dropDb) steepest = { cutoffHz: k * binHz, dropDb };
+  }
+  if (steepest.dropDb >= BRICK_WALL_DROP_DB) {
+    const below = steepest.cutoffHz - BRICK_WALL_GAP_HZ;
+    const passbandDb = bandMean(spectrumDb, binHz, below - BRICK_WALL_BAND_HZ, below);
+    let edge = Math.round(steepest.cutoffHz / binHz);
+    while (edge > 0 && spectrumDb[edge] < passbandDb - HALF_POWER_DB) edge--;
+    return { cutoffHz: edge * binHz, dropDb: steepest.dropDb, brickWall: true };
+  }
+
+  const lowest = Math.round(1000 / binHz);
+  let floor = Infinity;
+  let peak = -Infinity;
+  for (let k = lowest; k < spectrumDb.length; k++) {
+    floor = Math.min(floor, spectrumDb[k]);
+    peak = Math.max(peak, spectrumDb[k]);
+  }
+  if (peak < floor + CUTOFF_MARGIN_DB) return { cutoffHz: nyquist, dropDb: Math.max(0, steepest.dropDb), brickWall: false };
+  let cutoffBin = spectrumDb.length - 1;
+  while (cutoffBin > lowest && spectrumDb[cutoffBin] < floor + CUTOFF_MARGIN_DB) cutoffBin--;
+  return { cutoffHz: cutoffBin * binHz, dropDb: Math.max(0, steepest.dropDb), brickWall: false };
+};
+
+/** A lower standard rate whose Nyquist frequency matches a brick-wall cutoff. */
+const upsamplingSource = (bandwidth: BandwidthEstimate, nativeRate: number) => {
+  if (!bandwidth.brickWall) return null;
+  return STANDARD_RATES.find(rate =>
+    rate < nativeRate &&
+    bandwidth.cutoffHz >= UPSAMPLE_RANGE[0] * (rate / 2) &&
+    bandwidth.cutoffHz <= UPSAMPLE_RANGE[1] * (rate / 2)
+  ) ?? null;
+};
+
+/** Low bits that are zero in every sample, for PCM read from a WAV file. */
+const estimateBitDepth = (buffer: StoredBuffer, containerBits: number): BitDepthEstimate | null => {
+  // Everything decoded is exact in a Float32 on a 24-bit grid
+  const scale = 2 ** 23;
+  let used = 0;
+  for (const channel of buffer.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const value = channel[i] * scale;
+      if (!Number.isInteger(value)) {
+        return { containerBits, effectiveBits: null, padded: false };
+      }
+      used |= Math.abs(value);
+    }
+  }
+  if (used === 0) return null;
+  let zeroBits = 0;
+  while (!(used & (1 << zeroBits))) zeroBits++;
+  const effectiveBits = 24 - zeroBits;
+  return { containerBits, effectiveBits, padded: effectiveBits < Math.min(containerBits, 24) };
+};
+
+/**
+ * Codec frames are quantised independently, so the level of the top band
+ * changes from one frame to the next and is an average of two frames where
+ * their windows overlap, which on a log scale sits higher than at the frame
+ * centres. Folding the level at the codec's hop shows that swing; at other
+ * periods it averages out.
+ */
+const gridStrength = (levels: Float32Array, mean: number, period: number) => {
+  let re = 0;
+  let im = 0;
+  for (let j = 0; j < levels.length; j++) {
+    const angle = (2 * Math.PI * ((j + 0.5) * GRID_BLOCK)) / period;
+    re += (levels[j] - mean) * Math.cos(angle);
+    im -= (levels[j] - mean) * Math.sin(angle);
+  }
+  // Peak-to-peak swing of the fundamental
+  return levels.length > 0 ? (4 * Math.hypot(re, im)) / levels.length : 0;
+};
+
+const findFrameGrids = async (samples: Float32Array, sampleRate: number, cutoffHz: number, codecRates: number[]) => {
+  // Fourth-order Butterworth highpass as two sections
+  const w = 2 * sampleRate * Math.tan((Math.PI * Math.min(GRID_BAND_FRACTION * cutoffHz, 0.45 * sampleRate)) / sampleRate);
+  const sections = [0.7654, 1.8478].map(d => bilinearSection(sampleRate, [1, 0, 0], [d * w, w * w]));
+  const band = processCascade(sections, sections.map(createBiquadState), samples.subarray(0, MAX_GRID_SECONDS * sampleRate));
+  await yieldToMain();
+
+  const levels = new Float32Array(Math.floor(band.length / GRID_BLOCK));
+  let meanLevel = 0;
+  for (let j = 0; j < levels.length; j++) {
+    let energy = 0;
+    for (let i = j * GRID_BLOCK; i < (j + 1) * GRID_BLOCK; i++) energy += band[i] * band[i];
+    levels[j] = toDb(energy / GRID_BLOCK);
+    meanLevel += levels[j] / levels.length;
+  }
+
+  const traces: FrameGridTrace[] = [];
+  for (const codec of Object.keys(CODEC_HOPS) as CodecFamily[]) {
+    for (const codecRate of codecRates) {
+      const period = (CODEC_HOPS[codec] * sampleRate) / codecRate;
+      const strength = gridStrength(levels, meanLevel, period);
+      const controls = CONTROL_FACTORS.map(factor => gridStrength(levels, meanLevel, period * factor));
+      const mean = controls.reduce((sum, c) => sum + c, 0) / controls.length;
+      const spread = Math.sqrt(controls.reduce((sum, c) => sum + (c - mean) ** 2, 0) / controls.length);
+      const zScore = (strength - mean) / Math.max(spread, 1e-4);
+      traces.push({
+        codec,
+        codecRate,
+        hop: CODEC_HOPS[codec],
+        strength,
+        zScore,
+        detected: strength >= GRID_MIN_STRENGTH_DB && zScore >= GRID_Z_SCORE
+      });
+      await yieldToMain();
+    }
+  }
+  return traces;
+};
+
+const isLossy = (container: ContainerInfo) =>
+  container.kind === 'mp3' ||
+  (container.kind === 'mp4' && container.mp4.tracks.some(t => !['alac', 'fLaC', 'lpcm', 'sowt', 'twos'].includes(t.codec)));
+
+const expectedMp3Lowpass = (kbps: number) =>
+  MP3_LOWPASS.find(([rate]) => kbps <= rate)?.[1] ?? MP3_LOWPASS[MP3_LOWPASS.length - 1][1];
+
+/** Identify the container from the file's first bytes and read its headers. */
+const readContainer = async (buffer: StoredBuffer, file: Blob | null): Promise<ContainerInfo> => {
+  if (buffer.wav) {
+    const { format, container } = buffer.wav;
+    return {
+      kind: 'wav',
+      description: `${container} WAVE, ${format.validBitsPerSample}-bit ${format.encoding === 'float' ? 'float' : 'PCM'}, ` +
+        `${format.sampleRate} Hz, ${format.channelCount} channel(s)`,
+      sampleRate: format.sampleRate,
+      bitsPerSample: format.validBitsPerSample,
+      encoding: format.encoding
+    };
+  }
+  if (!file) return { kind: 'other', description: 'Original file not available', sampleRate: null };
+
+  const mp4 = await parseMp4(file);
+  if (mp4 && mp4.tracks.length > 0) {
+    const track = mp4.tracks[0];
+    return {
+      kind: 'mp4',
+      description: `MP4 (${mp4.majorBrand}), ${track.description}` +
+        `${track.averageBitrate ? `, ${track.averageBitrate.toFixed(0)} kbps` : ''}, ${track.sampleRate} Hz, ` +
+        `${track.channelCount} channel(s)`,
+      sampleRate: track.sampleRate,
+      mp4
+    };
+  }
+  const mp3 = await parseMp3(file);
+  if (mp3) {
+    return {
+      kind: 'mp3',
+      description: `MPEG-${mp3.version} Layer ${'I'.repeat(mp3.layer)}, ${mp3.bitrate} kbps ${mp3.vbr ? 'VBR' : 'CBR'}, ` +
+        `${mp3.sampleRate} Hz, ${mp3.channelMode}`,
+      sampleRate: mp3.sampleRate,
+      mp3
+    };
+  }
+  return { kind: 'other', description: `Unrecognised container (${file.type || 'unknown type'})`, sampleRate: null };
+};
+
+const encoderSignatures = (buffer: StoredBuffer, container: ContainerInfo): EncoderSignature[] => {
+  const signatures: EncoderSignature[] = [];
+  if (container.kind === 'mp3') {
+    const { lame, vbrHeader, id3 } = container.mp3;
+    if (lame) {
+      signatures.push({
+        source: 'LAME tag',
+        value: `${lame.encoder}, ${lame.vbrMethod}${lame.lowpassHz ? `, lowpass ${lame.lowpassHz} Hz` : ''}`
+      });
+    }
+    if (vbrHeader) signatures.push({ source: 'VBR header', value: vbrHeader });
+    Object.entries(id3).forEach(([frame, value]) => signatures.push({ source: `ID3 ${frame}`, value }));
+  }
+  if (container.kind === 'mp4') {
+    Object.entries(container.mp4.tags).forEach(([name, value]) => signatures.push({ source: `MP4 ${name}`, value }));
+  }
+  const software = buffer.wav?.info?.ISFT;
+  if (software) signatures.push({ source: 'WAV INFO ISFT', value: software });
+  const bext = buffer.wav?.bext;
+  if (bext?.originator) signatures.push({ source: 'BWF originator', value: bext.originator });
+  if (bext?.codingHistory.trim()) signatures.push({ source: 'BWF coding history', value: bext.codingHistory.trim() });
+  return signatures;
+};
+
+const conclude = (
+  history: Omit<EncodingHistory, 'conclusions'>,
+  nativeRate: number
+): EncodingConclusion[] => {
+  const { container, signatures, bandwidth, frameGrids, upsampledFrom, bitDepth } = history;
+  const lossyContainer = isLossy(container);
+  const detectedGrids = frameGrids.filter(g => g.detected);
+  const strongest = (codec: CodecFamily) =>
+    frameGrids.filter(g => g.codec === codec).sort((a, b) => b.zScore - a.zScore)[0];
+  const gridEvidence = (grid: FrameGridTrace) =>
+    `${grid.codec.toUpperCase()} frame grid (${grid.hop} samples at ${grid.codecRate} Hz): top-band level swings ` +
+    `${grid.strength.toFixed(2)} dB per frame, ${grid.zScore.toFixed(1)} SD above periods no codec uses`;
+  const bandwidthEvidence = `Spectrum falls ${bandwidth.dropDb.toFixed(0)} dB across ${formatHz(bandwidth.cutoffHz)} ` +
+    `(Nyquist ${formatHz(nativeRate / 2)})`;
+  // A brick wall well below Nyquist that no lower sample rate explains
+  const codecLowpass = bandwidth.brickWall && bandwidth.cutoffHz < ANTI_ALIAS_FRACTION * (nativeRate / 2) && !upsampledFrom;
+
+  const conclusions: EncodingConclusion[] = [
+    {
+      topic: 'Container',
+      statement: container.description,
+      detected: null,
+      evidence: container.kind === 'mp3'
+        ? [
+            `${container.mp3.framesScanned} frame headers read; bitrates seen: ${container.mp3.bitrates.join(', ') || container.mp3.bitrate} kbps`,
+            `${container.mp3.samplesPerFrame} samples per frame`
+          ]
+        : container.kind === 'mp4'
+          ? [
+              `Brands: ${[container.mp4.majorBrand, ...container.mp4.compatibleBrands].join(', ')}`,
+              ...container.mp4.tracks.map(t => `stsd entry '${t.codec}': ${t.description}, ${t.sampleRate} Hz, ${t.channelCount} ch` +
+                `${t.audioObjectType !== null ? `, audio object type ${t.audioObjectType}` : ''}`)
+            ]
+          : []
+    },
+    {
+      topic: 'Encoder',
+      statement: signatures.length > 0 ? signatures.map(s => s.value.split('\n')[0]).join('; ') : 'No encoder signature in the headers',
+      detected: signatures.length > 0 ? true : null,
+      evidence: signatures.map(s => `${s.source}: ${s.value}`)
+    },
+    {
+      topic: 'Bandwidth',
+      statement: `Effective bandwidth ${formatHz(bandwidth.cutoffHz)}` +
+        `${bandwidth.brickWall ? ', ending in a brick-wall lowpass' : ', with a gradual roll-off'}`,
+      detected: null,
+      evidence: [bandwidthEvidence]
+    }
+  ];
+
+  const lossyEvidence = [
+    ...(lossyContainer ? [`The container holds a lossy stream: ${container.description}`] : []),
+    ...detectedGrids.map(gridEvidence),
+    ...(codecLowpass ? [`${bandwidthEvidence}: a lowpass typical of lossy encoders`] : [])
+  ];
+  conclusions.push({
+    topic: 'Lossy compression',
+    statement: lossyContainer
+      ? 'The file is lossy-compressed'
+      : detectedGrids.length > 0
+        ? `The audio was once ${detectedGrids.map(g => g.codec.toUpperCase()).join(' or ')}-compressed, then stored losslessly`
+        : codecLowpass
+          ? 'A codec-like lowpass suggests earlier lossy compression; no frame grid was found to confirm it'
+          : 'No trace of earlier lossy compression',
+    detected: lossyContainer || detectedGrids.length > 0 ? true : codecLowpass ? null : false,
+    evidence: lossyEvidence.length > 0
+      ? lossyEvidence
+      : [bandwidthEvidence, gridEvidence(strongest('mp3')), gridEvidence(strongest('aac'))]
+  });
+
+  // A codec's own lowpass can sit at a lower rate's Nyquist frequency too
+  const codecMayExplain = lossyContainer || detectedGrids.length > 0;
+  conclusions.push({
+    topic: 'Upsampling',
+    statement: upsampledFrom
+      ? codecMayExplain
+        ? `The cutoff matches ${upsampledFrom} Hz material, but the lossy encoder's lowpass may explain it`
+        : `Upsampled from ${upsampledFrom} Hz or lower to ${nativeRate} Hz`
+      : 'No sign of upsampling',
+    detected: upsampledFrom ? (codecMayExplain ? null : true) : false,
+    evidence: upsampledFrom
+      ? [`${bandwidthEvidence}, at the Nyquist frequency of ${upsampledFrom} Hz; nothing of the signal lies above it`]
+      : [bandwidthEvidence]
+  });
+
+  if (bitDepth) {
+    conclusions.push({
+      topic: 'Bit depth',
+      statement: bitDepth.padded
+        ? `Padded: ${bitDepth.effectiveBits} bits in use in a ${bitDepth.containerBits}-bit container`
+        : bitDepth.effectiveBits === null
+          ? `More than 24 bits in use (${bitDepth.containerBits}-bit container)`
+          : `All ${bitDepth.effectiveBits} bits in use`,
+      detected: bitDepth.padded,
+      evidence: bitDepth.effectiveBits === null
+        ? ['Samples fall between the steps of a 24-bit grid']
+        : [`The lowest ${24 - bitDepth.effectiveBits} bits of a 24-bit grid are zero in every sample`]
+    });
+  }
+
+  // Double compression: evidence of a generation before the current one
+  const doubleEvidence: string[] = [];
+  if (container.kind === 'mp3') {
+    const expected = expectedMp3Lowpass(container.mp3.bitrate);
+    if (bandwidth.cutoffHz < NARROWER_THAN_EXPECTED * expected) {
+      doubleEvidence.push(
+        `Bandwidth ${formatHz(bandwidth.cutoffHz)} is well below the ${formatHz(expected)} an encoder uses at ` +
+        `${container.mp3.bitrate} kbps: the audio was likely encoded at a lower bitrate before`
+      );
+    }
+    const lowpass = container.mp3.lame?.lowpassHz;
+    if (lowpass && bandwidth.cutoffHz < NARROWER_THAN_EXPECTED * lowpass) {
+      doubleEvidence.push(`The LAME tag records a ${formatHz(lowpass)} lowpass, but the audio ends at ${formatHz(bandwidth.cutoffHz)}`);
+    }
+  }
+  const currentFamily: CodecFamily | null = container.kind === 'mp3'
+    ? 'mp3'
+    : container.kind === 'mp4' && container.mp4.tracks.some(t => t.codec === 'mp4a') ? 'aac' : null;
+  detectedGrids
+    .filter(g => g.codec !== currentFamily)
+    .forEach(grid => {
+      if (lossyContainer || detectedGrids.length > 1) doubleEvidence.push(`${gridEvidence(grid)}, a different codec from the current one`);
+    });
+  conclusions.push({
+    topic: 'Double compression',
+    statement: doubleEvidence.length > 0
+      ? 'The audio went through lossy compression more than once'
+      : 'No evidence of more than one lossy generation',
+    detected: doubleEvidence.length > 0 ? true : lossyContainer || detectedGrids.length > 0 ? false : null,
+    evidence: doubleEvidence.length > 0 ? doubleEvidence : [bandwidthEvidence]
+  });
+
+  return conclusions;
+};
+
+/**
+ * Analyse the encoding history of a stored buffer. `file` is the original
+ * file as imported, needed for the headers of compressed formats.
+ */
+export const analyzeEncoding = async (
+  buffer: StoredBuffer,
+  file: Blob | null,
+  onProgress?: (fraction: number) => void
+): Promise<EncodingHistory> => {
+  const container = await readContainer(buffer, file);
+  // Compressed files are decoded at the analysis rate; judge them at their own
+  const nativeRate = container.sampleRate ?? buffer.sampleRate;
+  const samples = mixToMono(buffer);
+  onProgress?.(0.1);
+
+  const { spectrumDb, binHz } = await longTermSpectrum(samples, buffer.sampleRate);
+  // Above the native Nyquist frequency there is only the decoder's resampling
+  const nativeBins = Math.min(spectrumDb.length, Math.floor(nativeRate / 2 / binHz));
+  const bandwidth = estimateBandwidth(spectrumDb.subarray(0, nativeBins), binHz);
+  const upsampledFrom = upsamplingSource(bandwidth, nativeRate);
+  onProgress?.(0.3);
+
+  const codecRates = container.kind === 'mp3' || container.kind === 'mp4'
+    ? [nativeRate]
+    : Array.from(new Set([nativeRate, upsampledFrom ?? nativeRate, 44100, 48000]));
+  const frameGrids = await findFrameGrids(samples, buffer.sampleRate, bandwidth.cutoffHz, codecRates);
+  onProgress?.(0.9);
+
+  const bitDepth = container.kind === 'wav' ? estimateBitDepth(buffer, container.bitsPerSample) : null;
+  const history = {
+    bufferId: buffer.id,
+    fileName: buffer.name,
+    container,
+    signatures: encoderSignatures(buffer, container),
+    bandwidth,
+    spectrumDb: spectrumDb.slice(0, nativeBins),
+    binHz,
+    frameGrids,
+    upsampledFrom,
+    bitDepth
+  };
+  onProgress?.(1);
+  return { ...history, conclusions: conclude(history, nativeRate) };
+};
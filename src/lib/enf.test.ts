@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { extractEnf, matchReference, parseEnfCsv } from './enf';
+
+// A grid frequency that wanders randomly around 50 Hz, one value per second
+const gridFrequency = (seconds: number) => {
+  let seed = 7;
+  let value = 50;
+  return Array.from({ length: seconds + 1 }, () => {
+    seed = (seed * 16807) % 2147483647;
+    value += ((seed / 2147483647) * 2 - 1) * 0.004;
+    value += (50 - value) * 0.02;
+    return value;
+  });
+};
+
+const interpolate = (values: number[], t: number) => {
+  const i = Math.min(values.length - 2, Math.floor(t));
+  return values[i] + (t - i) * (values[i + 1] - values[i]);
+};
+
+/** Hum following `grid` from `start` seconds for `duration` seconds, in light noise. */
+const hum = (grid: number[], start: number, duration: number, sampleRate: number) => {
+  const samples = new Float32Array(Math.round(duration * sampleRate));
+  let phase = 0;
+  let seed = 3;
+  for (let i = 0; i < samples.length; i++) {
+    phase += (2 * Math.PI * interpolate(grid, start + i / sampleRate)) / sampleRate;
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = 0.05 * Math.sin(phase) + 0.01 * ((seed / 2147483647) * 2 - 1);
+  }
+  return samples;
+};
+
+describe('ENF', () => {
+  const grid = gridFrequency(1500);
+  const reference = { name: 'grid', startEpochMs: null, times: grid.map((_, i) => i), frequency: grid };
+
+  it('tracks the grid frequency of a mains hum', async () => {
+    const trace = await extractEnf(hum(grid, 100, 120, 8000), 8000);
+    expect(trace?.nominal).toBe(50);
+    const errors = trace!.times.map((t, i) => Math.abs(trace!.frequency[i] - interpolate(grid, 100 + t)));
+    expect(Math.max(...errors)).toBeLessThan(0.005);
+    expect(trace!.discontinuities).toEqual([]);
+  });
+
+  it('reports the hop it tracked with, not the one requested', async () => {
+    // 11025 Hz averages down to a baseband of 100.23 Hz, so a 1 s hop is 100 baseband samples
+    const trace = await extractEnf(hum(grid, 0, 30, 11025), 11025);
+    expect(trace!.hopSeconds).toBeCloseTo(100 / (11025 / 110), 9);
+    expect(trace!.times[1] - trace!.times[0]).toBeCloseTo(trace!.hopSeconds, 9);
+  });
+
+  it('finds where a recording sits in a reference', async () => {
+    const trace = await extractEnf(hum(grid, 700, 600, 11025), 11025);
+    const match = await matchReference(trace!, reference);
+    expect(Math.abs(match!.offsetSeconds - 700)).toBeLessThan(0.5);
+    expect(match!.correlation).toBeGreaterThan(0.95);
+  });
+
+  it('flags a phase jump where audio was cut out', async () => {
+    const sampleRate = 8000;
+    const whole = hum(grid, 200, 120, sampleRate);
+    // Remove 7 ms (a third of a mains cycle) at 60 s
+    const cut = Math.round(60 * sampleRate);
+    const spliced = new Float32Array(whole.length - 56);
+    spliced.set(whole.subarray(0, cut));
+    spliced.set(whole.subarray(cut + 56), cut);
+    const trace = await extractEnf(spliced, sampleRate);
+    const phaseJumps = trace!.discontinuities.filter(d => d.kind === 'phase');
+    expect(phaseJumps.length).toBeGreaterThan(0);
+    expect(phaseJumps.some(d => Math.abs(d.time - 60) < 4)).toBe(true);
+  });
+});
+
+describe('parseEnfCsv', () => {
+  it('reads dated rows and skips a header', () => {
+    const reference = parseEnfCsv('time,frequency\n2024-01-01T00:00:00Z,50.01\n2024-01-01T00:00:01Z,49.99\n', 'log');
+    expect(reference.startEpochMs).toBe(Date.parse('2024-01-01T00:00:00Z'));
+    expect(reference.times).toEqual([0, 1]);
+    expect(reference.frequency).toEqual([50.01, 49.99]);
+  });
+
+  it('takes a single column as one reading per second', () => {
+    expect(parseEnfCsv('50.0\n50.1\n50.2', 'log').times).toEqual([0, 1, 2]);
+  });
+
+  it('rejects times that go backwards', () => {
+    expect(() => parseEnfCsv('0;50\n2;50\n1;50', 'log')).toThrow(/not increasing/);
+  });
+});
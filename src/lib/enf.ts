@@ -0,0 +1,480 @@
+import { fft, hannWindow, interpolatePeak, toDb } from './fft';
+import { median, yieldToMain } from './util';
+
+// Electrical network frequency analysis. Mains hum picked up by a recording
+// follows the grid frequency, which drifts by a few tens of mHz around
+// 50 or 60 Hz in a pattern that is the same across a whole grid. Each mains
+// harmonic is shifted to 0 Hz, averaged down to a 100 Hz complex baseband
+// and tracked frame by frame with a zero-padded FFT; the phase of every
+// frame at the tracked frequency shows cuts and insertions as jumps that the
+// frequency drift cannot explain.
+
+export type MainsFrequency = 50 | 60;
+
+export interface EnfOptions {
+  // Mains frequency, or null to pick the one with the stronger hum
+  nominal: MainsFrequency | null;
+  // Harmonic to track (1 is the fundamental), or null for the cleanest one
+  harmonic: number | null;
+  frameSeconds: number;
+  hopSeconds: number;
+}
+
+export const DEFAULT_ENF_OPTIONS: EnfOptions = {
+  nominal: null,
+  harmonic: null,
+  frameSeconds: 4,
+  hopSeconds: 1
+};
+
+export interface EnfDiscontinuity {
+  time: number;
+  kind: 'phase' | 'frequency';
+  // Phase residual in radians of the tracked harmonic, or frequency step in Hz
+  magnitude: number;
+}
+
+export interface EnfTrace {
+  nominal: MainsFrequency;
+  harmonic: number;
+  // Hum level over the local noise at the tracked harmonic
+  snrDb: number;
+  // Spacing of the frames as tracked, which rounds the requested hop
+  hopSeconds: number;
+  // Frame centres in seconds
+  times: number[];
+  // Estimated grid frequency in Hz, on the fundamental's scale
+  frequency: number[];
+  // Phase at each frame centre in radians of the tracked harmonic
+  phase: number[];
+  // Frames where the hum stands clear of the noise
+  reliable: boolean[];
+  discontinuities: EnfDiscontinuity[];
+  meanFrequency: number;
+  stdFrequency: number;
+}
+
+export interface EnfReference {
+  name: string;
+  // Milliseconds since the epoch of the first row, when the CSV had dates
+  startEpochMs: number | null;
+  // Seconds from the first row
+  times: number[];
+  frequency: number[];
+}
+
+export interface EnfMatch {
+  // Position of the recording's start in the reference, in seconds
+  offsetSeconds: number;
+  correlation: number;
+  // Root-mean-square frequency difference after removing the mean offset, Hz
+  rmse: number;
+  overlapSeconds: number;
+  // Wall-clock start of the recording, when the reference is dated
+  startEpochMs: number | null;
+}
+
+const BASEBAND_RATE = 100;
+const MAX_HARMONIC = 4;
+// Deviation from nominal searched for, on the fundamental's scale
+const SEARCH_HZ = 0.5;
+const FFT_SIZE = 8192;
+const MIN_SNR_DB = 10;
+// Phase residuals (radians of the tracked harmonic) and frequency steps (Hz)
+// count as jumps above these floors and above several times their median
+const MIN_PHASE_JUMP = 0.6;
+const MIN_FREQUENCY_JUMP = 0.02;
+const JUMP_SPREADS = 6;
+// Shortest overlap with a reference that is worth scoring, in frames
+const MIN_OVERLAP_FRAMES = 30;
+const SAMPLES_PER_YIELD = 1 << 20;
+// Frame pairs compared between yields while matching a reference
+const PAIRS_PER_YIELD = 1 << 20;
+
+const wrap = (angle: number) => angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+
+/**
+ * Shift `frequency` to 0 Hz and average blocks of samples down to about
+ * BASEBAND_RATE. Block averaging has nulls at multiples of the output rate,
+ * which keeps far-off content from aliasing onto the hum.
+ */
+const toBaseband = async (samples: Float32Array, sampleRate: number, frequency: number) => {
+  const block = Math.max(1, Math.round(sampleRate / BASEBAND_RATE));
+  const length = Math.floor(samples.length / block);
+  const re = new Float64Array(length);
+  const im = new Float64Array(length);
+  // Rotating phasor instead of sin/cos per sample, renormalised every block
+  const stepRe = Math.cos((-2 * Math.PI * frequency) / sampleRate);
+  const stepIm = Math.sin((-2 * Math.PI * frequency) / sampleRate);
+  let rotRe = 1;
+  let rotIm = 0;
+
+  for (let b = 0; b < length; b++) {
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let i = b * block; i < (b + 1) * block; i++) {
+      sumRe += samples[i] * rotRe;
+      sumIm += samples[i] * rotIm;
+      const next = rotRe * stepRe - rotIm * stepIm;
+      rotIm = rotRe * stepIm + rotIm * stepRe;
+      rotRe = next;
+    }
+    const norm = Math.hypot(rotRe, rotIm);
+    rotRe /= norm;
+    rotIm /= norm;
+    re[b] = sumRe / block;
+    im[b] = sumIm / block;
+    if ((b * block) % SAMPLES_PER_YIELD < block) await yieldToMain();
+  }
+  return { re, im, rate: sampleRate / block };
+};
+
+interface FramePeak {
+  // Offset from the carrier in Hz
+  deviation: number;
+  snrDb: number;
+  phase: number;
+}
+
+/** Strongest component within ±`searchHz` of 0 Hz in one baseband frame. */
+const framePeak = (
+  baseband: { re: Float64Array; im: Float64Array; rate: number },
+  start: number,
+  window: Float64Array,
+  searchHz: number
+): FramePeak => {
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < window.length; i++) {
+    re[i] = baseband.re[start + i] * window[i];
+    im[i] = baseband.im[start + i] * window[i];
+  }
+  fft(re, im);
+
+  const binHz = baseband.rate / FFT_SIZE;
+  const span = Math.ceil(searchHz / binHz);
+  // Bins -span..span, negative frequencies wrapped from the top of the FFT
+  const power = Float64Array.from({ length: 2 * span + 1 }, (_, i) => {
+    const k = (i - span + FFT_SIZE) % FFT_SIZE;
+    return re[k] * re[k] + im[k] * im[k];
+  });
+  let peak = 1;
+  for (let i = 1; i < power.length - 1; i++) {
+    if (power[i] > power[peak]) peak = i;
+  }
+  const deviation = (interpolatePeak(power, peak) - span) * binHz;
+  // The search band lies within the main lobe of a hum, so the noise is
+  // taken from the bins one to two search widths beyond it on either side
+  const noise = Array.from({ length: 2 * span }, (_, i) => {
+    const offset = i < span ? -(2 * span + i) : 2 * span + i - span;
+    const k = (offset + FFT_SIZE) % FFT_SIZE;
+    return re[k] * re[k] + im[k] * im[k];
+  });
+
+  // Phase at the frame centre, demodulated at the estimated deviation
+  const centre = (window.length - 1) / 2;
+  let sumRe = 0;
+  let sumIm = 0;
+  for (let i = 0; i < window.length; i++) {
+    const angle = (-2 * Math.PI * deviation * (i - centre)) / baseband.rate;
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    const zRe = baseband.re[start + i] * window[i];
+    const zIm = baseband.im[start + i] * window[i];
+    sumRe += zRe * c - zIm * s;
+    sumIm += zRe * s + zIm * c;
+  }
+
+  return {
+    deviation,
+    snrDb: toDb(power[peak]) - toDb(median(noise)),
+    phase: Math.atan2(sumIm, sumRe)
+  };
+};
+
+// The hop is a whole number of baseband samples, so it can differ slightly
+// from the requested one
+const hopSamples = (options: EnfOptions, rate: number) => Math.max(1, Math.round(options.hopSeconds * rate));
+
+const trackFrames = (
+  baseband: { re: Float64Array; im: Float64Array; rate: number },
+  searchHz: number,
+  options: EnfOptions
+) => {
+  const frameLength = Math.round(options.frameSeconds * baseband.rate);
+  const hop = hopSamples(options, baseband.rate);
+  const window = hannWindow(frameLength);
+  const peaks: { centre: number; peak: FramePeak }[] = [];
+  for (let start = 0; start + frameLength <= baseband.re.length; start += hop) {
+    peaks.push({
+      centre: (start + (frameLength - 1) / 2) / baseband.rate,
+      peak: framePeak(baseband, start, window, searchHz)
+    });
+  }
+  return peaks;
+};
+
+/**
+ * Runs of consecutive flagged steps with the index of the largest step in
+ * each, so an edit smeared over several overlapping frames is reported once.
+ */
+const flaggedRuns = (steps: number[], flagged: boolean[]) => {
+  const runs: { first: number; last: number; peak: number }[] = [];
+  steps.forEach((step, i) => {
+    if (!flagged[i]) return;
+    const run = runs[runs.length - 1];
+    if (run && run.last === i - 1) {
+      run.last = i;
+      if (step > steps[run.peak]) run.peak = i;
+    } else {
+      runs.push({ first: i, last: i, peak: i });
+    }
+  });
+  return runs;
+};
+
+/**
+ * Frequency jumps between neighbouring frames, and phase jumps between
+ * frames `span` hops apart: far enough apart that neither window covers an
+ * edit between them, so the full jump shows rather than a smeared part.
+ */
+const findDiscontinuities = (
+  times: number[],
+  frequency: number[],
+  phase: number[],
+  reliable: boolean[],
+  nominal: number,
+  harmonic: number,
+  span: number
+): EnfDiscontinuity[] => {
+  const usable = (i: number, j: number) => j < times.length && reliable[i] && reliable[j];
+  const frequencySteps = times.map((_, i) => (usable(i, i + 1) ? Math.abs(frequency[i + 1] - frequency[i]) : 0));
+  // Phase advance predicted from the median frequency in between, which an
+  // edit disturbing one or two frames does not move; in harmonic radians
+  const phaseSteps = times.map((_, i) => {
+    const j = i + span;
+    if (!usable(i, j)) return 0;
+    const deviation = (median(frequency.slice(i, j + 1)) - nominal) * harmonic;
+    const predicted = 2 * Math.PI * deviation * (times[j] - times[i]);
+    return Math.abs(wrap(phase[j] - phase[i] - predicted));
+  });
+
+  const frequencySpread = median(frequencySteps.filter((_, i) => usable(i, i + 1)));
+  const frequencyLimit = Math.max(MIN_FREQUENCY_JUMP, JUMP_SPREADS * frequencySpread);
+  const phaseSpread = median(phaseSteps.filter((_, i) => usable(i, i + span)));
+  const phaseLimit = Math.max(MIN_PHASE_JUMP, JUMP_SPREADS * phaseSpread);
+  const frequencyJumps = flaggedRuns(frequencySteps, frequencySteps.map(step => step > frequencyLimit));
+  const phaseJumps = flaggedRuns(phaseSteps, phaseSteps.map(step => step > phaseLimit));
+
+  return [
+    ...frequencyJumps.map(({ peak }) => ({
+      time: (times[peak] + times[peak + 1]) / 2,
+      kind: 'frequency' as const,
+      magnitude: frequencySteps[peak]
+    })),
+    // Every flagged pair straddles the edit, so it lies mid-way across the run
+    ...phaseJumps.map(({ first, last, peak }) => ({
+      time: (times[first] + times[last + span]) / 2,
+      kind: 'phase' as const,
+      magnitude: phaseSteps[peak]
+    }))
+  ].sort((a, b) => a.time - b.time);
+};
+
+/** Mains frequency and harmonic with the clearest hum, with its SNR. */
+const chooseCarrier = async (samples: Float32Array, sampleRate: number, options: EnfOptions) => {
+  const nominals: MainsFrequency[] = options.nominal ? [options.nominal] : [50, 60];
+  const harmonics = options.harmonic
+    ? [options.harmonic]
+    : Array.from({ length: MAX_HARMONIC }, (_, i) => i + 1);
+  let best: { nominal: MainsFrequency; harmonic: number; snrDb: number } | null = null;
+
+  for (const nominal of nominals) {
+    for (const harmonic of harmonics) {
+      if (nominal * harmonic >= sampleRate / 2 - BASEBAND_RATE) continue;
+      const baseband = await toBaseband(samples, sampleRate, nominal * harmonic);
+      const frames = trackFrames(baseband, SEARCH_HZ * harmonic, options);
+      const snrDb = median(frames.map(f => f.peak.snrDb));
+      if (!best || snrDb > best.snrDb) best = { nominal, harmonic, snrDb };
+    }
+  }
+  return best;
+};
+
+/**
+ * Track the mains hum of a mono signal. Returns null when the recording is
+ * shorter than one analysis frame.
+ */
+export const extractEnf = async (
+  samples: Float32Array,
+  sampleRate: number,
+  options: EnfOptions = DEFAULT_ENF_OPTIONS
+): Promise<EnfTrace | null> => {
+  if (samples.length / sampleRate < options.frameSeconds) return null;
+  const carrier = await chooseCarrier(samples, sampleRate, options);
+  if (!carrier) return null;
+  const { nominal, harmonic } = carrier;
+
+  const baseband = await toBaseband(samples, sampleRate, nominal * harmonic);
+  const frames = trackFrames(baseband, SEARCH_HZ * harmonic, options);
+  const times = frames.map(f => f.centre);
+  const frequency = frames.map(f => nominal + f.peak.deviation / harmonic);
+  const phase = frames.map(f => f.peak.phase);
+  const reliable = frames.map(f => f.peak.snrDb >= MIN_SNR_DB);
+
+  const trusted = frequency.filter((_, i) => reliable[i]);
+  const meanFrequency = trusted.length > 0 ? trusted.reduce((sum, f) => sum + f, 0) / trusted.length : nominal;
+  const stdFrequency = trusted.length > 0
+    ? Math.sqrt(trusted.reduce((sum, f) => sum + (f - meanFrequency) ** 2, 0) / trusted.length)
+    : 0;
+
+  return {
+    nominal,
+    harmonic,
+    snrDb: carrier.snrDb,
+    hopSeconds: hopSamples(options, baseband.rate) / baseband.rate,
+    times,
+    frequency,
+    phase,
+    reliable,
+    discontinuities: findDiscontinuities(
+      times,
+      frequency,
+      phase,
+      reliable,
+      nominal,
+      harmonic,
+      Math.ceil(options.frameSeconds / options.hopSeconds) + 1
+    ),
+    meanFrequency,
+    stdFrequency
+  };
+};
+
+/**
+ * Parse a reference ENF log. Rows are `frequency` or `time,frequency`, with
+ * commas, semicolons or tabs; times are seconds or anything `Date.parse`
+ * understands. Rows without a numeric frequency, such as a header, are
+ * skipped. Single-column files are taken to hold one value per second.
+ */
+export const parseEnfCsv = (text: string, name: string): EnfReference => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim().split(/[,;\t]/).map(cell => cell.trim()))
+    .filter(cells => cells.length > 0 && cells[cells.length - 1] !== '' && !isNaN(Number(cells[cells.length - 1])));
+  if (rows.length < 2) throw new Error('The reference has fewer than two readings');
+
+  const frequency = rows.map(cells => Number(cells[cells.length - 1]));
+  if (rows[0].length === 1) {
+    return { name, startEpochMs: null, times: frequency.map((_, i) => i), frequency };
+  }
+
+  const numeric = rows.every(cells => !isNaN(Number(cells[0])));
+  const stamps = rows.map(cells => (numeric ? Number(cells[0]) * 1000 : Date.parse(cells[0])));
+  if (stamps.some(isNaN)) throw new Error('The reference has times that could not be read');
+  for (let i = 1; i < stamps.length; i++) {
+    if (stamps[i] <= stamps[i - 1]) throw new Error(`The reference times are not increasing at row ${i + 1}`);
+  }
+  return {
+    name,
+    startEpochMs: numeric ? null : stamps[0],
+    times: stamps.map(stamp => (stamp - stamps[0]) / 1000),
+    frequency
+  };
+};
+
+/** Reference frequency every `step` seconds from its first reading, linearly interpolated. */
+const resample = (reference: EnfReference, step: number) => {
+  const duration = reference.times[reference.times.length - 1];
+  const values = new Float64Array(Math.floor(duration / step) + 1);
+  let j = 0;
+  for (let i = 0; i < values.length; i++) {
+    const t = i * step;
+    while (j + 2 < reference.times.length && reference.times[j + 1] < t) j++;
+    const [t0, t1] = [reference.times[j], reference.times[j + 1]];
+    const fraction = Math.min(1, Math.max(0, (t - t0) / (t1 - t0)));
+    values[i] = reference.frequency[j] + fraction * (reference.frequency[j + 1] - reference.frequency[j]);
+  }
+  return values;
+};
+
+/**
+ * Slide the trace along the reference one hop at a time and keep the
+ * offset with the highest correlation over the reliable frames. Offsets
+ * where the two overlap only partly are allowed, down to a minimum overlap.
+ * Long references take many offsets, so the work yields to the main thread
+ * as it goes.
+ */
+export const matchReference = async (trace: EnfTrace, reference: EnfReference): Promise<EnfMatch | null> => {
+  const values = resample(reference, trace.hopSeconds);
+  // Trace frames sit at their centres; index 0 of the trace is its first centre
+  const firstCentre = trace.times[0] ?? 0;
+  const indices = Int32Array.from(trace.frequency.map((_, i) => i).filter(i => trace.reliable[i]));
+  const minOverlap = Math.min(MIN_OVERLAP_FRAMES, indices.length);
+  if (minOverlap < 2) return null;
+
+  // Reliable frames are in time order, so those overlapping the reference at
+  // any offset are a run of `indices`, from the first at or after a bound
+  const firstAtOrAfter = (bound: number) => {
+    let lo = 0;
+    let hi = indices.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (indices[mid] < bound) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  let best: EnfMatch | null = null;
+  let work = 0;
+  for (let offset = -trace.frequency.length + minOverlap; offset <= values.length - minOverlap; offset++) {
+    const from = firstAtOrAfter(-offset);
+    const to = firstAtOrAfter(values.length - offset);
+    const count = to - from;
+    if (count < minOverlap) continue;
+    work += count;
+    if (work >= PAIRS_PER_YIELD) {
+      work = 0;
+      await yieldToMain();
+    }
+
+    let meanA = 0;
+    let meanB = 0;
+    for (let p = from; p < to; p++) {
+      meanA += trace.frequency[indices[p]];
+      meanB += values[indices[p] + offset];
+    }
+    meanA /= count;
+    meanB /= count;
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let p = from; p < to; p++) {
+      const i = indices[p];
+      const a = trace.frequency[i] - meanA;
+      const b = values[i + offset] - meanB;
+      cov += a * b;
+      varA += a * a;
+      varB += b * b;
+    }
+    const correlation = varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+    if (best && correlation <= best.correlation) continue;
+
+    let squares = 0;
+    for (let p = from; p < to; p++) {
+      const i = indices[p];
+      squares += (trace.frequency[i] - meanA - (values[i + offset] - meanB)) ** 2;
+    }
+    const rmse = Math.sqrt(squares / count);
+    const offsetSeconds = offset * trace.hopSeconds - firstCentre;
+    best = {
+      offsetSeconds,
+      correlation,
+      rmse,
+      overlapSeconds: count * trace.hopSeconds,
+      startEpochMs: reference.startEpochMs !== null ? reference.startEpochMs + offsetSeconds * 1000 : null
+    };
+  }
+  return best;
+};
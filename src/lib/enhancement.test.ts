@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { StoredBuffer } from './bufferStore';
+import { DEFAULT_ENHANCEMENT_SETTINGS, EnhancementSettings, describeEnhancement, enhanceBuffer } from './enhancement';
+import { toDb } from './fft';
+
+const RATE = 16000;
+
+const sine = (hz: number, amplitude: number) => (i: number) => amplitude * Math.sin((2 * Math.PI * hz * i) / RATE);
+
+const signal = (seconds: number, ...parts: ((i: number) => number)[]) =>
+  Float32Array.from({ length: seconds * RATE }, (_, i) => parts.reduce((sum, part) => sum + part(i), 0));
+
+const whiteNoise = (amplitude: number, seed = 23) => () => amplitude * (2 * (seed = (seed * 16807) % 2147483647) / 2147483647 - 1);
+
+const stored = (samples: Float32Array): StoredBuffer => ({
+  id: 'b',
+  name: 'test.wav',
+  sampleRate: RATE,
+  channels: [samples],
+  length: samples.length,
+  duration: samples.length / RATE
+});
+
+// Level in dB of one frequency over [from, to) seconds
+const toneDb = (samples: Float32Array, hz: number, from = 0.5, to = 1.5) => {
+  let re = 0;
+  let im = 0;
+  for (let i = from * RATE; i < to * RATE; i++) {
+    re += samples[i] * Math.cos((2 * Math.PI * hz * i) / RATE);
+    im += samples[i] * Math.sin((2 * Math.PI * hz * i) / RATE);
+  }
+  const amplitude = (2 * Math.hypot(re, im)) / ((to - from) * RATE);
+  return toDb(amplitude * amplitude);
+};
+
+const rmsDb = (samples: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from * RATE; i < to * RATE; i++) sum += samples[i] * samples[i];
+  return toDb(sum / ((to - from) * RATE));
+};
+
+const enhance = (samples: Float32Array, changes: Partial<EnhancementSettings>, noise: [number, number] | null = null) =>
+  enhanceBuffer(
+    stored(samples),
+    { ...DEFAULT_ENHANCEMENT_SETTINGS, ...changes },
+    noise && { bufferId: 'b', start: noise[0], end: noise[1] },
+    'tester'
+  );
+
+describe('enhanceBuffer', () => {
+  it('repairs isolated clicks and leaves the original alone', async () => {
+    const clean = signal(1, sine(440, 0.3));
+    const clicked = Float32Array.from(clean);
+    const positions = [1000, 4000, 7000, 10000, 13000];
+    positions.forEach(i => { clicked[i] += 0.5; });
+
+    const { buffer, log } = await enhance(clicked, { declick: true });
+    expect(log.steps[0].result).toMatch(/^5 click\(s\) repaired/);
+    const worst = buffer.channels[0].reduce((max, v, i) => Math.max(max, Math.abs(v - clean[i])), 0);
+    expect(worst).toBeLessThan(0.01);
+    expect(clicked[positions[0]]).toBeCloseTo(clean[positions[0]] + 0.5, 6);
+  });
+
+  it('notches the mains hum and its harmonics but not the signal', async () => {
+    const samples = signal(2, sine(1000, 0.3), sine(50, 0.1), sine(150, 0.05));
+    const { buffer, log } = await enhance(samples, { humRemoval: true, mainsFrequency: 50 });
+    const output = buffer.channels[0];
+    expect(toneDb(samples, 50) - toneDb(output, 50)).toBeGreaterThan(30);
+    expect(toneDb(samples, 150) - toneDb(output, 150)).toBeGreaterThan(30);
+    expect(Math.abs(toneDb(output, 1000) - toneDb(samples, 1000))).toBeLessThan(0.5);
+    expect(log.steps[0].parameters.mainsHz).toBeCloseTo(50, 1);
+  });
+
+  it('filters below the high-pass and above the low-pass cutoff', async () => {
+    const samples = signal(2, sine(30, 0.2), sine(1000, 0.2), sine(6000, 0.2));
+    const { buffer, log } = await enhance(samples, { highPass: true, highPassHz: 80, lowPass: true, lowPassHz: 3000 });
+    const output = buffer.channels[0];
+    expect(toneDb(samples, 30) - toneDb(output, 30)).toBeGreaterThan(30);
+    expect(toneDb(samples, 6000) - toneDb(output, 6000)).toBeGreaterThan(30);
+    expect(Math.abs(toneDb(output, 1000) - toneDb(samples, 1000))).toBeLessThan(0.5);
+    expect(log.steps.map(step => step.name)).toEqual(['High-pass filter', 'Low-pass filter']);
+  });
+
+  // Subtraction leaves musical noise where a frame's noise peaks above the profile
+  for (const [method, minimumDb] of [['wiener', 10], ['subtraction', 6]] as const) {
+    it(`reduces stationary noise with ${method} and keeps the tone`, async () => {
+      const tone = sine(1000, 0.3);
+      const samples = signal(4, whiteNoise(0.05), i => (i >= RATE && i < 3 * RATE ? tone(i) : 0));
+      const { buffer, log } = await enhance(samples, { noiseReduction: true, method, reductionDb: 15 }, [0, 0.9]);
+      const output = buffer.channels[0];
+      expect(rmsDb(samples, 3.2, 4) - rmsDb(output, 3.2, 4)).toBeGreaterThan(minimumDb);
+      expect(Math.abs(toneDb(output, 1000, 1.5, 2.5) - toneDb(samples, 1000, 1.5, 2.5))).toBeLessThan(1);
+      expect(describeEnhancement(log)[0]).toMatch(/^Noise reduction: Noise profile from 0\.000–0\.900 s/);
+    });
+  }
+
+  it('needs a noise region of the same buffer for noise reduction', async () => {
+    await expect(enhance(signal(1, whiteNoise(0.05)), { noiseReduction: true })).rejects.toThrow(/noise-only region/);
+  });
+
+  it('keeps the length and names the copy', async () => {
+    const { buffer, log } = await enhance(signal(1, sine(440, 0.3)), {});
+    expect(buffer).toMatchObject({ id: 'b.enhanced', name: 'test-enhanced.wav', length: RATE });
+    expect(log).toMatchObject({ bufferId: 'b', operator: 'tester', steps: [] });
+  });
+});
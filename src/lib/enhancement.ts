@@ -0,0 +1,446 @@
+import { TimeRegion } from '../types/audio';
+import { StoredBuffer, mixToMono } from './bufferStore';
+import { butterworthSections, notchSection, processZeroPhase } from './biquad';
+import { DEFAULT_ENF_OPTIONS, MainsFrequency, extractEnf } from './enf';
+import { fft, ifft, nextPowerOfTwo } from './fft';
+import { median, yieldToMain } from './util';
+
+// Offline enhancement of a stored buffer for listening: de-clicking, a notch
+// comb on the mains hum, high- and low-pass filters and spectral noise
+// reduction against a noise profile taken from a region the user marks as
+// noise only. The original is never touched; the result is a separate
+// buffer of the same length, so positions carry over between the two. Every
+// step records the exact parameters it ran with, for the report.
+
+export type NoiseReductionMethod = 'subtraction' | 'wiener';
+
+export const NOISE_REDUCTION_LABELS: Record<NoiseReductionMethod, string> = {
+  subtraction: 'Spectral subtraction',
+  wiener: 'Wiener filter'
+};
+
+export interface EnhancementSettings {
+  declick: boolean;
+  // Clicks stand out from the local curvature by this many robust deviations
+  declickThreshold: number;
+  humRemoval: boolean;
+  // Mains frequency, or null to measure it from the hum
+  mainsFrequency: MainsFrequency | null;
+  humHarmonics: number;
+  humQ: number;
+  highPass: boolean;
+  highPassHz: number;
+  lowPass: boolean;
+  lowPassHz: number;
+  noiseReduction: boolean;
+  method: NoiseReductionMethod;
+  // Deepest attenuation applied to any time-frequency cell
+  reductionDb: number;
+  // Spectral subtraction only: multiple of the noise profile removed
+  overSubtraction: number;
+}
+
+export const DEFAULT_ENHANCEMENT_SETTINGS: EnhancementSettings = {
+  declick: false,
+  declickThreshold: 8,
+  humRemoval: false,
+  mainsFrequency: null,
+  humHarmonics: 8,
+  humQ: 35,
+  highPass: false,
+  highPassHz: 80,
+  lowPass: false,
+  lowPassHz: 8000,
+  noiseReduction: false,
+  method: 'wiener',
+  reductionDb: 15,
+  overSubtraction: 2
+};
+
+export interface EnhancementStep {
+  name: string;
+  parameters: Record<string, string | number>;
+  // What the step found or changed, in words
+  result: string;
+}
+
+export interface EnhancementExport {
+  fileName: string;
+  sha256: string;
+  md5: string;
+  timestamp: string;
+}
+
+export interface EnhancementLog {
+  bufferId: string;
+  fileName: string;
+  sampleRate: number;
+  channels: number;
+  operator: string;
+  timestamp: string;
+  // Steps in the order they ran
+  steps: EnhancementStep[];
+  exports: EnhancementExport[];
+}
+
+export interface Enhancement {
+  settings: EnhancementSettings;
+  // Same id scheme as the original, with '.enhanced' appended; not in the buffer store
+  buffer: StoredBuffer;
+  log: EnhancementLog;
+}
+
+// Differences of the curvature are judged against blocks this long
+const DECLICK_BLOCK = 2048;
+// Spans longer than this are transients, not clicks
+const MAX_CLICK_SECONDS = 0.002;
+// Flagged samples closer than this belong to one click
+const CLICK_GAP = 4;
+// Samples repaired either side of the flagged ones
+const CLICK_MARGIN = 2;
+// Robust deviation floor, so digital silence does not make every sample a click
+const MIN_CURVATURE = 1e-5;
+const MAD_TO_SIGMA = 1.4826;
+// Notches and cutoffs stay below this fraction of the sample rate
+const MAX_FILTER_FRACTION = 0.45;
+const STFT_SECONDS = 0.04;
+const STFT_OVERLAP = 4;
+// Decision-directed smoothing of the a priori SNR (Ephraim and Malah)
+const WIENER_SMOOTHING = 0.98;
+const MIN_PROFILE_FRAMES = 4;
+const YIELD_FRAMES = 256;
+
+// Cubic through the two samples either side of [start, end]
+const interpolateSpan = (samples: Float32Array, start: number, end: number) => {
+  const xs = [start - 2, start - 1, end + 1, end + 2];
+  const ys = xs.map(x => samples[x]);
+  for (let i = start; i <= end; i++) {
+    let value = 0;
+    for (let j = 0; j < 4; j++) {
+      let weight = 1;
+      for (let m = 0; m < 4; m++) {
+        if (m !== j) weight *= (i - xs[m]) / (xs[j] - xs[m]);
+      }
+      value += weight * ys[j];
+    }
+    samples[i] = value;
+  }
+};
+
+/** Repair clicks in place; returns the number of clicks and samples replaced. */
+const declick = (samples: Float32Array, sampleRate: number, threshold: number) => {
+  const n = samples.length;
+  const curvature = new Float32Array(n);
+  for (let i = 1; i < n - 1; i++) {
+    curvature[i] = Math.abs(samples[i - 1] - 2 * samples[i] + samples[i + 1]);
+  }
+
+  const flagged: number[] = [];
+  for (let block = 0; block < n; block += DECLICK_BLOCK) {
+    const part = curvature.subarray(block, Math.min(n, block + DECLICK_BLOCK));
+    const limit = threshold * Math.max(MIN_CURVATURE, MAD_TO_SIGMA * median(part));
+    part.forEach((value, i) => {
+      if (value > limit) flagged.push(block + i);
+    });
+  }
+
+  const maxSpan = Math.max(1, Math.round(MAX_CLICK_SECONDS * sampleRate));
+  let clicks = 0;
+  let repaired = 0;
+  for (let i = 0; i < flagged.length;) {
+    let j = i;
+    while (j + 1 < flagged.length && flagged[j + 1] - flagged[j] <= CLICK_GAP) j++;
+    const start = flagged[i] - CLICK_MARGIN;
+    const end = flagged[j] + CLICK_MARGIN;
+    if (end - start + 1 <= maxSpan && start >= 2 && end < n - 2) {
+      interpolateSpan(samples, start, end);
+      clicks++;
+      repaired += end - start + 1;
+    }
+    i = j + 1;
+  }
+  return { clicks, repaired };
+};
+
+// Periodic square-root Hann, so analysis times synthesis is a Hann window
+const sqrtHann = (size: number) => {
+  const w = new Float64Array(size);
+  for (let i = 0; i < size; i++) w[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+  return w;
+};
+
+interface NoiseReductionParameters {
+  method: NoiseReductionMethod;
+  floor: number;
+  overSubtraction: number;
+  fftSize: number;
+  hop: number;
+  window: Float64Array;
+}
+
+const frameStarts = (length: number, fftSize: number, hop: number) => {
+  const starts: number[] = [];
+  for (let start = hop - fftSize; start < length; start += hop) starts.push(start);
+  return starts;
+};
+
+const frameSpectrum = (samples: Float32Array, start: number, window: Float64Array) => {
+  const re = new Float64Array(window.length);
+  const im = new Float64Array(window.length);
+  for (let i = 0; i < window.length; i++) {
+    const index = start + i;
+    if (index >= 0 && index < samples.length) re[i] = samples[index] * window[i];
+  }
+  fft(re, im);
+  return { re, im };
+};
+
+/** Mean power spectrum of the frames that lie wholly inside [from, to). */
+const noiseProfile = (samples: Float32Array, from: number, to: number, { fftSize, hop, window }: NoiseReductionParameters) => {
+  const bins = fftSize / 2 + 1;
+  const profile = new Float64Array(bins);
+  let frames = 0;
+  for (let start = from; start + fftSize <= to; start += hop) {
+    const { re, im } = frameSpectrum(samples, start, window);
+    for (let k = 0; k < bins; k++) profile[k] += re[k] * re[k] + im[k] * im[k];
+    frames++;
+  }
+  for (let k = 0; k < bins; k++) profile[k] /= Math.max(1, frames);
+  return { profile, frames };
+};
+
+/**
+ * Short-time spectral gain against a noise profile, resynthesised by
+ * weighted overlap-add. With every gain at 1 the input comes back exactly.
+ */
+const reduceNoise = async (samples: Float32Array, profile: Float64Array, parameters: NoiseReductionParameters) => {
+  const { method, floor, overSubtraction, fftSize, hop, window } = parameters;
+  const bins = fftSize / 2 + 1;
+  const output = new Float64Array(samples.length);
+  const norm = new Float64Array(samples.length);
+  const gain = new Float64Array(bins);
+  const previous = new Float64Array(bins);
+  const starts = frameStarts(samples.length, fftSize, hop);
+
+  for (let f = 0; f < starts.length; f++) {
+    const start = starts[f];
+    const { re, im } = frameSpectrum(samples, start, window);
+    for (let k = 0; k < bins; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      const noise = profile[k] + 1e-20;
+      let g: number;
+      if (method === 'subtraction') {
+        g = Math.sqrt(Math.max(0, 1 - (overSubtraction * noise) / (power + 1e-20)));
+      } else {
+        const posterior = power / noise;
+        const prior = f === 0
+          ? Math.max(0, posterior - 1)
+          : WIENER_SMOOTHING * (previous[k] / noise) + (1 - WIENER_SMOOTHING) * Math.max(0, posterior - 1);
+        g = prior / (1 + prior);
+      }
+      gain[k] = Math.max(floor, g);
+      previous[k] = gain[k] * gain[k] * power;
+    }
+    // Mirror the gains onto the negative frequencies so the frame stays real
+    for (let k = 0; k < fftSize; k++) {
+      const g = gain[k < bins ? k : fftSize - k];
+      re[k] *= g;
+      im[k] *= g;
+    }
+    ifft(re, im);
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      if (index < 0 || index >= samples.length) continue;
+      output[index] += re[i] * window[i];
+      norm[index] += window[i] * window[i];
+    }
+    if (f % YIELD_FRAMES === YIELD_FRAMES - 1) await yieldToMain();
+  }
+
+  return Float32Array.from(output, (value, i) => (norm[i] > 1e-9 ? value / norm[i] : samples[i]));
+};
+
+const describeRegion = (region: TimeRegion) => `${region.start.toFixed(3)}–${region.end.toFixed(3)} s`;
+
+/**
+ * Render an enhanced copy of `buffer` with the enabled steps, in the order
+ * de-click, hum removal, high-pass, low-pass, noise reduction. Noise
+ * reduction needs `noiseRegion`, a span of the same buffer holding noise
+ * only; its profile is taken after the earlier steps have run.
+ */
+export const enhanceBuffer = async (
+  buffer: StoredBuffer,
+  settings: EnhancementSettings,
+  noiseRegion: TimeRegion | null,
+  operator: string,
+  onProgress?: (fraction: number) => void
+): Promise<Enhancement> => {
+  const { sampleRate } = buffer;
+  const channels = buffer.channels.map(channel => Float32Array.from(channel));
+  const steps: EnhancementStep[] = [];
+  const enabled = [settings.declick, settings.humRemoval, settings.highPass, settings.lowPass, settings.noiseReduction]
+    .filter(Boolean).length;
+  let done = 0;
+  const stepDone = async () => {
+    onProgress?.(++done / Math.max(1, enabled));
+    await yieldToMain();
+  };
+
+  if (settings.noiseReduction) {
+    if (!noiseRegion || noiseRegion.bufferId !== buffer.id) {
+      throw new Error('Noise reduction needs a noise-only region of this file selected as the profile');
+    }
+  }
+
+  if (settings.declick) {
+    let clicks = 0;
+    let repaired = 0;
+    channels.forEach(channel => {
+      const result = declick(channel, sampleRate, settings.declickThreshold);
+      clicks += result.clicks;
+      repaired += result.repaired;
+    });
+    steps.push({
+      name: 'De-click',
+      parameters: {
+        detector: 'second difference against the median absolute deviation of its block',
+        thresholdSigma: settings.declickThreshold,
+        blockSamples: DECLICK_BLOCK,
+        maxClickMs: MAX_CLICK_SECONDS * 1000,
+        marginSamples: CLICK_MARGIN,
+        repair: 'cubic interpolation from two samples either side'
+      },
+      result: `${clicks} click(s) repaired, ${repaired} sample(s) replaced over ${channels.length} channel(s)`
+    });
+    await stepDone();
+  }
+
+  if (settings.humRemoval) {
+    const trace = await extractEnf(mixToMono({ ...buffer, channels }), sampleRate, {
+      ...DEFAULT_ENF_OPTIONS,
+      nominal: settings.mainsFrequency
+    });
+    const mainsHz = trace ? trace.meanFrequency : settings.mainsFrequency;
+    if (mainsHz === null) {
+      steps.push({
+        name: 'Hum removal',
+        parameters: { mainsHz: 'detect' },
+        result: 'No mains hum found; not applied. Set the mains frequency to remove it anyway.'
+      });
+    } else {
+      const harmonics = Array.from({ length: settings.humHarmonics }, (_, i) => (i + 1) * mainsHz)
+        .filter(f => f < MAX_FILTER_FRACTION * sampleRate);
+      const sections = harmonics.map(f => notchSection(sampleRate, f, settings.humQ));
+      channels.forEach((channel, c) => {
+        channels[c] = processZeroPhase(sections, channel);
+      });
+      steps.push({
+        name: 'Hum removal',
+        parameters: {
+          mainsHz: Number(mainsHz.toFixed(3)),
+          mainsSource: trace
+            ? `measured from the ENF trace (harmonic ${trace.harmonic}, ${trace.snrDb.toFixed(1)} dB SNR)`
+            : 'set by the operator',
+          harmonics: harmonics.length,
+          q: settings.humQ,
+          filter: 'second-order IIR notches, run forwards and backwards (zero phase)'
+        },
+        result: `Notches at ${harmonics.map(f => f.toFixed(2)).join(', ')} Hz`
+      });
+    }
+    await stepDone();
+  }
+
+  const filters = [['highPass', 'highpass', settings.highPassHz], ['lowPass', 'lowpass', settings.lowPassHz]] as const;
+  for (const [key, type, frequency] of filters) {
+    if (!settings[key]) continue;
+    const cutoffHz = Math.min(frequency, MAX_FILTER_FRACTION * sampleRate);
+    const sections = butterworthSections(sampleRate, type, cutoffHz);
+    channels.forEach((channel, c) => {
+      channels[c] = processZeroPhase(sections, channel);
+    });
+    steps.push({
+      name: type === 'highpass' ? 'High-pass filter' : 'Low-pass filter',
+      parameters: {
+        cutoffHz,
+        filter: 'fourth-order Butterworth, run forwards and backwards (zero phase)',
+        slopeDbPerOctave: 48
+      },
+      result: `Removed content ${type === 'highpass' ? 'below' : 'above'} ${cutoffHz} Hz (−6 dB at the cutoff)`
+    });
+    await stepDone();
+  }
+
+  if (settings.noiseReduction && noiseRegion) {
+    const fftSize = nextPowerOfTwo(Math.round(STFT_SECONDS * sampleRate));
+    const parameters: NoiseReductionParameters = {
+      method: settings.method,
+      floor: 10 ** (-settings.reductionDb / 20),
+      overSubtraction: settings.overSubtraction,
+      fftSize,
+      hop: fftSize / STFT_OVERLAP,
+      window: sqrtHann(fftSize)
+    };
+    const from = Math.max(0, Math.floor(noiseRegion.start * sampleRate));
+    const to = Math.min(buffer.length, Math.ceil(noiseRegion.end * sampleRate));
+    let profileFrames = 0;
+    for (let c = 0; c < channels.length; c++) {
+      const { profile, frames } = noiseProfile(channels[c], from, to, parameters);
+      if (frames < MIN_PROFILE_FRAMES) {
+        throw new Error(
+          `The noise profile region must be at least ${(((MIN_PROFILE_FRAMES - 1) * parameters.hop + fftSize) / sampleRate).toFixed(2)} s long`
+        );
+      }
+      profileFrames = frames;
+      channels[c] = await reduceNoise(channels[c], profile, parameters);
+      onProgress?.((done + (c + 1) / channels.length) / Math.max(1, enabled));
+    }
+    steps.push({
+      name: 'Noise reduction',
+      parameters: {
+        method: NOISE_REDUCTION_LABELS[settings.method],
+        noiseProfile: describeRegion(noiseRegion),
+        profileFrames,
+        fftSize,
+        hopSamples: parameters.hop,
+        window: 'square-root Hann, weighted overlap-add',
+        maxReductionDb: settings.reductionDb,
+        ...(settings.method === 'subtraction'
+          ? { overSubtraction: settings.overSubtraction }
+          : { priorSnrSmoothing: WIENER_SMOOTHING })
+      },
+      result: `Noise profile from ${describeRegion(noiseRegion)} (${profileFrames} frames per channel)`
+    });
+    await stepDone();
+  }
+
+  onProgress?.(1);
+  return {
+    settings,
+    buffer: {
+      id: `${buffer.id}.enhanced`,
+      name: buffer.name.replace(/(\.\w+)?$/, '-enhanced.wav'),
+      sampleRate,
+      channels,
+      length: buffer.length,
+      duration: buffer.duration
+    },
+    log: {
+      bufferId: buffer.id,
+      fileName: buffer.name,
+      sampleRate,
+      channels: channels.length,
+      operator,
+      timestamp: new Date().toISOString(),
+      steps,
+      exports: []
+    }
+  };
+};
+
+/** One line per step, for file comments and plain-text summaries. */
+export const describeEnhancement = (log: EnhancementLog) =>
+  log.steps.map(step => {
+    const parameters = Object.entries(step.parameters).map(([key, value]) => `${key}=${value}`).join('; ');
+    return `${step.name}: ${step.result} [${parameters}]`;
+  });
@@ -0,0 +1,413 @@
+import { fft, hannWindow, hzToMel, melToHz } from './fft';
+import { AudioSource } from '../types/audio';
+import { bufferStore, mixToMono } from './bufferStore';
+import { yieldToMain } from './util';
+
+// Frame-by-frame acoustic features of a decoded signal: log-mel spectrum,
+// MFCCs with first and second deltas, spectral shape descriptors,
+// zero-crossing rate, RMS and chroma. Frames start every `hopSize` samples,
+// the same layout the analysis pipeline uses, so frame indices line up.
+
+export interface FeatureOptions {
+  frameSize: number;
+  hopSize: number;
+  melBands: number;
+  mfccCount: number;
+  // Fraction of spectral energy below the rolloff frequency
+  rolloffFraction: number;
+  // Frequency range the chroma bins are taken from
+  chromaMinFrequency: number;
+  chromaMaxFrequency: number;
+}
+
+export const DEFAULT_FEATURE_OPTIONS: FeatureOptions = {
+  frameSize: 2048,
+  hopSize: 512,
+  melBands: 40,
+  mfccCount: 13,
+  rolloffFraction: 0.85,
+  chromaMinFrequency: 55,
+  chromaMaxFrequency: 5000
+};
+
+export const CHROMA_LABELS = ['C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯', 'A', 'A♯', 'B'];
+
+/**
+ * Features of every frame. Multi-valued features are stored row-major, one
+ * row per frame (`logMel[f * melBands + b]`).
+ */
+export interface FeatureFrames {
+  sampleRate: number;
+  hopSeconds: number;
+  frameCount: number;
+  melBands: number;
+  mfccCount: number;
+  // Mel band energies in dB
+  logMel: Float32Array;
+  mfcc: Float32Array;
+  deltaMfcc: Float32Array;
+  deltaDeltaMfcc: Float32Array;
+  // Energy per pitch class, scaled so the strongest class of a frame is 1
+  chroma: Float32Array;
+  // Hz
+  centroid: Float32Array;
+  bandwidth: Float32Array;
+  rolloff: Float32Array;
+  // Geometric over arithmetic mean of the power spectrum, 0 (tonal) to 1 (white)
+  flatness: Float32Array;
+  // Sum of magnitude increases since the previous frame
+  flux: Float32Array;
+  // Sign changes per sample pair
+  zcr: Float32Array;
+  // Linear RMS amplitude of the unwindowed frame
+  rms: Float32Array;
+}
+
+export interface FeatureStats {
+  mean: number;
+  std: number;
+}
+
+/** Mean and spread of every feature over a span of frames. */
+export interface FeatureSummary {
+  start: number;
+  end: number;
+  frameCount: number;
+  mfcc: FeatureStats[];
+  deltaMfcc: FeatureStats[];
+  deltaDeltaMfcc: FeatureStats[];
+  logMel: number[];
+  chroma: number[];
+  centroid: FeatureStats;
+  bandwidth: FeatureStats;
+  rolloff: FeatureStats;
+  flatness: FeatureStats;
+  flux: FeatureStats;
+  zcr: FeatureStats;
+  rmsDb: FeatureStats;
+}
+
+const EPSILON = 1e-12;
+const FRAMES_PER_YIELD = 256;
+
+/** Triangular mel filters over the FFT bins, from 0 Hz to Nyquist. */
+const melFilterbank = (bands: number, fftSize: number, sampleRate: number) => {
+  const bins = fftSize / 2 + 1;
+  const maxMel = hzToMel(sampleRate / 2);
+  const edges = Array.from({ length: bands + 2 }, (_, i) => (melToHz((i / (bands + 1)) * maxMel) * fftSize) / sampleRate);
+  return Array.from({ length: bands }, (_, b) => {
+    const [low, centre, high] = [edges[b], edges[b + 1], edges[b + 2]];
+    const weights = new Float64Array(bins);
+    for (let k = Math.floor(low); k <= Math.min(bins - 1, Math.ceil(high)); k++) {
+      weights[k] = k <= centre
+        ? Math.max(0, (k - low) / (centre - low))
+        : Math.max(0, (high - k) / (high - centre));
+    }
+    return weights;
+  });
+};
+
+/** Orthonormal DCT-II basis, `count` rows of length `size`. */
+const dctBasis = (count: number, size: number) =>
+  Array.from({ length: count }, (_, n) => {
+    const scale = Math.sqrt((n === 0 ? 1 : 2) / size);
+    return Float64Array.from({ length: size }, (_, b) => scale * Math.cos((Math.PI * n * (b + 0.5)) / size));
+  });
+
+/** Regression deltas over ±2 frames, repeating the edge frames. */
+const deltas = (values: Float32Array, frameCount: number, width: number) => {
+  const out = new Float32Array(values.length);
+  const at = (f: number, i: number) => values[Math.max(0, Math.min(frameCount - 1, f)) * width + i];
+  for (let f = 0; f < frameCount; f++) {
+    for (let i = 0; i < width; i++) {
+      out[f * width + i] = ((at(f + 1, i) - at(f - 1, i)) + 2 * (at(f + 2, i) - at(f - 2, i))) / 10;
+    }
+  }
+  return out;
+};
+
+export const frameCountFor = (length: number, options: Pick<FeatureOptions, 'frameSize' | 'hopSize'>) =>
+  Math.max(1, Math.ceil((length - options.frameSize) / options.hopSize) + 1);
+
+/**
+ * Compute every feature for every frame of a mono signal. Yields to the
+ * browser between batches of frames and reports progress from 0 to 1.
+ */
+export const extractFeatures = async (
+  samples: Float32Array,
+  sampleRate: number,
+  options: FeatureOptions = DEFAULT_FEATURE_OPTIONS,
+  onProgress?: (fraction: number) => void
+): Promise<FeatureFrames> => {
+  const { frameSize, hopSize, melBands, mfccCount } = options;
+  const bins = frameSize / 2 + 1;
+  const binHz = sampleRate / frameSize;
+  const frameCount = frameCountFor(samples.length, options);
+  const window = hannWindow(frameSize);
+  const filters = melFilterbank(melBands, frameSize, sampleRate);
+  const dct = dctBasis(mfccCount, melBands);
+
+  // Pitch class of every bin inside the chroma range, -1 outside it
+  const pitchClass = Int8Array.from({ length: bins }, (_, k) => {
+    const hz = k * binHz;
+    if (hz < options.chromaMinFrequency || hz > options.chromaMaxFrequency) return -1;
+    return (((Math.round(12 * Math.log2(hz / 440)) + 69) % 12) + 12) % 12;
+  });
+
+  const features: FeatureFrames = {
+    sampleRate,
+    hopSeconds: hopSize / sampleRate,
+    frameCount,
+    melBands,
+    mfccCount,
+    logMel: new Float32Array(frameCount * melBands),
+    mfcc: new Float32Array(frameCount * mfccCount),
+    deltaMfcc: new Float32Array(0),
+    deltaDeltaMfcc: new Float32Array(0),
+    chroma: new Float32Array(frameCount * 12),
+    centroid: new Float32Array(frameCount),
+    bandwidth: new Float32Array(frameCount),
+    rolloff: new Float32Array(frameCount),
+    flatness: new Float32Array(frameCount),
+    flux: new Float32Array(frameCount),
+    zcr: new Float32Array(frameCount),
+    rms: new Float32Array(frameCount)
+  };
+
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const power = new Float64Array(bins);
+  const magnitude = new Float64Array(bins);
+  const previous = new Float64Array(bins);
+  const mel = new Float64Array(melBands);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hopSize;
+    const end = Math.min(start + frameSize, samples.length);
+
+    // Time domain: RMS and zero crossings
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = start; i < end; i++) {
+      sumSquares += samples[i] * samples[i];
+      if (i > start && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+    }
+    features.rms[f] = end > start ? Math.sqrt(sumSquares / (end - start)) : 0;
+    features.zcr[f] = end - start > 1 ? crossings / (end - start - 1) : 0;
+
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = start + i < end ? samples[start + i] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let powerSum = 0;
+    let magnitudeSum = 0;
+    let weightedHz = 0;
+    let logPowerSum = 0;
+    let flux = 0;
+    for (let k = 0; k < bins; k++) {
+      power[k] = re[k] * re[k] + im[k] * im[k];
+      magnitude[k] = Math.sqrt(power[k]);
+      powerSum += power[k];
+      magnitudeSum += magnitude[k];
+      weightedHz += k * binHz * magnitude[k];
+      logPowerSum += Math.log(power[k] + EPSILON);
+      if (f > 0) flux += Math.max(0, magnitude[k] - previous[k]);
+      previous[k] = magnitude[k];
+    }
+
+    // Spectral shape
+    const centroid = magnitudeSum > 0 ? weightedHz / magnitudeSum : 0;
+    let spread = 0;
+    for (let k = 0; k < bins; k++) spread += (k * binHz - centroid) ** 2 * magnitude[k];
+    features.centroid[f] = centroid;
+    features.bandwidth[f] = magnitudeSum > 0 ? Math.sqrt(spread / magnitudeSum) : 0;
+    features.flatness[f] = powerSum > 0 ? Math.exp(logPowerSum / bins) / (powerSum / bins + EPSILON) : 0;
+    features.flux[f] = flux;
+
+    let cumulative = 0;
+    let rolloffBin = bins - 1;
+    for (let k = 0; k < bins; k++) {
+      cumulative += power[k];
+      if (cumulative >= options.rolloffFraction * powerSum) {
+        rolloffBin = k;
+        break;
+      }
+    }
+    features.rolloff[f] = powerSum > 0 ? rolloffBin * binHz : 0;
+
+    // Log-mel and cepstrum
+    for (let b = 0; b < melBands; b++) {
+      let energy = 0;
+      const weights = filters[b];
+      for (let k = 0; k < bins; k++) energy += weights[k] * power[k];
+      mel[b] = 10 * Math.log10(energy + EPSILON);
+      features.logMel[f * melBands + b] = mel[b];
+    }
+    for (let n = 0; n < mfccCount; n++) {
+      let sum = 0;
+      for (let b = 0; b < melBands; b++) sum += dct[n][b] * mel[b];
+      features.mfcc[f * mfccCount + n] = sum;
+    }
+
+    // Chroma
+    const chroma = features.chroma.subarray(f * 12, f * 12 + 12);
+    for (let k = 0; k < bins; k++) {
+      if (pitchClass[k] >= 0) chroma[pitchClass[k]] += power[k];
+    }
+    const strongest = Math.max(...chroma);
+    if (strongest > 0) for (let c = 0; c < 12; c++) chroma[c] /= strongest;
+
+    if (f % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) {
+      onProgress?.(f / frameCount);
+      await yieldToMain();
+    }
+  }
+
+  features.deltaMfcc = deltas(features.mfcc, frameCount, mfccCount);
+  features.deltaDeltaMfcc = deltas(features.deltaMfcc, frameCount, mfccCount);
+  onProgress?.(1);
+  return features;
+};
+
+const stats = (values: ArrayLike<number>, start: number, end: number, stride = 1, offset = 0): FeatureStats => {
+  const count = end - start;
+  if (count <= 0) return { mean: 0, std: 0 };
+  let sum = 0;
+  for (let f = start; f < end; f++) sum += values[f * stride + offset];
+  const mean = sum / count;
+  let variance = 0;
+  for (let f = start; f < end; f++) variance += (values[f * stride + offset] - mean) ** 2;
+  return { mean, std: Math.sqrt(variance / count) };
+};
+
+/**
+ * Summarise the frames that start within [startTime, endTime) seconds of
+ * the signal; the whole signal by default.
+ */
+export const summarizeFeatures = (
+  features: FeatureFrames,
+  startTime = 0,
+  endTime = Infinity
+): FeatureSummary => {
+  const first = Math.max(0, Math.min(features.frameCount - 1, Math.floor(startTime / features.hopSeconds)));
+  const last = Math.max(first + 1, Math.min(features.frameCount, Math.ceil(endTime / features.hopSeconds)));
+  const { mfccCount, melBands } = features;
+  const rmsDb = Float32Array.from(features.rms.subarray(first, last), r => 20 * Math.log10(Math.max(r, 1e-8)));
+
+  return {
+    start: first * features.hopSeconds,
+    end: last * features.hopSeconds,
+    frameCount: last - first,
+    mfcc: Array.from({ length: mfccCount }, (_, n) => stats(features.mfcc, first, last, mfccCount, n)),
+    deltaMfcc: Array.from({ length: mfccCount }, (_, n) => stats(features.deltaMfcc, first, last, mfccCount, n)),
+    deltaDeltaMfcc: Array.from({ length: mfccCount }, (_, n) => stats(features.deltaDeltaMfcc, first, last, mfccCount, n)),
+    logMel: Array.from({ length: melBands }, (_, b) => stats(features.logMel, first, last, melBands, b).mean),
+    chroma: Array.from({ length: 12 }, (_, c) => stats(features.chroma, first, last, 12, c).mean),
+    centroid: stats(features.centroid, first, last),
+    bandwidth: stats(features.bandwidth, first, last),
+    rolloff: stats(features.rolloff, first, last),
+    flatness: stats(features.flatness, first, last),
+    flux: stats(features.flux, first, last),
+    zcr: stats(features.zcr, first, last),
+    rmsDb: stats(rmsDb, 0, rmsDb.length)
+  };
+};
+
+/** Fixed-length vector of a summary, in the order of `FEATURE_VECTOR_LABELS`. */
+export const featureVector = (summary: FeatureSummary) => [
+  ...summary.mfcc.map(s => s.mean),
+  ...summary.mfcc.map(s => s.std),
+  ...summary.deltaMfcc.map(s => s.std),
+  ...summary.chroma,
+  summary.centroid.mean / 1000,
+  summary.bandwidth.mean / 1000,
+  summary.rolloff.mean / 1000,
+  summary.flatness.mean,
+  summary.flux.mean,
+  summary.zcr.mean,
+  summary.zcr.std,
+  summary.rmsDb.std
+];
+
+export const featureVectorLabels = (mfccCount = DEFAULT_FEATURE_OPTIONS.mfccCount) => [
+  ...Array.from({ length: mfccCount }, (_, n) => `mfcc${n + 1} mean`),
+  ...Array.from({ length: mfccCount }, (_, n) => `mfcc${n + 1} std`),
+  ...Array.from({ length: mfccCount }, (_, n) => `Δmfcc${n + 1} std`),
+  ...CHROMA_LABELS.map(label => `chroma ${label}`),
+  'centroid (kHz)',
+  'bandwidth (kHz)',
+  'rolloff (kHz)',
+  'flatness',
+  'flux',
+  'zcr mean',
+  'zcr std',
+  'rms std (dB)'
+];
+
+/** Per-frame CSV of the frames within a span, times relative to the signal. */
+export const featuresToCsv = (features: FeatureFrames, startTime = 0, endTime = Infinity, timeOffset = 0) => {
+  const { mfccCount, melBands } = features;
+  const header = [
+    'time_s', 'rms', 'zcr', 'centroid_hz', 'bandwidth_hz', 'rolloff_hz', 'flatness', 'flux',
+    ...Array.from({ length: mfccCount }, (_, n) => `mfcc${n + 1}`),
+    ...Array.from({ length: mfccCount }, (_, n) => `delta_mfcc${n + 1}`),
+    ...Array.from({ length: mfccCount }, (_, n) => `delta2_mfcc${n + 1}`),
+    ...CHROMA_LABELS.map(label => `chroma_${label.replace('♯', 's')}`),
+    ...Array.from({ length: melBands }, (_, b) => `mel${b + 1}_db`)
+  ];
+  const first = Math.max(0, Math.floor(startTime / features.hopSeconds));
+  const last = Math.min(features.frameCount, Math.ceil(endTime / features.hopSeconds));
+  const rows = [header.join(',')];
+  for (let f = first; f < last; f++) {
+    const row = [
+      (timeOffset + f * features.hopSeconds).toFixed(4),
+      features.rms[f], features.zcr[f], features.centroid[f], features.bandwidth[f],
+      features.rolloff[f], features.flatness[f], features.flux[f],
+      ...features.mfcc.subarray(f * mfccCount, (f + 1) * mfccCount),
+      ...features.deltaMfcc.subarray(f * mfccCount, (f + 1) * mfccCount),
+      ...features.deltaDeltaMfcc.subarray(f * mfccCount, (f + 1) * mfccCount),
+      ...features.chroma.subarray(f * 12, (f + 1) * 12),
+      ...features.logMel.subarray(f * melBands, (f + 1) * melBands)
+    ];
+    rows.push(row.map(value => (typeof value === 'number' ? +value.toPrecision(6) : value)).join(','));
+  }
+  return rows.join('\n');
+};
+
+export interface SourceFeatures {
+  sourceId: string;
+  bufferId: string;
+  summary: FeatureSummary;
+}
+
+/**
+ * Features of every source whose buffer is still in the store. Each buffer
+ * is processed once and the frames are summarised over each source's span;
+ * the frames are returned too, keyed by buffer id, for per-frame export.
+ */
+export const extractSourceFeatures = async (
+  sources: AudioSource[],
+  options: FeatureOptions = DEFAULT_FEATURE_OPTIONS,
+  onProgress?: (fraction: number) => void
+) => {
+  const buffers = bufferStore.list().filter(buffer => sources.some(s => s.fileId === buffer.id));
+  const frames = new Map<string, FeatureFrames>();
+  const summaries: SourceFeatures[] = [];
+
+  for (const [index, buffer] of buffers.entries()) {
+    const features = await extractFeatures(mixToMono(buffer), buffer.sampleRate, options, fraction =>
+      onProgress?.((index + fraction) / buffers.length)
+    );
+    frames.set(buffer.id, features);
+    for (const source of sources.filter(s => s.fileId === buffer.id)) {
+      summaries.push({
+        sourceId: source.id,
+        bufferId: buffer.id,
+        summary: summarizeFeatures(features, source.startTime, source.endTime)
+      });
+    }
+  }
+  return { frames, summaries };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { convolve, fft, hannWindow, hzToMel, ifft, interpolatePeak, melToHz, powerSpectrum } from './fft';
+
+const sine = (length: number, frequency: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+describe('fft', () => {
+  it('puts a bin-centred cosine in its bin alone', () => {
+    const n = 64;
+    const re = Float64Array.from({ length: n }, (_, i) => Math.cos((2 * Math.PI * 5 * i) / n));
+    const im = new Float64Array(n);
+    fft(re, im);
+    for (let k = 0; k < n; k++) {
+      const magnitude = Math.hypot(re[k], im[k]);
+      expect(magnitude).toBeCloseTo(k === 5 || k === n - 5 ? n / 2 : 0, 9);
+    }
+  });
+
+  it('is undone by ifft', () => {
+    const n = 256;
+    const signal = Float64Array.from({ length: n }, (_, i) => Math.sin(i * 0.3) + 0.25 * Math.cos(i * 1.7));
+    const re = signal.slice();
+    const im = new Float64Array(n);
+    fft(re, im);
+    ifft(re, im);
+    re.forEach((x, i) => expect(x).toBeCloseTo(signal[i], 12));
+    im.forEach(x => expect(x).toBeCloseTo(0, 12));
+  });
+
+  it('keeps the energy of the signal (Parseval)', () => {
+    const n = 512;
+    const re = Float64Array.from({ length: n }, (_, i) => Math.sin(i * i * 0.01));
+    const energy = re.reduce((sum, x) => sum + x * x, 0);
+    const im = new Float64Array(n);
+    fft(re, im);
+    const spectral = re.reduce((sum, x, k) => sum + x * x + im[k] * im[k], 0) / n;
+    expect(spectral).toBeCloseTo(energy, 8);
+  });
+
+  it('rejects sizes that are not a power of two', () => {
+    expect(() => fft(new Float64Array(48), new Float64Array(48))).toThrow(/power of two/);
+  });
+});
+
+describe('spectral helpers', () => {
+  it('finds the frequency of a sine between bins', () => {
+    const sampleRate = 8000;
+    const window = hannWindow(1024);
+    const spectrum = powerSpectrum(sine(1024, 1000.7, sampleRate), 0, window);
+    const peak = spectrum.indexOf(Math.max(...spectrum));
+    const frequency = (interpolatePeak(spectrum, peak) * sampleRate) / 1024;
+    expect(frequency).toBeCloseTo(1000.7, 0);
+  });
+
+  it('maps 1000 Hz to about 1000 mel and back', () => {
+    expect(hzToMel(1000)).toBeCloseTo(1000, 0);
+    expect(melToHz(hzToMel(3150))).toBeCloseTo(3150, 9);
+  });
+
+  it('convolves like the direct sum', () => {
+    const input = Float32Array.from({ length: 10000 }, (_, i) => Math.sin(i * 0.05) * ((i % 7) - 3));
+    const kernel = Float64Array.from([0.25, 0.5, -0.125, 0.0625]);
+    const output = convolve(input, kernel);
+    for (const n of [0, 3, 4095, 4096, 9999]) {
+      let direct = 0;
+      kernel.forEach((h, k) => {
+        if (n - k >= 0) direct += h * input[n - k];
+      });
+      expect(output[n]).toBeCloseTo(direct, 5);
+    }
+  });
+});
@@ -0,0 +1,156 @@
+// Small DSP helpers shared by the analysis modules. Everything here works on
+// plain typed arrays so results are identical across runs and browsers.
+
+export const nextPowerOfTwo = (n: number) => {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+};
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must share the same
+ * power-of-two length.
+ */
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    const half = len >> 1;
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = i + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+/** Mel scale (O'Shaughnessy): perceived pitch against frequency in Hz. */
+export const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+
+export const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+export const hannWindow = (size: number) => {
+  const w = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return w;
+};
+
+/**
+ * Windowed power spectrum of `samples[offset .. offset + window.length)`.
+ * Returns `fftSize / 2 + 1` bins; samples past the end of the input are
+ * treated as zero.
+ */
+export const powerSpectrum = (
+  samples: Float32Array,
+  offset: number,
+  window: Float64Array,
+  fftSize = nextPowerOfTwo(window.length)
+) => {
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const end = Math.min(window.length, samples.length - offset);
+  for (let i = 0; i < end; i++) {
+    re[i] = samples[offset + i] * window[i];
+  }
+  fft(re, im);
+
+  const bins = fftSize / 2 + 1;
+  const power = new Float64Array(bins);
+  for (let k = 0; k < bins; k++) {
+    power[k] = re[k] * re[k] + im[k] * im[k];
+  }
+  return power;
+};
+
+/** Parabolic interpolation of a spectral peak, returning a fractional bin. */
+export const interpolatePeak = (spectrum: Float64Array, bin: number) => {
+  if (bin <= 0 || bin >= spectrum.length - 1) return bin;
+  const a = Math.log(spectrum[bin - 1] + 1e-20);
+  const b = Math.log(spectrum[bin] + 1e-20);
+  const c = Math.log(spectrum[bin + 1] + 1e-20);
+  const denom = a - 2 * b + c;
+  return denom === 0 ? bin : bin + (0.5 * (a - c)) / denom;
+};
+
+export const toDb = (power: number, floor = -150) =>
+  power > 0 ? Math.max(floor, 10 * Math.log10(power)) : floor;
+
+/** Inverse of `fft`, in place, including the 1/N scaling. */
+export const ifft = (re: Float64Array, im: Float64Array) => {
+  for (let i = 0; i < im.length; i++) im[i] = -im[i];
+  fft(re, im);
+  const scale = 1 / re.length;
+  for (let i = 0; i < re.length; i++) {
+    re[i] *= scale;
+    im[i] = -im[i] * scale;
+  }
+};
+
+/**
+ * Linear convolution of a long signal with a short FIR by FFT overlap-add.
+ * The output has the input's length and is advanced by `delay` samples to
+ * undo the latency of a linear-phase filter.
+ */
+export const convolve = (input: Float32Array, kernel: Float64Array, delay = 0) => {
+  const fftSize = nextPowerOfTwo(Math.max(4096, kernel.length * 4));
+  const blockSize = fftSize - kernel.length + 1;
+  const kernelRe = new Float64Array(fftSize);
+  const kernelIm = new Float64Array(fftSize);
+  kernelRe.set(kernel);
+  fft(kernelRe, kernelIm);
+
+  const output = new Float32Array(input.length);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+
+  for (let start = 0; start < input.length; start += blockSize) {
+    re.fill(0);
+    im.fill(0);
+    const end = Math.min(start + blockSize, input.length);
+    for (let i = start; i < end; i++) re[i - start] = input[i];
+    fft(re, im);
+    for (let k = 0; k < fftSize; k++) {
+      const r = re[k] * kernelRe[k] - im[k] * kernelIm[k];
+      im[k] = re[k] * kernelIm[k] + im[k] * kernelRe[k];
+      re[k] = r;
+    }
+    ifft(re, im);
+    for (let i = 0; i < fftSize; i++) {
+      const target = start + i - delay;
+      if (target >= 0 && target < output.length) output[target] += re[i];
+    }
+  }
+
+  return output;
+};
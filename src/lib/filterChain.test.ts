@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FILTER_CHAIN,
+  EqBand,
+  FilterChain,
+  applyFilterChain,
+  describeFilterChain,
+  filterStages,
+  stageCoefficients
+} from './filterChain';
+import { toDb } from './fft';
+
+const RATE = 48000;
+
+const band = (changes: Partial<EqBand>): EqBand => ({ id: 'b', type: 'peaking', frequency: 1000, q: 1, gainDb: 0, enabled: true, ...changes });
+
+const chainWith = (changes: Partial<FilterChain>): FilterChain => ({ ...DEFAULT_FILTER_CHAIN, ...changes });
+
+// Magnitude response of the whole chain at `hz`, in dB, from its coefficients
+const responseDb = (chain: FilterChain, hz: number) => {
+  const w = (2 * Math.PI * hz) / RATE;
+  return filterStages(chain, RATE).reduce((sum, stage) => {
+    const { b0, b1, b2, a1, a2 } = stageCoefficients(stage, RATE);
+    const numerator = Math.hypot(b0 + b1 * Math.cos(w) + b2 * Math.cos(2 * w), b1 * Math.sin(w) + b2 * Math.sin(2 * w));
+    const denominator = Math.hypot(1 + a1 * Math.cos(w) + a2 * Math.cos(2 * w), a1 * Math.sin(w) + a2 * Math.sin(2 * w));
+    return sum + toDb((numerator / denominator) ** 2);
+  }, 0);
+};
+
+describe('filter chain', () => {
+  it('leaves the signal alone when flat', () => {
+    const samples = new Float32Array([0.1, -0.2, 0.3]);
+    expect(filterStages(DEFAULT_FILTER_CHAIN, RATE)).toEqual([]);
+    expect(applyFilterChain(samples, RATE, DEFAULT_FILTER_CHAIN)).toBe(samples);
+  });
+
+  it('limits the range with fourth-order Butterworth edges', () => {
+    const chain = chainWith({ minFrequency: 100, maxFrequency: 5000 });
+    expect(filterStages(chain, RATE).map(stage => stage.type)).toEqual(['highpass', 'highpass', 'lowpass', 'lowpass']);
+    expect(responseDb(chain, 100)).toBeCloseTo(-3.01, 1);
+    expect(responseDb(chain, 5000)).toBeCloseTo(-3.01, 1);
+    expect(responseDb(chain, 1000)).toBeCloseTo(0, 1);
+    // 24 dB per octave beyond the edges
+    expect(responseDb(chain, 50)).toBeCloseTo(-24.1, 0);
+  });
+
+  it('shapes EQ bands as Web Audio does', () => {
+    const at = (changes: Partial<EqBand>, hz: number) => responseDb(chainWith({ bands: [band(changes)] }), hz);
+    expect(at({ type: 'peaking', gainDb: 6 }, 1000)).toBeCloseTo(6, 6);
+    expect(at({ type: 'peaking', gainDb: 6 }, 10)).toBeCloseTo(0, 2);
+    expect(at({ type: 'notch', q: 10 }, 1000)).toBeLessThan(-100);
+    expect(at({ type: 'bandpass', q: 2 }, 1000)).toBeCloseTo(0, 6);
+    expect(at({ type: 'lowshelf', gainDb: -9 }, 10)).toBeCloseTo(-9, 1);
+    expect(at({ type: 'lowshelf', gainDb: -9 }, 1000)).toBeCloseTo(-4.5, 1);
+    expect(at({ type: 'highshelf', gainDb: 6 }, 20000)).toBeCloseTo(6, 1);
+  });
+
+  it('leaves out disabled bands and anything at or above Nyquist', () => {
+    const chain = chainWith({
+      maxFrequency: 20000,
+      bands: [band({ enabled: false }), band({ frequency: 24000 }), band({ frequency: 2000, gainDb: 3 })]
+    });
+    expect(filterStages(chain, 32000)).toEqual([{ type: 'peaking', frequency: 2000, q: 1, gainDb: 3 }]);
+    expect(filterStages(chainWith({ maxFrequency: 12000 }), 22050)).toEqual([]);
+  });
+
+  it('filters a signal offline as its response says', () => {
+    const chain = chainWith({ minFrequency: 100 });
+    const samples = Float32Array.from({ length: RATE }, (_, i) => Math.sin((2 * Math.PI * 50 * i) / RATE));
+    const output = applyFilterChain(samples, RATE, chain);
+    // Peak over the second half, once the filter has settled
+    const peak = output.subarray(RATE / 2).reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    expect(toDb(peak * peak)).toBeCloseTo(responseDb(chain, 50), 1);
+  });
+
+  it('describes each stage', () => {
+    const chain = chainWith({ minFrequency: 100, bands: [band({ gainDb: -3 })] });
+    expect(describeFilterChain(chain, RATE)).toEqual([
+      'highpass 100 Hz, Q 0.5412',
+      'highpass 100 Hz, Q 1.3066',
+      'peaking 1000 Hz, Q 1, -3 dB'
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+import { BiquadCoefficients, createBiquadState, processCascade } from './biquad';
+
+// The operator's filter chain: a frequency range (fourth-order Butterworth
+// high- and low-pass at its edges) followed by EQ bands. The same stages run
+// live as BiquadFilterNodes on monitoring and playback, and offline in double
+// precision on the analysis pipeline, with the coefficients Web Audio
+// specifies for those nodes, so what is analysed matches what is heard and
+// the same file always gives the same samples.
+
+export type EqBandType = 'bandpass' | 'notch' | 'lowshelf' | 'highshelf' | 'peaking';
+
+export const EQ_BAND_LABELS: Record<EqBandType, string> = {
+  bandpass: 'Band-pass',
+  notch: 'Notch',
+  lowshelf: 'Low shelf',
+  highshelf: 'High shelf',
+  peaking: 'Parametric'
+};
+
+export interface EqBand {
+  id: string;
+  type: EqBandType;
+  frequency: number;
+  // Linear Q; shelves have a fixed slope and ignore it
+  q: number;
+  // Shelves and parametric bands only
+  gainDb: number;
+  enabled: boolean;
+}
+
+export interface FilterChain {
+  // Edges of the frequency range; the full audible range leaves it unfiltered
+  minFrequency: number;
+  maxFrequency: number;
+  bands: EqBand[];
+}
+
+export const FULL_RANGE = { min: 20, max: 20000 };
+
+export const DEFAULT_FILTER_CHAIN: FilterChain = {
+  minFrequency: FULL_RANGE.min,
+  maxFrequency: FULL_RANGE.max,
+  bands: []
+};
+
+/** Gain is only meaningful for these band types. */
+export const hasGain = (type: EqBandType) => type === 'lowshelf' || type === 'highshelf' || type === 'peaking';
+
+/** Q is ignored by shelves, as it is by their BiquadFilterNodes. */
+export const hasQ = (type: EqBandType) => type !== 'lowshelf' && type !== 'highshelf';
+
+// One second-order stage in the terms of a BiquadFilterNode, with linear Q
+export interface FilterStage {
+  type: BiquadFilterType;
+  frequency: number;
+  q: number;
+  gainDb: number;
+}
+
+// Two sections with these Qs make a fourth-order Butterworth response
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+/** A new band of `type` with neutral settings. */
+export const createBand = (type: EqBandType = 'peaking'): EqBand => ({
+  id: `band-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  type,
+  frequency: 1000,
+  q: 1,
+  gainDb: 0,
+  enabled: true
+});
+
+/** The stages of a chain in processing order; edges and bands at or above Nyquist are left out. */
+export const filterStages = (chain: FilterChain, sampleRate: number): FilterStage[] => {
+  const nyquist = sampleRate / 2;
+  const stages: FilterStage[] = [];
+  if (chain.minFrequency > FULL_RANGE.min && chain.minFrequency < nyquist) {
+    BUTTERWORTH_Q.forEach(q => stages.push({ type: 'highpass', frequency: chain.minFrequency, q, gainDb: 0 }));
+  }
+  if (chain.maxFrequency < Math.min(FULL_RANGE.max, nyquist)) {
+    BUTTERWORTH_Q.forEach(q => stages.push({ type: 'lowpass', frequency: chain.maxFrequency, q, gainDb: 0 }));
+  }
+  chain.bands
+    .filter(band => band.enabled && band.frequency > 0 && band.frequency < nyquist)
+    .forEach(band => stages.push({ type: band.type, frequency: band.frequency, q: band.q, gainDb: band.gainDb }));
+  return stages;
+};
+
+/**
+ * Coefficients of a stage by the formulas of the Web Audio specification
+ * for BiquadFilterNode (after the Audio EQ Cookbook), shelves with slope 1.
+ */
+export const stageCoefficients = ({ type, frequency, q, gainDb }: FilterStage, sampleRate: number): BiquadCoefficients => {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const A = 10 ** (gainDb / 40);
+  const alphaS = Math.sin(w0) / Math.SQRT2;
+  const shelf = 2 * alphaS * Math.sqrt(A);
+
+  let b: [number, number, number];
+  let a: [number, number, number];
+  switch (type) {
+    case 'lowpass':
+      b = [(1 - cos) / 2, 1 - cos, (1 - cos) / 2];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'highpass':
+      b = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'bandpass':
+      b = [alpha, 0, -alpha];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'notch':
+      b = [1, -2 * cos, 1];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'peaking':
+      b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+      a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+      break;
+    case 'lowshelf':
+      b = [
+        A * ((A + 1) - (A - 1) * cos + shelf),
+        2 * A * ((A - 1) - (A + 1) * cos),
+        A * ((A + 1) - (A - 1) * cos - shelf)
+      ];
+      a = [(A + 1) + (A - 1) * cos + shelf, -2 * ((A - 1) + (A + 1) * cos), (A + 1) + (A - 1) * cos - shelf];
+      break;
+    case 'highshelf':
+      b = [
+        A * ((A + 1) + (A - 1) * cos + shelf),
+        -2 * A * ((A - 1) + (A + 1) * cos),
+        A * ((A + 1) + (A - 1) * cos - shelf)
+      ];
+      a = [(A + 1) - (A - 1) * cos + shelf, 2 * ((A - 1) - (A + 1) * cos), (A + 1) - (A - 1) * cos - shelf];
+      break;
+    default:
+      // allpass is not offered
+      b = [1, 0, 0];
+      a = [1, 0, 0];
+  }
+  return { b0: b[0] / a[0], b1: b[1] / a[0], b2: b[2] / a[0], a1: a[1] / a[0], a2: a[2] / a[0] };
+};
+
+/** Run the chain over a signal offline; a flat chain returns the input itself. */
+export const applyFilterChain = (samples: Float32Array, sampleRate: number, chain: FilterChain) => {
+  const sections = filterStages(chain, sampleRate).map(stage => stageCoefficients(stage, sampleRate));
+  if (sections.length === 0) return samples;
+  return processCascade(sections, sections.map(createBiquadState), samples);
+};
+
+/** One line per stage, e.g. for reports. */
+export const describeFilterChain = (chain: FilterChain, sampleRate: number) =>
+  filterStages(chain, sampleRate).map(({ type, frequency, q, gainDb }) =>
+    `${type} ${frequency} Hz, Q ${q}${gainDb !== 0 ? `, ${gainDb > 0 ? '+' : ''}${gainDb} dB` : ''}`
+  );
+
+const setStage = (node: BiquadFilterNode, stage: FilterStage) => {
+  node.frequency.value = stage.frequency;
+  // The node takes the Q of its low- and high-pass types in dB
+  node.Q.value = stage.type === 'lowpass' || stage.type === 'highpass' ? 20 * Math.log10(stage.q) : stage.q;
+  node.gain.value = stage.gainDb;
+};
+
+/**
+ * The chain as a chain of BiquadFilterNodes between `input` and `output`.
+ * Both stay connected while the stages change, so the graph around it is
+ * never rebuilt.
+ */
+export class LiveFilterChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private nodes: BiquadFilterNode[] = [];
+
+  constructor(private context: BaseAudioContext, chain: FilterChain) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.set(chain);
+  }
+
+  /** Parameters change in place when the stage types are unchanged, so playback does not click. */
+  set(chain: FilterChain) {
+    const stages = filterStages(chain, this.context.sampleRate);
+    if (stages.length > 0 && stages.length === this.nodes.length && stages.every((s, i) => s.type === this.nodes[i].type)) {
+      stages.forEach((stage, i) => setStage(this.nodes[i], stage));
+      return;
+    }
+
+    this.input.disconnect();
+    this.nodes.forEach(node => node.disconnect());
+    this.nodes = stages.map(stage => {
+      const node = this.context.createBiquadFilter();
+      node.type = stage.type;
+      setStage(node, stage);
+      return node;
+    });
+    [this.input, ...this.nodes].forEach((node, i, chainNodes) => node.connect(chainNodes[i + 1] ?? this.output));
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    this.nodes.forEach(node => node.disconnect());
+    this.output.disconnect();
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Md5, Sha256, hashBlob, sha256Hex, sha256Text } from './hash';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('Md5', () => {
+  // RFC 1321 appendix A.5
+  const vectors: [string, string][] = [
+    ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+    ['a', '0cc175b9c0f1b6a831c399e269772661'],
+    ['abc', '900150983cd24fb0d6963f7d28e17f72'],
+    ['message digest', 'f96b697d7cb7938d525a2f31aaf161d0'],
+    ['abcdefghijklmnopqrstuvwxyz', 'c3fcd3d76192e4007dfb496cca67e13b'],
+    ['12345678901234567890123456789012345678901234567890123456789012345678901234567890', '57edf4a22be3c955ac49da2e2107b67a']
+  ];
+
+  for (const [input, digest] of vectors) {
+    it(`digests "${input.slice(0, 20)}"`, () => {
+      expect(new Md5().update(text(input)).digest()).toBe(digest);
+    });
+  }
+
+  it('gives the same digest however the input is split', () => {
+    const bytes = Uint8Array.from({ length: 1000 }, (_, i) => (i * 31) & 0xff);
+    const whole = new Md5().update(bytes).digest();
+    const pieces = new Md5();
+    for (let start = 0; start < bytes.length; start += 37) pieces.update(bytes.subarray(start, start + 37));
+    expect(pieces.digest()).toBe(whole);
+  });
+});
+
+describe('SHA-256', () => {
+  it('digests the FIPS 180-2 examples', async () => {
+    expect(new Sha256().update(text('abc')).digest()).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(await sha256Text('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(await sha256Text('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('digests incrementally as WebCrypto does in one piece', async () => {
+    // Lengths around the padding boundaries of a 64-byte block
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 131 + 7) & 0xff);
+      const pieces = new Sha256();
+      for (let start = 0; start < length; start += 13) pieces.update(bytes.subarray(start, start + 13));
+      expect(pieces.digest()).toBe(await sha256Hex(bytes));
+    }
+  });
+
+  it('hashes a blob larger than one read slice', async () => {
+    const bytes = Uint8Array.from({ length: (4 << 20) + 12345 }, (_, i) => (i * 31) & 0xff);
+    expect(await hashBlob(new Blob([bytes]))).toEqual({
+      sha256: await sha256Hex(bytes),
+      md5: new Md5().update(bytes).digest()
+    });
+  });
+
+  it('hashes blobs with both digests', async () => {
+    expect(await hashBlob(new Blob(['abc']))).toEqual({
+      sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      md5: '900150983cd24fb0d6963f7d28e17f72'
+    });
+  });
+});
@@ -0,0 +1,206 @@
+// Digests for evidence files. Short texts are hashed with WebCrypto, which
+// only takes whole buffers; files are hashed incrementally here, SHA-256 and
+// MD5 (which WebCrypto does not offer) over the same slices, so files larger
+// than memory can be hashed.
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+
+export const sha256Text = (text: string) => sha256Hex(new TextEncoder().encode(text));
+
+// Per-round shift amounts and sine-derived constants (RFC 1321)
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+const K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+/** Incremental MD5 (RFC 1321). */
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(16);
+
+  update(bytes: Uint8Array) {
+    let offset = 0;
+    this.totalLength += bytes.length;
+    while (offset < bytes.length) {
+      const take = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  digest() {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array(((this.blockLength < 56 ? 56 : 120) - this.blockLength) + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, bitLength >>> 0, true);
+    view.setUint32(padding.length - 4, Math.floor(bitLength / 0x100000000), true);
+    this.update(padding);
+
+    const out = new Uint8Array(16);
+    const outView = new DataView(out.buffer);
+    this.state.forEach((word, i) => outView.setUint32(i * 4, word, true));
+    return toHex(out);
+  }
+
+  private compress() {
+    const w = this.words;
+    const view = new DataView(this.block.buffer);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4, true);
+
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + K[i] + w[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) >>> 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
+
+// Initial hash values and round constants (FIPS 180-4, 4.2.2 and 5.3.3)
+const SHA256_INITIAL = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/** Incremental SHA-256 (FIPS 180-4). */
+export class Sha256 {
+  private state = new Uint32Array(SHA256_INITIAL);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(64);
+
+  update(bytes: Uint8Array) {
+    let offset = 0;
+    this.totalLength += bytes.length;
+    while (offset < bytes.length) {
+      const take = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  digest() {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array(((this.blockLength < 56 ? 56 : 120) - this.blockLength) + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padding.length - 4, bitLength >>> 0);
+    this.update(padding);
+
+    const out = new Uint8Array(32);
+    const outView = new DataView(out.buffer);
+    this.state.forEach((word, i) => outView.setUint32(i * 4, word));
+    return toHex(out);
+  }
+
+  private compress() {
+    const w = this.words;
+    const view = new DataView(this.block.buffer);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.state[4] += e;
+    this.state[5] += f;
+    this.state[6] += g;
+    this.state[7] += h;
+  }
+}
+
+export interface FileDigests {
+  sha256: string;
+  md5: string;
+}
+
+// Bytes read from the file per step
+const HASH_SLICE = 4 << 20;
+
+/** SHA-256 and MD5 of a file or blob, read a slice at a time. */
+export const hashBlob = async (blob: Blob): Promise<FileDigests> => {
+  const sha256 = new Sha256();
+  const md5 = new Md5();
+  for (let offset = 0; offset < blob.size; offset += HASH_SLICE) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + HASH_SLICE).arrayBuffer());
+    sha256.update(bytes);
+    md5.update(bytes);
+  }
+  return { sha256: sha256.digest(), md5: md5.digest() };
+};
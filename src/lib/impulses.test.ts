@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { detectImpulses, impulseDescriptor } from './impulses';
+
+const noise = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed / 2147483647) * 2 - 1;
+};
+
+/**
+ * Three seconds of background noise at about -65 dBFS with a burst of noise
+ * at 1 s that starts at once and falls 20 dB in 80 ms.
+ */
+const shot = (sampleRate: number) => {
+  const random = noise(11);
+  const decay = 0.08 / Math.log(10);
+  const onset = Math.round(sampleRate);
+  return Float32Array.from({ length: 3 * sampleRate }, (_, i) => {
+    const t = (i - onset) / sampleRate;
+    return 0.001 * random() + (t >= 0 ? 0.8 * Math.exp(-t / decay) * random() : 0);
+  });
+};
+
+describe('detectImpulses', () => {
+  const measure = async (sampleRate: number) => {
+    const { impulses } = await detectImpulses(shot(sampleRate), sampleRate, 'test');
+    expect(impulses).toHaveLength(1);
+    return impulses[0];
+  };
+
+  it('measures onset, rise, crest and a 20 dB decay', async () => {
+    const impulse = await measure(48000);
+    expect(impulse.time).toBeCloseTo(1, 2);
+    expect(impulse.riseMs).toBeLessThan(1);
+    expect(impulse.crestDb).toBeGreaterThan(6);
+    expect(impulse.decayMs).toBeGreaterThan(60);
+    expect(impulse.decayMs).toBeLessThan(100);
+    expect(impulse.flatness).toBeGreaterThan(0.3);
+  });
+
+  it('measures the same decay at 44.1 kHz as at 48 kHz', async () => {
+    const [at44, at48] = [await measure(44100), await measure(48000)];
+    expect(Math.abs(at44.decayMs - at48.decayMs)).toBeLessThan(10);
+    expect(Math.abs(at44.vector[1] - at48.vector[1])).toBeLessThan(0.05);
+  });
+
+  it('ignores a sound that swells slowly', async () => {
+    const sampleRate = 48000;
+    const random = noise(5);
+    const swell = Float32Array.from({ length: 3 * sampleRate }, (_, i) =>
+      0.001 * random() + 0.5 * Math.sin((Math.PI * i) / (3 * sampleRate)) * Math.sin((2 * Math.PI * 300 * i) / sampleRate)
+    );
+    expect((await detectImpulses(swell, sampleRate, 'test')).impulses).toEqual([]);
+  });
+});
+
+describe('impulseDescriptor', () => {
+  it('describes the loudest impulse of a clip', () => {
+    const vector = impulseDescriptor(shot(48000), 48000);
+    expect(vector).toHaveLength(7);
+    expect(10 ** vector![1]).toBeGreaterThan(60);
+  });
+
+  it('has nothing to describe in silence', () => {
+    expect(impulseDescriptor(new Float32Array(1000), 48000)).toBeNull();
+  });
+});
@@ -0,0 +1,330 @@
+import { fft, hannWindow, nextPowerOfTwo, toDb } from './fft';
+import { SourceClassification } from '../types/audio';
+import { yieldToMain } from './util';
+
+// Impulsive-event detection for shots, bangs and breaking glass. Candidates
+// are peaks of a fine peak envelope standing well clear of the local
+// background; each is then measured for rise time (10% to 90% of peak
+// amplitude), decay (time to fall 20 dB), crest factor just after the
+// onset and the spectral shape of its first tens of milliseconds. Only fast
+// rises with a high crest factor are kept. The measurements form a
+// descriptor the reference library learns categories from.
+
+export type ImpulseCategory = 'gunshot' | 'slam' | 'glass' | 'other';
+
+export const IMPULSE_CATEGORIES: ImpulseCategory[] = ['gunshot', 'slam', 'glass', 'other'];
+
+export interface ImpulseEvent {
+  bufferId: string;
+  // Onset (10% of peak amplitude) and the peak itself, in seconds
+  time: number;
+  peakTime: number;
+  peakDbfs: number;
+  riseMs: number;
+  decayMs: number;
+  // Peak over RMS in the window after the onset
+  crestDb: number;
+  centroidHz: number;
+  // Frequency below which 85% of the energy lies
+  rolloffHz: number;
+  // Share of the energy above HIGH_BAND_HZ
+  highBandRatio: number;
+  // Geometric over arithmetic mean of the power spectrum: 1 for white noise
+  flatness: number;
+  // Descriptor for the reference library, see IMPULSE_FEATURE_LABELS
+  vector: number[];
+  category: ImpulseCategory;
+  // Null until classified, or when the library holds no impulse examples
+  classification: SourceClassification | null;
+}
+
+export interface ImpulseAnalysis {
+  bufferId: string;
+  impulses: ImpulseEvent[];
+}
+
+export const IMPULSE_FEATURE_LABELS = [
+  'log10 rise (ms)',
+  'log10 decay (ms)',
+  'crest factor (dB)',
+  'centroid (kHz)',
+  'rolloff (kHz)',
+  'high-band ratio',
+  'spectral flatness'
+];
+
+// Resolution of the peak envelope candidates are picked from
+const ENVELOPE_SECONDS = 0.0005;
+// Background: a low percentile of 10 ms RMS levels over a sliding window
+const LEVEL_SECONDS = 0.01;
+const BACKGROUND_WINDOW_SECONDS = 2;
+const BACKGROUND_HOP_SECONDS = 0.25;
+const BACKGROUND_PERCENTILE = 0.2;
+// A candidate's peak must clear the background by this much
+const PROMINENCE_DB = 20;
+const MIN_PEAK_DBFS = -50;
+// Peaks closer than this are one event
+const MIN_SPACING_SECONDS = 0.1;
+// Acceptance: impulses rise fast and stand far above their own aftermath
+const MAX_RISE_MS = 5;
+const MIN_CREST_DB = 6;
+// How far before the peak the onset is looked for, and how long the signal
+// must stay below 10% of the peak before it
+const LOOKBACK_SECONDS = 0.05;
+const QUIET_SECONDS = 0.005;
+const CREST_SECONDS = 0.05;
+const DECAY_DROP_DB = 20;
+const DECAY_BLOCK_SECONDS = 0.005;
+const MAX_DECAY_SECONDS = 2;
+const SPECTRUM_SECONDS = 0.04;
+const HIGH_BAND_HZ = 4000;
+const ROLLOFF_FRACTION = 0.85;
+const MAX_IMPULSES = 500;
+const YIELD_BLOCKS = 1 << 16;
+
+/** The impulse category a reference library label stands for. */
+export const impulseCategoryFor = (label: string): ImpulseCategory => {
+  const name = label.toLowerCase();
+  if (/gun|shot|pistol|rifle/.test(name)) return 'gunshot';
+  if (/slam|door|bang|knock/.test(name)) return 'slam';
+  if (/glass|window|shatter/.test(name)) return 'glass';
+  return 'other';
+};
+
+/** Largest absolute sample of consecutive blocks, in dBFS. */
+const peakEnvelope = (samples: Float32Array, blockSize: number) => {
+  const envelope = new Float32Array(Math.ceil(samples.length / blockSize));
+  for (let b = 0; b < envelope.length; b++) {
+    const end = Math.min(samples.length, (b + 1) * blockSize);
+    let peak = 0;
+    for (let i = b * blockSize; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    envelope[b] = toDb(peak * peak);
+  }
+  return envelope;
+};
+
+const rmsDb = (samples: Float32Array, start: number, end: number) => {
+  const from = Math.max(0, start);
+  const to = Math.min(samples.length, end);
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return to > from ? toDb(sum / (to - from)) : -150;
+};
+
+/**
+ * Background level every `BACKGROUND_HOP_SECONDS`: a low percentile of 10 ms
+ * RMS levels, so an impulse does not raise its own background.
+ */
+const backgroundLevels = (samples: Float32Array, sampleRate: number) => {
+  const block = Math.max(1, Math.round(LEVEL_SECONDS * sampleRate));
+  const levels = Array.from({ length: Math.ceil(samples.length / block) }, (_, b) =>
+    rmsDb(samples, b * block, (b + 1) * block)
+  );
+  const half = Math.round(BACKGROUND_WINDOW_SECONDS / LEVEL_SECONDS / 2);
+  const hop = Math.max(1, Math.round(BACKGROUND_HOP_SECONDS / LEVEL_SECONDS));
+  const background: number[] = [];
+  for (let b = 0; b < levels.length; b += hop) {
+    const window = levels.slice(Math.max(0, b - half), b + half).sort((x, y) => x - y);
+    background.push(window[Math.floor(window.length * BACKGROUND_PERCENTILE)]);
+  }
+  // Background at a time in seconds, interpolated between hops
+  return (time: number) => {
+    const position = time / (hop * LEVEL_SECONDS);
+    const i = Math.min(background.length - 1, Math.floor(position));
+    const next = Math.min(background.length - 1, i + 1);
+    return background[i] + (background[next] - background[i]) * (position - i);
+  };
+};
+
+/** Centroid, rolloff, high-band share and flatness of the samples from `start`. */
+const spectralShape = (samples: Float32Array, sampleRate: number, start: number) => {
+  const size = nextPowerOfTwo(Math.round(SPECTRUM_SECONDS * sampleRate));
+  const window = hannWindow(size);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i++) re[i] = (samples[start + i] ?? 0) * window[i];
+  fft(re, im);
+
+  const bins = size / 2 + 1;
+  const binHz = sampleRate / size;
+  const power = new Float64Array(bins);
+  let total = 0;
+  let weighted = 0;
+  let high = 0;
+  let logSum = 0;
+  for (let k = 1; k < bins; k++) {
+    power[k] = re[k] * re[k] + im[k] * im[k];
+    total += power[k];
+    weighted += power[k] * k * binHz;
+    if (k * binHz >= HIGH_BAND_HZ) high += power[k];
+    logSum += Math.log(power[k] + 1e-20);
+  }
+  let cumulative = 0;
+  let rolloff = bins - 1;
+  for (let k = 1; k < bins; k++) {
+    cumulative += power[k];
+    if (cumulative >= ROLLOFF_FRACTION * total) {
+      rolloff = k;
+      break;
+    }
+  }
+  const mean = total / (bins - 1);
+  return {
+    centroidHz: total > 0 ? weighted / total : 0,
+    rolloffHz: rolloff * binHz,
+    highBandRatio: total > 0 ? high / total : 0,
+    flatness: mean > 0 ? Math.exp(logSum / (bins - 1)) / mean : 0
+  };
+};
+
+/** Measure the impulse whose largest sample is at `peakIndex`. */
+const measureImpulse = (
+  samples: Float32Array,
+  sampleRate: number,
+  peakIndex: number,
+  backgroundDb: number,
+  bufferId: string
+): ImpulseEvent => {
+  const peak = Math.abs(samples[peakIndex]);
+  const envelopeBlock = Math.max(1, Math.round(ENVELOPE_SECONDS * sampleRate));
+
+  // Onset: just after the last stretch of QUIET_SECONDS below 10% of the peak.
+  // Without one the signal was already loud and the rise spans the lookback.
+  const lookback = Math.max(0, peakIndex - Math.round(LOOKBACK_SECONDS * sampleRate));
+  const quietBlocks = Math.round(QUIET_SECONDS / ENVELOPE_SECONDS);
+  let quietEnd = -1;
+  let run = 0;
+  let runEnd = 0;
+  for (let start = peakIndex - envelopeBlock; start >= lookback; start -= envelopeBlock) {
+    let blockPeak = 0;
+    for (let i = start; i < start + envelopeBlock; i++) blockPeak = Math.max(blockPeak, Math.abs(samples[i]));
+    if (blockPeak >= 0.1 * peak) {
+      run = 0;
+      continue;
+    }
+    if (run === 0) runEnd = start + envelopeBlock;
+    if (++run >= quietBlocks) {
+      quietEnd = runEnd;
+      break;
+    }
+  }
+  // A clip trimmed at the onset has no quiet stretch before it
+  if (quietEnd < 0 && lookback === 0) quietEnd = run > 0 ? runEnd : 0;
+  let onset = quietEnd < 0 ? lookback : quietEnd;
+  let rise = quietEnd < 0 ? peakIndex : onset;
+  while (onset < peakIndex && quietEnd >= 0 && Math.abs(samples[onset]) < 0.1 * peak) onset++;
+  while (rise < peakIndex && Math.abs(samples[rise]) < 0.9 * peak) rise++;
+
+  // Decay: until the RMS envelope is 20 dB down, or back at the background
+  const decayBlock = Math.max(1, Math.round(DECAY_BLOCK_SECONDS * sampleRate));
+  const halfBlock = Math.floor(decayBlock / 2);
+  const peakRms = rmsDb(samples, peakIndex - halfBlock, peakIndex - halfBlock + decayBlock);
+  const decayFloor = Math.max(peakRms - DECAY_DROP_DB, backgroundDb + 3);
+  const decayLimit = Math.min(samples.length, peakIndex + Math.round(MAX_DECAY_SECONDS * sampleRate));
+  let decayEnd = peakIndex;
+  while (decayEnd < decayLimit && rmsDb(samples, decayEnd, decayEnd + decayBlock) > decayFloor) decayEnd += decayBlock;
+
+  const crestDb = toDb(peak * peak) - rmsDb(samples, onset, onset + Math.round(CREST_SECONDS * sampleRate));
+  const shape = spectralShape(samples, sampleRate, onset);
+  const riseMs = ((rise - onset) / sampleRate) * 1000;
+  const decayMs = ((decayEnd - peakIndex) / sampleRate) * 1000;
+
+  return {
+    bufferId,
+    time: onset / sampleRate,
+    peakTime: peakIndex / sampleRate,
+    peakDbfs: toDb(peak * peak),
+    riseMs,
+    decayMs,
+    crestDb,
+    ...shape,
+    vector: [
+      // Floors keep the logarithms finite for sample-sharp rises and cut-off decays
+      Math.log10(Math.max(riseMs, 1000 / sampleRate)),
+      Math.log10(Math.max(decayMs, DECAY_BLOCK_SECONDS * 1000)),
+      crestDb,
+      shape.centroidHz / 1000,
+      shape.rolloffHz / 1000,
+      shape.highBandRatio,
+      shape.flatness
+    ],
+    category: 'other',
+    classification: null
+  };
+};
+
+/** Index of the largest absolute sample in `[start, end)`. */
+const peakIndexIn = (samples: Float32Array, start: number, end: number) => {
+  let index = start;
+  for (let i = start; i < Math.min(end, samples.length); i++) {
+    if (Math.abs(samples[i]) > Math.abs(samples[index])) index = i;
+  }
+  return index;
+};
+
+/**
+ * Descriptor of the loudest impulse of a reference clip. The clip's label
+ * says what it holds, so the acceptance tests are not applied.
+ */
+export const impulseDescriptor = (samples: Float32Array, sampleRate: number) => {
+  if (samples.length === 0) return null;
+  const peakIndex = peakIndexIn(samples, 0, samples.length);
+  if (samples[peakIndex] === 0) return null;
+  const background = backgroundLevels(samples, sampleRate)(peakIndex / sampleRate);
+  return measureImpulse(samples, sampleRate, peakIndex, background, '').vector;
+};
+
+/** Find and measure the impulsive events of a mono signal. */
+export const detectImpulses = async (
+  samples: Float32Array,
+  sampleRate: number,
+  bufferId: string,
+  onProgress?: (fraction: number) => void
+): Promise<ImpulseAnalysis> => {
+  const envelopeBlock = Math.max(1, Math.round(ENVELOPE_SECONDS * sampleRate));
+  const envelope = peakEnvelope(samples, envelopeBlock);
+  const background = backgroundLevels(samples, sampleRate);
+  onProgress?.(0.3);
+
+  // The loudest block of every run above the threshold is a candidate
+  const candidates: { block: number; level: number }[] = [];
+  let best: { block: number; level: number } | null = null;
+  for (let b = 0; b <= envelope.length; b++) {
+    const time = (b * envelopeBlock) / sampleRate;
+    const above = b < envelope.length && envelope[b] >= MIN_PEAK_DBFS && envelope[b] >= background(time) + PROMINENCE_DB;
+    if (above) {
+      if (!best || envelope[b] > best.level) best = { block: b, level: envelope[b] };
+    } else if (best) {
+      candidates.push(best);
+      best = null;
+    }
+    if (b % YIELD_BLOCKS === YIELD_BLOCKS - 1) await yieldToMain();
+  }
+  onProgress?.(0.5);
+
+  // Loudest first; quieter peaks within the spacing belong to the same event
+  const spacing = Math.round(MIN_SPACING_SECONDS * sampleRate / envelopeBlock);
+  const kept: number[] = [];
+  candidates
+    .sort((a, b) => b.level - a.level)
+    .forEach(candidate => {
+      if (kept.every(block => Math.abs(block - candidate.block) >= spacing)) kept.push(candidate.block);
+    });
+
+  const impulses: ImpulseEvent[] = [];
+  for (const [index, block] of kept.entries()) {
+    const peakIndex = peakIndexIn(samples, block * envelopeBlock, (block + 1) * envelopeBlock);
+    const impulse = measureImpulse(samples, sampleRate, peakIndex, background(peakIndex / sampleRate), bufferId);
+    if (impulse.riseMs <= MAX_RISE_MS && impulse.crestDb >= MIN_CREST_DB) impulses.push(impulse);
+    if (index % 64 === 63) {
+      onProgress?.(0.5 + (0.5 * index) / kept.length);
+      await yieldToMain();
+    }
+  }
+
+  // The loudest events are kept when there are too many to report
+  impulses.sort((a, b) => b.peakDbfs - a.peakDbfs).splice(MAX_IMPULSES);
+  impulses.sort((a, b) => a.time - b.time);
+  onProgress?.(1);
+  return { bufferId, impulses };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { StoredBuffer } from './bufferStore';
+import { IntegrityCheck, IntegrityReport, countFindings, findingsBetween, scanIntegrity } from './integrity';
+import { parseWav } from './wav/reader';
+import { encodeWav } from './wav/writer';
+
+const RATE = 8000;
+
+const noise = (seconds: number, amplitude = 0.1, seed = 17) =>
+  Float32Array.from({ length: seconds * RATE }, () => amplitude * (2 * (seed = (seed * 16807) % 2147483647) / 2147483647 - 1));
+
+const stored = (channels: Float32Array[], sampleRate = RATE): StoredBuffer => ({
+  id: 'b',
+  name: 'test.wav',
+  sampleRate,
+  channels,
+  length: channels[0].length,
+  duration: channels[0].length / sampleRate
+});
+
+const only = (report: IntegrityReport, check: IntegrityCheck) => report.findings.filter(f => f.check === check);
+
+describe('scanIntegrity', () => {
+  it('reports a clean recording as clean', async () => {
+    const report = await scanIntegrity(stored([noise(3), noise(3, 0.1, 29)]));
+    expect(report.findings).toEqual([]);
+    expect(report.status).toBe('clean');
+    expect(Object.values(report.counts).every(count => count === 0)).toBe(true);
+  });
+
+  it('finds clipping, dropouts and clock glitches where they were put', async () => {
+    const left = noise(3);
+    const right = noise(3, 0.1, 29);
+    left.fill(1, 0.5 * RATE, 0.5 * RATE + 20);
+    left.fill(0, RATE, RATE + 100);
+    right.fill(0, RATE, RATE + 100);
+    right.fill(0, 1.5 * RATE, 1.5 * RATE + 200);
+    left.fill(0.05, 2 * RATE, 2 * RATE + 30);
+    right.copyWithin(2.5 * RATE, 2.5 * RATE - 256, 2.5 * RATE);
+
+    const report = await scanIntegrity(stored([left, right]));
+    expect(only(report, 'clipping')).toMatchObject([{ time: 0.5, channel: 0, severity: 'critical' }]);
+    expect(only(report, 'dropout')).toMatchObject([
+      { time: 1, duration: 100 / RATE, channel: null, severity: 'critical' },
+      { time: 1.5, duration: 200 / RATE, channel: 1, severity: 'critical' }
+    ]);
+    const glitches = only(report, 'rateGlitch');
+    expect(glitches).toHaveLength(2);
+    expect(glitches[0]).toMatchObject({ channel: 0, severity: 'warning' });
+    expect(Math.abs(glitches[0].time - 2)).toBeLessThan(2 / RATE);
+    expect(glitches[1]).toMatchObject({ time: 2.5, channel: 1, severity: 'critical' });
+    expect(glitches[1].detail).toContain('256 samples');
+    expect(report.status).toBe('critical');
+    expect(report.counts).toEqual(countFindings(report.findings));
+  });
+
+  it('tells padding at the ends from silence in the middle', async () => {
+    const samples = noise(6);
+    samples.fill(0, 0, 0.5 * RATE);
+    samples.fill(0, 2 * RATE, 3.5 * RATE);
+    const silences = only(await scanIntegrity(stored([samples])), 'silence');
+    expect(silences).toMatchObject([
+      { time: 0, duration: 0.5, severity: 'info' },
+      { time: 2, duration: 1.5, severity: 'warning' }
+    ]);
+  });
+
+  it('measures DC offset and channel imbalance', async () => {
+    const offset = noise(2).map(v => v + 0.02);
+    const quiet = noise(2, 0.025, 29);
+    const report = await scanIntegrity(stored([offset, quiet]));
+    expect(only(report, 'dcOffset')).toMatchObject([{ channel: 0, severity: 'warning' }]);
+    const [imbalance] = only(report, 'imbalance');
+    expect(imbalance).toMatchObject({ channel: 1, severity: 'warning' });
+    expect(imbalance.detail).toMatch(/1[12]\.\d dB below/);
+
+    const dead = await scanIntegrity(stored([noise(2), new Float32Array(2 * RATE)]));
+    expect(only(dead, 'imbalance')).toMatchObject([{ channel: 1, severity: 'critical' }]);
+  });
+
+  it('flags a non-standard rate in the WAV header', async () => {
+    const channels = [noise(1)];
+    const buffer = { ...stored(channels, 12345), wav: await parseWav(encodeWav({ channels, sampleRate: 12345, format: 'pcm16' })) };
+    expect(only(await scanIntegrity(buffer), 'rateGlitch')).toMatchObject([{ severity: 'info' }]);
+  });
+
+  it('narrows a report to the findings that overlap a span', async () => {
+    const samples = noise(3);
+    samples.fill(1, 0.5 * RATE, 0.5 * RATE + 20);
+    samples.fill(1, 2.5 * RATE, 2.5 * RATE + 20);
+    const report = await scanIntegrity(stored([samples]));
+    expect(findingsBetween(report, 2, 3).map(f => f.time)).toEqual([2.5]);
+  });
+});
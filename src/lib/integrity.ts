@@ -0,0 +1,390 @@
+import { StoredBuffer } from './bufferStore';
+import { toDb } from './fft';
+import { yieldToMain } from './util';
+
+// Signal-integrity scan. Looks for damage a recording chain leaves in the
+// samples themselves rather than for deliberate edits: clipped runs at full
+// scale, digital silence and dropouts (exact zeros inside live audio), DC
+// offset, sample-clock glitches (held samples, repeated buffers and
+// inconsistent WAV rate fields) and imbalance between channels. Every
+// finding carries a time, a duration and a severity.
+
+export type IntegrityCheck = 'clipping' | 'silence' | 'dropout' | 'dcOffset' | 'rateGlitch' | 'imbalance';
+
+export const INTEGRITY_LABELS: Record<IntegrityCheck, string> = {
+  clipping: 'Clipping',
+  silence: 'Digital silence',
+  dropout: 'Dropout',
+  dcOffset: 'DC offset',
+  rateGlitch: 'Sample-rate glitch',
+  imbalance: 'Channel imbalance'
+};
+
+// 'info' findings are reported but do not affect the status
+export type IntegritySeverity = 'info' | 'warning' | 'critical';
+export type IntegrityStatus = 'clean' | 'warning' | 'critical';
+
+export interface IntegrityFinding {
+  check: IntegrityCheck;
+  time: number;
+  duration: number;
+  // Channel index; null when the finding concerns every channel or the file
+  channel: number | null;
+  severity: IntegritySeverity;
+  detail: string;
+}
+
+export interface IntegrityReport {
+  bufferId: string;
+  fileName: string;
+  duration: number;
+  findings: IntegrityFinding[];
+  // Findings per check before the list was capped
+  counts: Record<IntegrityCheck, number>;
+  status: IntegrityStatus;
+}
+
+// Samples at or above this magnitude are at full scale; 16-bit PCM peaks at 32767/32768
+const CLIP_LEVEL = 0.999;
+const MIN_CLIP_RUN = 3;
+// A flat top this long is audible distortion rather than a touched peak
+const CRITICAL_CLIP_RUN = 16;
+// Zero runs shorter than this are ordinary in quiet quantised audio
+const MIN_ZERO_RUN = 16;
+const MIN_SILENCE_SECONDS = 0.05;
+// Longer gaps inside live audio are reported as silence, not as dropouts
+const MAX_DROPOUT_SECONDS = 1;
+// Held non-zero samples: a converter or buffer that stopped updating
+const MIN_HOLD_RUN = 16;
+// Buffer sizes an under-running recorder may repeat
+const REPEAT_PERIODS = [64, 128, 256, 512, 1024, 2048, 4096];
+const DC_WARNING = 0.01;
+const DC_CRITICAL = 0.05;
+const IMBALANCE_WARNING_DB = 6;
+// Below this level a channel carries no signal
+const DEAD_CHANNEL_DB = -90;
+// Level blocks for deciding whether audio around a gap is live
+const BLOCK_SECONDS = 0.01;
+const ACTIVE_DB = -50;
+// Findings of the same check closer than this are merged
+const MERGE_SECONDS = 0.05;
+const MAX_FINDINGS_PER_CHECK = 200;
+const STANDARD_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000, 176400, 192000];
+const YIELD_SAMPLES = 1 << 20;
+
+const SEVERITY_RANK: Record<IntegritySeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+const formatDbfs = (value: number) => `${toDb(value * value).toFixed(1)} dBFS`;
+
+interface Run {
+  start: number;
+  end: number;
+}
+
+/** RMS level in dBFS of consecutive blocks of one channel. */
+const blockLevels = (samples: Float32Array, blockSize: number) => {
+  const levels = new Float32Array(Math.ceil(samples.length / blockSize));
+  for (let b = 0; b < levels.length; b++) {
+    const end = Math.min(samples.length, (b + 1) * blockSize);
+    let sum = 0;
+    for (let i = b * blockSize; i < end; i++) sum += samples[i] * samples[i];
+    levels[b] = toDb(sum / (end - b * blockSize));
+  }
+  return levels;
+};
+
+/** Whether the blocks just before `start` and just after `end` both hold live audio. */
+const liveAround = (levels: Float32Array, blockSize: number, run: Run) => {
+  const before = Math.floor(run.start / blockSize) - 1;
+  const after = Math.ceil(run.end / blockSize);
+  return before >= 0 && after < levels.length && levels[before] > ACTIVE_DB && levels[after] > ACTIVE_DB;
+};
+
+/** Runs of at least `minLength` samples for which `test` holds. */
+const findRuns = async (length: number, test: (i: number) => boolean, minLength: number) => {
+  const runs: Run[] = [];
+  let start = -1;
+  for (let i = 0; i <= length; i++) {
+    if (i < length && test(i)) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      if (i - start >= minLength) runs.push({ start, end: i });
+      start = -1;
+    }
+    if (i % YIELD_SAMPLES === YIELD_SAMPLES - 1) await yieldToMain();
+  }
+  return runs;
+};
+
+/** Merge runs separated by less than `gap` samples into groups. */
+const groupRuns = (runs: Run[], gap: number) => {
+  const groups: Run[][] = [];
+  runs.forEach(run => {
+    const last = groups[groups.length - 1];
+    if (last && run.start - last[last.length - 1].end < gap) last.push(run);
+    else groups.push([run]);
+  });
+  return groups;
+};
+
+const clippingFindings = async (samples: Float32Array, sampleRate: number, channel: number | null) => {
+  const runs = await findRuns(samples.length, i => Math.abs(samples[i]) >= CLIP_LEVEL, MIN_CLIP_RUN);
+  return groupRuns(runs, MERGE_SECONDS * sampleRate).map((group): IntegrityFinding => {
+    const longest = Math.max(...group.map(run => run.end - run.start));
+    const clipped = group.reduce((sum, run) => sum + run.end - run.start, 0);
+    return {
+      check: 'clipping',
+      time: group[0].start / sampleRate,
+      duration: (group[group.length - 1].end - group[0].start) / sampleRate,
+      channel,
+      severity: longest >= CRITICAL_CLIP_RUN ? 'critical' : 'warning',
+      detail: `${group.length} clipped run(s), ${clipped} samples at full scale, longest ${longest} samples`
+    };
+  });
+};
+
+/** Zero runs of every channel at once: digital silence, or a dropout inside live audio. */
+const silenceFindings = async (buffer: StoredBuffer, levels: Float32Array[], blockSize: number) => {
+  const { channels, sampleRate, length } = buffer;
+  const runs = await findRuns(length, i => channels.every(channel => channel[i] === 0), MIN_ZERO_RUN);
+  return runs.flatMap((run): IntegrityFinding[] => {
+    const seconds = (run.end - run.start) / sampleRate;
+    const live = levels.some(channelLevels => liveAround(channelLevels, blockSize, run));
+    if (live && seconds < MAX_DROPOUT_SECONDS) {
+      return [{
+        check: 'dropout',
+        time: run.start / sampleRate,
+        duration: seconds,
+        channel: null,
+        severity: 'critical',
+        detail: `${run.end - run.start} samples of exact zero inside live audio`
+      }];
+    }
+    if (seconds < MIN_SILENCE_SECONDS) return [];
+    // Zeros at the ends of a file are usually padding; in the middle no live microphone produces them
+    const atEdge = run.start === 0 || run.end === length;
+    return [{
+      check: 'silence',
+      time: run.start / sampleRate,
+      duration: seconds,
+      channel: null,
+      severity: atEdge ? 'info' : 'warning',
+      detail: `${seconds.toFixed(2)} s of digital silence${atEdge ? ` at the ${run.start === 0 ? 'start' : 'end'} of the file` : ''}`
+    }];
+  });
+};
+
+/** A channel that drops to exact zero while the others carry on. */
+const channelDropoutFindings = async (buffer: StoredBuffer, c: number, levels: Float32Array, blockSize: number) => {
+  const { channels, sampleRate } = buffer;
+  const samples = channels[c];
+  const runs = await findRuns(
+    samples.length,
+    i => samples[i] === 0 && channels.some(channel => channel[i] !== 0),
+    MIN_ZERO_RUN
+  );
+  return runs
+    .filter(run => liveAround(levels, blockSize, run) && run.end - run.start < MAX_DROPOUT_SECONDS * sampleRate)
+    .map((run): IntegrityFinding => ({
+      check: 'dropout',
+      time: run.start / sampleRate,
+      duration: (run.end - run.start) / sampleRate,
+      channel: c,
+      severity: 'critical',
+      detail: `${run.end - run.start} samples of exact zero while the other channels carry signal`
+    }));
+};
+
+/**
+ * Held samples and repeated buffers in live audio: the traces of a sample
+ * clock or buffer that stalled. A repeated buffer is a block equal to the
+ * one before it; a steady tone repeats for far longer, so only repeats
+ * lasting between one and two blocks count.
+ */
+const clockGlitchFindings = async (
+  samples: Float32Array,
+  sampleRate: number,
+  channel: number | null,
+  levels: Float32Array,
+  blockSize: number
+) => {
+  const live = (i: number) => levels[Math.floor(i / blockSize)] > ACTIVE_DB;
+  const findings: IntegrityFinding[] = [];
+
+  const holds = await findRuns(
+    samples.length,
+    i => i > 0 && samples[i] === samples[i - 1] && samples[i] !== 0 && Math.abs(samples[i]) < CLIP_LEVEL,
+    MIN_HOLD_RUN - 1
+  );
+  holds.filter(run => live(run.start)).forEach(run => findings.push({
+    check: 'rateGlitch',
+    time: (run.start - 1) / sampleRate,
+    duration: (run.end - run.start + 1) / sampleRate,
+    channel,
+    severity: 'warning',
+    detail: `Sample value held for ${run.end - run.start + 1} samples`
+  }));
+
+  for (const period of REPEAT_PERIODS) {
+    const repeats = await findRuns(
+      samples.length,
+      i => i >= period && samples[i] === samples[i - period] && samples[i] !== samples[i - 1],
+      1
+    );
+    // Runs break at held samples; rejoin them before measuring
+    groupRuns(repeats, MIN_HOLD_RUN)
+      .map(group => ({ start: group[0].start, end: group[group.length - 1].end }))
+      .filter(run => run.end - run.start >= period && run.end - run.start < 2 * period && live(run.start))
+      .forEach(run => findings.push({
+        check: 'rateGlitch',
+        time: run.start / sampleRate,
+        duration: period / sampleRate,
+        channel,
+        severity: 'critical',
+        detail: `Block of ${period} samples repeats the one before it (buffer under-run)`
+      }));
+  }
+  return findings;
+};
+
+const dcOffsetFindings = (samples: Float32Array, sampleRate: number, channel: number | null): IntegrityFinding[] => {
+  const mean = samples.reduce((sum, x) => sum + x, 0) / (samples.length || 1);
+  const magnitude = Math.abs(mean);
+  if (magnitude < DC_WARNING) return [];
+  return [{
+    check: 'dcOffset',
+    time: 0,
+    duration: samples.length / sampleRate,
+    channel,
+    severity: magnitude >= DC_CRITICAL ? 'critical' : 'warning',
+    detail: `Mean ${mean >= 0 ? '+' : ''}${mean.toFixed(4)} FS (${formatDbfs(magnitude)})`
+  }];
+};
+
+/** Channel levels over the blocks where any channel is live. */
+const imbalanceFindings = (buffer: StoredBuffer, levels: Float32Array[]): IntegrityFinding[] => {
+  const blocks = levels[0].length;
+  const power = levels.map(() => 0);
+  let live = 0;
+  for (let b = 0; b < blocks; b++) {
+    if (!levels.some(channelLevels => channelLevels[b] > ACTIVE_DB)) continue;
+    levels.forEach((channelLevels, c) => { power[c] += Math.pow(10, channelLevels[b] / 10); });
+    live++;
+  }
+  if (live === 0) return [];
+
+  const db = power.map(p => toDb(p / live));
+  const loudest = Math.max(...db);
+  return db.flatMap((level, c): IntegrityFinding[] => {
+    const difference = loudest - level;
+    if (level < DEAD_CHANNEL_DB) {
+      return [{
+        check: 'imbalance',
+        time: 0,
+        duration: buffer.duration,
+        channel: c,
+        severity: 'critical',
+        detail: `Channel ${c + 1} carries no signal (${level.toFixed(1)} dBFS)`
+      }];
+    }
+    if (difference < IMBALANCE_WARNING_DB) return [];
+    return [{
+      check: 'imbalance',
+      time: 0,
+      duration: buffer.duration,
+      channel: c,
+      severity: 'warning',
+      detail: `Channel ${c + 1} is ${difference.toFixed(1)} dB below the loudest channel`
+    }];
+  });
+};
+
+/** Rate fields of a WAV header that disagree with each other or with common practice. */
+const headerFindings = (buffer: StoredBuffer): IntegrityFinding[] => {
+  const format = buffer.wav?.format;
+  if (!format) return [];
+  const findings: IntegrityFinding[] = [];
+  if (format.byteRate !== format.sampleRate * format.blockAlign) {
+    findings.push({
+      check: 'rateGlitch',
+      time: 0,
+      duration: buffer.duration,
+      channel: null,
+      severity: 'warning',
+      detail: `WAV header byte rate ${format.byteRate} does not match ${format.sampleRate} Hz × ${format.blockAlign} bytes; players may disagree on speed`
+    });
+  }
+  if (!STANDARD_RATES.includes(format.sampleRate)) {
+    findings.push({
+      check: 'rateGlitch',
+      time: 0,
+      duration: buffer.duration,
+      channel: null,
+      severity: 'info',
+      detail: `Non-standard sample rate ${format.sampleRate} Hz`
+    });
+  }
+  return findings;
+};
+
+/** The worst severity among findings that count towards the status. */
+export const integrityStatus = (findings: IntegrityFinding[]): IntegrityStatus => {
+  const worst = Math.max(0, ...findings.map(f => SEVERITY_RANK[f.severity]));
+  return worst === 2 ? 'critical' : worst === 1 ? 'warning' : 'clean';
+};
+
+/** Number of findings of each check. */
+export const countFindings = (findings: IntegrityFinding[]) =>
+  Object.fromEntries(
+    (Object.keys(INTEGRITY_LABELS) as IntegrityCheck[]).map(check => [check, findings.filter(f => f.check === check).length])
+  ) as Record<IntegrityCheck, number>;
+
+/** Findings of a report that overlap `[start, end]` seconds. */
+export const findingsBetween = (report: IntegrityReport, start: number, end: number) =>
+  report.findings.filter(f => f.time <= end && f.time + f.duration >= start);
+
+/**
+ * Scan a stored buffer for integrity problems. Per-channel checks name the
+ * channel only when the buffer has more than one.
+ */
+export const scanIntegrity = async (
+  buffer: StoredBuffer,
+  onProgress?: (fraction: number) => void
+): Promise<IntegrityReport> => {
+  const { channels, sampleRate } = buffer;
+  const blockSize = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+  const levels = channels.map(channel => blockLevels(channel, blockSize));
+  const channelIndex = (c: number) => (channels.length > 1 ? c : null);
+  const findings: IntegrityFinding[] = [...headerFindings(buffer)];
+
+  for (const [c, samples] of channels.entries()) {
+    findings.push(...await clippingFindings(samples, sampleRate, channelIndex(c)));
+    findings.push(...dcOffsetFindings(samples, sampleRate, channelIndex(c)));
+    findings.push(...await clockGlitchFindings(samples, sampleRate, channelIndex(c), levels[c], blockSize));
+    if (channels.length > 1) findings.push(...await channelDropoutFindings(buffer, c, levels[c], blockSize));
+    onProgress?.((c + 1) / (channels.length + 1));
+    await yieldToMain();
+  }
+  findings.push(...await silenceFindings(buffer, levels, blockSize));
+  if (channels.length > 1) findings.push(...imbalanceFindings(buffer, levels));
+
+  const counts = countFindings(findings);
+  // Keep the most severe findings of each check when there are too many to list
+  const kept = (Object.keys(INTEGRITY_LABELS) as IntegrityCheck[]).flatMap(check =>
+    findings
+      .filter(f => f.check === check)
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || a.time - b.time)
+      .slice(0, MAX_FINDINGS_PER_CHECK)
+  );
+  kept.sort((a, b) => a.time - b.time);
+  onProgress?.(1);
+
+  return {
+    bufferId: buffer.id,
+    fileName: buffer.name,
+    duration: buffer.duration,
+    findings: kept,
+    counts,
+    status: integrityStatus(kept)
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { cascadeGain } from './biquad';
+import { LevelMeter, measureLoudness, weightingSections } from './metering';
+
+const SAMPLE_RATE = 48000;
+
+const sine = (seconds: number, frequency: number, amplitude = 1, phase = 0) =>
+  Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase)
+  );
+
+const gainDb = (weighting: 'A' | 'C', frequency: number) =>
+  20 * Math.log10(cascadeGain(weightingSections(weighting, SAMPLE_RATE), SAMPLE_RATE, frequency));
+
+describe('frequency weighting', () => {
+  // IEC 61672-1 table 3: nominal weighting and the class 1 limits around it
+  const TABLE: [number, number, number, number, number][] = [
+    // frequency, A, C, lower limit, upper limit
+    [31.5, -39.4, -3.0, -1.5, 1.5],
+    [100, -19.1, -0.3, -1.0, 1.0],
+    [1000, 0, 0, -0.7, 0.7],
+    [4000, 1.0, -0.8, -1.0, 1.0],
+    [8000, -1.1, -3.0, -2.5, 1.5]
+  ];
+
+  for (const [frequency, a, c, lower, upper] of TABLE) {
+    it(`A- and C-weight ${frequency} Hz within class 1 limits`, () => {
+      expect(gainDb('A', frequency) - a).toBeGreaterThanOrEqual(lower);
+      expect(gainDb('A', frequency) - a).toBeLessThanOrEqual(upper);
+      expect(gainDb('C', frequency) - c).toBeGreaterThanOrEqual(lower);
+      expect(gainDb('C', frequency) - c).toBeLessThanOrEqual(upper);
+    });
+  }
+
+  it('is normalised to 0 dB at 1 kHz', () => {
+    expect(gainDb('A', 1000)).toBeCloseTo(0, 9);
+    expect(gainDb('C', 1000)).toBeCloseTo(0, 9);
+  });
+});
+
+describe('loudness', () => {
+  it('reads a full-scale 997 Hz sine as -3.01 LUFS (BS.1770)', () => {
+    const { integratedLufs, maxMomentaryLufs } = measureLoudness([sine(5, 997)], SAMPLE_RATE);
+    expect(integratedLufs).toBeCloseTo(-3.01, 1);
+    expect(maxMomentaryLufs).toBeCloseTo(-3.01, 1);
+  });
+
+  it('adds 3 dB for the same sine on two channels', () => {
+    const { integratedLufs } = measureLoudness([sine(5, 997), sine(5, 997)], SAMPLE_RATE);
+    expect(integratedLufs).toBeCloseTo(0, 1);
+  });
+
+  it('gates out silence', () => {
+    // Ungated, half a signal of silence would read 3 dB lower; only the
+    // blocks straddling the end of the tone pull the reading down a little
+    const signal = new Float32Array(10 * SAMPLE_RATE);
+    signal.set(sine(5, 997, 0.5));
+    const { integratedLufs } = measureLoudness([signal], SAMPLE_RATE);
+    expect(Math.abs((integratedLufs ?? 0) - (-3.01 - 6.02))).toBeLessThan(0.2);
+  });
+
+  it('gives no integrated loudness for silence', () => {
+    expect(measureLoudness([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE).integratedLufs).toBeNull();
+  });
+});
+
+describe('LevelMeter', () => {
+  it('reads RMS and sample peak of a sine', () => {
+    const meter = new LevelMeter(SAMPLE_RATE, 1);
+    meter.process([sine(1, 1000, 0.5)]);
+    const reading = meter.reading();
+    expect(reading.rmsDbfs).toBeCloseTo(-6.02 - 3.01, 1);
+    expect(reading.peakDbfs).toBeCloseTo(-6.02, 1);
+  });
+
+  it('finds the true peak between samples', () => {
+    // A quarter-rate sine sampled 45° off its crests never reaches full scale in the samples
+    const meter = new LevelMeter(SAMPLE_RATE, 1);
+    meter.process([sine(0.1, SAMPLE_RATE / 4, 1, Math.PI / 4)]);
+    const { peakDbfs, truePeakDbtp } = meter.reading();
+    expect(peakDbfs).toBeCloseTo(-3.01, 1);
+    expect(Math.abs(truePeakDbtp)).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,466 @@
+import {
+  BiquadCoefficients,
+  BiquadState,
+  bilinearSection,
+  cascadeGain,
+  createBiquadState,
+  processBiquadSample
+} from './biquad';
+import { toDb } from './fft';
+
+// Level metering on time-domain float samples: dBFS RMS and peak, 4x
+// oversampled true-peak, ITU-R BS.1770 loudness (momentary, short-term,
+// integrated) and IEC 61672 style A/C/Z frequency weighting with
+// Fast/Slow/Impulse time weighting.
+
+export type FrequencyWeighting = 'A' | 'C' | 'Z';
+export type TimeWeighting = 'fast' | 'slow' | 'impulse';
+export type MeterMeasure =
+  | 'rms'
+  | 'peak'
+  | 'truePeak'
+  | 'weighted'
+  | 'momentary'
+  | 'shortTerm'
+  | 'integrated';
+
+export interface MeterOptions {
+  frequencyWeighting: FrequencyWeighting;
+  timeWeighting: TimeWeighting;
+}
+
+export const DEFAULT_METER_OPTIONS: MeterOptions = {
+  frequencyWeighting: 'A',
+  timeWeighting: 'fast'
+};
+
+export interface MeterReading {
+  // RMS and sample peak of the most recent block, unweighted
+  rmsDbfs: number;
+  peakDbfs: number;
+  // Highest inter-sample peak since the meter was reset
+  truePeakDbtp: number;
+  // Frequency- and time-weighted level relative to full scale
+  weightedDbfs: number;
+  momentaryLufs: number | null;
+  shortTermLufs: number | null;
+  integratedLufs: number | null;
+  frequencyWeighting: FrequencyWeighting;
+  timeWeighting: TimeWeighting;
+}
+
+const SILENCE_DB = -150;
+
+// Pole frequencies of the IEC 61672-1 weighting curves
+const F1 = 20.598997;
+const F2 = 107.65265;
+const F3 = 737.86223;
+const F4 = 12194.217;
+
+/**
+ * Digital A/C/Z weighting via the bilinear transform of the analogue
+ * prototypes, normalised to 0 dB at 1 kHz. Within IEC 61672 class 1
+ * tolerances up to about 10 kHz at 48 kHz sampling.
+ */
+export const weightingSections = (
+  weighting: FrequencyWeighting,
+  sampleRate: number
+): BiquadCoefficients[] => {
+  if (weighting === 'Z') return [];
+
+  // Pre-warp the poles so they land on the right frequencies after the
+  // bilinear transform; this matters most for the 12.2 kHz pole.
+  const warp = (f: number) => 2 * sampleRate * Math.tan((Math.PI * f) / sampleRate);
+  const w1 = warp(F1);
+  const w2 = warp(F2);
+  const w3 = warp(F3);
+  const w4 = warp(F4);
+
+  const lowPoles = bilinearSection(sampleRate, [1, 0, 0], [2 * w1, w1 * w1]);
+  const highPoles = bilinearSection(sampleRate, [0, 0, 1], [2 * w4, w4 * w4]);
+  const sections = weighting === 'A'
+    ? [lowPoles, bilinearSection(sampleRate, [1, 0, 0], [w2 + w3, w2 * w3]), highPoles]
+    : [lowPoles, highPoles];
+
+  const norm = 1 / cascadeGain(sections, sampleRate, 1000);
+  const [first, ...rest] = sections;
+  return [{ ...first, b0: first.b0 * norm, b1: first.b1 * norm, b2: first.b2 * norm }, ...rest];
+};
+
+/**
+ * BS.1770 K-weighting (pre-filter shelf plus RLB high-pass), derived for any
+ * sample rate. At 48 kHz this reproduces the coefficients in the standard.
+ */
+export const kWeightingSections = (sampleRate: number): BiquadCoefficients[] => {
+  const shelfF0 = 1681.974450955533;
+  const shelfGain = 3.999843853973347;
+  const shelfQ = 0.7071752369554196;
+  let k = Math.tan((Math.PI * shelfF0) / sampleRate);
+  const vh = Math.pow(10, shelfGain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / shelfQ + k * k;
+  const shelf = {
+    b0: (vh + (vb * k) / shelfQ + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / shelfQ + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / shelfQ + k * k) / a0
+  };
+
+  const hpF0 = 38.13547087602444;
+  const hpQ = 0.5003270373238773;
+  k = Math.tan((Math.PI * hpF0) / sampleRate);
+  a0 = 1 + k / hpQ + k * k;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / hpQ + k * k) / a0
+  };
+
+  return [shelf, highPass];
+};
+
+/** BS.1770 channel weights; 6 channels are taken as L R C LFE Ls Rs. */
+const loudnessChannelGains = (channelCount: number) =>
+  channelCount === 6 ? [1, 1, 1, 0, 1.41, 1.41] : Array(channelCount).fill(1);
+
+const TRUE_PEAK_FACTOR = 4;
+const TRUE_PEAK_TAPS = 12;
+
+// Polyphase windowed-sinc interpolator: 48 taps split into 4 phases of 12,
+// the same structure as the BS.1770-4 Annex 2 reference filter.
+const TRUE_PEAK_PHASES = (() => {
+  const length = TRUE_PEAK_FACTOR * TRUE_PEAK_TAPS;
+  const centre = (length - 1) / 2;
+  const prototype = Array.from({ length }, (_, n) => {
+    const x = (n - centre) / TRUE_PEAK_FACTOR;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+    return sinc * window;
+  });
+  return Array.from({ length: TRUE_PEAK_FACTOR }, (_, p) =>
+    Array.from({ length: TRUE_PEAK_TAPS }, (_, k) => prototype[p + k * TRUE_PEAK_FACTOR])
+  );
+})();
+
+const lufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : SILENCE_DB);
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Time constants in seconds; Impulse uses a fast rise and slow decay
+const TIME_CONSTANTS: Record<TimeWeighting, { rise: number; fall: number }> = {
+  fast: { rise: 0.125, fall: 0.125 },
+  slow: { rise: 1, fall: 1 },
+  impulse: { rise: 0.035, fall: 1.5 }
+};
+
+/** Streaming meter; feed it consecutive blocks with `process`. */
+export class LevelMeter {
+  private options: MeterOptions;
+  private weighting: BiquadCoefficients[] = [];
+  private weightingStates: BiquadState[][] = [];
+  private kWeighting: BiquadCoefficients[];
+  private kStates: BiquadState[][] = [];
+  private channelGains: number[];
+  private history: Float64Array[] = [];
+  private riseCoeff = 0;
+  private fallCoeff = 0;
+
+  private timeWeightedPower = 0;
+  private blockSumSquares = 0;
+  private blockPeak = 0;
+  private blockCount = 0;
+  private truePeak = 0;
+
+  private readonly subBlockSize: number;
+  private subBlockSum = 0;
+  private subBlockFill = 0;
+  private subBlocks: number[] = [];
+  private gatingBlocks: number[] = [];
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly channelCount: number,
+    options: MeterOptions = DEFAULT_METER_OPTIONS
+  ) {
+    this.options = options;
+    this.kWeighting = kWeightingSections(sampleRate);
+    this.channelGains = loudnessChannelGains(channelCount);
+    this.subBlockSize = Math.round(0.1 * sampleRate);
+    this.setOptions(options);
+    this.reset();
+  }
+
+  setOptions(options: MeterOptions) {
+    this.options = options;
+    this.weighting = weightingSections(options.frequencyWeighting, this.sampleRate);
+    this.weightingStates = Array.from({ length: this.channelCount }, () =>
+      this.weighting.map(createBiquadState)
+    );
+    const { rise, fall } = TIME_CONSTANTS[options.timeWeighting];
+    this.riseCoeff = 1 - Math.exp(-1 / (rise * this.sampleRate));
+    this.fallCoeff = 1 - Math.exp(-1 / (fall * this.sampleRate));
+    this.timeWeightedPower = 0;
+  }
+
+  reset() {
+    this.kStates = Array.from({ length: this.channelCount }, () =>
+      this.kWeighting.map(createBiquadState)
+    );
+    this.history = Array.from({ length: this.channelCount }, () => new Float64Array(TRUE_PEAK_TAPS));
+    this.setOptions(this.options);
+    this.truePeak = 0;
+    this.subBlockSum = 0;
+    this.subBlockFill = 0;
+    this.subBlocks = [];
+    this.gatingBlocks = [];
+    this.blockSumSquares = 0;
+    this.blockPeak = 0;
+    this.blockCount = 0;
+  }
+
+  /** Process one block; `channels` must all have the same length. */
+  process(channels: Float32Array[]) {
+    const length = channels[0]?.length ?? 0;
+    const count = Math.min(channels.length, this.channelCount);
+    this.blockSumSquares = 0;
+    this.blockPeak = 0;
+    this.blockCount = length * count;
+
+    for (let i = 0; i < length; i++) {
+      let weightedPower = 0;
+      let loudnessPower = 0;
+
+      for (let c = 0; c < count; c++) {
+        const x = channels[c][i];
+        this.blockSumSquares += x * x;
+        this.blockPeak = Math.max(this.blockPeak, Math.abs(x));
+
+        let y = x;
+        const states = this.weightingStates[c];
+        for (let s = 0; s < this.weighting.length; s++) {
+          y = processBiquadSample(this.weighting[s], states[s], y);
+        }
+        weightedPower += y * y;
+
+        let k = x;
+        const kStates = this.kStates[c];
+        for (let s = 0; s < this.kWeighting.length; s++) {
+          k = processBiquadSample(this.kWeighting[s], kStates[s], k);
+        }
+        loudnessPower += this.channelGains[c] * k * k;
+
+        this.updateTruePeak(c, x);
+      }
+
+      weightedPower /= count;
+      const coeff = weightedPower > this.timeWeightedPower ? this.riseCoeff : this.fallCoeff;
+      this.timeWeightedPower += coeff * (weightedPower - this.timeWeightedPower);
+
+      this.subBlockSum += loudnessPower;
+      if (++this.subBlockFill === this.subBlockSize) this.completeSubBlock();
+    }
+  }
+
+  private updateTruePeak(channel: number, x: number) {
+    const history = this.history[channel];
+    history.copyWithin(1, 0);
+    history[0] = x;
+    let peak = Math.abs(x);
+    for (const phase of TRUE_PEAK_PHASES) {
+      let y = 0;
+      for (let k = 0; k < TRUE_PEAK_TAPS; k++) y += phase[k] * history[k];
+      peak = Math.max(peak, Math.abs(y));
+    }
+    this.truePeak = Math.max(this.truePeak, peak);
+  }
+
+  private completeSubBlock() {
+    this.subBlocks.push(this.subBlockSum / this.subBlockSize);
+    if (this.subBlocks.length > 30) this.subBlocks.shift();
+    this.subBlockSum = 0;
+    this.subBlockFill = 0;
+
+    // 400 ms gating blocks with 75 % overlap
+    if (this.subBlocks.length >= 4) {
+      this.gatingBlocks.push(mean(this.subBlocks.slice(-4)));
+    }
+  }
+
+  private integratedLoudness() {
+    const absolute = this.gatingBlocks.filter(p => lufs(p) > -70);
+    if (absolute.length === 0) return null;
+    const relativeGate = lufs(mean(absolute)) - 10;
+    const gated = absolute.filter(p => lufs(p) > relativeGate);
+    return gated.length > 0 ? lufs(mean(gated)) : null;
+  }
+
+  reading(): MeterReading {
+    return {
+      rmsDbfs: toDb(this.blockCount > 0 ? this.blockSumSquares / this.blockCount : 0, SILENCE_DB),
+      peakDbfs: toDb(this.blockPeak * this.blockPeak, SILENCE_DB),
+      truePeakDbtp: toDb(this.truePeak * this.truePeak, SILENCE_DB),
+      weightedDbfs: toDb(this.timeWeightedPower, SILENCE_DB),
+      momentaryLufs: this.subBlocks.length >= 4 ? lufs(mean(this.subBlocks.slice(-4))) : null,
+      shortTermLufs: this.subBlocks.length >= 30 ? lufs(mean(this.subBlocks)) : null,
+      integratedLufs: this.integratedLoudness(),
+      frequencyWeighting: this.options.frequencyWeighting,
+      timeWeighting: this.options.timeWeighting
+    };
+  }
+}
+
+const TIME_WEIGHTING_LABELS: Record<TimeWeighting, string> = {
+  fast: 'Fast',
+  slow: 'Slow',
+  impulse: 'Impulse'
+};
+
+export const MEASURE_LABELS: Record<MeterMeasure, string> = {
+  rms: 'RMS',
+  peak: 'Sample peak',
+  truePeak: 'True peak',
+  weighted: 'Weighted level',
+  momentary: 'Momentary loudness',
+  shortTerm: 'Short-term loudness',
+  integrated: 'Integrated loudness'
+};
+
+/**
+ * Value, unit and display range of one measure from a reading. With a
+ * calibration offset, pressure-related measures are reported in dB SPL;
+ * true-peak and loudness stay relative to full scale by definition.
+ */
+export const readMeasure = (
+  reading: MeterReading | null,
+  measure: MeterMeasure,
+  calibrationOffsetDb: number | null = null
+) => {
+  const loudnessRange: [number, number] = [-60, 0];
+  const calibrated = calibrationOffsetDb !== null;
+  const levelRange: [number, number] = calibrated ? [20, 130] : [-96, 0];
+  const level = (value: number | undefined) =>
+    value === undefined ? null : value + (calibrationOffsetDb ?? 0);
+  const scale = calibrated ? 'dB SPL' : 'dBFS';
+
+  switch (measure) {
+    case 'rms':
+      return { value: level(reading?.rmsDbfs), unit: `${scale} RMS`, range: levelRange };
+    case 'peak':
+      return { value: level(reading?.peakDbfs), unit: `${scale} peak`, range: levelRange };
+    case 'truePeak':
+      return { value: reading?.truePeakDbtp ?? null, unit: 'dBTP', range: [-96, 0] as [number, number] };
+    case 'weighted':
+      return {
+        value: level(reading?.weightedDbfs),
+        unit: reading
+          ? `${scale} ${reading.frequencyWeighting}-wtd ${TIME_WEIGHTING_LABELS[reading.timeWeighting]}`
+          : scale,
+        range: levelRange
+      };
+    case 'momentary':
+      return { value: reading?.momentaryLufs ?? null, unit: 'LUFS (M)', range: loudnessRange };
+    case 'shortTerm':
+      return { value: reading?.shortTermLufs ?? null, unit: 'LUFS (S)', range: loudnessRange };
+    case 'integrated':
+      return { value: reading?.integratedLufs ?? null, unit: 'LUFS (I)', range: loudnessRange };
+  }
+};
+
+/**
+ * Reads the newest samples from a graph node, one AnalyserNode per channel.
+ * Only samples that arrived since the previous `read` are returned, so a
+ * meter fed from here sees each sample once as long as reads are no further
+ * apart than the analyser window.
+ */
+export class AnalyserTap {
+  private readonly splitter: ChannelSplitterNode;
+  private readonly analysers: AnalyserNode[];
+  private readonly scratch: Float32Array[];
+  private lastReadTime: number | null = null;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    private readonly source: AudioNode,
+    readonly channelCount: number,
+    fftSize = 8192
+  ) {
+    this.splitter = context.createChannelSplitter(channelCount);
+    source.connect(this.splitter);
+    this.analysers = Array.from({ length: channelCount }, (_, c) => {
+      const analyser = context.createAnalyser();
+      analyser.fftSize = fftSize;
+      this.splitter.connect(analyser, c);
+      return analyser;
+    });
+    this.scratch = this.analysers.map(() => new Float32Array(fftSize));
+  }
+
+  get sampleRate() {
+    return this.context.sampleRate;
+  }
+
+  read(): Float32Array[] {
+    const now = this.context.currentTime;
+    const size = this.scratch[0].length;
+    const fresh = this.lastReadTime === null
+      ? size
+      : Math.min(size, Math.round((now - this.lastReadTime) * this.context.sampleRate));
+    this.lastReadTime = now;
+
+    return this.analysers.map((analyser, c) => {
+      analyser.getFloatTimeDomainData(this.scratch[c]);
+      return this.scratch[c].slice(size - fresh);
+    });
+  }
+
+  disconnect() {
+    this.source.disconnect(this.splitter);
+    this.splitter.disconnect();
+  }
+}
+
+/** Meter a tap on every animation frame until the returned stop is called. */
+export const startMeterLoop = (
+  tap: AnalyserTap,
+  meter: LevelMeter,
+  onReading: (reading: MeterReading) => void
+) => {
+  let frame = 0;
+  const tick = () => {
+    const block = tap.read();
+    if (block[0].length > 0) {
+      meter.process(block);
+      onReading(meter.reading());
+    }
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+  return () => cancelAnimationFrame(frame);
+};
+
+/** Offline BS.1770 summary of a whole signal, as stored in a BWF `bext` chunk. */
+export const measureLoudness = (channels: Float32Array[], sampleRate: number) => {
+  const meter = new LevelMeter(sampleRate, channels.length);
+  const blockSize = Math.round(sampleRate / 10);
+  const length = channels[0]?.length ?? 0;
+  let maxMomentary: number | null = null;
+  let maxShortTerm: number | null = null;
+
+  for (let start = 0; start < length; start += blockSize) {
+    meter.process(channels.map(channel => channel.subarray(start, start + blockSize)));
+    const { momentaryLufs, shortTermLufs } = meter.reading();
+    if (momentaryLufs !== null) maxMomentary = Math.max(maxMomentary ?? -Infinity, momentaryLufs);
+    if (shortTermLufs !== null) maxShortTerm = Math.max(maxShortTerm ?? -Infinity, shortTermLufs);
+  }
+
+  const reading = meter.reading();
+  return {
+    integratedLufs: reading.integratedLufs,
+    truePeakDbtp: length > 0 ? reading.truePeakDbtp : null,
+    maxMomentaryLufs: maxMomentary,
+    maxShortTermLufs: maxShortTerm
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { EventDetectionOptions, detectEvents, pickOnsets, spectralFlux } from './onsets';
+
+const RATE = 16000;
+const FRAME = 1024;
+const HOP = 256;
+const HOP_SECONDS = HOP / RATE;
+
+const OPTIONS: EventDetectionOptions = {
+  onThresholdDb: 10,
+  offThresholdDb: 6,
+  holdSeconds: 0.3,
+  minDurationSeconds: 0.1,
+  onsetSensitivity: 6
+};
+
+// Quiet noise with 50 ms bursts of loud noise at `times`
+const bursts = (seconds: number, times: number[]) => {
+  let seed = 9;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+  const samples = new Float32Array(seconds * RATE);
+  for (let i = 0; i < samples.length; i++) samples[i] = 0.001 * random();
+  for (const time of times) {
+    const start = Math.round(time * RATE);
+    for (let i = start; i < start + 0.05 * RATE; i++) samples[i] = 0.5 * random();
+  }
+  return samples;
+};
+
+// Per-frame levels: the floor, raised to `db` over [from, to) frames
+const levelsWith = (frames: number, floorDb: number, spans: [number, number, number][]) => {
+  const levels = new Float64Array(frames).fill(floorDb);
+  for (const [from, to, db] of spans) levels.fill(db, from, to);
+  return levels;
+};
+
+describe('onsets', () => {
+  it('finds the onset of every burst and nothing in the noise', async () => {
+    const times = [0.5, 1.3, 2.1, 2.9];
+    const samples = bursts(4, times);
+    const frameCount = Math.floor((samples.length - FRAME) / HOP) + 1;
+    const flux = await spectralFlux(samples, FRAME, HOP, frameCount);
+    const onsets = [...pickOnsets(flux, HOP_SECONDS, OPTIONS.onsetSensitivity).keys()].map(f => f * HOP_SECONDS);
+
+    expect(onsets).toHaveLength(times.length);
+    // A frame sees a burst once it reaches the frame's far end
+    onsets.forEach((onset, i) => expect(Math.abs(onset + FRAME / RATE / 2 - times[i])).toBeLessThan(0.04));
+  });
+
+  it('opens an event on the onset that led up to the level crossing', () => {
+    const levels = levelsWith(400, -60, [[100, 160, -40]]);
+    const [event] = detectEvents(levels, -60, new Map([[98, 5]]), HOP_SECONDS, OPTIONS);
+    expect(event).toEqual({ startFrame: 98, endFrame: 160, onsetStrength: 5 });
+  });
+
+  it('keeps an event open through dips shorter than the hold time', () => {
+    const hold = Math.round(OPTIONS.holdSeconds / HOP_SECONDS);
+    const levels = levelsWith(600, -60, [[100, 150, -40], [150 + hold - 2, 220, -40]]);
+    expect(detectEvents(levels, -60, new Map(), HOP_SECONDS, OPTIONS)).toHaveLength(1);
+
+    const apart = levelsWith(600, -60, [[100, 150, -40], [150 + hold + 5, 220, -40]]);
+    expect(detectEvents(apart, -60, new Map(), HOP_SECONDS, OPTIONS)).toHaveLength(2);
+  });
+
+  it('does not chatter between the on and off thresholds', () => {
+    // Hovers 8 dB above the floor: below on, above off
+    const levels = levelsWith(600, -60, [[100, 120, -45], [120, 400, -52]]);
+    const events = detectEvents(levels, -60, new Map(), HOP_SECONDS, OPTIONS);
+    expect(events).toEqual([{ startFrame: 100, endFrame: 400, onsetStrength: 0 }]);
+  });
+
+  it('splits at a strong onset and drops events that are too short', () => {
+    const levels = levelsWith(600, -60, [[100, 300, -40], [400, 403, -40]]);
+    const events = detectEvents(levels, -60, new Map([[200, 3]]), HOP_SECONDS, OPTIONS);
+    expect(events.map(e => [e.startFrame, e.endFrame])).toEqual([[100, 200], [200, 300]]);
+  });
+});
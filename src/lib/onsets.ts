@@ -0,0 +1,137 @@
+import { fft, hannWindow } from './fft';
+import { median, yieldToMain } from './util';
+
+// Sound-event detection. Onsets are peaks of the spectral flux (the rise of
+// log-compressed magnitude from one frame to the next); events are spans of
+// frames whose level stays above the noise floor, with separate thresholds
+// for starting and ending an event so it does not chatter on a level that
+// hovers near one threshold. A strong onset inside an event starts a new one.
+
+export interface EventDetectionOptions {
+  // An event starts once the level is this far above the noise floor...
+  onThresholdDb: number;
+  // ...and ends once it has stayed below this for `holdSeconds`
+  offThresholdDb: number;
+  holdSeconds: number;
+  minDurationSeconds: number;
+  // Onsets need a flux this many median absolute deviations above the local median
+  onsetSensitivity: number;
+}
+
+export interface EventSpan {
+  startFrame: number;
+  endFrame: number; // exclusive
+  // Flux of the onset that opened the event, 0 when it faded in
+  onsetStrength: number;
+}
+
+// Compression of magnitudes before differencing, so quiet and loud
+// spectral changes weigh alike
+const LOG_COMPRESSION = 100;
+// Half-width of the moving median for the onset threshold, in seconds
+const MEDIAN_WINDOW_SECONDS = 0.5;
+// How far before the level crossing an onset may move the event start
+const ONSET_LOOKBACK_SECONDS = 0.1;
+const FRAMES_PER_YIELD = 512;
+
+/** Half-wave rectified spectral flux of frames starting every `hopSize` samples. */
+export const spectralFlux = async (samples: Float32Array, frameSize: number, hopSize: number, frameCount: number) => {
+  const window = hannWindow(frameSize);
+  const bins = frameSize / 2 + 1;
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const previous = new Float64Array(bins);
+  const flux = new Float64Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hopSize;
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = start + i < samples.length ? samples[start + i] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+    let sum = 0;
+    for (let k = 0; k < bins; k++) {
+      const value = Math.log1p(LOG_COMPRESSION * Math.sqrt(re[k] * re[k] + im[k] * im[k]));
+      if (f > 0 && value > previous[k]) sum += value - previous[k];
+      previous[k] = value;
+    }
+    flux[f] = sum / bins;
+    if (f % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) await yieldToMain();
+  }
+  return flux;
+};
+
+/**
+ * Frames where the flux is a local maximum and exceeds a moving median by
+ * `sensitivity` times the median absolute deviation of the whole signal.
+ */
+export const pickOnsets = (flux: Float64Array, hopSeconds: number, sensitivity: number) => {
+  const globalMedian = median(flux);
+  const spread = median(flux.map(value => Math.abs(value - globalMedian))) || globalMedian || 1e-9;
+  const half = Math.max(1, Math.round(MEDIAN_WINDOW_SECONDS / hopSeconds));
+  const onsets = new Map<number, number>();
+
+  for (let f = 1; f < flux.length; f++) {
+    if (flux[f] < flux[f - 1] || (f + 1 < flux.length && flux[f] < flux[f + 1])) continue;
+    const local = median(flux.subarray(Math.max(0, f - half), Math.min(flux.length, f + half + 1)));
+    if (flux[f] > local + sensitivity * spread) onsets.set(f, flux[f]);
+  }
+  return onsets;
+};
+
+/** Split per-frame levels into events using onsets and level hysteresis. */
+export const detectEvents = (
+  levels: Float64Array,
+  noiseFloorDb: number,
+  onsets: Map<number, number>,
+  hopSeconds: number,
+  options: EventDetectionOptions
+): EventSpan[] => {
+  const on = noiseFloorDb + options.onThresholdDb;
+  const off = noiseFloorDb + options.offThresholdDb;
+  const hold = Math.round(options.holdSeconds / hopSeconds);
+  const minLength = Math.max(1, Math.round(options.minDurationSeconds / hopSeconds));
+  const lookback = Math.round(ONSET_LOOKBACK_SECONDS / hopSeconds);
+
+  const events: EventSpan[] = [];
+  let current: EventSpan | null = null;
+  let quietFrames = 0;
+
+  const close = () => {
+    if (current && current.endFrame - current.startFrame >= minLength) events.push(current);
+    current = null;
+  };
+
+  levels.forEach((level, f) => {
+    if (!current) {
+      if (level < on) return;
+      // Start at the onset that led up to the crossing, if there was one
+      let start = f;
+      for (let g = f; g >= Math.max(0, f - lookback); g--) {
+        if (onsets.has(g)) {
+          start = g;
+          break;
+        }
+      }
+      current = { startFrame: start, endFrame: f + 1, onsetStrength: onsets.get(start) ?? 0 };
+      quietFrames = 0;
+      return;
+    }
+
+    if (onsets.has(f) && level >= on && f - current.startFrame >= minLength) {
+      current.endFrame = f;
+      close();
+      current = { startFrame: f, endFrame: f + 1, onsetStrength: onsets.get(f) ?? 0 };
+      quietFrames = 0;
+    } else if (level < off) {
+      if (++quietFrames > hold) close();
+    } else {
+      quietFrames = 0;
+      current.endFrame = f + 1;
+    }
+  });
+  close();
+
+  return events;
+};
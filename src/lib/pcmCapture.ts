@@ -0,0 +1,80 @@
+// Lossless capture of a graph node's output via an AudioWorklet. The
+// processor hands over the Float32 render quanta exactly as the browser
+// produced them; nothing is encoded or resampled on the way.
+
+const processorUrl = new URL('../worklets/pcmCaptureProcessor.js', import.meta.url);
+// The processor can only be registered once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+interface CaptureMessage {
+  type: 'data' | 'flushed';
+  channels?: Float32Array[];
+}
+
+export class PcmCapture {
+  private chunks: Float32Array[][] = [];
+  private flushed: (() => void) | null = null;
+
+  private constructor(
+    private readonly node: AudioWorkletNode,
+    private readonly sink: GainNode,
+    private readonly source: AudioNode
+  ) {
+    node.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+      if (event.data.type === 'data' && event.data.channels) {
+        this.chunks.push(event.data.channels);
+      } else if (event.data.type === 'flushed') {
+        this.flushed?.();
+      }
+    };
+  }
+
+  static async start(context: AudioContext, source: AudioNode, channelCount: number) {
+    if (!loadedContexts.has(context)) {
+      await context.audioWorklet.addModule(processorUrl);
+      loadedContexts.add(context);
+    }
+    const node = new AudioWorkletNode(context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'discrete'
+    });
+    // The worklet only runs while it is pulled by the destination; the
+    // muted gain keeps it in the graph without monitoring the input
+    const sink = context.createGain();
+    sink.gain.value = 0;
+    source.connect(node);
+    node.connect(sink);
+    sink.connect(context.destination);
+    return new PcmCapture(node, sink, source);
+  }
+
+  get sampleRate() {
+    return this.node.context.sampleRate;
+  }
+
+  /** Stop capturing and return the recording, one array per channel. */
+  async stop(): Promise<Float32Array[]> {
+    await new Promise<void>(resolve => {
+      this.flushed = resolve;
+      this.node.port.postMessage('flush');
+    });
+    this.source.disconnect(this.node);
+    this.node.disconnect();
+    this.sink.disconnect();
+    this.node.port.onmessage = null;
+
+    const channelCount = this.chunks[0]?.length ?? 0;
+    const length = this.chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      chunk.forEach((data, c) => channels[c]?.set(data, offset));
+      offset += chunk[0].length;
+    }
+    this.chunks = [];
+    return channels;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createPreset, parsePresetFile, presetFile } from './presets';
+import { sha256Text } from './hash';
+import { DEFAULT_SETTINGS, SENSITIVITY_PRESETS, validateSettings } from './settings';
+
+const sortKeys = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(sortKeys)
+    : value && typeof value === 'object'
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]))
+      : value;
+const fileWith = (presets: unknown[]) => JSON.stringify({ format: 'audio-forensic-presets', version: 1, presets });
+
+describe('validateSettings', () => {
+  it('accepts the defaults and partial settings', () => {
+    expect(() => validateSettings(DEFAULT_SETTINGS)).not.toThrow();
+    expect(() => validateSettings({ sensitivity: 'high', classifier: { k: 3 } })).not.toThrow();
+  });
+
+  it('rejects unknown values, wrong types and unknown fields', () => {
+    expect(() => validateSettings({ sensitivity: 'extreme' })).toThrow(/sensitivity/);
+    expect(() => validateSettings({ minDbSpl: '40' })).toThrow(/minDbSpl/);
+    expect(() => validateSettings({ vadAggressiveness: '2' })).toThrow(/vadAggressiveness/);
+    expect(() => validateSettings({ filterChain: { bands: [{ id: 'a', type: 'notch' }] } })).toThrow(/filterChain/);
+    expect(() => validateSettings({ soundTypes: { unicorn: true } })).toThrow(/soundTypes/);
+    expect(() => validateSettings({ colour: 'red' })).toThrow(/colour/);
+  });
+});
+
+describe('parsePresetFile', () => {
+  it('round-trips exported presets unaltered', async () => {
+    const preset = await createPreset('Gunshots', { ...DEFAULT_SETTINGS, sensitivity: 'forensic' });
+    const { presets, altered } = await parsePresetFile(presetFile([preset]));
+    expect(altered).toEqual([]);
+    expect(presets[0].hash).toBe(preset.hash);
+    expect(presets[0].settings.sensitivity).toBe('forensic');
+  });
+
+  it('does not flag presets written before newer settings existed', async () => {
+    const { distanceModel, micGeometry, ...rest } = DEFAULT_SETTINGS;
+    const older = { ...rest, preset: undefined };
+    const thresholds = SENSITIVITY_PRESETS[older.sensitivity];
+    // Hashed by the older version over the settings it knew
+    const hash = await sha256Text(JSON.stringify(sortKeys({ settings: older, thresholds })));
+    const { presets, altered } = await parsePresetFile(fileWith([{ name: 'Old', settings: older, thresholds, hash }]));
+    expect(altered).toEqual([]);
+    expect(presets[0].settings.distanceModel).toEqual(distanceModel);
+    expect(presets[0].settings.micGeometry).toEqual(micGeometry);
+  });
+
+  it('flags presets edited by hand', async () => {
+    const preset = await createPreset('Edited', DEFAULT_SETTINGS);
+    const entry = JSON.parse(presetFile([preset])).presets[0];
+    entry.settings.minDbSpl += 10;
+    const { altered } = await parsePresetFile(fileWith([entry]));
+    expect(altered).toEqual(['Edited']);
+  });
+
+  it('rejects invalid settings, naming the preset', async () => {
+    const preset = await createPreset('Bad', DEFAULT_SETTINGS);
+    const entry = JSON.parse(presetFile([preset])).presets[0];
+    entry.settings.sensitivity = 'extreme';
+    await expect(parsePresetFile(fileWith([entry]))).rejects.toThrow(/Bad.*sensitivity/);
+  });
+});
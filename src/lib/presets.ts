@@ -0,0 +1,162 @@
+import { sha256Text } from './hash';
+import { DetectorThresholds, SENSITIVITY_PRESETS, Settings, mergeSettings, validateSettings } from './settings';
+
+// Named analysis presets: snapshots of the settings, one per kind of case,
+// kept in localStorage and shared between analysts as versioned JSON files.
+// A preset is identified by the SHA-256 of its settings and the detector
+// thresholds behind its sensitivity, so a report can name the exact
+// configuration it used and any change to it shows.
+
+export interface AnalysisPreset {
+  name: string;
+  // Saved without a preset reference of its own
+  settings: Settings;
+  // What the sensitivity stood for when saved; part of the hash
+  thresholds: DetectorThresholds;
+  hash: string;
+  savedAt: string;
+}
+
+export const PRESET_FILE_FORMAT = 'audio-forensic-presets';
+export const PRESET_FILE_VERSION = 1;
+
+export interface PresetImport {
+  presets: AnalysisPreset[];
+  // Presets whose content no longer matches the hash in the file
+  altered: string[];
+}
+
+const STORAGE_KEY = 'audio-forensic.presets';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Keys sorted at every level, so equal settings always hash the same way
+const canonicalJson = (value: unknown): string => {
+  if (value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const contentHash = (settings: Partial<Settings>, thresholds: unknown) =>
+  sha256Text(canonicalJson({ settings: { ...settings, preset: undefined }, thresholds }));
+
+/** Version hash of settings: every setting and the current thresholds of their sensitivity, not the preset reference. */
+export const settingsHash = (settings: Settings) => contentHash(settings, SENSITIVITY_PRESETS[settings.sensitivity]);
+
+/** Leading digits of a hash, for display. */
+export const shortHash = (hash: string) => hash.slice(0, 12);
+
+export const createPreset = async (name: string, settings: Settings): Promise<AnalysisPreset> => {
+  const snapshot = { ...settings, preset: null };
+  return {
+    name: name.trim(),
+    settings: snapshot,
+    thresholds: SENSITIVITY_PRESETS[settings.sensitivity],
+    hash: await settingsHash(snapshot),
+    savedAt: new Date().toISOString()
+  };
+};
+
+/** Settings loaded from a preset, remembering which one. */
+export const applyPreset = ({ name, hash, settings }: AnalysisPreset): Settings => ({ ...settings, preset: { name, hash } });
+
+export interface PresetInEffect {
+  // Null when the settings were not loaded from a preset
+  name: string | null;
+  versionHash: string | null;
+  modified: boolean | null;
+  // Hash of the settings themselves, whether or not they match a preset
+  settingsHash: string;
+}
+
+/** The preset settings were loaded from, and whether they have been changed since. */
+export const presetInEffect = async (settings: Settings): Promise<PresetInEffect> => {
+  const hash = await settingsHash(settings);
+  return {
+    name: settings.preset?.name ?? null,
+    versionHash: settings.preset?.hash ?? null,
+    modified: settings.preset ? settings.preset.hash !== hash : null,
+    settingsHash: hash
+  };
+};
+
+const loadPresets = (): AnalysisPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading presets:', error);
+    return [];
+  }
+};
+
+const storePresets = (presets: AnalysisPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  listeners.forEach(listener => listener());
+};
+
+// Presets are keyed by name; saving under an existing name replaces it
+export const presetStore = {
+  list: loadPresets,
+
+  get: (name: string) => loadPresets().find(p => p.name === name) ?? null,
+
+  put: (preset: AnalysisPreset) => {
+    storePresets([...loadPresets().filter(p => p.name !== preset.name), preset].sort((a, b) => a.name.localeCompare(b.name)));
+  },
+
+  remove: (name: string) => {
+    storePresets(loadPresets().filter(p => p.name !== name));
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+/** Presets as an exportable file. */
+export const presetFile = (presets: AnalysisPreset[]) =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, exportedAt: new Date().toISOString(), presets }, null, 2);
+
+/**
+ * Presets from an exported file. Each preset's hash is checked against its
+ * settings and thresholds as written in the file, and one edited by hand is
+ * listed as altered. Every setting is validated; those missing from files
+ * of older versions take their defaults, and the imported presets are
+ * hashed again as they now stand.
+ */
+export const parsePresetFile = async (text: string): Promise<PresetImport> => {
+  const file = JSON.parse(text);
+  if (file?.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error('Not a preset file');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error(`Preset file version ${file.version} is not supported; this version reads up to ${PRESET_FILE_VERSION}`);
+  }
+
+  const presets: AnalysisPreset[] = [];
+  const altered: string[] = [];
+  for (const entry of file.presets) {
+    if (typeof entry?.name !== 'string' || !entry.name.trim()) throw new Error('A preset in the file has no name');
+    let settings: Partial<Settings>;
+    try {
+      settings = validateSettings(entry.settings ?? {});
+    } catch (error) {
+      throw new Error(`Preset "${entry.name}": ${error instanceof Error ? error.message : error}`);
+    }
+    const preset = await createPreset(entry.name, mergeSettings(settings));
+    presets.push(typeof entry.savedAt === 'string' ? { ...preset, savedAt: entry.savedAt } : preset);
+    if (entry.hash !== (await contentHash(settings, entry.thresholds))) altered.push(preset.name);
+  }
+  return { presets, altered };
+};
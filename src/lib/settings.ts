@@ -0,0 +1,257 @@
+import { AudioSource, SoundType } from '../types/audio';
+import { EventDetectionOptions } from './onsets';
+import { DEFAULT_FILTER_CHAIN, EQ_BAND_LABELS, FilterChain, hasGain } from './filterChain';
+import { ClassifierOptions, DEFAULT_CLASSIFIER_OPTIONS, METRIC_LABELS, loadClassifierOptions } from './classifier';
+import { DEFAULT_VAD_OPTIONS, VAD_AGGRESSIVENESS_LABELS, VadAggressiveness } from './vad';
+import { DEFAULT_MIC_GEOMETRY, MIC_LAYOUT_LABELS, MicGeometry, describeGeometry } from './doa';
+import { DEFAULT_DISTANCE_MODEL, DistanceModel, describeDistanceModel } from './distance';
+
+// The operator's analysis settings, kept in localStorage. The sensitivity
+// preset and the filter chain decide what the pipeline detects in files
+// analysed from then on; the level, distance and sound-type limits decide
+// which detected sources are shown. Nothing here changes stored evidence.
+// Named snapshots of the settings are kept as presets (see presets.ts).
+
+export type Sensitivity = 'low' | 'medium' | 'high' | 'forensic';
+
+export const SENSITIVITY_LABELS: Record<Sensitivity, string> = {
+  low: 'Low (Basic detection)',
+  medium: 'Medium (Balanced)',
+  high: 'High (Sensitive)',
+  forensic: 'Forensic (Maximum detail)'
+};
+
+export interface DetectorThresholds extends EventDetectionOptions {
+  // Most energetic events kept per file
+  maxEvents: number;
+}
+
+// Medium is the pipeline's long-standing default
+export const SENSITIVITY_PRESETS: Record<Sensitivity, DetectorThresholds> = {
+  low: { onThresholdDb: 15, offThresholdDb: 9, holdSeconds: 0.5, minDurationSeconds: 0.25, onsetSensitivity: 9, maxEvents: 12 },
+  medium: { onThresholdDb: 10, offThresholdDb: 6, holdSeconds: 0.3, minDurationSeconds: 0.1, onsetSensitivity: 6, maxEvents: 24 },
+  high: { onThresholdDb: 6, offThresholdDb: 3, holdSeconds: 0.2, minDurationSeconds: 0.05, onsetSensitivity: 4, maxEvents: 48 },
+  forensic: { onThresholdDb: 3, offThresholdDb: 1.5, holdSeconds: 0.15, minDurationSeconds: 0.02, onsetSensitivity: 3, maxEvents: 100 }
+};
+
+export const SOUND_TYPES: SoundType[] = ['noise', 'voice', 'music', 'ambient', 'unknown'];
+
+// The preset the settings were last loaded from or saved as
+export interface PresetRef {
+  name: string;
+  hash: string;
+}
+
+export interface Settings {
+  // Quieter sources are hidden; each limit applies to sources on its scale
+  minDbSpl: number;
+  minDbfs: number;
+  // Farther sources are hidden, in metres
+  maxDistance: number;
+  sensitivity: Sensitivity;
+  // Sound types shown
+  soundTypes: Record<SoundType, boolean>;
+  filterChain: FilterChain;
+  // Play the enhanced rendering of the loaded file where there is one
+  noiseSuppression: boolean;
+  showDistances: boolean;
+  // Download the analysis results whenever an analysis completes
+  autoExport: boolean;
+  // Classify sources and impulses against the reference library
+  mlPredictions: boolean;
+  classifier: ClassifierOptions;
+  // Speech detection on the timeline and in the pipeline
+  vadAggressiveness: VadAggressiveness;
+  // Where the channels of multichannel recordings were picked up, for direction finding
+  micGeometry: MicGeometry;
+  // Expected source levels and the room, for distance estimation
+  distanceModel: DistanceModel;
+  preset: PresetRef | null;
+}
+
+export const LEVEL_LIMITS = { dbSpl: [0, 120], dbfs: [-120, 0] } as const;
+export const MAX_DISTANCE = 50;
+
+export const DEFAULT_SETTINGS: Settings = {
+  minDbSpl: LEVEL_LIMITS.dbSpl[0],
+  minDbfs: LEVEL_LIMITS.dbfs[0],
+  maxDistance: MAX_DISTANCE,
+  sensitivity: 'medium',
+  soundTypes: { noise: true, voice: true, music: true, ambient: true, unknown: true },
+  filterChain: DEFAULT_FILTER_CHAIN,
+  noiseSuppression: false,
+  showDistances: true,
+  autoExport: false,
+  mlPredictions: true,
+  classifier: DEFAULT_CLASSIFIER_OPTIONS,
+  vadAggressiveness: DEFAULT_VAD_OPTIONS.aggressiveness,
+  micGeometry: DEFAULT_MIC_GEOMETRY,
+  distanceModel: DEFAULT_DISTANCE_MODEL,
+  preset: null
+};
+
+const STORAGE_KEY = 'audio-forensic.settings';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Complete settings from stored or imported ones. Nested objects are merged
+ * too, so settings saved by older versions pick up new fields.
+ */
+export const mergeSettings = (partial: Partial<Settings>, defaults: Settings = DEFAULT_SETTINGS): Settings => ({
+  ...defaults,
+  ...partial,
+  soundTypes: { ...defaults.soundTypes, ...partial.soundTypes },
+  filterChain: { ...defaults.filterChain, ...partial.filterChain },
+  classifier: { ...defaults.classifier, ...partial.classifier },
+  micGeometry: { ...defaults.micGeometry, ...partial.micGeometry },
+  distanceModel: {
+    ...defaults.distanceModel,
+    ...partial.distanceModel,
+    references: { ...defaults.distanceModel.references, ...partial.distanceModel?.references }
+  }
+});
+
+type Check = (value: unknown) => boolean;
+
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = value => typeof value === 'boolean';
+const isString: Check = value => typeof value === 'string';
+const oneOf = (labels: Record<string | number, string>): Check => value =>
+  (typeof value === 'string' || typeof value === 'number') && Object.prototype.hasOwnProperty.call(labels, value);
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields an object may have, each optional so older files still pass
+const shape = (fields: Record<string, Check>): Check => value =>
+  isRecord(value) && Object.entries(value).every(([key, field]) => key in fields && fields[key](field));
+const listOf = (item: Check): Check => value => Array.isArray(value) && value.every(item);
+const orNull = (check: Check): Check => value => value === null || check(value);
+const complete = (fields: Record<string, Check>): Check => value =>
+  shape(fields)(value) && Object.keys(fields).every(key => key in (value as Record<string, unknown>));
+
+const SETTING_CHECKS: Record<keyof Settings, Check> = {
+  minDbSpl: isNumber,
+  minDbfs: isNumber,
+  maxDistance: isNumber,
+  sensitivity: oneOf(SENSITIVITY_LABELS),
+  soundTypes: shape(Object.fromEntries(SOUND_TYPES.map(type => [type, isBoolean]))),
+  filterChain: shape({
+    minFrequency: isNumber,
+    maxFrequency: isNumber,
+    bands: listOf(complete({
+      id: isString,
+      type: oneOf(EQ_BAND_LABELS),
+      frequency: isNumber,
+      q: isNumber,
+      gainDb: isNumber,
+      enabled: isBoolean
+    }))
+  }),
+  noiseSuppression: isBoolean,
+  showDistances: isBoolean,
+  autoExport: isBoolean,
+  mlPredictions: isBoolean,
+  classifier: shape({
+    k: value => Number.isInteger(value) && (value as number) > 0,
+    metric: oneOf(METRIC_LABELS)
+  }),
+  vadAggressiveness: value => Number.isInteger(value) && oneOf(VAD_AGGRESSIVENESS_LABELS)(value),
+  micGeometry: shape({
+    layout: oneOf(MIC_LAYOUT_LABELS),
+    spacing: isNumber,
+    radius: isNumber,
+    positions: listOf(complete({ x: isNumber, y: isNumber }))
+  }),
+  distanceModel: shape({
+    references: shape(Object.fromEntries(SOUND_TYPES.map(type => [type, complete({ levelDb: isNumber, spreadDb: isNumber })]))),
+    criticalDistance: orNull(isNumber),
+    temperature: isNumber,
+    humidity: isNumber
+  }),
+  preset: orNull(complete({ name: isString, hash: isString }))
+};
+
+/**
+ * Settings read from outside, e.g. an imported preset, checked field by
+ * field against their types and allowed values. Fields may be missing, as
+ * in files written before they existed; unknown or invalid ones are an error.
+ */
+export const validateSettings = (value: unknown): Partial<Settings> => {
+  if (!isRecord(value)) throw new Error('Settings must be an object');
+  for (const [key, field] of Object.entries(value)) {
+    const check = SETTING_CHECKS[key as keyof Settings];
+    if (!check) throw new Error(`Unknown setting "${key}"`);
+    if (!check(field)) throw new Error(`Setting "${key}" has an invalid value: ${JSON.stringify(field)}`);
+  }
+  return value as Partial<Settings>;
+};
+
+const loadSettings = (): Settings => {
+  // Classifier options were stored on their own before they joined the settings
+  const defaults = { ...DEFAULT_SETTINGS, classifier: loadClassifierOptions() };
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? mergeSettings(JSON.parse(stored), defaults) : defaults;
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return defaults;
+  }
+};
+
+export const settingsStore = {
+  get: loadSettings,
+
+  put: (settings: Settings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    listeners.forEach(listener => listener());
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+/**
+ * Whether a source passes the level, distance and sound-type limits. Only
+ * estimated distances count, and a source is hidden only when its whole range
+ * lies beyond the limit.
+ */
+export const sourceShown = (source: AudioSource, settings: Settings) =>
+  settings.soundTypes[source.type] &&
+  (!source.distanceEstimate || source.distanceEstimate.min <= settings.maxDistance) &&
+  source.decibel >= (source.calibrationId ? settings.minDbSpl : settings.minDbfs);
+
+/** What decided detection, one line per setting, e.g. for reports. */
+export const describeDetection = ({
+  sensitivity, filterChain, mlPredictions, classifier, vadAggressiveness, micGeometry, distanceModel
+}: Settings) => {
+  const t = SENSITIVITY_PRESETS[sensitivity];
+  const bands = filterChain.bands.filter(band => band.enabled);
+  return [
+    `Sensitivity ${SENSITIVITY_LABELS[sensitivity]}: events ${t.onThresholdDb} dB on / ${t.offThresholdDb} dB off over the noise floor, ` +
+      `hold ${t.holdSeconds * 1000} ms, minimum ${t.minDurationSeconds * 1000} ms, onsets at ${t.onsetSensitivity} MAD, ` +
+      `at most ${t.maxEvents} events per file`,
+    `Frequency range ${filterChain.minFrequency}–${filterChain.maxFrequency} Hz`,
+    ...bands.map(band =>
+      `${EQ_BAND_LABELS[band.type]} ${band.frequency} Hz, Q ${band.q}${hasGain(band.type) ? `, ${band.gainDb > 0 ? '+' : ''}${band.gainDb} dB` : ''}`
+    ),
+    `Speech detection: ${VAD_AGGRESSIVENESS_LABELS[vadAggressiveness].toLowerCase()}`,
+    `Microphones: ${describeGeometry(micGeometry)}`,
+    `Distance: ${describeDistanceModel(distanceModel)}`,
+    mlPredictions
+      ? `Classification against the reference library: KNN, k = ${classifier.k}, ${METRIC_LABELS[classifier.metric]} distance`
+      : 'Classification against the reference library off'
+  ];
+};
+
+/** Which detected sources are shown, one line per limit. */
+export const describeDisplay = ({ minDbSpl, minDbfs, maxDistance, soundTypes }: Settings) => [
+  `Minimum level ${minDbSpl} dB SPL (calibrated) / ${minDbfs} dBFS (uncalibrated)`,
+  `Maximum distance ${maxDistance} m`,
+  `Sound types ${SOUND_TYPES.filter(type => soundTypes[type]).join(', ') || 'none'}`
+];
@@ -0,0 +1,358 @@
+import { fft, hannWindow, hzToMel, melToHz, toDb } from './fft';
+
+// Short-time Fourier transform for the spectrogram view. The view is drawn
+// in fixed-width tiles of pixel columns; each tile's spectra are computed on
+// demand and cached, so only what is on screen is ever transformed, even on
+// recordings an hour long.
+
+export type WindowType = 'hann' | 'hamming' | 'blackman-harris' | 'kaiser';
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+export type ColorMap = 'viridis' | 'magma' | 'grayscale';
+
+export interface SpectrogramOptions {
+  fftSize: number;
+  hopSize: number;
+  window: WindowType;
+  // Levels at the bottom and top of the colour map, in dBFS
+  minDb: number;
+  maxDb: number;
+  scale: FrequencyScale;
+  colorMap: ColorMap;
+}
+
+export const DEFAULT_SPECTROGRAM_OPTIONS: SpectrogramOptions = {
+  fftSize: 2048,
+  hopSize: 512,
+  window: 'hann',
+  minDb: -120,
+  maxDb: 0,
+  scale: 'linear',
+  colorMap: 'viridis'
+};
+
+export const WINDOW_LABELS: Record<WindowType, string> = {
+  hann: 'Hann',
+  hamming: 'Hamming',
+  'blackman-harris': 'Blackman-Harris',
+  kaiser: 'Kaiser (β = 9)'
+};
+
+export const TILE_WIDTH = 256;
+// Lowest frequency shown on the log axis
+export const LOG_MIN_FREQUENCY = 20;
+// A column spanning several hops keeps the loudest value of each bin over
+// every hop in it, so a click or shot shorter than a column still shows.
+// Columns spanning a block or more are pooled from the maxima of whole
+// blocks of hops, computed once per signal and kept.
+const MIN_BLOCK_HOPS = 16;
+const KAISER_BETA = 9;
+const CACHE_BYTES = 128 * 1024 * 1024;
+const BLOCK_CACHE_BYTES = 64 * 1024 * 1024;
+
+// Zeroth-order modified Bessel function of the first kind (power series)
+const besselI0 = (x: number) => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+};
+
+export const makeWindow = (type: WindowType, size: number) => {
+  if (type === 'hann') return hannWindow(size);
+  const w = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / (size - 1);
+    switch (type) {
+      case 'hamming':
+        w[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman-harris':
+        w[i] = 0.35875 - 0.48829 * Math.cos(phase) + 0.14128 * Math.cos(2 * phase) - 0.01168 * Math.cos(3 * phase);
+        break;
+      case 'kaiser': {
+        const r = (2 * i) / (size - 1) - 1;
+        w[i] = besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / besselI0(KAISER_BETA);
+        break;
+      }
+    }
+  }
+  return w;
+};
+
+// Frequency axis: each scale maps Hz to an axis coordinate in which the
+// display is linear
+export const hzToAxis = (hz: number, scale: FrequencyScale) =>
+  scale === 'log' ? Math.log10(Math.max(hz, 1)) : scale === 'mel' ? hzToMel(hz) : hz;
+
+export const axisToHz = (value: number, scale: FrequencyScale) =>
+  scale === 'log' ? Math.pow(10, value) : scale === 'mel' ? melToHz(value) : value;
+
+export const minFrequency = (scale: FrequencyScale) => (scale === 'log' ? LOG_MIN_FREQUENCY : 0);
+
+/** Frequency at `fraction` of the way from `lowHz` (0) to `highHz` (1). */
+export const frequencyAt = (fraction: number, lowHz: number, highHz: number, scale: FrequencyScale) => {
+  const low = hzToAxis(lowHz, scale);
+  return axisToHz(low + fraction * (hzToAxis(highHz, scale) - low), scale);
+};
+
+export const frequencyFraction = (hz: number, lowHz: number, highHz: number, scale: FrequencyScale) => {
+  const low = hzToAxis(lowHz, scale);
+  return (hzToAxis(hz, scale) - low) / (hzToAxis(highHz, scale) - low);
+};
+
+// Colour map control points, evenly spaced from low to high level
+const COLOR_STOPS: Record<ColorMap, [number, number, number][]> = {
+  viridis: [
+    [68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142],
+    [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]
+  ],
+  magma: [
+    [0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122],
+    [229, 80, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191]
+  ],
+  grayscale: [[0, 0, 0], [255, 255, 255]]
+};
+
+/** 256-entry RGB lookup table for a colour map. */
+export const colorLut = (map: ColorMap) => {
+  const stops = COLOR_STOPS[map];
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - index;
+    for (let c = 0; c < 3; c++) {
+      lut[i * 3 + c] = stops[index][c] + t * (stops[index + 1][c] - stops[index][c]);
+    }
+  }
+  return lut;
+};
+
+/**
+ * Computes and caches STFT tiles of one signal. A tile is `TILE_WIDTH`
+ * pixel columns at a given time resolution, stored column by column as
+ * dBFS per bin (a full-scale sine reads 0 dB).
+ */
+export class SpectrogramTiles {
+  readonly bins: number;
+  private window: Float64Array;
+  private normalization: number;
+  private cache = new Map<string, Float32Array>();
+  private maxTiles: number;
+  private re: Float64Array;
+  private im: Float64Array;
+  // Hops per block, sized so every block of the signal fits BLOCK_CACHE_BYTES
+  private blockHops: number;
+  private blocks = new Map<number, Float32Array>();
+
+  constructor(
+    private samples: Float32Array,
+    readonly sampleRate: number,
+    readonly options: Pick<SpectrogramOptions, 'fftSize' | 'hopSize' | 'window'>
+  ) {
+    this.bins = options.fftSize / 2 + 1;
+    this.window = makeWindow(options.window, options.fftSize);
+    const gain = this.window.reduce((sum, w) => sum + w, 0) / 2;
+    this.normalization = 1 / (gain * gain);
+    this.maxTiles = Math.max(4, Math.floor(CACHE_BYTES / (TILE_WIDTH * this.bins * 4)));
+    this.re = new Float64Array(options.fftSize);
+    this.im = new Float64Array(options.fftSize);
+    const hops = Math.ceil(samples.length / options.hopSize);
+    this.blockHops = Math.max(MIN_BLOCK_HOPS, Math.ceil((hops * this.bins * 4) / BLOCK_CACHE_BYTES));
+  }
+
+  get duration() {
+    return this.samples.length / this.sampleRate;
+  }
+
+  // Power spectrum of the frame centred on sample `centre`, accumulated as
+  // a running maximum into `out`
+  private accumulateFrame(centre: number, out: Float32Array, outOffset: number) {
+    const { fftSize } = this.options;
+    const start = Math.round(centre - fftSize / 2);
+    const { re, im, samples, window } = this;
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      re[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < this.bins; k++) {
+      const power = (re[k] * re[k] + im[k] * im[k]) * this.normalization;
+      if (power > out[outOffset + k]) out[outOffset + k] = power;
+    }
+  }
+
+  // Running maximum of the frames on hops [first, last) into `out`; hop h is
+  // the frame centred on sample h·hopSize + fftSize/2
+  private accumulateHops(first: number, last: number, out: Float32Array, outOffset: number) {
+    const { fftSize, hopSize } = this.options;
+    const lastHop = Math.ceil(this.samples.length / hopSize);
+    const end = Math.min(last, lastHop);
+    let h = Math.max(0, first);
+    for (; h < end; h++) {
+      const block = Math.floor(h / this.blockHops);
+      // Whole blocks come from the cache
+      if (h === block * this.blockHops && (block + 1) * this.blockHops <= end) {
+        const maxima = this.block(block);
+        for (let k = 0; k < this.bins; k++) {
+          if (maxima[k] > out[outOffset + k]) out[outOffset + k] = maxima[k];
+        }
+        h += this.blockHops - 1;
+        continue;
+      }
+      this.accumulateFrame(h * hopSize + fftSize / 2, out, outOffset);
+    }
+  }
+
+  private block(index: number) {
+    const cached = this.blocks.get(index);
+    if (cached) return cached;
+    const { fftSize, hopSize } = this.options;
+    const maxima = new Float32Array(this.bins);
+    const end = Math.min((index + 1) * this.blockHops, Math.ceil(this.samples.length / hopSize));
+    for (let h = index * this.blockHops; h < end; h++) {
+      this.accumulateFrame(h * hopSize + fftSize / 2, maxima, 0);
+    }
+    this.blocks.set(index, maxima);
+    return maxima;
+  }
+
+  // Hops [first, last) whose frames are centred in a column
+  private columnHops(secondsPerColumn: number, column: number) {
+    const samplesPerColumn = secondsPerColumn * this.sampleRate;
+    const { fftSize, hopSize } = this.options;
+    // Hop of the first frame centred at or after a sample
+    const hopAt = (sample: number) => Math.ceil((sample - fftSize / 2) / hopSize);
+    return { first: hopAt(column * samplesPerColumn), last: hopAt((column + 1) * samplesPerColumn) };
+  }
+
+  /**
+   * Compute the hop blocks a tile is pooled from for up to `budgetMs`, so a
+   * far zoomed-out tile of a long recording can be built over several
+   * tasks. True once the tile needs no more blocks.
+   */
+  prepareTile(secondsPerColumn: number, index: number, budgetMs: number) {
+    const { first } = this.columnHops(secondsPerColumn, index * TILE_WIDTH);
+    const { last } = this.columnHops(secondsPerColumn, (index + 1) * TILE_WIDTH - 1);
+    if (last - first < TILE_WIDTH * this.blockHops) return true;
+    const deadline = performance.now() + budgetMs;
+    const lastBlock = Math.min(last, Math.ceil(this.samples.length / this.options.hopSize)) / this.blockHops;
+    for (let block = Math.max(0, Math.floor(first / this.blockHops)); block < lastBlock; block++) {
+      if (this.blocks.has(block)) continue;
+      if (performance.now() > deadline) return false;
+      this.block(block);
+    }
+    return true;
+  }
+
+  /** Frame centre in samples for a point in time, snapped to the hop grid. */
+  private snapToHop(sample: number) {
+    const { fftSize, hopSize } = this.options;
+    return Math.round((sample - fftSize / 2) / hopSize) * hopSize + fftSize / 2;
+  }
+
+  hasTile(secondsPerColumn: number, index: number) {
+    return this.cache.has(`${secondsPerColumn}:${index}`);
+  }
+
+  tile(secondsPerColumn: number, index: number) {
+    const key = `${secondsPerColumn}:${index}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Refresh its place in the LRU order
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    const data = new Float32Array(TILE_WIDTH * this.bins);
+    const samplesPerColumn = secondsPerColumn * this.sampleRate;
+
+    for (let c = 0; c < TILE_WIDTH; c++) {
+      const column = index * TILE_WIDTH + c;
+      const offset = c * this.bins;
+      if (column < 0 || column * samplesPerColumn >= this.samples.length) {
+        data.fill(Number.NEGATIVE_INFINITY, offset, offset + this.bins);
+        continue;
+      }
+      const { first, last } = this.columnHops(secondsPerColumn, column);
+      // Columns narrower than a hop take the frame nearest their centre
+      if (last - first <= 1) this.accumulateFrame(this.snapToHop((column + 0.5) * samplesPerColumn), data, offset);
+      else this.accumulateHops(first, last, data, offset);
+      for (let k = 0; k < this.bins; k++) data[offset + k] = toDb(data[offset + k]);
+    }
+
+    this.cache.set(key, data);
+    if (this.cache.size > this.maxTiles) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return data;
+  }
+
+  /** Level in dBFS at one time and frequency, for the cursor readout. */
+  levelAt(time: number, frequency: number) {
+    const spectrum = new Float32Array(this.bins);
+    this.accumulateFrame(this.snapToHop(time * this.sampleRate), spectrum, 0);
+    const bin = Math.round((frequency / this.sampleRate) * this.options.fftSize);
+    return toDb(spectrum[Math.max(0, Math.min(this.bins - 1, bin))]);
+  }
+}
+
+/**
+ * Paint one tile into `image` (TILE_WIDTH wide). Rows map to frequency on
+ * the chosen scale; when a row spans several bins the loudest is shown.
+ */
+export const renderTile = (
+  tiles: SpectrogramTiles,
+  data: Float32Array,
+  image: ImageData,
+  lowHz: number,
+  highHz: number,
+  options: Pick<SpectrogramOptions, 'minDb' | 'maxDb' | 'scale'>,
+  lut: Uint8ClampedArray
+) => {
+  const { height } = image;
+  const { bins } = tiles;
+  const binHz = tiles.sampleRate / tiles.options.fftSize;
+  const span = options.maxDb - options.minDb;
+
+  // Bin range of every row, top row first
+  const rowLow = new Int32Array(height);
+  const rowHigh = new Int32Array(height);
+  for (let y = 0; y < height; y++) {
+    const top = frequencyAt(1 - y / height, lowHz, highHz, options.scale);
+    const bottom = frequencyAt(1 - (y + 1) / height, lowHz, highHz, options.scale);
+    const low = Math.max(0, Math.min(bins - 1, Math.round(bottom / binHz)));
+    rowLow[y] = low;
+    rowHigh[y] = Math.max(low, Math.min(bins - 1, Math.round(top / binHz)));
+  }
+
+  const pixels = image.data;
+  for (let c = 0; c < TILE_WIDTH; c++) {
+    const offset = c * bins;
+    for (let y = 0; y < height; y++) {
+      let level = data[offset + rowLow[y]];
+      for (let k = rowLow[y] + 1; k <= rowHigh[y]; k++) {
+        if (data[offset + k] > level) level = data[offset + k];
+      }
+      const p = (y * TILE_WIDTH + c) * 4;
+      if (level === Number.NEGATIVE_INFINITY) {
+        pixels[p + 3] = 0;
+        continue;
+      }
+      const index = Math.max(0, Math.min(255, Math.round(((level - options.minDb) / span) * 255))) * 3;
+      pixels[p] = lut[index];
+      pixels[p + 1] = lut[index + 1];
+      pixels[p + 2] = lut[index + 2];
+      pixels[p + 3] = 255;
+    }
+  }
+};
+
+export const formatFrequency = (hz: number) =>
+  hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 1 : 2)} kHz` : `${hz.toFixed(0)} Hz`;
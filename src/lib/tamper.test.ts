@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { TamperDetector, analyzeTampering } from './tamper';
+
+const RATE = 8000;
+const NO_ENF = { includeEnf: false };
+
+const noise = (seconds: number, amplitude: number, seed = 3) => {
+  const samples = new Float32Array(seconds * RATE);
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = amplitude * (seed / 2147483647 - 0.5);
+  }
+  return samples;
+};
+
+// Noise with a steady tone on top, the same from start to end
+const steady = (seconds: number) => {
+  const samples = noise(seconds, 0.01);
+  for (let i = 0; i < samples.length; i++) samples[i] += 0.2 * Math.sin((2 * Math.PI * 440 * i) / RATE);
+  return samples;
+};
+
+const findingNear = async (samples: Float32Array, time: number, detector: TamperDetector) => {
+  const { findings } = await analyzeTampering(samples, RATE, 'b', NO_ENF);
+  return findings.find(f => Math.abs(f.time - time) < 0.2 && f.evidence.some(e => e.detector === detector));
+};
+
+describe('analyzeTampering', () => {
+  it('finds nothing in an unedited recording', async () => {
+    const result = await analyzeTampering(steady(10), RATE, 'b', NO_ENF);
+    expect(result.findings).toEqual([]);
+    expect(result.duration).toBe(10);
+    expect(result.enf).toBeNull();
+    expect(Object.keys(result.curves).sort()).toEqual(['dcOffset', 'noiseFloor', 'spectral', 'waveform']);
+  });
+
+  it('places a step in the noise floor, up or down', async () => {
+    const rising = noise(10, 0.002);
+    rising.set(noise(5, 0.02, 7), 5 * RATE);
+    expect(await findingNear(rising, 5, 'noiseFloor')).toBeDefined();
+
+    const falling = noise(10, 0.02);
+    falling.set(noise(6, 0.002, 7), 4 * RATE);
+    expect(await findingNear(falling, 4, 'noiseFloor')).toBeDefined();
+  });
+
+  it('places a jump in DC offset', async () => {
+    const samples = noise(10, 0.01);
+    for (let i = 4 * RATE; i < samples.length; i++) samples[i] += 0.01;
+    expect(await findingNear(samples, 4, 'dcOffset')).toBeDefined();
+  });
+
+  it('places a change in the background spectrum', async () => {
+    // White noise, then the same level of noise with a low-pass tilt
+    const samples = noise(10, 0.01);
+    let smoothed = 0;
+    for (let i = 6 * RATE; i < samples.length; i++) {
+      smoothed = 0.9 * smoothed + 0.1 * samples[i];
+      samples[i] = 3 * smoothed;
+    }
+    expect(await findingNear(samples, 6, 'spectral')).toBeDefined();
+  });
+
+  it('places a cut in a tone to the sample', async () => {
+    // A quarter cycle is missing at the cut, leaving a corner in the waveform
+    const cut = 3 * RATE + 123;
+    const samples = steady(6);
+    for (let i = cut; i < samples.length; i++) samples[i] = 0.2 * Math.sin((2 * Math.PI * 440 * i) / RATE + Math.PI / 2);
+    const finding = await findingNear(samples, cut / RATE, 'waveform');
+    expect(finding?.time).toBeCloseTo(cut / RATE, 4);
+    expect(finding?.confidence).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,407 @@
+import { fft, hannWindow, toDb } from './fft';
+import { EnfTrace, extractEnf } from './enf';
+import { median, percentile, yieldToMain } from './util';
+
+// Edit and splice detection. Several independent detectors each look for a
+// trace an edit tends to leave: a step in the background noise floor, a
+// jump in DC offset, a change in the background spectrum, a waveform break
+// at the sample level (a cut that does not land on matching zero crossings)
+// and a phase or frequency jump in the mains hum. Detections close together
+// are grouped into one finding whose confidence grows with the number and
+// strength of the detectors that agree.
+
+export type TamperDetector = 'noiseFloor' | 'dcOffset' | 'spectral' | 'waveform' | 'enf';
+
+export const DETECTOR_LABELS: Record<TamperDetector, string> = {
+  noiseFloor: 'Noise floor step',
+  dcOffset: 'DC offset jump',
+  spectral: 'Background spectrum change',
+  waveform: 'Waveform break',
+  enf: 'ENF irregularity'
+};
+
+export interface TamperOptions {
+  // ENF tracking is the slowest detector and needs mains hum to say anything
+  includeEnf: boolean;
+}
+
+export const DEFAULT_TAMPER_OPTIONS: TamperOptions = {
+  includeEnf: true
+};
+
+export interface TamperEvidence {
+  detector: TamperDetector;
+  time: number;
+  // 0 at the detector's threshold, approaching 1 far above it
+  score: number;
+  detail: string;
+}
+
+export interface TamperFinding {
+  time: number;
+  confidence: number;
+  evidence: TamperEvidence[];
+}
+
+/** A detector's measure over the whole file, for evidence plots. */
+export interface TamperCurve {
+  // Seconds between values, starting at `start`
+  start: number;
+  step: number;
+  values: Float32Array;
+  threshold: number | null;
+  unit: string;
+}
+
+export interface TamperAnalysis {
+  bufferId: string;
+  duration: number;
+  // Most confident first
+  findings: TamperFinding[];
+  curves: Partial<Record<TamperDetector, TamperCurve>>;
+  enf: EnfTrace | null;
+}
+
+const BLOCK_SECONDS = 0.02;
+// Detectors comparing the seconds before and after a point move in steps of
+const STEP_BLOCKS = 5;
+const NOISE_WINDOW_SECONDS = 2;
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const NOISE_FLOOR_JUMP_DB = 6;
+const DC_WINDOW_SECONDS = 1;
+const MIN_DC_JUMP = 0.002;
+const SPECTRAL_WINDOW_SECONDS = 1;
+const SPECTRAL_FRAME = 2048;
+const SPECTRAL_BANDS = 24;
+const MIN_SPECTRAL_CHANGE_DB = 3;
+// Second difference against its local level
+const WAVEFORM_CONTEXT_BLOCKS = 5;
+const WAVEFORM_RATIO = 8;
+// Adaptive thresholds are at least this many times the median of the measure
+const MEDIAN_MULTIPLE = 6;
+// Share of a run's maximum still counted as its peak
+const PLATEAU = 0.95;
+// Detections closer than this belong to the same finding; ENF only places an
+// edit to within about half its frame
+const GROUP_SECONDS = 2;
+const MAX_FINDINGS = 50;
+// Which detector places a finding, most precise first: the waveform break is
+// sample accurate, ENF only to within seconds
+const PRECISION_ORDER: TamperDetector[] = ['waveform', 'dcOffset', 'noiseFloor', 'spectral', 'enf'];
+
+const scoreFor = (value: number, threshold: number) => (value > threshold ? 1 - threshold / value : 0);
+
+/**
+ * One index per run of values above the threshold: the middle of the run's
+ * plateau near its maximum, since windowed measures stay at their peak for
+ * as long as the change is inside both windows.
+ */
+const runPeaks = (values: ArrayLike<number>, threshold: number) => {
+  const peaks: number[] = [];
+  let start = -1;
+  for (let i = 0; i <= values.length; i++) {
+    if (i < values.length && values[i] > threshold) {
+      if (start < 0) start = i;
+      continue;
+    }
+    if (start < 0) continue;
+    let peak = start;
+    for (let j = start; j < i; j++) if (values[j] > values[peak]) peak = j;
+    let first = peak;
+    let last = peak;
+    while (first > start && values[first - 1] >= PLATEAU * values[peak]) first--;
+    while (last < i - 1 && values[last + 1] >= PLATEAU * values[peak]) last++;
+    peaks.push(Math.round((first + last) / 2));
+    start = -1;
+  }
+  return peaks;
+};
+
+interface Blocks {
+  size: number;
+  count: number;
+  levelDb: Float64Array;
+  mean: Float64Array;
+}
+
+const measureBlocks = (samples: Float32Array, sampleRate: number): Blocks => {
+  const size = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+  const count = Math.floor(samples.length / size);
+  const levelDb = new Float64Array(count);
+  const mean = new Float64Array(count);
+  for (let b = 0; b < count; b++) {
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = b * size; i < (b + 1) * size; i++) {
+      sum += samples[i];
+      sumSquares += samples[i] * samples[i];
+    }
+    mean[b] = sum / size;
+    levelDb[b] = toDb(sumSquares / size);
+  }
+  return { size, count, levelDb, mean };
+};
+
+/**
+ * Evaluate `measure(left, right)` on the blocks before and after every
+ * STEP_BLOCKS-th block boundary, skipping boundaries near the ends where a
+ * side would be less than half its window.
+ */
+const compareSides = async (
+  count: number,
+  window: number,
+  measure: (leftStart: number, boundary: number, rightEnd: number) => number
+) => {
+  const values = new Float32Array(Math.ceil(count / STEP_BLOCKS));
+  for (let s = 0; s < values.length; s++) {
+    const boundary = s * STEP_BLOCKS;
+    if (boundary < window / 2 || count - boundary < window / 2) continue;
+    values[s] = measure(Math.max(0, boundary - window), boundary, Math.min(count, boundary + window));
+    if (s % 500 === 499) await yieldToMain();
+  }
+  return values;
+};
+
+const stepCurve = (values: Float32Array, threshold: number, unit: string): TamperCurve => ({
+  start: 0,
+  step: STEP_BLOCKS * BLOCK_SECONDS,
+  values,
+  threshold,
+  unit
+});
+
+const noiseFloorDetector = async (blocks: Blocks) => {
+  const window = Math.round(NOISE_WINDOW_SECONDS / BLOCK_SECONDS);
+  const change = (left: number, boundary: number, right: number) =>
+    percentile(blocks.levelDb.subarray(boundary, right), NOISE_FLOOR_PERCENTILE) -
+    percentile(blocks.levelDb.subarray(left, boundary), NOISE_FLOOR_PERCENTILE);
+  const values = await compareSides(blocks.count, window, (left, boundary, right) => Math.abs(change(left, boundary, right)));
+  const curve = stepCurve(values, NOISE_FLOOR_JUMP_DB, 'dB');
+  // A side's low percentile keeps the quieter floor until most of the side
+  // is louder, so the plateau runs on past a step into the louder part
+  const skew = (0.5 - NOISE_FLOOR_PERCENTILE) * NOISE_WINDOW_SECONDS;
+  const stepTime = (i: number) => {
+    const boundary = i * STEP_BLOCKS;
+    const rising = change(Math.max(0, boundary - window), boundary, Math.min(blocks.count, boundary + window)) > 0;
+    return Math.max(0, i * curve.step + (rising ? -skew : skew));
+  };
+  const evidence = runPeaks(values, NOISE_FLOOR_JUMP_DB).map((i): TamperEvidence => ({
+    detector: 'noiseFloor',
+    time: stepTime(i),
+    score: scoreFor(values[i], NOISE_FLOOR_JUMP_DB),
+    detail: `Noise floor changes by ${values[i].toFixed(1)} dB`
+  }));
+  return { curve, evidence };
+};
+
+const dcOffsetDetector = async (blocks: Blocks) => {
+  const window = Math.round(DC_WINDOW_SECONDS / BLOCK_SECONDS);
+  const sideMean = (from: number, to: number) => {
+    let sum = 0;
+    for (let b = from; b < to; b++) sum += blocks.mean[b];
+    return sum / Math.max(1, to - from);
+  };
+  const values = await compareSides(blocks.count, window, (left, boundary, right) =>
+    Math.abs(sideMean(boundary, right) - sideMean(left, boundary))
+  );
+  const threshold = Math.max(MIN_DC_JUMP, MEDIAN_MULTIPLE * median(values));
+  const curve = stepCurve(values, threshold, 'FS');
+  const evidence = runPeaks(values, threshold).map((i): TamperEvidence => ({
+    detector: 'dcOffset',
+    time: i * curve.step,
+    score: scoreFor(values[i], threshold),
+    detail: `DC offset shifts by ${(values[i] * 100).toFixed(2)}% of full scale`
+  }));
+  return { curve, evidence };
+};
+
+/** Log-spaced band levels of one frame per block, in dB. */
+const bandLevels = async (samples: Float32Array, sampleRate: number, blocks: Blocks) => {
+  const window = hannWindow(SPECTRAL_FRAME);
+  const re = new Float64Array(SPECTRAL_FRAME);
+  const im = new Float64Array(SPECTRAL_FRAME);
+  const binHz = sampleRate / SPECTRAL_FRAME;
+  const low = Math.log(50);
+  const high = Math.log(sampleRate / 2);
+  const bandOf = Int16Array.from({ length: SPECTRAL_FRAME / 2 }, (_, k) =>
+    k * binHz < 50 ? -1 : Math.min(SPECTRAL_BANDS - 1, Math.floor(((Math.log(k * binHz) - low) / (high - low)) * SPECTRAL_BANDS))
+  );
+  const levels = new Float32Array(blocks.count * SPECTRAL_BANDS);
+  const energy = new Float64Array(SPECTRAL_BANDS);
+
+  for (let b = 0; b < blocks.count; b++) {
+    const start = b * blocks.size + Math.floor(blocks.size / 2) - SPECTRAL_FRAME / 2;
+    for (let i = 0; i < SPECTRAL_FRAME; i++) {
+      const index = start + i;
+      re[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+    energy.fill(0);
+    for (let k = 1; k < SPECTRAL_FRAME / 2; k++) {
+      if (bandOf[k] >= 0) energy[bandOf[k]] += re[k] * re[k] + im[k] * im[k];
+    }
+    for (let band = 0; band < SPECTRAL_BANDS; band++) levels[b * SPECTRAL_BANDS + band] = toDb(energy[band]);
+    if (b % 500 === 499) await yieldToMain();
+  }
+  return levels;
+};
+
+const spectralDetector = async (samples: Float32Array, sampleRate: number, blocks: Blocks) => {
+  const levels = await bandLevels(samples, sampleRate, blocks);
+  const window = Math.round(SPECTRAL_WINDOW_SECONDS / BLOCK_SECONDS);
+
+  // Mean band levels of the quieter half of a span, so foreground sounds
+  // starting or stopping do not count as a change of background
+  const background = (from: number, to: number) => {
+    const quietest = median(blocks.levelDb.subarray(from, to));
+    const mean = new Float64Array(SPECTRAL_BANDS);
+    let count = 0;
+    for (let b = from; b < to; b++) {
+      if (blocks.levelDb[b] > quietest) continue;
+      for (let band = 0; band < SPECTRAL_BANDS; band++) mean[band] += levels[b * SPECTRAL_BANDS + band];
+      count++;
+    }
+    return mean.map(value => value / Math.max(1, count));
+  };
+
+  const values = await compareSides(blocks.count, window, (left, boundary, right) => {
+    const before = background(left, boundary);
+    const after = background(boundary, right);
+    // Shape only: a uniform level change is the noise floor detector's job
+    const offset = after.reduce((sum, v, band) => sum + v - before[band], 0) / SPECTRAL_BANDS;
+    return Math.sqrt(after.reduce((sum, v, band) => sum + (v - before[band] - offset) ** 2, 0) / SPECTRAL_BANDS);
+  });
+  const threshold = Math.max(MIN_SPECTRAL_CHANGE_DB, MEDIAN_MULTIPLE * median(values));
+  const curve = stepCurve(values, threshold, 'dB');
+  const evidence = runPeaks(values, threshold).map((i): TamperEvidence => ({
+    detector: 'spectral',
+    time: i * curve.step,
+    score: scoreFor(values[i], threshold),
+    detail: `Background spectrum shape changes by ${values[i].toFixed(1)} dB RMS`
+  }));
+  return { curve, evidence };
+};
+
+/**
+ * The second difference of the samples predicts a smooth waveform; a cut
+ * between unmatched points leaves one sample far off that prediction
+ * compared with the neighbouring blocks.
+ */
+const waveformDetector = async (samples: Float32Array, sampleRate: number, blocks: Blocks) => {
+  const rms = new Float64Array(blocks.count);
+  const peak = new Float64Array(blocks.count);
+  const peakIndex = new Int32Array(blocks.count);
+  for (let b = 0; b < blocks.count; b++) {
+    let sumSquares = 0;
+    for (let i = Math.max(2, b * blocks.size); i < (b + 1) * blocks.size; i++) {
+      const e = samples[i] - 2 * samples[i - 1] + samples[i - 2];
+      sumSquares += e * e;
+      if (Math.abs(e) > peak[b]) {
+        peak[b] = Math.abs(e);
+        peakIndex[b] = i;
+      }
+    }
+    rms[b] = Math.sqrt(sumSquares / blocks.size);
+    if (b % 2000 === 1999) await yieldToMain();
+  }
+
+  const values = new Float32Array(blocks.count);
+  for (let b = 0; b < blocks.count; b++) {
+    const context = rms.subarray(Math.max(0, b - WAVEFORM_CONTEXT_BLOCKS), Math.min(blocks.count, b + WAVEFORM_CONTEXT_BLOCKS + 1));
+    const level = median(context);
+    values[b] = level > 0 ? peak[b] / level : peak[b] > 0 ? Infinity : 0;
+  }
+  const curve: TamperCurve = { start: 0, step: BLOCK_SECONDS, values, threshold: WAVEFORM_RATIO, unit: '×' };
+  const evidence = runPeaks(values, WAVEFORM_RATIO).map((b): TamperEvidence => ({
+    detector: 'waveform',
+    time: peakIndex[b] / sampleRate,
+    score: scoreFor(values[b], WAVEFORM_RATIO),
+    detail: `Sample ${peakIndex[b]} breaks from the waveform at ${
+      Number.isFinite(values[b]) ? values[b].toFixed(0) : 'many'
+    }× the local level`
+  }));
+  return { curve, evidence };
+};
+
+const enfDetector = (trace: EnfTrace) => {
+  const curve: TamperCurve = {
+    start: trace.times[0] ?? 0,
+    step: trace.hopSeconds,
+    values: Float32Array.from(trace.frequency),
+    threshold: null,
+    unit: 'Hz'
+  };
+  const evidence = trace.discontinuities.map((d): TamperEvidence => ({
+    detector: 'enf',
+    time: d.time,
+    // A phase jump of π is the clearest; frequency steps saturate at 0.1 Hz
+    score: d.kind === 'phase' ? Math.min(1, d.magnitude / Math.PI) : Math.min(1, d.magnitude / 0.1),
+    detail: d.kind === 'phase'
+      ? `Mains hum phase jumps ${d.magnitude.toFixed(2)} rad at ${trace.nominal * trace.harmonic} Hz`
+      : `Mains frequency steps ${(d.magnitude * 1000).toFixed(0)} mHz`
+  }));
+  return { curve, evidence };
+};
+
+/** Group detections into findings, most confident first. */
+const groupFindings = (evidence: TamperEvidence[]): TamperFinding[] => {
+  const sorted = [...evidence].sort((a, b) => a.time - b.time);
+  const groups: TamperEvidence[][] = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && item.time - group[group.length - 1].time <= GROUP_SECONDS) group.push(item);
+    else groups.push([item]);
+  }
+
+  return groups
+    .map(group => {
+      // Strongest detection per detector, combined as independent evidence
+      const best = new Map<TamperDetector, TamperEvidence>();
+      group.forEach(item => {
+        const current = best.get(item.detector);
+        if (!current || item.score > current.score) best.set(item.detector, item);
+      });
+      const items = Array.from(best.values()).sort((a, b) => b.score - a.score);
+      const anchor = items.find(item => item.detector === PRECISION_ORDER.find(d => best.has(d))) ?? items[0];
+      return {
+        time: anchor.time,
+        confidence: 1 - items.reduce((product, item) => product * (1 - item.score), 1),
+        evidence: items
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_FINDINGS);
+};
+
+/** Run every detector over a mono signal and rank the suspect times. */
+export const analyzeTampering = async (
+  samples: Float32Array,
+  sampleRate: number,
+  bufferId: string,
+  options: TamperOptions = DEFAULT_TAMPER_OPTIONS,
+  onProgress?: (fraction: number) => void
+): Promise<TamperAnalysis> => {
+  const blocks = measureBlocks(samples, sampleRate);
+  const noiseFloor = await noiseFloorDetector(blocks);
+  onProgress?.(0.1);
+  const dcOffset = await dcOffsetDetector(blocks);
+  onProgress?.(0.15);
+  const waveform = await waveformDetector(samples, sampleRate, blocks);
+  onProgress?.(0.3);
+  const spectral = await spectralDetector(samples, sampleRate, blocks);
+  onProgress?.(options.includeEnf ? 0.6 : 1);
+  const trace = options.includeEnf ? await extractEnf(samples, sampleRate) : null;
+  // Without clear hum the ENF detector only adds noise
+  const enf = trace && trace.reliable.some(Boolean) ? enfDetector(trace) : null;
+  onProgress?.(1);
+
+  const detectors = { noiseFloor, dcOffset, waveform, spectral, ...(enf ? { enf } : {}) };
+  return {
+    bufferId,
+    duration: samples.length / sampleRate,
+    findings: groupFindings(Object.values(detectors).flatMap(d => d.evidence)),
+    curves: Object.fromEntries(Object.entries(detectors).map(([key, d]) => [key, d.curve])),
+    enf: trace
+  };
+};
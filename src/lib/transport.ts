@@ -0,0 +1,175 @@
+import { StoredBuffer } from './bufferStore';
+import { TimeRegion } from '../types/audio';
+
+// Sample-accurate playback of a stored buffer with seeking and a loop
+// region, built on AudioBufferSourceNode. The position is derived from the
+// context clock, so it never drifts from what is heard. Another rendering of
+// the loaded buffer, such as an enhanced copy, can be auditioned in its
+// place without losing the position.
+
+type Listener = () => void;
+
+export class Transport {
+  readonly output: GainNode;
+  private audioBuffer: AudioBuffer | null = null;
+  private original: AudioBuffer | null = null;
+  private alternate: StoredBuffer | null = null;
+  private bufferId: string | null = null;
+  private node: AudioBufferSourceNode | null = null;
+  private startedAt = 0;
+  private offset = 0;
+  private loop: TimeRegion | null = null;
+  private stopAt: number | null = null;
+  private listeners = new Set<Listener>();
+
+  constructor(private context: AudioContext, destination: AudioNode = context.destination) {
+    this.output = context.createGain();
+    this.output.connect(destination);
+  }
+
+  get loadedId() {
+    return this.bufferId;
+  }
+
+  get playing() {
+    return this.node !== null;
+  }
+
+  /** Whether an alternate rendering is playing in place of the loaded buffer. */
+  get auditioning() {
+    return this.alternate !== null;
+  }
+
+  get duration() {
+    return this.audioBuffer?.duration ?? 0;
+  }
+
+  /** Current position in seconds. */
+  get currentTime() {
+    if (!this.node) return this.offset;
+    const position = this.offset + (this.context.currentTime - this.startedAt);
+    if (this.loop && position >= this.loop.end) {
+      const length = this.loop.end - this.loop.start;
+      return this.loop.start + ((position - this.loop.start) % length);
+    }
+    return Math.min(position, this.duration);
+  }
+
+  load(buffer: StoredBuffer) {
+    if (buffer.id === this.bufferId) return;
+    this.stop();
+    this.audioBuffer = this.toAudioBuffer(buffer);
+    this.original = this.audioBuffer;
+    this.alternate = null;
+    this.bufferId = buffer.id;
+    this.offset = 0;
+    this.notify();
+  }
+
+  /**
+   * Play `buffer` in place of the loaded one, from the same position and
+   * keeping the loop; null switches back. It must have the loaded buffer's
+   * length. `loadedId` does not change.
+   */
+  audition(buffer: StoredBuffer | null): Promise<void> {
+    if (buffer === this.alternate || !this.original) return Promise.resolve();
+    this.alternate = buffer;
+    this.audioBuffer = buffer ? this.toAudioBuffer(buffer) : this.original;
+    if (this.node) return this.play({ loop: this.loop, until: this.stopAt });
+    this.notify();
+    return Promise.resolve();
+  }
+
+  /**
+   * Play from `from` (default: the current position). With `loop` the
+   * region repeats until paused; with `until` playback stops there.
+   *
+   * The node replaces the playing one at once and the context resumes
+   * afterwards, so calls that overlap (a fast scrub, a double click) never
+   * leave an earlier node playing. The promise settles once it is audible.
+   */
+  play({ from, loop = null, until = null }: { from?: number; loop?: TimeRegion | null; until?: number | null } = {}): Promise<void> {
+    if (!this.audioBuffer) return Promise.resolve();
+    const start = from ?? this.currentTime;
+    this.halt();
+
+    const node = this.context.createBufferSource();
+    node.buffer = this.audioBuffer;
+    if (loop) {
+      node.loop = true;
+      node.loopStart = loop.start;
+      node.loopEnd = loop.end;
+    }
+    node.connect(this.output);
+    node.onended = () => {
+      if (this.node !== node) return;
+      this.offset = this.stopAt ?? this.duration;
+      this.node = null;
+      this.notify();
+    };
+
+    const offset = Math.max(0, Math.min(start, this.duration));
+    if (until !== null && !loop) node.start(0, offset, Math.max(0, until - offset));
+    else node.start(0, offset);
+
+    this.node = node;
+    this.loop = loop;
+    this.stopAt = until;
+    this.offset = offset;
+    // The context clock stands still while suspended, so the position holds
+    this.startedAt = this.context.currentTime;
+    this.notify();
+    return this.context.resume();
+  }
+
+  pause() {
+    if (!this.node) return;
+    this.offset = this.currentTime;
+    this.halt();
+    this.notify();
+  }
+
+  /** Move the playhead; keeps playing if playing. */
+  seek(time: number): Promise<void> {
+    const target = Math.max(0, Math.min(time, this.duration));
+    if (this.node) return this.play({ from: target, loop: this.loop, until: this.stopAt });
+    this.offset = target;
+    this.notify();
+    return Promise.resolve();
+  }
+
+  stop() {
+    this.halt();
+    this.offset = 0;
+    this.notify();
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private toAudioBuffer(buffer: StoredBuffer) {
+    const audioBuffer = this.context.createBuffer(buffer.channels.length, buffer.length, buffer.sampleRate);
+    buffer.channels.forEach((data, c) => audioBuffer.copyToChannel(data, c));
+    return audioBuffer;
+  }
+
+  private halt() {
+    const node = this.node;
+    this.node = null;
+    this.loop = null;
+    this.stopAt = null;
+    if (node) {
+      node.onended = null;
+      node.stop();
+      node.disconnect();
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,14 @@
+// Small helpers shared by the analysis modules.
+
+/** Resolve on a later task, so long analyses leave the page responsive. */
+export const yieldToMain = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/** The value at fraction `p` of the sorted values (nearest rank, rounding down); 0 for none. */
+export const percentile = (values: ArrayLike<number>, p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+/** The upper median; 0 for none. */
+export const median = (values: ArrayLike<number>) => percentile(values, 0.5);
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_OPTIONS, detectSpeech, speechOverlap } from './vad';
+
+const RATE = 16000;
+
+// Quiet background noise with voiced speech-like spans (harmonics of 150 Hz
+// peaking around 1 kHz) and optional loud white-noise spans
+const signal = (seconds: number, voiced: [number, number][], noise: [number, number][] = []) => {
+  let seed = 5;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+  const samples = new Float32Array(seconds * RATE);
+  const inside = (spans: [number, number][], t: number) => spans.some(([from, to]) => t >= from && t < to);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / RATE;
+    let value = 0.0005 * random();
+    if (inside(voiced, t)) {
+      for (let h = 1; h <= 25; h++) value += (0.05 * Math.sin(2 * Math.PI * 150 * h * t)) / (1 + ((150 * h - 1000) / 500) ** 2);
+    }
+    if (inside(noise, t)) value += 0.3 * random();
+    samples[i] = value;
+  }
+  return samples;
+};
+
+describe('detectSpeech', () => {
+  it('finds voiced spans to within a frame or two', async () => {
+    const result = await detectSpeech(signal(5, [[1, 2], [3, 3.5]]), RATE);
+    expect(result.segments).toHaveLength(2);
+    expect(result.segments[0].start).toBeCloseTo(1, 1);
+    expect(result.segments[0].end).toBeCloseTo(2, 1);
+    expect(result.segments[1].start).toBeCloseTo(3, 1);
+    expect(result.segments[1].end).toBeCloseTo(3.5, 1);
+    expect(result.speechRatio).toBeCloseTo(1.5 / 5, 1);
+    expect(result.longestSegmentSeconds).toBeCloseTo(1, 1);
+  });
+
+  it('rejects loud broadband noise', async () => {
+    const result = await detectSpeech(signal(5, [[1, 2]], [[3, 4]]), RATE);
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0].end).toBeLessThan(2.1);
+  });
+
+  it('bridges pauses shorter than the hangover and drops short blips', async () => {
+    // 0.1 s pause, then a 0.05 s blip well after
+    const result = await detectSpeech(signal(5, [[1, 1.5], [1.6, 2], [3.5, 3.55]]), RATE);
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0].start).toBeCloseTo(1, 1);
+    expect(result.segments[0].end).toBeCloseTo(2, 1);
+
+    const apart = await detectSpeech(signal(5, [[1, 1.5], [2, 2.5]]), RATE, { ...DEFAULT_VAD_OPTIONS, hangoverSeconds: 0.1 });
+    expect(apart.segments).toHaveLength(2);
+  });
+});
+
+describe('speechOverlap', () => {
+  it('is the covered fraction of the span', () => {
+    const segments = [{ start: 1, end: 2 }, { start: 3, end: 4 }];
+    expect(speechOverlap(segments, 1.5, 3.5)).toBeCloseTo(0.5);
+    expect(speechOverlap(segments, 2, 3)).toBe(0);
+    expect(speechOverlap(segments, 1, 1)).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { fft, hannWindow, nextPowerOfTwo, toDb } from './fft';
+import { percentile, yieldToMain } from './util';
+
+// Voice activity detection. A frame counts as speech when it is loud enough
+// above the noise floor, carries most of its energy in the speech band and
+// is not noise-like (low spectral flatness). The decision is held for a
+// hangover after the last speech frame so pauses between words do not split
+// an utterance, and runs shorter than a minimum length are dropped.
+
+export type VadAggressiveness = 0 | 1 | 2 | 3;
+
+export interface VadOptions {
+  // Higher values reject more non-speech at the cost of missing quiet speech
+  aggressiveness: VadAggressiveness;
+  hangoverSeconds: number;
+  minSpeechSeconds: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  aggressiveness: 1,
+  hangoverSeconds: 0.25,
+  minSpeechSeconds: 0.15
+};
+
+export const VAD_AGGRESSIVENESS_LABELS: Record<VadAggressiveness, string> = {
+  0: 'Lenient',
+  1: 'Normal',
+  2: 'Strict',
+  3: 'Very strict'
+};
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+export interface VadResult {
+  segments: SpeechSegment[];
+  duration: number;
+  speechSeconds: number;
+  // Share of the duration that is speech, 0 to 1
+  speechRatio: number;
+  meanSegmentSeconds: number;
+  longestSegmentSeconds: number;
+  options: VadOptions;
+}
+
+// Per aggressiveness: level above the noise floor, share of 80 Hz–8 kHz
+// energy inside the speech band, and the highest spectral flatness
+const THRESHOLDS = [
+  { levelDb: 6, bandShare: 0.35, flatness: 0.6 },
+  { levelDb: 9, bandShare: 0.45, flatness: 0.5 },
+  { levelDb: 12, bandShare: 0.55, flatness: 0.4 },
+  { levelDb: 15, bandShare: 0.65, flatness: 0.3 }
+];
+
+const WINDOW_SECONDS = 0.03;
+const HOP_SECONDS = 0.01;
+const SPEECH_BAND: [number, number] = [300, 3400];
+const ANALYSIS_BAND: [number, number] = [80, 8000];
+const FRAMES_PER_YIELD = 2000;
+
+/** Speech segments of a mono signal, with summary statistics. */
+export const detectSpeech = async (
+  samples: Float32Array,
+  sampleRate: number,
+  options: VadOptions = DEFAULT_VAD_OPTIONS
+): Promise<VadResult> => {
+  const windowSize = Math.round(WINDOW_SECONDS * sampleRate);
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const fftSize = nextPowerOfTwo(windowSize);
+  const binHz = sampleRate / fftSize;
+  const window = hannWindow(windowSize);
+  const frameCount = Math.max(1, Math.ceil((samples.length - windowSize) / hopSize) + 1);
+  const bin = (hz: number) => Math.min(fftSize / 2, Math.round(hz / binHz));
+  const [speechLow, speechHigh] = SPEECH_BAND.map(bin);
+  const [bandLow, bandHigh] = ANALYSIS_BAND.map(bin);
+
+  const levels = new Float64Array(frameCount);
+  const bandShares = new Float64Array(frameCount);
+  const flatness = new Float64Array(frameCount);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * hopSize;
+    let sumSquares = 0;
+    for (let i = 0; i < fftSize; i++) {
+      const value = i < windowSize && start + i < samples.length ? samples[start + i] : 0;
+      sumSquares += value * value;
+      re[i] = i < windowSize ? value * window[i] : 0;
+      im[i] = 0;
+    }
+    levels[f] = toDb(sumSquares / windowSize);
+    fft(re, im);
+
+    let total = 0;
+    let speech = 0;
+    let logSum = 0;
+    for (let k = bandLow; k <= bandHigh; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      total += power;
+      if (k >= speechLow && k <= speechHigh) speech += power;
+      logSum += Math.log(power + 1e-20);
+    }
+    const bins = bandHigh - bandLow + 1;
+    bandShares[f] = total > 0 ? speech / total : 0;
+    flatness[f] = total > 0 ? Math.exp(logSum / bins) / (total / bins) : 1;
+    if (f % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) await yieldToMain();
+  }
+
+  const noiseFloorDb = percentile(levels, 0.1);
+  const threshold = THRESHOLDS[options.aggressiveness];
+  const hangover = Math.round(options.hangoverSeconds / HOP_SECONDS);
+  const minFrames = Math.max(1, Math.round(options.minSpeechSeconds / HOP_SECONDS));
+  const hopSeconds = hopSize / sampleRate;
+  const centre = (f: number) => (f * hopSize + windowSize / 2) / sampleRate;
+
+  const segments: SpeechSegment[] = [];
+  let first = -1;
+  let last = -1;
+  let voicedFrames = 0;
+  const close = () => {
+    if (first >= 0 && voicedFrames >= minFrames) {
+      segments.push({
+        start: Math.max(0, centre(first) - hopSeconds / 2),
+        end: Math.min(samples.length / sampleRate, centre(last) + hopSeconds / 2)
+      });
+    }
+    first = -1;
+    voicedFrames = 0;
+  };
+
+  for (let f = 0; f < frameCount; f++) {
+    const isSpeech = levels[f] >= noiseFloorDb + threshold.levelDb &&
+      bandShares[f] >= threshold.bandShare &&
+      flatness[f] <= threshold.flatness;
+    if (isSpeech) {
+      if (first < 0) first = f;
+      last = f;
+      voicedFrames++;
+    } else if (first >= 0 && f - last > hangover) {
+      close();
+    }
+  }
+  close();
+
+  const duration = samples.length / sampleRate;
+  const lengths = segments.map(s => s.end - s.start);
+  const speechSeconds = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    segments,
+    duration,
+    speechSeconds,
+    speechRatio: duration > 0 ? speechSeconds / duration : 0,
+    meanSegmentSeconds: segments.length > 0 ? speechSeconds / segments.length : 0,
+    longestSegmentSeconds: Math.max(0, ...lengths),
+    options
+  };
+};
+
+/** Fraction of [start, end) covered by speech segments. */
+export const speechOverlap = (segments: SpeechSegment[], start: number, end: number) => {
+  if (end <= start) return 0;
+  const covered = segments.reduce(
+    (sum, s) => sum + Math.max(0, Math.min(end, s.end) - Math.max(start, s.start)),
+    0
+  );
+  return covered / (end - start);
+};
@@ -0,0 +1,119 @@
+// Broadcast Wave Format `bext` chunk (EBU Tech 3285, version 2).
+
+export interface BextChunk {
+  description: string;
+  originator: string;
+  originatorReference: string;
+  // yyyy-mm-dd and hh:mm:ss, local time of the first sample
+  originationDate: string;
+  originationTime: string;
+  // First sample's position in samples since midnight
+  timeReference: bigint;
+  version: number;
+  umid: Uint8Array;
+  // Loudness fields in the units of the standard (LUFS, LU, dBTP); null
+  // when not measured
+  loudnessValue: number | null;
+  loudnessRange: number | null;
+  maxTruePeakLevel: number | null;
+  maxMomentaryLoudness: number | null;
+  maxShortTermLoudness: number | null;
+  codingHistory: string;
+}
+
+const FIXED_SIZE = 602;
+// Fixed fields up to the end of the loudness fields; shorter chunks are not
+// readable as bext
+export const MIN_BEXT_SIZE = FIXED_SIZE - 180;
+const LOUDNESS_UNSET = 0x7fff;
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+/** Date, time and time reference fields for a recording started at `start`. */
+export const bextTimestamp = (start: Date, sampleRate: number) => {
+  const midnight = new Date(start);
+  midnight.setHours(0, 0, 0, 0);
+  const seconds = (start.getTime() - midnight.getTime()) / 1000;
+  return {
+    originationDate: `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`,
+    originationTime: `${pad(start.getHours())}:${pad(start.getMinutes())}:${pad(start.getSeconds())}`,
+    timeReference: BigInt(Math.round(seconds * sampleRate))
+  };
+};
+
+const writeAscii = (view: DataView, offset: number, text: string, length: number) => {
+  for (let i = 0; i < length; i++) {
+    const code = i < text.length ? text.charCodeAt(i) : 0;
+    // The standard only allows ASCII
+    view.setUint8(offset + i, code < 128 ? code : 0x3f);
+  }
+};
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+const encodeLoudness = (value: number | null) =>
+  value === null ? LOUDNESS_UNSET : Math.round(value * 100);
+
+const decodeLoudness = (value: number) => (value === LOUDNESS_UNSET ? null : value / 100);
+
+/** Serialise a `bext` chunk body (without the chunk header). */
+export const encodeBext = (bext: BextChunk) => {
+  // Coding history lines end in CR LF and the body must have an even length
+  const history = bext.codingHistory;
+  const size = FIXED_SIZE + history.length + ((FIXED_SIZE + history.length) % 2);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  writeAscii(view, 0, bext.description, 256);
+  writeAscii(view, 256, bext.originator, 32);
+  writeAscii(view, 288, bext.originatorReference, 32);
+  writeAscii(view, 320, bext.originationDate, 10);
+  writeAscii(view, 330, bext.originationTime, 8);
+  view.setUint32(338, Number(bext.timeReference & 0xffffffffn), true);
+  view.setUint32(342, Number(bext.timeReference >> 32n), true);
+  view.setUint16(346, bext.version, true);
+  bytes.set(bext.umid.subarray(0, 64), 348);
+  view.setInt16(412, encodeLoudness(bext.loudnessValue), true);
+  view.setInt16(414, encodeLoudness(bext.loudnessRange), true);
+  view.setInt16(416, encodeLoudness(bext.maxTruePeakLevel), true);
+  view.setInt16(418, encodeLoudness(bext.maxMomentaryLoudness), true);
+  view.setInt16(420, encodeLoudness(bext.maxShortTermLoudness), true);
+  writeAscii(view, FIXED_SIZE, history, history.length);
+
+  return bytes;
+};
+
+/** Parse a `bext` chunk body. */
+export const decodeBext = (bytes: Uint8Array): BextChunk => {
+  if (bytes.length < MIN_BEXT_SIZE) {
+    throw new Error(`bext chunk too short (${bytes.length} bytes)`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint16(346, true);
+  const hasLoudness = version >= 2 && bytes.length >= 422;
+
+  return {
+    description: readAscii(view, 0, 256),
+    originator: readAscii(view, 256, 32),
+    originatorReference: readAscii(view, 288, 32),
+    originationDate: readAscii(view, 320, 10),
+    originationTime: readAscii(view, 330, 8),
+    timeReference: BigInt(view.getUint32(338, true)) | (BigInt(view.getUint32(342, true)) << 32n),
+    version,
+    umid: bytes.slice(348, 412),
+    loudnessValue: hasLoudness ? decodeLoudness(view.getInt16(412, true)) : null,
+    loudnessRange: hasLoudness ? decodeLoudness(view.getInt16(414, true)) : null,
+    maxTruePeakLevel: hasLoudness ? decodeLoudness(view.getInt16(416, true)) : null,
+    maxMomentaryLoudness: hasLoudness ? decodeLoudness(view.getInt16(418, true)) : null,
+    maxShortTermLoudness: hasLoudness ? decodeLoudness(view.getInt16(420, true)) : null,
+    codingHistory: bytes.length > FIXED_SIZE ? readAscii(view, FIXED_SIZE, bytes.length - FIXED_SIZE) : ''
+  };
+};
@@ -0,0 +1,57 @@
+// LIST/INFO chunk: short tagged text fields (INAM title, IART artist,
+// ICMT comment, ICRD creation date, ISFT software, ...).
+
+export const INFO_LABELS: Record<string, string> = {
+  INAM: 'Title',
+  IART: 'Artist',
+  ICMT: 'Comment',
+  ICOP: 'Copyright',
+  ICRD: 'Created',
+  IENG: 'Engineer',
+  IGNR: 'Genre',
+  IKEY: 'Keywords',
+  IPRD: 'Product',
+  ISFT: 'Software',
+  ISRC: 'Source',
+  ITCH: 'Technician'
+};
+
+const textDecoder = new TextDecoder('utf-8');
+const textEncoder = new TextEncoder();
+
+/** Parse the sub-chunks of a LIST/INFO body (after the 'INFO' type). */
+export const parseInfoList = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = Math.min(view.getUint32(offset + 4, true), bytes.length - offset - 8);
+    entries[id] = textDecoder.decode(bytes.subarray(offset + 8, offset + 8 + size)).replace(/\0+$/, '');
+    offset += 8 + size + (size % 2);
+  }
+  return entries;
+};
+
+/** Serialise a LIST chunk body, starting with the 'INFO' type. */
+export const encodeInfoList = (entries: Record<string, string>) => {
+  const parts: Uint8Array[] = [textEncoder.encode('INFO')];
+  for (const [id, value] of Object.entries(entries)) {
+    // Values are null terminated and sub-chunks word aligned
+    const text = textEncoder.encode(`${value}\0`);
+    const header = new Uint8Array(8);
+    header.set(textEncoder.encode(id.padEnd(4).slice(0, 4)));
+    new DataView(header.buffer).setUint32(4, text.length, true);
+    parts.push(header, text);
+    if (text.length % 2 === 1) parts.push(new Uint8Array(1));
+  }
+
+  const body = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.length;
+  }
+  return body;
+};
@@ -0,0 +1,302 @@
+import { BextChunk, MIN_BEXT_SIZE, decodeBext } from './bext';
+import { parseInfoList } from './info';
+
+// RIFF/WAVE, RF64 and BW64 parser. Headers are read through Blob slices, so
+// files larger than memory (or than 4 GB) can be inspected, and samples are
+// read a range of frames at a time.
+
+export type SampleEncoding = 'pcm' | 'float';
+
+export interface WavFormat {
+  // Tag from the fmt chunk; 0xfffe for WAVE_FORMAT_EXTENSIBLE
+  formatTag: number;
+  extensible: boolean;
+  encoding: SampleEncoding;
+  channelCount: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  // Container size of one sample and the bits that carry signal
+  bitsPerSample: number;
+  validBitsPerSample: number;
+  channelMask: number | null;
+  subFormat: string | null;
+}
+
+interface ChunkBase {
+  id: string;
+  // Offset of the chunk body in the file and its size in bytes
+  offset: number;
+  size: number;
+}
+
+export type WavChunk =
+  | (ChunkBase & { kind: 'format'; format: WavFormat })
+  | (ChunkBase & { kind: 'data' })
+  | (ChunkBase & { kind: 'fact'; sampleLength: number })
+  | (ChunkBase & { kind: 'ds64'; riffSize: number; dataSize: number; sampleCount: number })
+  | (ChunkBase & { kind: 'bext'; bext: BextChunk })
+  | (ChunkBase & { kind: 'ixml'; xml: string })
+  | (ChunkBase & { kind: 'info'; entries: Record<string, string> })
+  | (ChunkBase & { kind: 'other'; body: Uint8Array | null });
+
+export interface WavFile {
+  container: 'RIFF' | 'RF64' | 'BW64';
+  format: WavFormat;
+  frameCount: number;
+  duration: number;
+  dataOffset: number;
+  dataSize: number;
+  // Every chunk in file order
+  chunks: WavChunk[];
+  bext: BextChunk | null;
+  ixml: string | null;
+  info: Record<string, string> | null;
+}
+
+export const WAVE_FORMAT_PCM = 0x0001;
+export const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+export const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Bodies of unknown chunks are kept up to this size so they can be written back
+const MAX_KEPT_CHUNK = 1 << 20;
+const SIZE_FROM_DS64 = 0xffffffff;
+
+export class WavFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WavFormatError';
+  }
+}
+
+const readBytes = async (blob: Blob, offset: number, length: number) =>
+  new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+
+const fourCC = (bytes: Uint8Array, offset = 0) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+const guidString = (bytes: Uint8Array) => {
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0'));
+  const le = (from: number, to: number) => hex.slice(from, to).reverse().join('');
+  return `${le(0, 4)}-${le(4, 6)}-${le(6, 8)}-${hex.slice(8, 10).join('')}-${hex.slice(10, 16).join('')}`;
+};
+
+/** Parse a fmt chunk body. */
+export const parseFormat = (body: Uint8Array): WavFormat => {
+  if (body.length < 16) throw new WavFormatError('fmt chunk is too short');
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const formatTag = view.getUint16(0, true);
+  const bitsPerSample = view.getUint16(14, true);
+  const extensible = formatTag === WAVE_FORMAT_EXTENSIBLE && body.length >= 40;
+
+  // The first two bytes of the sub-format GUID carry the real format tag
+  const effectiveTag = extensible ? view.getUint16(24, true) : formatTag;
+  if (effectiveTag !== WAVE_FORMAT_PCM && effectiveTag !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new WavFormatError(`Unsupported WAV encoding 0x${effectiveTag.toString(16).padStart(4, '0')}`);
+  }
+
+  const channelCount = view.getUint16(2, true);
+  const sampleRate = view.getUint32(4, true);
+  const blockAlign = view.getUint16(12, true);
+  const encoding = effectiveTag === WAVE_FORMAT_IEEE_FLOAT ? 'float' : 'pcm';
+  const supportedSizes = encoding === 'float' ? [32, 64] : [8, 16, 24, 32];
+  if (!supportedSizes.includes(bitsPerSample)) {
+    throw new WavFormatError(`Unsupported ${encoding === 'float' ? 'float' : 'PCM'} sample size ${bitsPerSample} bits`);
+  }
+  if (channelCount === 0 || sampleRate === 0) throw new WavFormatError('fmt chunk has no channels or no sample rate');
+  if (blockAlign !== channelCount * (bitsPerSample / 8)) {
+    throw new WavFormatError(`Block size ${blockAlign} does not match ${channelCount} channel(s) of ${bitsPerSample} bits`);
+  }
+
+  return {
+    formatTag,
+    extensible,
+    encoding,
+    channelCount,
+    sampleRate,
+    byteRate: view.getUint32(8, true),
+    blockAlign,
+    bitsPerSample,
+    validBitsPerSample: extensible ? view.getUint16(18, true) || bitsPerSample : bitsPerSample,
+    channelMask: extensible ? view.getUint32(20, true) : null,
+    subFormat: extensible ? guidString(body.subarray(24, 40)) : null
+  };
+};
+
+const textDecoder = new TextDecoder('utf-8');
+
+/** Walk the chunk list of a WAV file and parse every header chunk. */
+export const parseWav = async (blob: Blob): Promise<WavFile> => {
+  const header = await readBytes(blob, 0, 12);
+  const container = fourCC(header);
+  if ((container !== 'RIFF' && container !== 'RF64' && container !== 'BW64') || fourCC(header, 8) !== 'WAVE') {
+    throw new WavFormatError('Not a RIFF/RF64 WAVE file');
+  }
+
+  const chunks: WavChunk[] = [];
+  let ds64: Extract<WavChunk, { kind: 'ds64' }> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= blob.size) {
+    const chunkHeader = await readBytes(blob, offset, 8);
+    const id = fourCC(chunkHeader);
+    let size = new DataView(chunkHeader.buffer).getUint32(4, true);
+    const bodyOffset = offset + 8;
+
+    if (id === 'data' && size === SIZE_FROM_DS64 && ds64) size = ds64.dataSize;
+    // Truncated files: clamp to what is actually there
+    size = Math.min(size, blob.size - bodyOffset);
+    const base = { id, offset: bodyOffset, size };
+
+    if (id === 'data') {
+      chunks.push({ ...base, kind: 'data' });
+    } else if (size <= MAX_KEPT_CHUNK || id === 'iXML' || id === 'bext') {
+      const body = await readBytes(blob, bodyOffset, size);
+      const view = new DataView(body.buffer);
+      if (id === 'fmt ') {
+        chunks.push({ ...base, kind: 'format', format: parseFormat(body) });
+      } else if (id === 'fact' && size >= 4) {
+        chunks.push({ ...base, kind: 'fact', sampleLength: view.getUint32(0, true) });
+      } else if (id === 'ds64' && size >= 24) {
+        ds64 = {
+          ...base,
+          kind: 'ds64',
+          riffSize: readUint64(view, 0),
+          dataSize: readUint64(view, 8),
+          sampleCount: readUint64(view, 16)
+        };
+        chunks.push(ds64);
+      } else if (id === 'bext' && size >= MIN_BEXT_SIZE) {
+        // A truncated bext is kept as an unknown chunk rather than failing the file
+        chunks.push({ ...base, kind: 'bext', bext: decodeBext(body) });
+      } else if (id === 'iXML') {
+        chunks.push({ ...base, kind: 'ixml', xml: textDecoder.decode(body).replace(/\0+$/, '') });
+      } else if (id === 'LIST' && size >= 4 && fourCC(body) === 'INFO') {
+        chunks.push({ ...base, kind: 'info', entries: parseInfoList(body.subarray(4)) });
+      } else {
+        chunks.push({ ...base, kind: 'other', body });
+      }
+    } else {
+      chunks.push({ ...base, kind: 'other', body: null });
+    }
+
+    offset = bodyOffset + size + (size % 2);
+  }
+
+  const formatChunk = chunks.find(c => c.kind === 'format');
+  const dataChunk = chunks.find(c => c.kind === 'data');
+  if (!formatChunk || formatChunk.kind !== 'format') throw new WavFormatError('Missing fmt chunk');
+  if (!dataChunk) throw new WavFormatError('Missing data chunk');
+
+  const { format } = formatChunk;
+  const frameCount = Math.floor(dataChunk.size / format.blockAlign);
+  const bext = chunks.find(c => c.kind === 'bext');
+  const ixml = chunks.find(c => c.kind === 'ixml');
+  const info = chunks.find(c => c.kind === 'info');
+
+  return {
+    container,
+    format,
+    frameCount,
+    duration: frameCount / format.sampleRate,
+    dataOffset: dataChunk.offset,
+    dataSize: dataChunk.size,
+    chunks,
+    bext: bext?.kind === 'bext' ? bext.bext : null,
+    ixml: ixml?.kind === 'ixml' ? ixml.xml : null,
+    info: info?.kind === 'info' ? info.entries : null
+  };
+};
+
+/** Decode interleaved frames into one Float32Array per channel. */
+export const decodeFrames = (bytes: Uint8Array, format: WavFormat) => {
+  const { channelCount, blockAlign, bitsPerSample, encoding } = format;
+  const frames = Math.floor(bytes.length / blockAlign);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = bitsPerSample / 8;
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+
+  const read = (offset: number): number => {
+    if (encoding === 'float') {
+      return width === 8 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+    }
+    switch (width) {
+      case 1:
+        return (view.getUint8(offset) - 128) / 128;
+      case 2:
+        return view.getInt16(offset, true) / 32768;
+      case 3: {
+        const v = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return v / 8388608;
+      }
+      case 4:
+        return view.getInt32(offset, true) / 2147483648;
+      default:
+        throw new WavFormatError(`Unsupported sample size ${bitsPerSample} bits`);
+    }
+  };
+
+  for (let i = 0; i < frames; i++) {
+    const frameOffset = i * blockAlign;
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][i] = read(frameOffset + c * width);
+    }
+  }
+  return channels;
+};
+
+/**
+ * Read `frameCount` frames starting at `startFrame`. Large ranges are read
+ * in pieces so no single slice of the file has to fit in one ArrayBuffer.
+ */
+export const readWavSamples = async (
+  blob: Blob,
+  wav: WavFile,
+  startFrame = 0,
+  frameCount = wav.frameCount - startFrame
+) => {
+  const { format } = wav;
+  const count = Math.max(0, Math.min(frameCount, wav.frameCount - startFrame));
+  const channels = Array.from({ length: format.channelCount }, () => new Float32Array(count));
+  const piece = Math.max(1, Math.floor((16 << 20) / format.blockAlign));
+
+  for (let done = 0; done < count; done += piece) {
+    const frames = Math.min(piece, count - done);
+    const offset = wav.dataOffset + (startFrame + done) * format.blockAlign;
+    const bytes = await readBytes(blob, offset, frames * format.blockAlign);
+    decodeFrames(bytes, format).forEach((data, c) => channels[c].set(data, done));
+  }
+  return channels;
+};
+
+const SPEAKER_NAMES = [
+  'FL', 'FR', 'FC', 'LFE', 'BL', 'BR', 'FLC', 'FRC', 'BC',
+  'SL', 'SR', 'TC', 'TFL', 'TFC', 'TFR', 'TBL', 'TBC', 'TBR'
+];
+
+/** Speaker name for each channel, from the channel mask when present. */
+export const channelLayout = (format: WavFormat) => {
+  const names: string[] = [];
+  if (format.channelMask) {
+    SPEAKER_NAMES.forEach((name, bit) => {
+      if (format.channelMask! & (1 << bit)) names.push(name);
+    });
+  } else if (format.channelCount === 1) {
+    names.push('M');
+  } else if (format.channelCount === 2) {
+    names.push('L', 'R');
+  }
+  return Array.from({ length: format.channelCount }, (_, c) => names[c] ?? `Ch${c + 1}`);
+};
+
+export const describeFormat = (format: WavFormat) => {
+  const sample = format.encoding === 'float'
+    ? `${format.bitsPerSample}-bit float`
+    : format.validBitsPerSample !== format.bitsPerSample
+      ? `${format.validBitsPerSample}-bit PCM in ${format.bitsPerSample}`
+      : `${format.bitsPerSample}-bit PCM`;
+  return `${sample}, ${format.sampleRate} Hz, ${channelLayout(format).join(' ')}${format.extensible ? ' (extensible)' : ''}`;
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { BextChunk } from './bext';
+import { WavFormatError, parseWav, readWavSamples } from './reader';
+import { SampleFormat, encodeWav } from './writer';
+
+// A deterministic stereo test signal: a sine on the left, noise on the right
+const testSignal = (frames: number) => {
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed / 2147483647) * 2 - 1;
+  };
+  return [
+    Float32Array.from({ length: frames }, (_, i) => 0.9 * Math.sin((2 * Math.PI * 440 * i) / 48000)),
+    Float32Array.from({ length: frames }, () => 0.5 * noise())
+  ];
+};
+
+// Largest round-trip error of each format: half a quantisation step
+const TOLERANCE: Record<SampleFormat, number> = {
+  pcm8: 0.5 / 128,
+  pcm16: 0.5 / 32768,
+  pcm24: 0.5 / 8388608,
+  pcm32: 0.5 / 2147483648,
+  float32: 0
+};
+
+const maxError = (a: Float32Array, b: Float32Array) => a.reduce((max, x, i) => Math.max(max, Math.abs(x - b[i])), 0);
+
+describe('WAV round trip', () => {
+  for (const format of Object.keys(TOLERANCE) as SampleFormat[]) {
+    it(`reads back ${format} samples within half a step`, async () => {
+      const channels = testSignal(4801);
+      const blob = encodeWav({ channels, sampleRate: 48000, format });
+      const wav = await parseWav(blob);
+
+      expect(wav.container).toBe('RIFF');
+      expect(wav.format.channelCount).toBe(2);
+      expect(wav.format.sampleRate).toBe(48000);
+      expect(wav.format.encoding).toBe(format === 'float32' ? 'float' : 'pcm');
+      expect(wav.frameCount).toBe(4801);
+
+      const decoded = await readWavSamples(blob, wav);
+      decoded.forEach((channel, c) => expect(maxError(channel, channels[c])).toBeLessThanOrEqual(TOLERANCE[format]));
+    });
+  }
+
+  it('reads a range of frames', async () => {
+    const channels = testSignal(1000);
+    const blob = encodeWav({ channels, sampleRate: 48000, format: 'float32' });
+    const [left] = await readWavSamples(blob, await parseWav(blob), 250, 100);
+    expect(Array.from(left)).toEqual(Array.from(channels[0].subarray(250, 350)));
+  });
+
+  it('writes RF64 with a ds64 chunk on request', async () => {
+    const channels = testSignal(100);
+    const blob = encodeWav({ channels, sampleRate: 48000, format: 'pcm16', rf64: true });
+    const wav = await parseWav(blob);
+    expect(wav.container).toBe('RF64');
+    expect(wav.chunks[0].kind).toBe('ds64');
+    expect(wav.frameCount).toBe(100);
+  });
+
+  it('writes WAVE_FORMAT_EXTENSIBLE for more than two channels', async () => {
+    const channels = [...testSignal(10), ...testSignal(10), ...testSignal(10)];
+    const wav = await parseWav(encodeWav({ channels, sampleRate: 48000, format: 'pcm24' }));
+    expect(wav.format.extensible).toBe(true);
+    expect(wav.format.channelMask).toBe(0x3f);
+    expect(wav.format.validBitsPerSample).toBe(24);
+  });
+
+  it('keeps bext, iXML and INFO metadata', async () => {
+    const bext: BextChunk = {
+      description: 'Interview, room 2',
+      originator: 'Audio Forensic',
+      originatorReference: 'REF-0001',
+      originationDate: '2024-03-01',
+      originationTime: '10:15:00',
+      timeReference: 1728000000n,
+      version: 2,
+      umid: new Uint8Array(64),
+      loudnessValue: -23.5,
+      loudnessRange: null,
+      maxTruePeakLevel: -1.2,
+      maxMomentaryLoudness: null,
+      maxShortTermLoudness: null,
+      codingHistory: 'A=PCM,F=48000,W=24,M=stereo\r\n'
+    };
+    const wav = await parseWav(encodeWav({
+      channels: testSignal(10),
+      sampleRate: 48000,
+      format: 'pcm24',
+      bext,
+      ixml: '<BWFXML></BWFXML>',
+      info: { ICMT: 'Exhibit 4' }
+    }));
+    expect(wav.bext).toEqual(bext);
+    expect(wav.ixml).toBe('<BWFXML></BWFXML>');
+    expect(wav.info).toEqual({ ICMT: 'Exhibit 4' });
+  });
+
+  it('keeps a truncated bext chunk as an unknown chunk', async () => {
+    const wav = await parseWav(encodeWav({
+      channels: testSignal(10),
+      sampleRate: 48000,
+      format: 'pcm16',
+      extraChunks: [{ id: 'bext', body: new Uint8Array(100) }]
+    }));
+    expect(wav.bext).toBeNull();
+    expect(wav.chunks.find(c => c.id === 'bext')?.kind).toBe('other');
+    expect(wav.frameCount).toBe(10);
+  });
+
+  it('rejects a fmt chunk whose block size does not match its channels', async () => {
+    const bytes = new Uint8Array(await encodeWav({ channels: testSignal(10), sampleRate: 48000, format: 'pcm16' }).arrayBuffer());
+    // blockAlign of the fmt chunk that follows the 12-byte RIFF header
+    new DataView(bytes.buffer).setUint16(12 + 8 + 12, 3, true);
+    await expect(parseWav(new Blob([bytes]))).rejects.toThrow(WavFormatError);
+  });
+
+  it('rejects a fmt chunk without channels', async () => {
+    const bytes = new Uint8Array(await encodeWav({ channels: testSignal(10), sampleRate: 48000, format: 'pcm16' }).arrayBuffer());
+    new DataView(bytes.buffer).setUint16(12 + 8 + 2, 0, true);
+    await expect(parseWav(new Blob([bytes]))).rejects.toThrow(WavFormatError);
+  });
+
+  it('rejects files that are not WAVE', async () => {
+    await expect(parseWav(new Blob(['not a wave file at all']))).rejects.toThrow(WavFormatError);
+  });
+});
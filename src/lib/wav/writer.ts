@@ -0,0 +1,197 @@
+import { BextChunk, encodeBext } from './bext';
+import { encodeInfoList } from './info';
+import { WAVE_FORMAT_EXTENSIBLE, WAVE_FORMAT_IEEE_FLOAT, WAVE_FORMAT_PCM } from './reader';
+
+// WAV / Broadcast Wave encoder for Float32 channel data. Switches to RF64
+// (EBU Tech 3306) when the file would not fit in a 32-bit RIFF size.
+
+export type SampleFormat = 'pcm8' | 'pcm16' | 'pcm24' | 'pcm32' | 'float32';
+
+export const SAMPLE_FORMAT_LABELS: Record<SampleFormat, string> = {
+  pcm8: '8-bit PCM',
+  pcm16: '16-bit PCM',
+  pcm24: '24-bit PCM',
+  pcm32: '32-bit PCM',
+  float32: '32-bit float (bit-exact)'
+};
+
+export interface WavEncodeOptions {
+  channels: Float32Array[];
+  sampleRate: number;
+  format: SampleFormat;
+  bext?: BextChunk;
+  ixml?: string;
+  info?: Record<string, string>;
+  // Chunks copied through unchanged, e.g. from a parsed source file
+  extraChunks?: { id: string; body: Uint8Array }[];
+  // Speaker positions; setting it (or more than two channels) writes
+  // WAVE_FORMAT_EXTENSIBLE
+  channelMask?: number;
+  // Write RF64 even when the file is small enough for RIFF
+  rf64?: boolean;
+}
+
+const MAX_RIFF_SIZE = 0xffffffff;
+// Frames encoded per Blob part, so long recordings never need one huge buffer
+const FRAMES_PER_PART = 1 << 20;
+
+const bytesPerSample = (format: SampleFormat) =>
+  format === 'pcm8' ? 1 : format === 'pcm16' ? 2 : format === 'pcm24' ? 3 : 4;
+
+const textEncoder = new TextEncoder();
+
+const chunkHeader = (id: string, size: number) => {
+  const header = new Uint8Array(8);
+  header.set(textEncoder.encode(id));
+  new DataView(header.buffer).setUint32(4, Math.min(size, MAX_RIFF_SIZE), true);
+  return header;
+};
+
+const chunk = (id: string, body: Uint8Array) => {
+  const header = chunkHeader(id, body.length);
+  // Chunks are word aligned
+  return body.length % 2 === 1 ? [header, body, new Uint8Array(1)] : [header, body];
+};
+
+// Default speaker masks for common channel counts (mono, stereo, quad, 5.1, 7.1)
+const DEFAULT_CHANNEL_MASKS: Record<number, number> = {
+  1: 0x4,
+  2: 0x3,
+  4: 0x33,
+  6: 0x3f,
+  8: 0x63f
+};
+
+const formatChunk = (format: SampleFormat, channelCount: number, sampleRate: number, channelMask?: number) => {
+  const extensible = channelMask !== undefined || channelCount > 2;
+  const tag = format === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const body = new Uint8Array(extensible ? 40 : format === 'float32' ? 18 : 16);
+  const view = new DataView(body.buffer);
+  const width = bytesPerSample(format);
+  const blockAlign = channelCount * width;
+
+  view.setUint16(0, extensible ? WAVE_FORMAT_EXTENSIBLE : tag, true);
+  view.setUint16(2, channelCount, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * blockAlign, true);
+  view.setUint16(12, blockAlign, true);
+  view.setUint16(14, width * 8, true);
+
+  if (extensible) {
+    view.setUint16(16, 22, true);
+    view.setUint16(18, width * 8, true);
+    view.setUint32(20, channelMask ?? DEFAULT_CHANNEL_MASKS[channelCount] ?? 0, true);
+    // KSDATAFORMAT_SUBTYPE_PCM / _IEEE_FLOAT: tag followed by the fixed GUID tail
+    view.setUint16(24, tag, true);
+    body.set([0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71], 26);
+  }
+  // Otherwise cbSize = 0 for non-PCM formats
+  return body;
+};
+
+/**
+ * Interleave and quantise frames `start` to `end`. Integer formats round to
+ * nearest without dither so the same input always gives the same file;
+ * float32 copies the captured values unchanged.
+ */
+const encodeSamples = (channels: Float32Array[], format: SampleFormat, start: number, end: number) => {
+  const width = bytesPerSample(format);
+  const body = new Uint8Array((end - start) * channels.length * width);
+  const view = new DataView(body.buffer);
+  let offset = 0;
+
+  for (let i = start; i < end; i++) {
+    for (const channel of channels) {
+      const x = channel[i];
+      if (format === 'float32') {
+        view.setFloat32(offset, x, true);
+      } else if (format === 'pcm8') {
+        // 8-bit WAV is unsigned with a 128 offset
+        view.setUint8(offset, Math.max(0, Math.min(255, Math.round(x * 128) + 128)));
+      } else if (format === 'pcm16') {
+        view.setInt16(offset, Math.max(-32768, Math.min(32767, Math.round(x * 32768))), true);
+      } else if (format === 'pcm24') {
+        const v = Math.max(-8388608, Math.min(8388607, Math.round(x * 8388608)));
+        view.setUint8(offset, v & 0xff);
+        view.setUint8(offset + 1, (v >> 8) & 0xff);
+        view.setUint8(offset + 2, (v >> 16) & 0xff);
+      } else {
+        view.setInt32(offset, Math.max(-2147483648, Math.min(2147483647, Math.round(x * 2147483648))), true);
+      }
+      offset += width;
+    }
+  }
+  return body;
+};
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+};
+
+/**
+ * Encode channel data as a RIFF/WAVE (or RF64) file with optional `bext`,
+ * `iXML` and LIST/INFO chunks.
+ */
+export const encodeWav = ({
+  channels,
+  sampleRate,
+  format,
+  bext,
+  ixml,
+  info,
+  extraChunks = [],
+  channelMask,
+  rf64
+}: WavEncodeOptions) => {
+  const frames = channels[0]?.length ?? 0;
+  const dataSize = frames * channels.length * bytesPerSample(format);
+  const parts: Uint8Array[] = [];
+
+  if (bext) parts.push(...chunk('bext', encodeBext(bext)));
+  parts.push(...chunk('fmt ', formatChunk(format, channels.length, sampleRate, channelMask)));
+  if (format === 'float32') {
+    const fact = new Uint8Array(4);
+    new DataView(fact.buffer).setUint32(0, Math.min(frames, MAX_RIFF_SIZE), true);
+    parts.push(...chunk('fact', fact));
+  }
+  if (info && Object.keys(info).length > 0) parts.push(...chunk('LIST', encodeInfoList(info)));
+  if (ixml) parts.push(...chunk('iXML', textEncoder.encode(ixml)));
+  extraChunks.forEach(({ id, body }) => parts.push(...chunk(id, body)));
+
+  const headerSize = parts.reduce((sum, part) => sum + part.length, 0);
+  const dataParts: Uint8Array[] = [];
+  for (let start = 0; start < frames; start += FRAMES_PER_PART) {
+    dataParts.push(encodeSamples(channels, format, start, Math.min(frames, start + FRAMES_PER_PART)));
+  }
+  if (dataSize % 2 === 1) dataParts.push(new Uint8Array(1));
+
+  // 'WAVE' + chunks + data header and body
+  let riffSize = 4 + headerSize + 8 + dataSize + (dataSize % 2);
+  const useRf64 = rf64 || riffSize > MAX_RIFF_SIZE;
+
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(textEncoder.encode(useRf64 ? 'RF64' : 'RIFF'), 0);
+  header.set(textEncoder.encode('WAVE'), 8);
+
+  const leading: Uint8Array[] = [header];
+  if (useRf64) {
+    // ds64 carries the 64-bit sizes; the 32-bit fields are set to -1
+    const ds64 = new Uint8Array(28);
+    const ds64View = new DataView(ds64.buffer);
+    riffSize += 8 + ds64.length;
+    setUint64(ds64View, 0, riffSize);
+    setUint64(ds64View, 8, dataSize);
+    setUint64(ds64View, 16, frames);
+    leading.push(...chunk('ds64', ds64));
+    view.setUint32(4, MAX_RIFF_SIZE, true);
+  } else {
+    view.setUint32(4, riffSize, true);
+  }
+
+  return new Blob(
+    [...leading, ...parts, chunkHeader('data', useRf64 ? MAX_RIFF_SIZE : dataSize), ...dataParts],
+    { type: 'audio/wav' }
+  );
+};
@@ -0,0 +1,85 @@
+// Min/max overviews for drawing long waveforms. Level 0 holds the minimum
+// and maximum of every BASE_BLOCK samples; each further level halves the
+// resolution. Drawing picks the coarsest level that still has at least one
+// block per pixel, so any zoom costs about one read per pixel.
+
+export interface PeakLevel {
+  blockSize: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export const BASE_BLOCK = 64;
+
+export const buildPeakPyramid = (samples: Float32Array): PeakLevel[] => {
+  const blocks = Math.ceil(samples.length / BASE_BLOCK);
+  let level: PeakLevel = { blockSize: BASE_BLOCK, min: new Float32Array(blocks), max: new Float32Array(blocks) };
+
+  for (let b = 0; b < blocks; b++) {
+    let lo = Infinity;
+    let hi = -Infinity;
+    const end = Math.min(samples.length, (b + 1) * BASE_BLOCK);
+    for (let i = b * BASE_BLOCK; i < end; i++) {
+      const x = samples[i];
+      if (x < lo) lo = x;
+      if (x > hi) hi = x;
+    }
+    level.min[b] = lo;
+    level.max[b] = hi;
+  }
+
+  const levels = [level];
+  while (level.min.length > 1) {
+    const count = Math.ceil(level.min.length / 2);
+    const next: PeakLevel = { blockSize: level.blockSize * 2, min: new Float32Array(count), max: new Float32Array(count) };
+    for (let b = 0; b < count; b++) {
+      const a = 2 * b;
+      const c = Math.min(a + 1, level.min.length - 1);
+      next.min[b] = Math.min(level.min[a], level.min[c]);
+      next.max[b] = Math.max(level.max[a], level.max[c]);
+    }
+    levels.push(next);
+    level = next;
+  }
+  return levels;
+};
+
+/**
+ * Minimum and maximum per pixel column for `columns` columns starting at
+ * sample `start`, `samplesPerColumn` apart. Below one block per pixel the
+ * raw samples are read instead.
+ */
+export const columnPeaks = (
+  samples: Float32Array,
+  pyramid: PeakLevel[],
+  start: number,
+  samplesPerColumn: number,
+  columns: number
+) => {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const level = [...pyramid].reverse().find(l => l.blockSize <= samplesPerColumn);
+
+  for (let c = 0; c < columns; c++) {
+    const from = Math.max(0, Math.floor(start + c * samplesPerColumn));
+    const to = Math.min(samples.length, Math.max(from + 1, Math.floor(start + (c + 1) * samplesPerColumn)));
+    let lo = Infinity;
+    let hi = -Infinity;
+    if (level) {
+      const last = Math.min(level.min.length, Math.ceil(to / level.blockSize));
+      for (let b = Math.floor(from / level.blockSize); b < last; b++) {
+        if (level.min[b] < lo) lo = level.min[b];
+        if (level.max[b] > hi) hi = level.max[b];
+      }
+    } else {
+      for (let i = from; i < to; i++) {
+        if (samples[i] < lo) lo = samples[i];
+        if (samples[i] > hi) hi = samples[i];
+      }
+    }
+    // Past the end of the signal
+    min[c] = lo === Infinity ? 0 : lo;
+    max[c] = hi === -Infinity ? 0 : hi;
+  }
+  return { min, max };
+};
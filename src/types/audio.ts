@@ -0,0 +1,97 @@
+export type SoundType = 'noise' | 'voice' | 'music' | 'ambient' | 'unknown';
+
+export interface AudioSource {
+  id: string;
+  name: string;
+  type: SoundType;
+  decibel: number;
+  frequency: number;
+  position: { x: number; y: number; z: number };
+  // Centre of `distanceEstimate` in metres; without one, only a relative
+  // figure that keeps markers apart
+  distance: number;
+  distanceEstimate?: DistanceEstimate;
+  visible: boolean;
+  color: string;
+  // Stored buffer the source was detected in, and its span there in seconds
+  fileId: string;
+  startTime: number;
+  endTime: number;
+  // Sample peak over the span, on the same scale as `decibel`
+  peakDecibel: number;
+  // Set when `decibel` is dB SPL from a calibration profile; otherwise dBFS
+  calibrationId?: string;
+  // Set for uploaded files the operator assigned that profile to; recordings
+  // take the profile of the input they were made with
+  calibrationAssignment?: CalibrationAssignment;
+  // Set once the source has been classified against the reference library
+  classification?: SourceClassification;
+  // Set for speakers found by diarization: total time they speak, in seconds
+  talkSeconds?: number;
+  // Set when the file's microphone geometry allowed direction finding;
+  // `position` then lies on the bearing
+  direction?: SourceDirection;
+}
+
+export interface CalibrationAssignment {
+  profileId: string;
+  deviceLabel: string;
+  operator: string;
+  assignedAt: string;
+}
+
+export interface SourceDirection {
+  // Degrees clockwise from straight ahead of the microphones
+  bearing: number;
+  // Half-width of the uncertainty wedge, in degrees
+  uncertainty: number;
+  method: 'gcc-phat' | 'srp-phat';
+  // Mean whitened correlation at the bearing: near 1 for a single clear
+  // source, near 0 for diffuse sound
+  coherence: number;
+  // Equally likely bearing behind a line of microphones; null for planar arrays
+  mirrorBearing: number | null;
+  frames: number;
+}
+
+export interface SourceClassification {
+  // Library class; `type` holds the matching built-in type, or 'unknown'
+  label: string;
+  // Share of the k nearest examples per class, for every class in the library
+  probabilities: Record<string, number>;
+  k: number;
+  metric: 'euclidean' | 'manhattan' | 'cosine';
+}
+
+// A span of one stored buffer, in seconds
+export interface TimeRegion {
+  bufferId: string;
+  start: number;
+  end: number;
+}
+
+// A point of one stored buffer to bring into view on the timeline
+export interface TimeMarker {
+  bufferId: string;
+  time: number;
+  label: string;
+}
+
+export interface DistanceCue {
+  method: 'level' | 'drr' | 'hf-rolloff';
+  // Range the cue allows, in metres
+  min: number;
+  max: number;
+  // Measurements and assumptions behind it
+  detail: string;
+}
+
+export interface DistanceEstimate {
+  min: number;
+  max: number;
+  // 0–1: lower for wide ranges and for cues that disagree
+  confidence: number;
+  // Whether the cues' ranges overlap; if not the range spans them all
+  consistent: boolean;
+  cues: DistanceCue[];
+}
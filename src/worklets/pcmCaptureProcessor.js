@@ -0,0 +1,47 @@
+// Collects raw Float32 input in fixed-size chunks and posts them to the main
+// thread untouched. Loaded with audioWorklet.addModule, so it cannot import
+// anything from the app.
+
+const CHUNK_FRAMES = 4096;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffers = null;
+    this.filled = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') {
+        this.flush();
+        this.port.postMessage({ type: 'flushed' });
+      }
+    };
+  }
+
+  flush() {
+    if (!this.buffers || this.filled === 0) return;
+    const channels = this.buffers.map((buffer) => buffer.slice(0, this.filled));
+    this.port.postMessage({ type: 'data', channels }, channels.map((c) => c.buffer));
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    if (!this.buffers || this.buffers.length !== input.length) {
+      this.flush();
+      this.buffers = input.map(() => new Float32Array(CHUNK_FRAMES));
+    }
+
+    const frames = input[0].length;
+    for (let c = 0; c < input.length; c++) {
+      this.buffers[c].set(input[c], this.filled);
+    }
+    this.filled += frames;
+
+    if (this.filled + frames > CHUNK_FRAMES) this.flush();
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);